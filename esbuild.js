@@ -22,30 +22,46 @@ const esbuildProblemMatcherPlugin = {
 	},
 }
 
+/**
+ * @type {import('esbuild').BuildOptions[]}
+ */
+const targets = [
+	// The extension, loaded by VS Code
+	{
+		entryPoints: ['src/extension.ts'],
+		outfile: 'dist/extension.js',
+		external: ['vscode'],
+	},
+	// `slackoscope audit`, for CI and pre-commit hooks; only the VS Code-free modules
+	{
+		entryPoints: ['src/cli/index.ts'],
+		outfile: 'dist/cli.js',
+		banner: {js: '#!/usr/bin/env node'},
+	},
+]
+
 async function main() {
-	const ctx = await esbuild.context({
-		entryPoints: [
-			'src/extension.ts'
-		],
+	const contexts = await Promise.all(targets.map(target => esbuild.context({
+		...target,
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
 			/* add to the end of plugins array */
 			esbuildProblemMatcherPlugin,
 		],
-	})
+	})))
 	if (watch) {
-		await ctx.watch()
+		await Promise.all(contexts.map(ctx => ctx.watch()))
 	} else {
-		await ctx.rebuild()
-		await ctx.dispose()
+		for (const ctx of contexts) {
+			await ctx.rebuild()
+			await ctx.dispose()
+		}
 	}
 }
 
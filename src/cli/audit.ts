@@ -0,0 +1,126 @@
+/**
+ * Auditing scanned links: which are dead, and which point at work that's finished.
+ *
+ * Links are resolved the way the extension resolves them, through SlackLoader and
+ * LinearLoader, so a thread linked from many places is fetched once and a reply is
+ * looked up in its thread.
+ */
+
+import {MessageDeletedError, SlackError, type SlackLoader, type SlackMessage} from "../slack"
+import type {LinearLoader} from "../linear"
+import type {ScannedLink} from "./scan"
+
+/** SARIF's levels, most severe first */
+export type AuditLevel = "error" | "warning" | "note"
+
+export const AUDIT_LEVELS: AuditLevel[] = ["error", "warning", "note"]
+
+export type AuditRule =
+  "message-deleted" | "message-not-found" | "channel-not-found" | "link-unresolved" | "issue-resolved" | "issue-old"
+
+/** What each rule catches, and how bad it is */
+export const AUDIT_RULES: Record<AuditRule, {level: AuditLevel; description: string}> = {
+  "message-deleted": {level: "error", description: "The linked Slack message was deleted"},
+  "message-not-found": {level: "error", description: "Slack can't find the linked message"},
+  "channel-not-found": {
+    level: "warning",
+    description: "The linked channel is private to the token, or was deleted"
+  },
+  "link-unresolved": {level: "note", description: "Slack couldn't be asked about the link"},
+  "issue-resolved": {level: "warning", description: "The thread's Linear issue is done"},
+  "issue-old": {level: "note", description: "The thread's Linear issue hasn't been updated in a while"}
+}
+
+export interface AuditFinding {
+  rule: AuditRule
+  level: AuditLevel
+  message: string
+  link: ScannedLink
+}
+
+export interface AuditOptions {
+  /** Linear state types that count as done */
+  doneStateTypes: string[]
+  /** Days without an update before a Linear issue counts as old */
+  oldDays: number
+  now?: Date
+}
+
+export interface AuditDependencies {
+  slackLoader: SlackLoader
+  linearLoader: LinearLoader
+}
+
+/**
+ * Check every link. A token Slack rejects fails the whole audit, since every link would
+ * fail the same way; other failures are findings.
+ */
+export async function auditLinks(
+  links: ScannedLink[],
+  deps: AuditDependencies,
+  options: AuditOptions
+): Promise<AuditFinding[]> {
+  const findings = await Promise.all(links.map(link => auditLink(link, deps, options)))
+  return findings.flat()
+}
+
+async function auditLink(link: ScannedLink, deps: AuditDependencies, options: AuditOptions): Promise<AuditFinding[]> {
+  const finding = (rule: AuditRule, message: string): AuditFinding => ({
+    rule,
+    level: AUDIT_RULES[rule].level,
+    message,
+    link
+  })
+
+  let messages: SlackMessage[]
+  try {
+    messages = (await deps.slackLoader.getMessagesForUrl(link.url)).all
+  } catch (error) {
+    if (error instanceof MessageDeletedError) return [finding("message-deleted", "Linked Slack message was deleted")]
+    if (!(error instanceof SlackError)) throw error
+    if (error.kind === "auth") throw error
+
+    switch (error.code) {
+      case "message_not_found":
+        return [finding("message-not-found", "Linked Slack message wasn't found")]
+      case "channel_not_found":
+        return [
+          finding(
+            "channel-not-found",
+            "Can't see the linked Slack channel — it's private and the token isn't a member, or it was deleted"
+          )
+        ]
+      default:
+        return [finding("link-unresolved", `Couldn't check the link (${error.code})`)]
+    }
+  }
+
+  // The best-matching issue speaks for the thread
+  const [issue] = await deps.linearLoader.getIssuesForUrl(link.url, messages)
+  if (!issue) return []
+
+  if (options.doneStateTypes.includes(issue.state.type)) {
+    return [finding("issue-resolved", `${issue.identifier} is ${issue.state.name} — this reference may be stale`)]
+  }
+
+  const days = Math.floor(((options.now ?? new Date()).getTime() - new Date(issue.updatedAt).getTime()) / 86400000)
+  if (days >= options.oldDays) {
+    return [finding("issue-old", `${issue.identifier} hasn't been updated in ${days} days`)]
+  }
+  return []
+}
+
+/**
+ * Whether Slack couldn't be asked about any of the links, e.g. because it's unreachable.
+ * Such a run checked nothing, so it mustn't pass for a clean one.
+ */
+export function resolvedNone(links: ScannedLink[], findings: AuditFinding[]): boolean {
+  const unresolved = new Set(findings.filter(({rule}) => rule === "link-unresolved").map(({link}) => link))
+  return links.length > 0 && links.every(link => unresolved.has(link))
+}
+
+/** Whether any finding is at `threshold` or worse */
+export function exceedsThreshold(findings: AuditFinding[], threshold: AuditLevel): boolean {
+  const worst = AUDIT_LEVELS.indexOf(threshold)
+  return findings.some(({level}) => AUDIT_LEVELS.indexOf(level) <= worst)
+}
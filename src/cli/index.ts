@@ -0,0 +1,13 @@
+/**
+ * CLI entry point, bundled to `dist/cli.js` and installed as the `slackoscope` bin.
+ */
+
+import {main} from "./main"
+
+main(process.argv.slice(2), {
+  env: process.env,
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text)
+}).then(code => {
+  process.exitCode = code
+})
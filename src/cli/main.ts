@@ -0,0 +1,144 @@
+/**
+ * `slackoscope audit <dir>` - check a repository's Slack and Linear references from CI
+ * or a pre-commit hook.
+ *
+ * Tokens come from the environment: `SLACKOSCOPE_TOKEN` for Slack (required) and
+ * `SLACKOSCOPE_LINEAR_TOKEN` for Linear (optional; without it issues aren't checked).
+ * `SLACKOSCOPE_SLACK_API_URL` and `SLACKOSCOPE_LINEAR_API_URL` point the clients
+ * elsewhere, e.g. at a proxy.
+ *
+ * Exit codes: 0 when nothing reaches `--fail-on`, 1 when something does, 2 when the
+ * audit couldn't run (bad arguments, missing or rejected token, or not one link resolved).
+ */
+
+import {parseArgs} from "util"
+import {resolve} from "path"
+import {SlackClient, SlackError, SlackLoader, SlackStore} from "../slack"
+import {LinearClient, LinearLoader, LinearStore} from "../linear"
+import {AUDIT_LEVELS, auditLinks, exceedsThreshold, resolvedNone, type AuditLevel} from "./audit"
+import {formatReport, REPORT_FORMATS, type ReportFormat} from "./report"
+import {scanDirectory} from "./scan"
+
+/** Where the CLI reads its environment and writes its output; tests swap these */
+export interface CliIO {
+  env: Record<string, string | undefined>
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+export const EXIT_OK = 0
+export const EXIT_FINDINGS = 1
+export const EXIT_ERROR = 2
+
+const USAGE = `Usage: slackoscope audit [dir] [options]
+
+Check the Slack links in a directory: deleted or missing messages, channels the token
+can't see, and threads whose Linear issue is done or hasn't moved in a while.
+
+Options:
+  --format <text|json|sarif>             Report format (default: text)
+  --fail-on <error|warning|note|never>   Exit with 1 when a finding is this bad or worse (default: error)
+  --done-states <types>                  Linear state types that count as done, comma-separated
+                                         (default: completed)
+  --old-days <days>                      Days without an update before an issue is old (default: 90)
+  -h, --help                             Show this help
+
+Environment:
+  SLACKOSCOPE_TOKEN                      Slack token (required)
+  SLACKOSCOPE_LINEAR_TOKEN               Linear API key (optional)
+`
+
+/** Thrown for arguments the CLI can't run with */
+class UsageError extends Error {}
+
+interface AuditCommand {
+  dir: string
+  format: ReportFormat
+  failOn: AuditLevel | "never"
+  doneStateTypes: string[]
+  oldDays: number
+}
+
+export async function main(args: string[], io: CliIO): Promise<number> {
+  let command: AuditCommand | "help"
+  try {
+    command = parseCommand(args)
+  } catch (error) {
+    io.stderr(`slackoscope: ${error instanceof Error ? error.message : error}\n\n${USAGE}`)
+    return EXIT_ERROR
+  }
+
+  if (command === "help") {
+    io.stdout(USAGE)
+    return EXIT_OK
+  }
+
+  const slackToken = io.env.SLACKOSCOPE_TOKEN
+  if (!slackToken) {
+    io.stderr("slackoscope: set SLACKOSCOPE_TOKEN to a Slack token that can read the linked channels\n")
+    return EXIT_ERROR
+  }
+  const linearToken = io.env.SLACKOSCOPE_LINEAR_TOKEN
+
+  const slackClient = new SlackClient(slackToken, {baseUrl: io.env.SLACKOSCOPE_SLACK_API_URL})
+  const linearClient = linearToken ? new LinearClient(linearToken, {endpoint: io.env.SLACKOSCOPE_LINEAR_API_URL}) : null
+  const deps = {
+    slackLoader: new SlackLoader(slackClient, new SlackStore()),
+    linearLoader: new LinearLoader(linearClient, new LinearStore())
+  }
+
+  try {
+    const scan = await scanDirectory(command.dir)
+    const findings = await auditLinks(scan.links, deps, command)
+    io.stdout(formatReport(command.format, scan, findings))
+
+    if (resolvedNone(scan.links, findings)) {
+      io.stderr("slackoscope: couldn't check any of the links — is Slack reachable from here?\n")
+      return EXIT_ERROR
+    }
+    if (command.failOn === "never") return EXIT_OK
+    return exceedsThreshold(findings, command.failOn) ? EXIT_FINDINGS : EXIT_OK
+  } catch (error) {
+    if (error instanceof SlackError && error.kind === "auth") {
+      io.stderr(`slackoscope: Slack rejected the token (${error.code}) — check SLACKOSCOPE_TOKEN\n`)
+    } else {
+      io.stderr(`slackoscope: ${error instanceof Error ? error.message : error}\n`)
+    }
+    return EXIT_ERROR
+  }
+}
+
+function parseCommand(args: string[]): AuditCommand | "help" {
+  const {values, positionals} = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: {type: "string", default: "text"},
+      "fail-on": {type: "string", default: "error"},
+      "done-states": {type: "string", default: "completed"},
+      "old-days": {type: "string", default: "90"},
+      help: {type: "boolean", short: "h"}
+    }
+  })
+  if (values.help) return "help"
+
+  const [name, dir = ".", ...extra] = positionals
+  if (name !== "audit") throw new UsageError(name ? `unknown command "${name}"` : "missing command")
+  if (extra.length) throw new UsageError(`unexpected argument "${extra[0]}"`)
+
+  const format = values.format as ReportFormat
+  if (!REPORT_FORMATS.includes(format)) throw new UsageError(`unknown format "${format}"`)
+
+  const failOn = values["fail-on"] as AuditLevel | "never"
+  if (failOn !== "never" && !AUDIT_LEVELS.includes(failOn)) throw new UsageError(`unknown level "${failOn}"`)
+
+  const oldDays = Number(values["old-days"])
+  if (!Number.isInteger(oldDays) || oldDays < 1) throw new UsageError("--old-days takes a whole number of days")
+
+  const doneStateTypes = values["done-states"]
+    .split(",")
+    .map(type => type.trim())
+    .filter(Boolean)
+
+  return {dir: resolve(dir), format, failOn, doneStateTypes, oldDays}
+}
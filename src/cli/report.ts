@@ -0,0 +1,110 @@
+/**
+ * Audit reports: text for people, JSON for scripts, SARIF for code scanning.
+ */
+
+import {AUDIT_LEVELS, AUDIT_RULES, type AuditFinding, type AuditLevel, type AuditRule} from "./audit"
+import type {ScanResult} from "./scan"
+
+export type ReportFormat = "text" | "json" | "sarif"
+
+export const REPORT_FORMATS: ReportFormat[] = ["text", "json", "sarif"]
+
+export function formatReport(format: ReportFormat, scan: ScanResult, findings: AuditFinding[]): string {
+  const sorted = [...findings].sort(
+    (a, b) => a.link.file.localeCompare(b.link.file) || a.link.line - b.link.line || a.link.column - b.link.column
+  )
+  switch (format) {
+    case "text":
+      return formatText(scan, sorted)
+    case "json":
+      return formatJson(scan, sorted)
+    case "sarif":
+      return formatSarif(sorted)
+  }
+}
+
+/**
+ * One line per finding, in the `file:line:column` form terminals and editors link up.
+ *
+ * @example
+ * // src/app.ts:3:7: error: Linked Slack message was deleted [message-deleted]
+ * //   https://acme.slack.com/archives/C1234/p1234567890123456
+ */
+function formatText(scan: ScanResult, findings: AuditFinding[]): string {
+  const lines = findings.flatMap(({rule, level, message, link}) => [
+    `${link.file}:${link.line}:${link.column}: ${level}: ${message} [${rule}]`,
+    `  ${link.url.raw}`
+  ])
+  const checked = `${plural(scan.links.length, "link")} in ${plural(scan.files, "file")}`
+
+  if (!findings.length) return `No problems in ${checked}\n`
+
+  const counts = AUDIT_LEVELS.map(level => plural(findings.filter(f => f.level === level).length, level))
+  return `${lines.join("\n")}\n\n${plural(findings.length, "problem")} (${counts.join(", ")}) in ${checked}\n`
+}
+
+function formatJson(scan: ScanResult, findings: AuditFinding[]): string {
+  const summary: Record<string, number> = {files: scan.files, links: scan.links.length}
+  for (const level of AUDIT_LEVELS) summary[level] = findings.filter(f => f.level === level).length
+
+  const report = {
+    summary,
+    findings: findings.map(({rule, level, message, link}) => ({
+      rule,
+      level,
+      message,
+      file: link.file,
+      line: link.line,
+      column: link.column,
+      url: link.url.raw
+    }))
+  }
+  return `${JSON.stringify(report, null, 2)}\n`
+}
+
+/** SARIF 2.1.0, as GitHub code scanning and most CI dashboards read it */
+function formatSarif(findings: AuditFinding[]): string {
+  const rules = Object.entries(AUDIT_RULES) as [AuditRule, {level: AuditLevel; description: string}][]
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "slackoscope",
+            informationUri: "https://github.com/LemuelCushing/slackoscope",
+            rules: rules.map(([id, {level, description}]) => ({
+              id,
+              shortDescription: {text: description},
+              defaultConfiguration: {level}
+            }))
+          }
+        },
+        results: findings.map(({rule, level, message, link}) => ({
+          ruleId: rule,
+          ruleIndex: rules.findIndex(([id]) => id === rule),
+          level,
+          message: {text: `${message}: ${link.url.raw}`},
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {uri: link.file},
+                region: {
+                  startLine: link.line,
+                  startColumn: link.column,
+                  endColumn: link.column + link.url.raw.length
+                }
+              }
+            }
+          ]
+        }))
+      }
+    ]
+  }
+  return `${JSON.stringify(log, null, 2)}\n`
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`
+}
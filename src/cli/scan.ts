@@ -0,0 +1,98 @@
+/**
+ * Finding Slack links in a directory tree, without VS Code.
+ *
+ * In a git checkout the file list comes from git, so `.gitignore` applies exactly as it
+ * does for commits. Elsewhere the tree is walked, skipping dot-directories and
+ * `node_modules`. Large and binary files are skipped either way.
+ */
+
+import {execFile} from "child_process"
+import {readdir, readFile, stat} from "fs/promises"
+import {join, relative, sep} from "path"
+import {promisify} from "util"
+import {findAllSlackUrls, type SlackUrl} from "../slack"
+
+/** A Slack message link in a file */
+export interface ScannedLink {
+  /** Relative to the scanned directory, with forward slashes */
+  file: string
+  /** 1-based, as editors and SARIF count them */
+  line: number
+  column: number
+  url: SlackUrl
+}
+
+export interface ScanResult {
+  files: number
+  links: ScannedLink[]
+}
+
+/** Bigger files are generated or data, not where people paste Slack links */
+const MAX_FILE_SIZE = 1024 * 1024
+
+/** Directories the walk never enters when git can't list the files */
+const SKIPPED_DIRECTORIES = new Set(["node_modules", "dist", "out"])
+
+export async function scanDirectory(root: string): Promise<ScanResult> {
+  const files = (await gitFiles(root)) ?? (await walk(root))
+  const links: ScannedLink[] = []
+
+  // One file at a time: a big repo shouldn't hold every file in memory at once
+  for (const file of files.sort()) {
+    const text = await readText(join(root, file))
+    if (text !== null) links.push(...scanText(file.split(sep).join("/"), text))
+  }
+  return {files: files.length, links}
+}
+
+/** Every Slack message link in `text`, with its position */
+export function scanText(file: string, text: string): ScannedLink[] {
+  return text.split(/\r?\n/).flatMap((lineText, index) => {
+    let from = 0
+    return findAllSlackUrls(lineText).map(url => {
+      const column = lineText.indexOf(url.raw, from)
+      from = column + url.raw.length
+      return {file, line: index + 1, column: column + 1, url}
+    })
+  })
+}
+
+/** Tracked and untracked-but-not-ignored files, or null outside a git checkout */
+async function gitFiles(root: string): Promise<string[] | null> {
+  try {
+    const {stdout} = await promisify(execFile)(
+      "git",
+      ["ls-files", "--cached", "--others", "--exclude-standard", "-z"],
+      {cwd: root, maxBuffer: 64 * 1024 * 1024}
+    )
+    return stdout.split("\0").filter(Boolean)
+  } catch {
+    return null
+  }
+}
+
+async function walk(root: string, directory = root): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await readdir(directory, {withFileTypes: true})) {
+    const path = join(directory, entry.name)
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && !SKIPPED_DIRECTORIES.has(entry.name)) files.push(...(await walk(root, path)))
+    } else if (entry.isFile()) {
+      files.push(relative(root, path))
+    }
+  }
+  return files
+}
+
+/** The file's text, or null when it's too big, binary or unreadable */
+async function readText(path: string): Promise<string | null> {
+  try {
+    if ((await stat(path)).size > MAX_FILE_SIZE) return null
+    const bytes = await readFile(path)
+    // A NUL byte means binary; there are no links worth finding in it
+    return bytes.includes(0) ? null : bytes.toString("utf8")
+  } catch {
+    // Deleted since it was listed, or unreadable - either way, nothing to scan
+    return null
+  }
+}
@@ -17,7 +17,15 @@ import {
   Settings,
   HoverProvider,
   CodeActionProvider,
+  CodeLensProvider,
+  ThreadDocumentProvider,
+  DocumentLinkProvider,
   DecorationController,
+  ThreadPanelController,
+  ReferenceIndex,
+  ReferencesTreeProvider,
+  PersistentCache,
+  cacheAccount,
   registerCommands,
   type LoaderDependencies,
   type CommandDependencies,
@@ -62,7 +70,14 @@ class Slackoscope implements vscode.Disposable {
   // VS Code integrations
   private hoverProvider!: HoverProvider
   private codeActionProvider!: CodeActionProvider
+  private codeLenses!: CodeLensProvider
+  private threadDocuments!: ThreadDocumentProvider
   private decorationController!: DecorationController
+  private threadPanels!: ThreadPanelController
+  private referenceIndex!: ReferenceIndex
+  private persistentCache!: PersistentCache
+  /** `cacheAccount()` of the tokens the clients were built with */
+  private account = ""
 
   // Utilities
   private readonly onePassword = new OnePasswordApi()
@@ -89,10 +104,24 @@ class Slackoscope implements vscode.Disposable {
     // Create loaders
     this.rebuildLoaders()
 
+    // Warm the caches from the previous session
+    this.persistentCache = new PersistentCache(
+      this.context.globalStorageUri,
+      this.slackStore,
+      this.linearStore,
+      this.settings,
+      () => this.account,
+    )
+    await this.persistentCache.load()
+
     // Create VS Code integrations
     this.hoverProvider = new HoverProvider(this.loaderDeps, this.settings)
     this.codeActionProvider = new CodeActionProvider(this.loaderDeps)
+    this.codeLenses = new CodeLensProvider(this.loaderDeps, this.settings)
+    this.threadDocuments = new ThreadDocumentProvider(this.loaderDeps)
     this.decorationController = new DecorationController(this.loaderDeps, this.settings)
+    this.threadPanels = new ThreadPanelController(this.loaderDeps, this.slackStore)
+    this.referenceIndex = new ReferenceIndex()
 
     this.commandDeps = {
       slackClient: this.slackClient,
@@ -102,6 +131,10 @@ class Slackoscope implements vscode.Disposable {
       linearStore: this.linearStore,
       linearLoader: this.linearLoader,
       decorationController: this.decorationController,
+      codeLenses: this.codeLenses,
+      threadPanels: this.threadPanels,
+      referenceIndex: this.referenceIndex,
+      persistentCache: this.persistentCache,
       settings: this.settings,
     }
 
@@ -110,18 +143,43 @@ class Slackoscope implements vscode.Disposable {
       vscode.languages.registerHoverProvider("*", this.hoverProvider),
       vscode.languages.registerCodeActionsProvider("*", this.codeActionProvider, {
         providedCodeActionKinds: CodeActionProvider.providedCodeActionKinds,
+      }),
+      vscode.languages.registerCodeLensProvider("*", this.codeLenses),
+      this.codeLenses,
+      vscode.workspace.registerTextDocumentContentProvider(ThreadDocumentProvider.scheme, this.threadDocuments),
+      vscode.languages.registerDocumentLinkProvider("*", new DocumentLinkProvider(this.settings)),
+      this.threadDocuments,
+      vscode.window.createTreeView("slackoscope.references", {
+        treeDataProvider: new ReferencesTreeProvider(this.referenceIndex, this.loaderDeps),
+        showCollapseAll: true,
       })
     )
 
     // Register commands
     registerCommands(this.context, this.commandDeps)
 
+    // Re-render decorations when a background refresh brings in newer data
+    this.disposables.push(
+      this.slackStore.onDidChange(change => this.decorationController.refresh(change)),
+      this.slackStore.onDidChange(change => this.threadDocuments.refresh(change)),
+      this.slackStore.onDidChange(() => this.codeLenses.refresh()),
+      this.linearStore.onDidChange(change => this.decorationController.refresh(change)),
+      this.linearStore.onDidChange(() => this.codeLenses.refresh())
+    )
+
+    // Index the workspace's Slack links in the background; the tree fills in when it's done
+    this.syncReferenceIndex()
+
     // Subscribe to settings changes
     this.disposables.push(
       this.settings.onDidChange(async event => {
         if (event.tokensChanged) {
           await this.reconfigure()
         }
+        if (event.displayChanged) {
+          this.codeLenses.refresh()
+        }
+        this.syncReferenceIndex()
       })
     )
 
@@ -141,6 +199,7 @@ class Slackoscope implements vscode.Disposable {
 
     this.slackClient = this.factory.createSlackClient(slackToken || "")
     this.linearClient = linearToken ? this.factory.createLinearClient(linearToken) : null
+    this.account = cacheAccount(slackToken, linearToken)
 
     if (!slackToken && !this.isTestMode) {
       vscode.window.showWarningMessage(
@@ -150,13 +209,32 @@ class Slackoscope implements vscode.Disposable {
   }
 
   private async reconfigure(): Promise<void> {
+    const previousAccount = this.account
     await this.buildClients()
+
+    // New tokens may see another workspace, so nothing cached with the old ones applies
+    if (this.account !== previousAccount) {
+      this.slackStore.clear()
+      this.linearStore.clear()
+    }
     this.rebuildLoaders()
   }
 
+  /** Start or stop the workspace index to match `slackoscope.references.index` */
+  private syncReferenceIndex(): void {
+    const {index} = this.settings.references
+    if (index && !this.referenceIndex.isRunning) {
+      this.referenceIndex.start().catch(error => console.error("Slack reference indexing failed:", error))
+    } else if (!index && this.referenceIndex.isRunning) {
+      this.referenceIndex.stop()
+    }
+  }
+
   private rebuildLoaders(): void {
     this.slackLoader = new SlackLoader(this.slackClient, this.slackStore)
-    this.linearLoader = new LinearLoader(this.linearClient, this.linearStore)
+    this.linearLoader = new LinearLoader(this.linearClient, this.linearStore, {
+      teamKeys: () => this.settings.linear.teamKeys,
+    })
 
     syncLiveDependencies(
       this.loaderDeps,
@@ -182,16 +260,24 @@ class Slackoscope implements vscode.Disposable {
     }
   }
 
-  dispose(): void {
+  /** Resolves once the cache is on disk */
+  dispose(): Promise<void> {
+    // The save reads the stores right away, so they can be emptied while it writes
+    const saved = this.persistentCache.dispose()
     this.slackStore.clear()
     this.linearStore.clear()
     this.decorationController.dispose()
+    this.threadPanels.dispose()
+    this.referenceIndex.dispose()
     this.settings.dispose()
     this.disposables.forEach(d => d.dispose())
+    return saved
   }
 }
 
 // Entry point
+let extension: Slackoscope | undefined
+
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
   console.log("Slackoscope is activating...")
 
@@ -199,7 +285,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   const testMocks = getTestMocks()
   const factory = testMocks ?? clientFactory
 
-  const extension = new Slackoscope(context, factory)
+  extension = new Slackoscope(context, factory)
   await extension.activate()
-  context.subscriptions.push(extension)
+}
+
+/** VS Code waits for the returned promise, unlike for disposables, so the cache gets written */
+export function deactivate(): Promise<void> | undefined {
+  const disposing = extension?.dispose()
+  extension = undefined
+  return disposing
 }
@@ -0,0 +1,104 @@
+/**
+ * Links to code on a git host: the file and lines, pinned to the current commit.
+ *
+ * Remotes are read in the shapes git accepts (`git@host:org/repo.git`,
+ * `ssh://git@host/org/repo`, `https://host/org/repo.git`) and turned into the host's
+ * web URL. Line anchors follow the host: GitLab and Bitbucket spell ranges differently
+ * from GitHub, whose style is used for every other host.
+ */
+
+import {execFile} from "child_process"
+import {realpath} from "fs/promises"
+import {dirname, relative, sep} from "path"
+import {promisify} from "util"
+
+/** A link to lines of a file at a commit */
+export interface GitCodeLink {
+  url: string
+  /** The file, relative to the repository root, with forward slashes */
+  path: string
+  /** `org/repo` */
+  repo: string
+  commit: string
+  /** 1-based, inclusive */
+  startLine: number
+  endLine: number
+}
+
+/**
+ * The web URL of a repository from its remote, or null for remotes that aren't on a web host
+ * (local paths, `file://`).
+ *
+ * @example
+ * remoteWebUrl("git@github.com:acme/app.git") // => "https://github.com/acme/app"
+ */
+export function remoteWebUrl(remote: string): string | null {
+  const trimmed = remote
+    .trim()
+    .replace(/\.git$/, "")
+    .replace(/\/+$/, "")
+
+  // scp-like syntax: [user@]host:path
+  const scp = /^(?:[\w.-]+@)?([\w.-]+):(?!\/\/)(.+)$/.exec(trimmed)
+  if (scp) return `https://${scp[1]}/${scp[2]}`
+
+  const url = /^(?:https?|ssh|git):\/\/(?:[^@/]+@)?([\w.-]+)(?::\d+)?\/(.+)$/.exec(trimmed)
+  if (url) return `https://${url[1]}/${url[2]}`
+
+  return null
+}
+
+/**
+ * A link to lines `startLine`-`endLine` (1-based, inclusive) of `path` at `commit`.
+ *
+ * @example
+ * codeLineUrl("https://github.com/acme/app", "4f2a9c1", "src/app.ts", 10, 12)
+ * // => "https://github.com/acme/app/blob/4f2a9c1/src/app.ts#L10-L12"
+ */
+export function codeLineUrl(webUrl: string, commit: string, path: string, startLine: number, endLine: number): string {
+  const {hostname} = new URL(webUrl)
+  const single = startLine === endLine
+  const file = path.split("/").map(encodeURIComponent).join("/")
+
+  if (hostname.includes("gitlab")) {
+    return `${webUrl}/-/blob/${commit}/${file}#L${single ? startLine : `${startLine}-${endLine}`}`
+  }
+  if (hostname.includes("bitbucket")) {
+    return `${webUrl}/src/${commit}/${file}#lines-${single ? startLine : `${startLine}:${endLine}`}`
+  }
+  return `${webUrl}/blob/${commit}/${file}#L${startLine}${single ? "" : `-L${endLine}`}`
+}
+
+/**
+ * A link to lines of `file` at the checkout's current commit, on the `origin` remote's host.
+ * Returns null outside a git checkout, without an `origin`, or before the first commit.
+ */
+export async function gitCodeLink(file: string, startLine: number, endLine: number): Promise<GitCodeLink | null> {
+  try {
+    const resolved = await realpath(file)
+    const git = async (...args: string[]) =>
+      (await promisify(execFile)("git", args, {cwd: dirname(resolved)})).stdout.trim()
+
+    const [root, commit, remote] = await Promise.all([
+      git("rev-parse", "--show-toplevel"),
+      git("rev-parse", "HEAD"),
+      git("remote", "get-url", "origin")
+    ])
+    const webUrl = remoteWebUrl(remote)
+    if (!webUrl) return null
+
+    const path = relative(await realpath(root), resolved)
+      .split(sep)
+      .join("/")
+    return {
+      url: codeLineUrl(webUrl, commit, path, startLine, endLine),
+      path,
+      repo: new URL(webUrl).pathname.slice(1),
+      commit,
+      startLine,
+      endLine
+    }
+  } catch {
+    return null
+  }
+}
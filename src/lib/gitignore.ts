@@ -0,0 +1,22 @@
+/**
+ * Turn `.gitignore` lines into the glob patterns `workspace.findFiles` understands.
+ *
+ * Covers what repos actually write: comments, directory patterns (`build/`), patterns
+ * anchored to the root (`/dist`), and wildcards. Negations (`!keep.log`) can't be
+ * expressed as an exclude glob, so they're skipped - the file stays excluded.
+ *
+ * @example
+ * gitignoreGlobs("node_modules/\n/dist\n*.log")
+ * // => ["**\/node_modules", "**\/node_modules/**", "dist", "dist/**", "**\/*.log", "**\/*.log/**"]
+ */
+export function gitignoreGlobs(text: string): string[] {
+  return text.split(/\r?\n/).flatMap(line => {
+    const pattern = line.trim().replace(/\/+$/, "")
+    if (!pattern || pattern.startsWith("#") || pattern.startsWith("!")) return []
+
+    // A slash anywhere but the end ties the pattern to the .gitignore's directory
+    const anchored = pattern.includes("/")
+    const glob = anchored ? pattern.replace(/^\//, "") : `**/${pattern}`
+    return [glob, `${glob}/**`]
+  })
+}
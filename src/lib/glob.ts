@@ -0,0 +1,63 @@
+/**
+ * Match paths against the glob dialect of `files.exclude` and `findFiles`: `**`, `*`, `?`,
+ * `[abc]` and `{a,b}`. Lets a file be checked against exclude rules without asking
+ * VS Code to search for it.
+ */
+
+/**
+ * A test for workspace-relative paths (forward slashes). A path matches when it or any
+ * folder above it does, the way an excluded folder takes everything under it along.
+ *
+ * @example
+ * const excluded = globMatcher(["**\/node_modules", "dist"])
+ * excluded("web/node_modules/lib/index.js") // => true
+ * excluded("src/dist/index.js") // => false
+ */
+export function globMatcher(globs: string[]): (path: string) => boolean {
+  const patterns = globs.map(globToRegExp)
+  return path => {
+    const segments = path.split("/")
+    const prefixes = segments.map((_, i) => segments.slice(0, i + 1).join("/"))
+    return patterns.some(pattern => prefixes.some(prefix => pattern.test(prefix)))
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = ""
+  let braces = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*" && glob[i + 1] === "*") {
+      i++
+      if (glob[i + 1] === "/") {
+        i++
+        source += "(?:.*/)?"
+      } else {
+        source += ".*"
+      }
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[" && glob.indexOf("]", i + 2) !== -1) {
+      const end = glob.indexOf("]", i + 2)
+      const body = glob
+        .slice(i + 1, end)
+        .replace(/^!/, "^")
+        .replace(/\\/g, "\\\\")
+      source += `[${body}]`
+      i = end
+    } else if (char === "{") {
+      braces++
+      source += "(?:"
+    } else if (char === "}" && braces) {
+      braces--
+      source += ")"
+    } else if (char === "," && braces) {
+      source += "|"
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
@@ -0,0 +1,25 @@
+/**
+ * Markdown links that are safe in a trusted hover: only web and mail URLs become links,
+ * since a `command:` link would run on click. Shared by the mrkdwn converter and the
+ * Block Kit renderer, so both guard against the same URLs.
+ */
+
+/** The URL schemes a hover may link to; anything else (`command:`, `file:`) shows as text */
+export const LINK_SCHEMES = /^(?:https?|mailto):/i
+
+/**
+ * A Markdown link from already-escaped `label` to `url`, or just the label when the URL
+ * isn't a web or mail link.
+ *
+ * @example
+ * link("docs", "https://example.com/a (b)") // => "[docs](https://example.com/a%20%28b%29)"
+ * link("run", "command:workbench.action.terminal.new") // => "run"
+ */
+export function link(label: string, url: string | undefined): string {
+  return url && LINK_SCHEMES.test(url) ? `[${label}](${linkTarget(url)})` : label
+}
+
+/** Percent-encode the characters that would end a Markdown link target early */
+export function linkTarget(url: string): string {
+  return url.replace(/[()\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`)
+}
@@ -2,7 +2,17 @@
  * LinearClient - HTTP client for Linear GraphQL API.
  */
 
-import type {LinearIssue, LinearComment, LinearViewer, LinearWorkflowState} from "./types"
+import type {
+  LinearIssue,
+  LinearComment,
+  LinearViewer,
+  LinearWorkflowState,
+  LinearTeam,
+  LinearProject,
+  LinearIssueInput,
+  LinearAttachment,
+  LinearAttachmentInput,
+} from "./types"
 
 export interface ILinearClient {
   getIssueByIdentifier(identifier: string): Promise<LinearIssue>
@@ -13,12 +23,28 @@ export interface ILinearClient {
   assignIssue(issueId: string, assigneeId: string | null): Promise<LinearIssue>
   updateIssueState(issueId: string, stateId: string): Promise<LinearIssue>
   getWorkflowStates(issueId: string): Promise<LinearWorkflowState[]>
+  getTeams(): Promise<LinearTeam[]>
+  getProjects(teamId: string): Promise<LinearProject[]>
+  createIssue(input: LinearIssueInput): Promise<LinearIssue>
+  getAttachments(issueId: string): Promise<LinearAttachment[]>
+  createAttachment(input: LinearAttachmentInput): Promise<LinearAttachment>
+  linkAttachmentUrl(issueId: string, url: string, title?: string): Promise<LinearAttachment>
+}
+
+export interface LinearClientOptions {
+  /** GraphQL endpoint; tests point this at a local fake server */
+  endpoint?: string
 }
 
 export class LinearClient implements ILinearClient {
-  private readonly endpoint = "https://api.linear.app/graphql"
+  private readonly endpoint: string
 
-  constructor(private readonly token: string) {}
+  constructor(
+    private readonly token: string,
+    options: LinearClientOptions = {}
+  ) {
+    this.endpoint = options.endpoint ?? "https://api.linear.app/graphql"
+  }
 
   private async query<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
     const response = await fetch(this.endpoint, {
@@ -52,6 +78,12 @@ export class LinearClient implements ILinearClient {
           title
           url
           updatedAt
+          priority
+          priorityLabel
+          assignee {
+            id
+            name
+          }
           state {
             id
             name
@@ -227,4 +259,136 @@ export class LinearClient implements ILinearClient {
     const statesData = await this.query<{workflowStates: {nodes: LinearWorkflowState[]}}>(statesQuery, {teamId})
     return statesData.workflowStates.nodes
   }
+
+  async getTeams(): Promise<LinearTeam[]> {
+    const query = `
+      query Teams {
+        teams {
+          nodes {
+            id
+            key
+            name
+          }
+        }
+      }
+    `
+
+    const data = await this.query<{teams: {nodes: LinearTeam[]}}>(query)
+    return data.teams.nodes
+  }
+
+  async getProjects(teamId: string): Promise<LinearProject[]> {
+    const query = `
+      query TeamProjects($teamId: String!) {
+        team(id: $teamId) {
+          projects {
+            nodes {
+              id
+              name
+            }
+          }
+        }
+      }
+    `
+
+    const data = await this.query<{team: {projects: {nodes: LinearProject[]}}}>(query, {teamId})
+    return data.team.projects.nodes
+  }
+
+  async createIssue(input: LinearIssueInput): Promise<LinearIssue> {
+    const query = `
+      mutation CreateIssue($input: IssueCreateInput!) {
+        issueCreate(input: $input) {
+          success
+          issue {
+            id
+            identifier
+            title
+            url
+            updatedAt
+            priority
+            priorityLabel
+            assignee {
+              id
+              name
+            }
+            state {
+              id
+              name
+              color
+              type
+            }
+          }
+        }
+      }
+    `
+
+    const data = await this.query<{issueCreate: {issue: LinearIssue}}>(query, {input})
+    return data.issueCreate.issue
+  }
+
+  async getAttachments(issueId: string): Promise<LinearAttachment[]> {
+    const query = `
+      query IssueAttachments($issueId: String!) {
+        issue(id: $issueId) {
+          attachments {
+            nodes {
+              id
+              title
+              subtitle
+              url
+              sourceType
+            }
+          }
+        }
+      }
+    `
+
+    const data = await this.query<{issue: {attachments: {nodes: LinearAttachment[]}}}>(query, {issueId})
+    return data.issue.attachments.nodes
+  }
+
+  async createAttachment(input: LinearAttachmentInput): Promise<LinearAttachment> {
+    const query = `
+      mutation CreateAttachment($input: AttachmentCreateInput!) {
+        attachmentCreate(input: $input) {
+          success
+          attachment {
+            id
+            title
+            subtitle
+            url
+            sourceType
+          }
+        }
+      }
+    `
+
+    const data = await this.query<{attachmentCreate: {attachment: LinearAttachment}}>(query, {input})
+    return data.attachmentCreate.attachment
+  }
+
+  /**
+   * Attach a URL the way pasting it into Linear does: links Linear has an integration for,
+   * like Slack messages, are recognized and synced rather than added as plain links.
+   */
+  async linkAttachmentUrl(issueId: string, url: string, title?: string): Promise<LinearAttachment> {
+    const query = `
+      mutation LinkAttachmentUrl($issueId: String!, $url: String!, $title: String) {
+        attachmentLinkURL(issueId: $issueId, url: $url, title: $title) {
+          success
+          attachment {
+            id
+            title
+            subtitle
+            url
+            sourceType
+          }
+        }
+      }
+    `
+
+    const data = await this.query<{attachmentLinkURL: {attachment: LinearAttachment}}>(query, {issueId, url, title})
+    return data.attachmentLinkURL.attachment
+  }
 }
@@ -25,7 +25,37 @@ const LINEAR_ISSUE_REGEX = /\b([A-Z]{2,}-\d+)\b/g
 /**
  * Pattern for Linear URLs containing issue identifiers.
  */
-const LINEAR_URL_REGEX = /linear\.app\/[^/]+\/issue\/([A-Z]{2,}-\d+)/
+export const LINEAR_URL_REGEX = /linear\.app\/[^/]+\/issue\/([A-Z]{2,}-\d+)/
+
+/**
+ * Global variant for matchAll over code, spanning the whole link: scheme and title slug included.
+ */
+export const LINEAR_URL_REGEX_GLOBAL = new RegExp(`(?:https?:\\/\\/)?${LINEAR_URL_REGEX.source}(?:\\/[\\w-]*)?(?:#[\\w-]+)?`, "g")
+
+/**
+ * A Linear issue referenced in text: a link to it, or its bare identifier.
+ * `index` and `length` locate the whole reference, so editors can decorate it.
+ */
+export interface LinearReference {
+  identifier: string
+  index: number
+  length: number
+  isUrl: boolean
+}
+
+/**
+ * The workspace's Linear team keys (`ENG`, `TST`), which a bare identifier's prefix must be
+ * one of. `undefined` while they aren't known accepts any prefix.
+ */
+export type LinearTeamKeys = ReadonlySet<string> | undefined
+
+/**
+ * Whether an identifier belongs to one of the teams: `UTF-8` and `SHA-256` look like issues,
+ * but no team is keyed `UTF` or `SHA`.
+ */
+export function isTeamIssue(identifier: string, teamKeys: LinearTeamKeys): boolean {
+  return !teamKeys || teamKeys.has(identifier.slice(0, identifier.lastIndexOf("-")))
+}
 
 /**
  * Find all Linear issue identifiers in text.
@@ -33,48 +63,88 @@ const LINEAR_URL_REGEX = /linear\.app\/[^/]+\/issue\/([A-Z]{2,}-\d+)/
  * @example
  * findLinearIssues('Fix TST-123 and ABC-456')
  * // => ['TST-123', 'ABC-456']
+ * findLinearIssues('Fix TST-123, not UTF-8', new Set(['TST']))
+ * // => ['TST-123']
  */
-export function findLinearIssues(text: string): string[] {
+export function findLinearIssues(text: string, teamKeys?: LinearTeamKeys): string[] {
   const issues = new Set<string>()
   for (const match of text.matchAll(LINEAR_ISSUE_REGEX)) {
-    issues.add(match[1])
+    if (isTeamIssue(match[1], teamKeys)) issues.add(match[1])
   }
   return [...issues]
 }
 
+/**
+ * Find every Linear issue reference in text, in order: links first claim their span,
+ * then bare identifiers outside them (`// TODO(ABC-123)`).
+ *
+ * @example
+ * findLinearReferences('See https://linear.app/acme/issue/ABC-1/fix, then ABC-2')
+ * // => [{identifier: 'ABC-1', index: 4, length: 39, isUrl: true}, {identifier: 'ABC-2', index: 50, length: 5, isUrl: false}]
+ */
+export function findLinearReferences(text: string, teamKeys?: LinearTeamKeys): LinearReference[] {
+  const urls = [...text.matchAll(LINEAR_URL_REGEX_GLOBAL)].map(match => ({
+    identifier: match[1],
+    index: match.index ?? 0,
+    length: match[0].length,
+    isUrl: true,
+  }))
+  const insideUrl = (index: number) => urls.some(url => index >= url.index && index < url.index + url.length)
+
+  const identifiers = [...text.matchAll(LINEAR_ISSUE_REGEX)]
+    .filter(match => !insideUrl(match.index ?? 0) && isTeamIssue(match[1], teamKeys))
+    .map(match => ({identifier: match[1], index: match.index ?? 0, length: match[0].length, isUrl: false}))
+
+  return [...urls, ...identifiers].sort((a, b) => a.index - b.index)
+}
+
 /**
  * Extract a Linear issue identifier from a Slack message.
  *
  * Checks:
  * 1. Linear Asks bot attachments (preferred - most reliable)
- * 2. Message text (fallback)
+ * 2. Message text (fallback), where only identifiers of `teamKeys` count
  *
  * Returns the first issue found, or null.
  */
-export function extractLinearIssueFromMessage(message: MessageLike): string | null {
+export function extractLinearIssueFromMessage(message: MessageLike, teamKeys?: LinearTeamKeys): string | null {
   // Check Linear Asks bot attachments first
-  if (message.bot_profile?.name === "Linear Asks" && message.attachments) {
-    for (const attachment of message.attachments) {
-      if (attachment.from_url) {
-        const match = attachment.from_url.match(LINEAR_URL_REGEX)
-        if (match) return match[1]
-      }
-    }
-  }
+  const [linked] = linearAsksIssues(message)
+  if (linked) return linked
 
   // Fallback: check message text
-  const issues = findLinearIssues(message.text)
+  const issues = findLinearIssues(message.text, teamKeys)
   return issues[0] ?? null
 }
 
+/** Issues a Linear Asks bot message links in its attachments */
+function linearAsksIssues(message: MessageLike): string[] {
+  if (message.bot_profile?.name !== "Linear Asks" || !message.attachments) return []
+  return message.attachments.flatMap(({from_url}) => from_url?.match(LINEAR_URL_REGEX)?.[1] ?? [])
+}
+
 /**
- * Find a Linear issue in a list of messages.
- * Returns the first issue found.
+ * Find every Linear issue a thread mentions, best match first:
+ * 1. Linear Asks bot attachments, anywhere in the thread
+ * 2. The parent message's text
+ * 3. The replies' text, in order
+ *
+ * Triage threads often spawn more than one ticket, so callers should let the user choose.
  */
-export function findLinearIssueInMessages(messages: SlackMessage[]): string | null {
-  for (const message of messages) {
-    const issueId = extractLinearIssueFromMessage(message)
-    if (issueId) return issueId
-  }
-  return null
+export function findLinearIssuesInMessages(messages: SlackMessage[], teamKeys?: LinearTeamKeys): string[] {
+  const isReply = (message: SlackMessage) => !!message.threadTs && message.threadTs !== message.ts
+  const ranked = [
+    ...messages.flatMap(linearAsksIssues),
+    ...messages.filter(message => !isReply(message)).flatMap(message => findLinearIssues(message.text, teamKeys)),
+    ...messages.filter(isReply).flatMap(message => findLinearIssues(message.text, teamKeys)),
+  ]
+  return [...new Set(ranked)]
+}
+
+/**
+ * Find the best-matching Linear issue in a list of messages.
+ * Returns the first issue `findLinearIssuesInMessages` ranks, or null.
+ */
+export function findLinearIssueInMessages(messages: SlackMessage[], teamKeys?: LinearTeamKeys): string | null {
+  return findLinearIssuesInMessages(messages, teamKeys)[0] ?? null
 }
@@ -3,13 +3,45 @@
  */
 
 // Types
-export type {LinearIssue, LinearState, LinearComment, LinearUrlMetadata, LinearViewer, LinearWorkflowState} from "./types"
+export type {
+  LinearIssue,
+  LinearState,
+  LinearComment,
+  LinearUrlMetadata,
+  LinearIssueRef,
+  LinearViewer,
+  LinearWorkflowState,
+  LinearTeam,
+  LinearProject,
+  LinearIssueInput,
+  LinearAttachment,
+  LinearAttachmentInput,
+} from "./types"
 
 // Detection (pure functions)
-export {findLinearIssues, extractLinearIssueFromMessage, findLinearIssueInMessages} from "./detector"
+export {
+  LINEAR_URL_REGEX,
+  LINEAR_URL_REGEX_GLOBAL,
+  findLinearIssues,
+  findLinearReferences,
+  extractLinearIssueFromMessage,
+  findLinearIssueInMessages,
+  findLinearIssuesInMessages,
+  isTeamIssue,
+  type LinearReference,
+  type LinearTeamKeys,
+} from "./detector"
 
 // Client (HTTP)
-export {LinearClient, type ILinearClient} from "./client"
+export {LinearClient, type ILinearClient, type LinearClientOptions} from "./client"
 
 // Store (caching) and Loader (fetch-or-cache)
-export {LinearStore, LinearLoader} from "./store"
+export {
+  LinearStore,
+  LinearLoader,
+  LINEAR_ISSUE_TTL,
+  type LinearLoaderOptions,
+  type LinearStoreChange,
+  type LinearStoreOptions,
+  type LinearStoreSnapshot,
+} from "./store"
@@ -1,27 +1,146 @@
 /**
  * LinearStore - In-memory cache for Linear resources and URL associations.
+ *
+ * Issues expire after a short TTL, since their state and assignee move during the day;
+ * the loader serves an expired issue right away and refreshes it in the background.
+ * Team keys are fetched once a session: teams come and go far less often than issues move.
+ * Attachments follow the issue TTL but aren't persisted: they're only shown in hovers.
+ * Identifiers Linear doesn't know, or that failed to load, aren't asked for again until
+ * RETRY_FAILED_AFTER has passed, the same as failed Slack fetches.
  */
 
-import type {LinearIssue, LinearUrlMetadata} from "./types"
+import type {LinearAttachment, LinearIssue, LinearUrlMetadata} from "./types"
 import type {SlackUrl} from "../slack/url"
 import type {SlackMessage} from "../slack/types"
 import type {ILinearClient} from "./client"
-import {findLinearIssueInMessages} from "./detector"
+import {RETRY_FAILED_AFTER} from "../slack/store"
+import {findLinearIssuesInMessages, isTeamIssue, type LinearTeamKeys} from "./detector"
+
+/** How long a cached Linear issue stays fresh, in ms */
+export const LINEAR_ISSUE_TTL = 2 * 60_000
+
+/** A cached issue was replaced with different data */
+export interface LinearStoreChange {
+  resource: "issues"
+  key: string
+}
+
+/** Cached issues as plain JSON, for the on-disk cache */
+export interface LinearStoreSnapshot {
+  issues: {key: string; value: LinearIssue; fetchedAt: number; usedAt: number}[]
+}
+
+export interface LinearStoreOptions {
+  issueTtl?: number
+  /** Injectable for tests */
+  now?: () => number
+}
 
 export class LinearStore {
-  /** Cached Linear issues by identifier (e.g., 'TST-123') */
-  private issues = new Map<string, LinearIssue>()
+  /** Cached Linear issues by identifier (e.g., 'TST-123'), stamped with when they were fetched */
+  private issues = new Map<string, {issue: LinearIssue; fetchedAt: number; usedAt: number}>()
 
   /** Cached URL-to-Linear associations. Key is `channelId:ts` */
   private urlMetadata = new Map<string, LinearUrlMetadata>()
 
+  /** When fetching an identifier last failed or found nothing */
+  private failedIssues = new Map<string, number>()
+
+  /** Cached attachments by issue id, stamped with when they were fetched */
+  private attachments = new Map<string, {attachments: LinearAttachment[]; fetchedAt: number}>()
+
+  /** The workspace's team keys, once fetched */
+  private teamKeys: LinearTeamKeys
+
+  /** When fetching the team keys last failed */
+  private teamKeysFailedAt: number | undefined
+
+  private readonly listeners = new Set<(change: LinearStoreChange) => void>()
+  private readonly issueTtl: number
+  private readonly now: () => number
+  private writes = 0
+
+  constructor(options: LinearStoreOptions = {}) {
+    this.issueTtl = options.issueTtl ?? LINEAR_ISSUE_TTL
+    this.now = options.now ?? Date.now
+  }
+
+  /** Hear about cached issues changing, whether refreshed in the background or updated by a command */
+  onDidChange(listener: (change: LinearStoreChange) => void): {dispose(): void} {
+    this.listeners.add(listener)
+    return {dispose: () => this.listeners.delete(listener)}
+  }
+
   // Issue operations
   getIssue(identifier: string): LinearIssue | undefined {
-    return this.issues.get(identifier)
+    const cached = this.issues.get(identifier)
+    if (cached) cached.usedAt = this.now()
+    return cached?.issue
   }
 
   setIssue(identifier: string, issue: LinearIssue): void {
-    this.issues.set(identifier, issue)
+    const previous = this.issues.get(identifier)?.issue
+    const now = this.now()
+    this.issues.set(identifier, {issue, fetchedAt: now, usedAt: now})
+    this.failedIssues.delete(identifier)
+    this.writes++
+    if (previous && JSON.stringify(previous) !== JSON.stringify(issue)) {
+      this.listeners.forEach(listener => listener({resource: "issues", key: identifier}))
+    }
+  }
+
+  /** Remember that an identifier failed to load or isn't an issue, so it isn't retried right away */
+  setIssueFailed(identifier: string): void {
+    this.failedIssues.set(identifier, this.now())
+  }
+
+  /** Whether an identifier failed to load within the last RETRY_FAILED_AFTER */
+  hasIssueFailed(identifier: string): boolean {
+    const failedAt = this.failedIssues.get(identifier)
+    return failedAt !== undefined && this.now() - failedAt < RETRY_FAILED_AFTER
+  }
+
+  /** Whether a cached issue is past its TTL */
+  isIssueStale(identifier: string): boolean {
+    const cached = this.issues.get(identifier)
+    return !!cached && this.now() - cached.fetchedAt >= this.issueTtl
+  }
+
+  // Attachment operations
+
+  /** An issue's attachments, or undefined when they aren't cached or have expired */
+  getAttachments(issueId: string): LinearAttachment[] | undefined {
+    const cached = this.attachments.get(issueId)
+    return cached && this.now() - cached.fetchedAt < this.issueTtl ? cached.attachments : undefined
+  }
+
+  setAttachments(issueId: string, attachments: LinearAttachment[]): void {
+    this.attachments.set(issueId, {attachments, fetchedAt: this.now()})
+  }
+
+  /** Drop an issue's attachments after adding one, so the next hover fetches them again */
+  forgetAttachments(issueId: string): void {
+    this.attachments.delete(issueId)
+  }
+
+  // Team key operations
+  getTeamKeys(): LinearTeamKeys {
+    return this.teamKeys
+  }
+
+  setTeamKeys(keys: string[]): void {
+    this.teamKeys = new Set(keys)
+    this.teamKeysFailedAt = undefined
+  }
+
+  /** Remember that the team keys failed to load, so they aren't fetched again right away */
+  setTeamKeysFailed(): void {
+    this.teamKeysFailedAt = this.now()
+  }
+
+  /** Whether the team keys failed to load within the last RETRY_FAILED_AFTER */
+  haveTeamKeysFailed(): boolean {
+    return this.teamKeysFailedAt !== undefined && this.now() - this.teamKeysFailedAt < RETRY_FAILED_AFTER
   }
 
   // URL metadata operations
@@ -42,10 +161,50 @@ export class LinearStore {
     this.urlMetadata.set(this.metadataKey(url), metadata)
   }
 
+  /**
+   * Cache an issue created for a URL's thread and rank it first for that thread.
+   * Listeners hear about it even though it's new, so the editor shows it right away.
+   */
+  linkIssue(url: SlackUrl, issue: LinearIssue): void {
+    const now = this.now()
+    this.issues.set(issue.identifier, {issue, fetchedAt: now, usedAt: now})
+    this.failedIssues.delete(issue.identifier)
+    this.writes++
+
+    const others = (this.getUrlMetadata(url) ?? []).filter(({identifier}) => identifier !== issue.identifier)
+    this.setUrlMetadata(url, [{issueId: issue.id, identifier: issue.identifier, title: issue.title}, ...others])
+    this.listeners.forEach(listener => listener({resource: "issues", key: issue.identifier}))
+  }
+
   // Clear all
   clear(): void {
     this.issues.clear()
     this.urlMetadata.clear()
+    this.failedIssues.clear()
+    this.attachments.clear()
+    this.teamKeys = undefined
+    this.teamKeysFailedAt = undefined
+    this.writes++
+  }
+
+  // Persistence
+
+  /** Bumped on every issue write, so persistence can tell whether there is anything new to save */
+  get revision(): number {
+    return this.writes
+  }
+
+  snapshot(): LinearStoreSnapshot {
+    return {
+      issues: [...this.issues].map(([key, {issue, fetchedAt, usedAt}]) => ({key, value: issue, fetchedAt, usedAt})),
+    }
+  }
+
+  /** Load a snapshot, keeping anything fetched this session over it */
+  restore(snapshot: Partial<LinearStoreSnapshot>): void {
+    for (const {key, value, fetchedAt, usedAt} of snapshot.issues ?? []) {
+      if (!this.issues.has(key)) this.issues.set(key, {issue: value, fetchedAt, usedAt})
+    }
   }
 
   stats() {
@@ -56,32 +215,126 @@ export class LinearStore {
   }
 }
 
+export interface LinearLoaderOptions {
+  /** Team keys from settings, read on each use; when there are none, the workspace's teams are fetched */
+  teamKeys?: () => string[]
+}
+
 /**
  * LinearLoader - fetch-or-cache operations for Linear.
  */
 export class LinearLoader {
+  /** Identifiers with a background refresh in flight */
+  private readonly refreshing = new Set<string>()
+
+  /** Issue fetches in flight, shared by everyone asking for the same identifier */
+  private readonly requests = new Map<string, Promise<LinearIssue | null>>()
+
+  /** The team fetch in flight, shared by everyone waiting on it */
+  private teamKeysRequest: Promise<LinearTeamKeys> | null = null
+
   constructor(
     private readonly client: ILinearClient | null,
-    private readonly store: LinearStore
+    private readonly store: LinearStore,
+    private readonly options: LinearLoaderOptions = {}
   ) {}
 
+  /** Whether there is a Linear client to ask, i.e. a token is configured */
+  get isConfigured(): boolean {
+    return this.client !== null
+  }
+
+  /**
+   * Get the team keys identifiers must belong to: the configured ones, else the workspace's.
+   * Returns undefined when neither is known (no client, or the fetch failed), which accepts any.
+   * A failure is remembered like a failed issue, so the teams aren't refetched (or logged) on every call.
+   */
+  async getTeamKeys(): Promise<LinearTeamKeys> {
+    const configured = this.options.teamKeys?.() ?? []
+    if (configured.length) return new Set(configured.map(key => key.trim().toUpperCase()))
+
+    const cached = this.store.getTeamKeys()
+    if (cached || !this.client || this.store.haveTeamKeysFailed()) return cached
+
+    this.teamKeysRequest ??= this.client
+      .getTeams()
+      .then(teams => {
+        this.store.setTeamKeys(teams.map(({key}) => key))
+        return this.store.getTeamKeys()
+      })
+      .catch(error => {
+        console.error("Failed to fetch Linear teams:", error)
+        this.store.setTeamKeysFailed()
+        return undefined
+      })
+      .finally(() => (this.teamKeysRequest = null))
+    return this.teamKeysRequest
+  }
+
   /**
    * Get Linear issue, fetching from API if not cached.
-   * Returns null if no Linear client configured.
+   * An expired issue is returned as-is while it refreshes in the background.
+   * Returns null if no Linear client configured, if no team has the identifier's prefix,
+   * or if the fetch failed; a failure is remembered, so it isn't retried (or logged) on every call.
    */
   async getIssue(identifier: string): Promise<LinearIssue | null> {
     if (!this.client) return null
+    if (!isTeamIssue(identifier, await this.getTeamKeys())) return null
 
     const cached = this.store.getIssue(identifier)
+    if (cached) {
+      if (this.store.isIssueStale(identifier)) this.refreshIssue(identifier, this.client)
+      return cached
+    }
+    if (this.store.hasIssueFailed(identifier)) return null
+
+    const inFlight = this.requests.get(identifier)
+    if (inFlight) return inFlight
+
+    const request = this.client
+      .getIssueByIdentifier(identifier)
+      .then(issue => {
+        this.store.setIssue(identifier, issue)
+        return issue
+      })
+      .catch(error => {
+        console.error("Failed to fetch Linear issue:", error)
+        this.store.setIssueFailed(identifier)
+        return null
+      })
+      .finally(() => this.requests.delete(identifier))
+    this.requests.set(identifier, request)
+    return request
+  }
+
+  private refreshIssue(identifier: string, client: ILinearClient): void {
+    if (this.refreshing.has(identifier)) return
+    this.refreshing.add(identifier)
+
+    client
+      .getIssueByIdentifier(identifier)
+      .then(issue => this.store.setIssue(identifier, issue))
+      .catch(error => console.error("Failed to refresh Linear issue:", error))
+      .finally(() => this.refreshing.delete(identifier))
+  }
+
+  /**
+   * Get an issue's attachments, fetching them if not cached.
+   * Returns an empty list if no Linear client is configured or the fetch fails.
+   */
+  async getAttachments(issueId: string): Promise<LinearAttachment[]> {
+    if (!this.client) return []
+
+    const cached = this.store.getAttachments(issueId)
     if (cached) return cached
 
     try {
-      const issue = await this.client.getIssueByIdentifier(identifier)
-      this.store.setIssue(identifier, issue)
-      return issue
+      const attachments = await this.client.getAttachments(issueId)
+      this.store.setAttachments(issueId, attachments)
+      return attachments
     } catch (error) {
-      console.error("Failed to fetch Linear issue:", error)
-      return null
+      console.error("Failed to fetch Linear attachments:", error)
+      return []
     }
   }
 
@@ -93,25 +346,22 @@ export class LinearLoader {
     // Already cached?
     if (this.store.getUrlMetadata(url) !== undefined) return
 
-    // Find Linear issue in messages
-    const identifier = findLinearIssueInMessages(messages)
+    // Find Linear issues in messages, best match first
+    const identifiers = findLinearIssuesInMessages(messages, await this.getTeamKeys())
 
-    if (!identifier || !this.client) {
+    if (identifiers.length === 0 || !this.client) {
       this.store.setUrlMetadata(url, null)
       return
     }
 
-    // Fetch full issue
-    const issue = await this.getIssue(identifier)
-    if (!issue) {
-      this.store.setUrlMetadata(url, null)
-      return
-    }
+    // Fetch full issues, keeping the ones Linear knows
+    const issues = await Promise.all(identifiers.map(identifier => this.getIssue(identifier)))
+    const found = issues.filter((issue): issue is LinearIssue => issue !== null)
 
-    this.store.setUrlMetadata(url, {
-      issueId: issue.id,
-      identifier: issue.identifier,
-    })
+    this.store.setUrlMetadata(
+      url,
+      found.length ? found.map(({id, identifier}) => ({issueId: id, identifier})) : null
+    )
   }
 
   /**
@@ -122,4 +372,14 @@ export class LinearLoader {
     await this.cacheMetadataFromMessages(url, messages)
     return this.store.getUrlMetadata(url)
   }
+
+  /**
+   * Get the Linear issues a URL's thread mentions, best match first; empty when there are none.
+   * `messages` should be the Slack messages for the URL.
+   */
+  async getIssuesForUrl(url: SlackUrl, messages: SlackMessage[]): Promise<LinearIssue[]> {
+    const metadata = await this.getMetadataForUrl(url, messages)
+    const issues = await Promise.all((metadata ?? []).map(({identifier}) => this.getIssue(identifier)))
+    return issues.filter((issue): issue is LinearIssue => issue !== null)
+  }
 }
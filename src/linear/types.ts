@@ -9,6 +9,14 @@ export interface LinearIssue {
   url: string
   state: LinearState
   updatedAt: string
+  /**
+   * Fetched with the issue itself, but not by mutations, and missing from issues
+   * cached by older versions; `null` means unassigned.
+   */
+  assignee?: {id: string; name: string} | null
+  /** 0 (no priority) to 4 (low), with Linear's label for it, e.g. "Urgent" */
+  priority?: number
+  priorityLabel?: string
 }
 
 export interface LinearState {
@@ -29,14 +37,21 @@ export interface LinearComment {
 }
 
 /**
- * Metadata linking a Slack URL to a Linear issue.
- * `null` means we checked and found nothing.
- * `undefined` means we haven't checked yet.
+ * A reference to a Linear issue, enough to act on it.
+ * The title, when known, helps tell several apart.
  */
-export type LinearUrlMetadata = {
+export interface LinearIssueRef {
   issueId: string
   identifier: string
-} | null
+  title?: string
+}
+
+/**
+ * Metadata linking a Slack URL to the Linear issues its thread mentions, best match first.
+ * `null` means we checked and found nothing.
+ * `undefined` means we haven't checked yet.
+ */
+export type LinearUrlMetadata = LinearIssueRef[] | null
 
 /**
  * The current authenticated user.
@@ -56,3 +71,52 @@ export interface LinearWorkflowState {
   color: string
   type: string
 }
+
+/**
+ * A team in Linear. Its key prefixes the team's issue identifiers.
+ */
+export interface LinearTeam {
+  id: string
+  key: string
+  name: string
+}
+
+/**
+ * A project in Linear, which issues can optionally belong to.
+ */
+export interface LinearProject {
+  id: string
+  name: string
+}
+
+/**
+ * A link shown in an issue's sidebar: a Slack thread, a pull request, a line of code.
+ * `sourceType` names the integration that made it, e.g. "slack"; plain links have none.
+ */
+export interface LinearAttachment {
+  id: string
+  title: string
+  subtitle?: string | null
+  url: string
+  sourceType?: string | null
+}
+
+/**
+ * What a link attachment is created with.
+ */
+export interface LinearAttachmentInput {
+  issueId: string
+  url: string
+  title: string
+  subtitle?: string
+}
+
+/**
+ * What a new issue is created with. The description is markdown.
+ */
+export interface LinearIssueInput {
+  teamId: string
+  title: string
+  description?: string
+  projectId?: string
+}
@@ -0,0 +1,64 @@
+/**
+ * Block Kit and attachment helpers (pure, no dependencies).
+ *
+ * Rendering lives with the other renderers; this is the Slack-side knowledge
+ * about which parts of a message carry content.
+ */
+
+import type {SlackMessage, SlackBlock, SlackAttachment, SlackRichTextInline} from "./types"
+
+/**
+ * Whether a message's blocks say more than its `text`.
+ *
+ * Messages typed in the Slack client carry a `rich_text` block that mirrors `text`,
+ * so only layout blocks (sections, headers, context...) mean `text` is just a fallback.
+ */
+export function hasLayoutBlocks(message: SlackMessage): boolean {
+  return !!message.blocks?.some(block => block.type !== "rich_text")
+}
+
+/**
+ * All the mrkdwn in a message - text, blocks and attachments - as one string.
+ * Feed this to mention resolution so mentions inside blocks and attachments get names too.
+ */
+export function mentionSource(message: SlackMessage): string {
+  return [message.text, ...blocksMrkdwn(message.blocks), ...(message.attachments ?? []).flatMap(attachmentMrkdwn)]
+    .filter(Boolean)
+    .join("\n")
+}
+
+// Internals
+
+function blocksMrkdwn(blocks: SlackBlock[] | undefined): string[] {
+  return (blocks ?? []).flatMap(block => {
+    switch (block.type) {
+      case "section":
+        return [block.text?.text ?? "", ...(block.fields ?? []).map(field => field.text)]
+      case "context":
+        return block.elements.map(element => ("text" in element ? element.text : ""))
+      case "rich_text":
+        return block.elements.flatMap(element =>
+          element.type === "rich_text_list"
+            ? element.elements.flatMap(section => section.elements.map(inlineMention))
+            : element.elements.map(inlineMention)
+        )
+      default:
+        return []
+    }
+  })
+}
+
+function attachmentMrkdwn(attachment: SlackAttachment): string[] {
+  return [
+    attachment.pretext ?? "",
+    attachment.text ?? "",
+    ...(attachment.fields ?? []).map(field => field.value),
+    ...blocksMrkdwn(attachment.blocks)
+  ]
+}
+
+function inlineMention(element: SlackRichTextInline): string {
+  if (element.type === "user") return `<@${element.user_id}>`
+  if (element.type === "channel") return `<#${element.channel_id}>`
+  return ""
+}
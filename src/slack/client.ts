@@ -2,91 +2,321 @@
  * SlackClient - HTTP client for Slack API.
  *
  * Pure HTTP operations. No caching, no VS Code dependencies.
- * Caching is handled by the store layer.
+ * Caching is handled by the store layer; rate limits by the RequestScheduler.
  */
 
-import type {SlackMessage, SlackUser, SlackChannel, SlackThread} from "./types"
+import type {SlackMessage, SlackUser, SlackChannel, SlackThread, SlackFile} from "./types"
+import {RequestScheduler, retryAfterSeconds} from "./scheduler"
 
 export interface ISlackClient {
   getMessage(channelId: string, ts: string): Promise<SlackMessage>
-  getThread(channelId: string, threadTs: string): Promise<SlackThread>
+  getThread(channelId: string, threadTs: string, options?: ThreadFetchOptions): Promise<SlackThread>
   getUser(userId: string): Promise<SlackUser>
   getChannel(channelId: string): Promise<SlackChannel>
+  getFile(fileId: string): Promise<SlackFile>
+  /** Join a public channel, so the token can read it. Needs the `channels:join` scope. */
+  joinChannel(channelId: string): Promise<SlackChannel>
+  /** The web permalink of a message, with `thread_ts` for replies */
+  getPermalink(channelId: string, ts: string): Promise<string>
+}
+
+/** Which part of a thread to fetch. Without options: every reply, up to `MAX_THREAD_REPLIES`. */
+export interface ThreadFetchOptions {
+  /** Only replies at or after this ts - the window starting at a linked reply */
+  oldest?: string
+  /** Only replies at or before this ts */
+  latest?: string
+  /** Stop after this many replies; the rest are counted in `SlackThread.moreReplies` */
+  maxReplies?: number
+}
+
+/** What a failed Slack call means for the caller: cache it, fix the token, or try again later */
+export type SlackErrorKind = "permanent" | "auth" | "transient" | "rateLimited"
+
+/**
+ * A Slack call failed. `code` is Slack's error string (`channel_not_found`, `invalid_auth`...)
+ * and `kind` says whether trying again could help.
+ */
+export abstract class SlackError extends Error {
+  abstract readonly kind: SlackErrorKind
+
+  constructor(
+    readonly code: string,
+    readonly method: string,
+    message: string = code
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Asking again won't change the answer: the resource is gone, or out of this token's reach
+ * (`channel_not_found`, `not_in_channel`). The store caches these for the resource's TTL.
+ */
+export class SlackPermanentError extends SlackError {
+  readonly kind = "permanent"
+
+  constructor(code: string, method: string, message?: string) {
+    super(code, method, message)
+    this.name = "SlackPermanentError"
+  }
+}
+
+/**
+ * The token is missing, revoked, or lacks a scope. Every call fails the same way until the
+ * token changes, so these are only kept briefly.
+ */
+export class SlackAuthError extends SlackError {
+  readonly kind = "auth"
+
+  constructor(
+    code: string,
+    method: string,
+    /** For `missing_scope`: the scope Slack says the method needs */
+    readonly neededScope?: string,
+    message?: string
+  ) {
+    super(code, method, message)
+    this.name = "SlackAuthError"
+  }
+}
+
+/** Network trouble or Slack having a bad moment. Kept briefly, then tried again. */
+export class SlackTransientError extends SlackError {
+  readonly kind = "transient"
+
+  constructor(code: string, method: string, message?: string) {
+    super(code, method, message)
+    this.name = "SlackTransientError"
+  }
+}
+
+/**
+ * Slack kept answering 429 for a method.
+ * Transient by nature: the store doesn't cache it, so the next lookup tries again.
+ */
+export class RateLimitedError extends SlackError {
+  readonly kind = "rateLimited"
+
+  constructor(
+    method: string,
+    /** Seconds Slack asked us to wait */
+    readonly retryAfter: number
+  ) {
+    super("ratelimited", method, `Slack rate limit hit for ${method}, retry in ${retryAfter}s`)
+    this.name = "RateLimitedError"
+  }
+}
+
+/**
+ * The message a link points to no longer exists.
+ *
+ * Slack doesn't say so directly: asked for a deleted message, `conversations.history`
+ * answers with whatever was posted before it. The store caches this error as a tombstone.
+ */
+export class MessageDeletedError extends SlackPermanentError {
+  constructor(
+    readonly channelId: string,
+    readonly ts: string
+  ) {
+    super("message_deleted", "conversations.history", "Message deleted")
+    this.name = "MessageDeletedError"
+  }
+}
+
+/** Error codes that mean the token, not the request, is the problem */
+const AUTH_ERRORS = new Set([
+  "not_authed",
+  "invalid_auth",
+  "account_inactive",
+  "token_revoked",
+  "token_expired",
+  "no_permission",
+  "missing_scope",
+  "not_allowed_token_type",
+  "ekm_access_denied",
+  "team_access_not_granted",
+])
+
+/** Error codes for Slack-side trouble that usually clears up by itself */
+const TRANSIENT_ERRORS = new Set(["internal_error", "fatal_error", "service_unavailable", "request_timeout"])
+
+/** The typed error for a Web API `{ok: false}` answer */
+function apiError(method: string, data: {error?: string; needed?: string}, fallback: string): SlackError {
+  const code = data.error || "unknown_error"
+  if (code === "ratelimited") return new RateLimitedError(method, 0)
+  if (AUTH_ERRORS.has(code)) return new SlackAuthError(code, method, data.needed)
+  if (TRANSIENT_ERRORS.has(code)) return new SlackTransientError(code, method)
+  return new SlackPermanentError(code, method, data.error || fallback)
+}
+
+/** Replies fetched per `conversations.replies` page; Slack recommends no more than 200 */
+const REPLIES_PAGE_SIZE = 200
+
+/** Most replies fetched for one thread: five pages. Incident threads can run to thousands. */
+export const MAX_THREAD_REPLIES = 1000
+
+export interface SlackClientOptions {
+  /** Web API base URL; tests point this at a local fake server */
+  baseUrl?: string
+  scheduler?: RequestScheduler
 }
 
 export class SlackClient implements ISlackClient {
-  constructor(private readonly token: string) {}
+  private readonly baseUrl: string
+  private readonly scheduler: RequestScheduler
+
+  constructor(
+    private readonly token: string,
+    options: SlackClientOptions = {}
+  ) {
+    this.baseUrl = options.baseUrl ?? "https://slack.com/api"
+    this.scheduler = options.scheduler ?? new RequestScheduler()
+  }
 
-  private ensureToken(): void {
+  private ensureToken(method: string): void {
     if (!this.token) {
-      throw new Error("Slack token not configured. Please set slackoscope.token in your VS Code settings.")
+      throw new SlackAuthError(
+        "not_authed",
+        method,
+        undefined,
+        "Slack token not configured. Please set slackoscope.token in your VS Code settings."
+      )
     }
   }
 
-  async getMessage(channelId: string, ts: string): Promise<SlackMessage> {
-    this.ensureToken()
+  /**
+   * Call a Web API method through the scheduler.
+   * Reads go out as GET with query params; `post` sends them form-encoded instead.
+   * Anything that goes wrong before Slack answers with JSON surfaces as a SlackError.
+   */
+  private async call<T>(method: string, params: Record<string, string>, {post = false} = {}): Promise<T> {
+    this.ensureToken(method)
 
-    const body = new URLSearchParams({
-      channel: channelId,
-      latest: ts,
-      inclusive: "true",
-      limit: "1",
-    })
+    const query = new URLSearchParams(params).toString()
+    const headers = {Authorization: `Bearer ${this.token}`}
 
-    const response = await fetch("https://slack.com/api/conversations.history", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        Authorization: `Bearer ${this.token}`,
-      },
-      body: body.toString(),
-    })
+    let response: Response
+    try {
+      response = await this.scheduler.schedule(method, () =>
+        post
+          ? fetch(`${this.baseUrl}/${method}`, {
+              method: "POST",
+              headers: {...headers, "Content-Type": "application/x-www-form-urlencoded"},
+              body: query,
+            })
+          : fetch(`${this.baseUrl}/${method}?${query}`, {headers})
+      )
+    } catch (error) {
+      // Offline, DNS, connection reset...
+      throw new SlackTransientError("network_error", method, error instanceof Error ? error.message : undefined)
+    }
 
-    const data = (await response.json()) as {ok: boolean; error?: string; messages?: SlackMessage[]}
-    if (!data.ok) throw new Error(data.error || "Failed to fetch message")
-    if (!data.messages?.[0]) throw new Error("Message not found")
+    // The scheduler hands back the last 429 once it's done retrying
+    if (response.status === 429) throw new RateLimitedError(method, retryAfterSeconds(response))
+    if (response.status >= 500) throw new SlackTransientError(`http_${response.status}`, method)
 
-    return data.messages[0]
+    try {
+      return (await response.json()) as T
+    } catch {
+      throw new SlackTransientError("invalid_response", method)
+    }
   }
 
-  async getThread(channelId: string, threadTs: string): Promise<SlackThread> {
-    this.ensureToken()
+  async getMessage(channelId: string, ts: string): Promise<SlackMessage> {
+    const data = await this.call<{ok: boolean; error?: string; messages?: RawMessage[]}>(
+      "conversations.history",
+      {channel: channelId, latest: ts, inclusive: "true", limit: "1"},
+      {post: true}
+    )
+    if (!data.ok) throw apiError("conversations.history", data, "Failed to fetch message")
+    // An older message (or none) means the one we asked for is gone
+    const message = data.messages?.[0]
+    if (!message || message.ts !== ts) throw new MessageDeletedError(channelId, ts)
 
-    const params = new URLSearchParams({
-      channel: channelId,
-      ts: threadTs,
-    })
+    return toMessage(message)
+  }
 
-    const response = await fetch(`https://slack.com/api/conversations.replies?${params}`, {
-      headers: {Authorization: `Bearer ${this.token}`},
-    })
+  /**
+   * The thread, following `conversations.replies` cursors until the last page or `maxReplies`.
+   * Every page repeats the parent, so messages are collected by `ts`. A window set by
+   * `oldest`/`latest` may leave the parent out; it's then fetched on its own.
+   */
+  async getThread(
+    channelId: string,
+    threadTs: string,
+    {oldest, latest, maxReplies = MAX_THREAD_REPLIES}: ThreadFetchOptions = {},
+  ): Promise<SlackThread> {
+    const window = {
+      ...(oldest ? {oldest} : {}),
+      ...(latest ? {latest} : {}),
+      ...(oldest || latest ? {inclusive: "true"} : {}),
+    }
+    const replies = new Map<string, RawMessage>()
+    let parent: RawMessage | undefined
+    let cursor: string | undefined
 
-    const data = (await response.json()) as {ok: boolean; error?: string; messages?: SlackMessage[]}
-    if (!data.ok) throw new Error(data.error || "Failed to fetch thread")
-    if (!data.messages?.length) throw new Error("Thread not found")
+    do {
+      const page = await this.repliesPage(channelId, threadTs, {
+        ...window,
+        limit: String(REPLIES_PAGE_SIZE),
+        ...(cursor ? {cursor} : {}),
+      })
+      for (const message of page.messages) {
+        if (message.ts === threadTs) parent = message
+        else replies.set(message.ts, message)
+      }
+      cursor = page.nextCursor
+    } while (cursor && replies.size < maxReplies)
+
+    // Outside the window, the parent comes first in an unbounded page
+    if (!parent && (oldest || latest)) {
+      parent = (await this.repliesPage(channelId, threadTs, {limit: "1"})).messages[0]
+    }
+    if (!parent) {
+      throw new SlackPermanentError("no_messages", "conversations.replies", "Thread not found")
+    }
 
-    const [parent, ...replies] = data.messages
-    return {parent, replies}
+    const loaded = [...replies.values()].slice(0, maxReplies)
+    const moreReplies = Math.max(parent.reply_count ?? 0, replies.size) - loaded.length
+    return {
+      parent: toMessage(parent),
+      replies: loaded.map(toMessage),
+      ...(moreReplies > 0 ? {moreReplies} : {}),
+    }
   }
 
-  async getUser(userId: string): Promise<SlackUser> {
-    this.ensureToken()
+  private async repliesPage(
+    channelId: string,
+    threadTs: string,
+    params: Record<string, string>,
+  ): Promise<{messages: RawMessage[]; nextCursor?: string}> {
+    const data = await this.call<{
+      ok: boolean
+      error?: string
+      messages?: RawMessage[]
+      response_metadata?: {next_cursor?: string}
+    }>("conversations.replies", {channel: channelId, ts: threadTs, ...params})
+    if (data.error === "thread_not_found") throw new MessageDeletedError(channelId, threadTs)
+    if (!data.ok) throw apiError("conversations.replies", data, "Failed to fetch thread")
 
-    const response = await fetch(`https://slack.com/api/users.info?user=${userId}`, {
-      headers: {Authorization: `Bearer ${this.token}`},
-    })
+    return {messages: data.messages ?? [], nextCursor: data.response_metadata?.next_cursor || undefined}
+  }
 
-    const data = (await response.json()) as {
+  async getUser(userId: string): Promise<SlackUser> {
+    const data = await this.call<{
       ok: boolean
       error?: string
       user: {
         id: string
         name: string
         real_name: string
-        profile?: {display_name?: string; image_72?: string}
+        tz?: string
+        tz_label?: string
+        profile?: {display_name?: string; image_72?: string; title?: string}
       }
-    }
-    if (!data.ok) throw new Error(data.error || "Failed to fetch user")
+    }>("users.info", {user: userId})
+    if (!data.ok) throw apiError("users.info", data, "Failed to fetch user")
 
     const {user} = data
     return {
@@ -95,28 +325,80 @@ export class SlackClient implements ISlackClient {
       realName: user.real_name,
       displayName: user.profile?.display_name || user.real_name,
       avatarUrl: user.profile?.image_72,
+      title: user.profile?.title || undefined,
+      timeZone: user.tz,
+      timeZoneLabel: user.tz_label,
     }
   }
 
   async getChannel(channelId: string): Promise<SlackChannel> {
-    this.ensureToken()
+    const data = await this.call<{ok: boolean; error?: string; channel: RawChannel}>("conversations.info", {
+      channel: channelId,
+      include_num_members: "true",
+    })
+    if (!data.ok) throw apiError("conversations.info", data, "Failed to fetch channel")
+
+    return toChannel(data.channel)
+  }
 
-    const response = await fetch(`https://slack.com/api/conversations.info?channel=${channelId}`, {
-      headers: {Authorization: `Bearer ${this.token}`},
+  async joinChannel(channelId: string): Promise<SlackChannel> {
+    const data = await this.call<{ok: boolean; error?: string; channel: RawChannel}>(
+      "conversations.join",
+      {channel: channelId},
+      {post: true}
+    )
+    if (!data.ok) throw apiError("conversations.join", data, "Failed to join channel")
+
+    return toChannel(data.channel)
+  }
+
+  async getPermalink(channelId: string, ts: string): Promise<string> {
+    const data = await this.call<{ok: boolean; error?: string; permalink: string}>("chat.getPermalink", {
+      channel: channelId,
+      message_ts: ts,
     })
+    if (!data.ok) throw apiError("chat.getPermalink", data, "Failed to fetch permalink")
+
+    return data.permalink
+  }
 
-    const data = (await response.json()) as {
+  async getFile(fileId: string): Promise<SlackFile> {
+    const data = await this.call<{
       ok: boolean
       error?: string
-      channel: {id: string; name: string; is_private?: boolean}
-    }
-    if (!data.ok) throw new Error(data.error || "Failed to fetch channel")
+      file: SlackFile & {thumb_360?: string}
+    }>("files.info", {file: fileId})
+    if (!data.ok) throw apiError("files.info", data, "Failed to fetch file")
 
-    const {channel} = data
-    return {
-      id: channel.id,
-      name: channel.name,
-      isPrivate: channel.is_private || false,
-    }
+    const {file} = data
+    return {...file, thumb: file.thumb ?? file.thumb_360}
+  }
+}
+
+/** A message as the Web API sends it, with snake_case thread fields */
+type RawMessage = SlackMessage & {thread_ts?: string; reply_count?: number; latest_reply?: string}
+
+function toMessage({thread_ts, reply_count, latest_reply, ...message}: RawMessage): SlackMessage {
+  return {...message, threadTs: thread_ts, replyCount: reply_count, latestReply: latest_reply}
+}
+
+/** A channel as the Web API sends it */
+interface RawChannel {
+  id: string
+  name: string
+  is_private?: boolean
+  topic?: {value: string}
+  purpose?: {value: string}
+  num_members?: number
+}
+
+function toChannel(channel: RawChannel): SlackChannel {
+  return {
+    id: channel.id,
+    name: channel.name,
+    isPrivate: channel.is_private || false,
+    topic: channel.topic?.value || undefined,
+    purpose: channel.purpose?.value || undefined,
+    memberCount: channel.num_members,
   }
 }
@@ -0,0 +1,363 @@
+/**
+ * Standard Slack emoji shortcodes and their Unicode characters.
+ *
+ * Covers the shortcodes that actually turn up in work chat — reactions, status,
+ * alerts, hands and faces. Anything missing (including custom workspace emoji)
+ * is left as `:shortcode:`, which is what Slack shows when it can't render one either.
+ */
+
+export const EMOJI: Readonly<Record<string, string>> = {
+  // Faces
+  grinning: "😀",
+  smiley: "😃",
+  smile: "😄",
+  grin: "😁",
+  laughing: "😆",
+  satisfied: "😆",
+  sweat_smile: "😅",
+  joy: "😂",
+  rolling_on_the_floor_laughing: "🤣",
+  slightly_smiling_face: "🙂",
+  upside_down_face: "🙃",
+  wink: "😉",
+  blush: "😊",
+  innocent: "😇",
+  heart_eyes: "😍",
+  star_struck: "🤩",
+  kissing_heart: "😘",
+  yum: "😋",
+  stuck_out_tongue: "😛",
+  stuck_out_tongue_winking_eye: "😜",
+  zany_face: "🤪",
+  money_mouth_face: "🤑",
+  hugging_face: "🤗",
+  hugs: "🤗",
+  thinking_face: "🤔",
+  thinking: "🤔",
+  zipper_mouth_face: "🤐",
+  raised_eyebrow: "🤨",
+  face_with_raised_eyebrow: "🤨",
+  neutral_face: "😐",
+  expressionless: "😑",
+  no_mouth: "😶",
+  smirk: "😏",
+  unamused: "😒",
+  face_with_rolling_eyes: "🙄",
+  roll_eyes: "🙄",
+  grimacing: "😬",
+  relieved: "😌",
+  pensive: "😔",
+  sleepy: "😪",
+  sleeping: "😴",
+  mask: "😷",
+  face_with_thermometer: "🤒",
+  nauseated_face: "🤢",
+  exploding_head: "🤯",
+  cowboy_hat_face: "🤠",
+  partying_face: "🥳",
+  sunglasses: "😎",
+  nerd_face: "🤓",
+  confused: "😕",
+  worried: "😟",
+  slightly_frowning_face: "🙁",
+  open_mouth: "😮",
+  hushed: "😯",
+  astonished: "😲",
+  flushed: "😳",
+  pleading_face: "🥺",
+  fearful: "😨",
+  cold_sweat: "😰",
+  cry: "😢",
+  sob: "😭",
+  scream: "😱",
+  confounded: "😖",
+  persevere: "😣",
+  disappointed: "😞",
+  sweat: "😓",
+  weary: "😩",
+  tired_face: "😫",
+  yawning_face: "🥱",
+  triumph: "😤",
+  rage: "😡",
+  angry: "😠",
+  skull: "💀",
+  poop: "💩",
+  hankey: "💩",
+  clown_face: "🤡",
+  ghost: "👻",
+  alien: "👽",
+  robot_face: "🤖",
+  see_no_evil: "🙈",
+  hear_no_evil: "🙉",
+  speak_no_evil: "🙊",
+  melting_face: "🫠",
+  saluting_face: "🫡",
+  face_palm: "🤦",
+  facepalm: "🤦",
+  shrug: "🤷",
+
+  // Hands and people
+  "+1": "👍",
+  thumbsup: "👍",
+  "-1": "👎",
+  thumbsdown: "👎",
+  ok_hand: "👌",
+  pinched_fingers: "🤌",
+  v: "✌️",
+  crossed_fingers: "🤞",
+  call_me_hand: "🤙",
+  point_left: "👈",
+  point_right: "👉",
+  point_up: "☝️",
+  point_up_2: "👆",
+  point_down: "👇",
+  wave: "👋",
+  raised_hand: "✋",
+  hand: "✋",
+  raised_hands: "🙌",
+  clap: "👏",
+  open_hands: "👐",
+  handshake: "🤝",
+  pray: "🙏",
+  muscle: "💪",
+  writing_hand: "✍️",
+  fist: "✊",
+  facepunch: "👊",
+  punch: "👊",
+  eyes: "👀",
+  eye: "👁️",
+  brain: "🧠",
+  bow: "🙇",
+  raising_hand: "🙋",
+  man_shrugging: "🤷‍♂️",
+  woman_shrugging: "🤷‍♀️",
+  man_facepalming: "🤦‍♂️",
+  woman_facepalming: "🤦‍♀️",
+  runner: "🏃",
+  running: "🏃",
+  dancer: "💃",
+
+  // Hearts and symbols
+  heart: "❤️",
+  orange_heart: "🧡",
+  yellow_heart: "💛",
+  green_heart: "💚",
+  blue_heart: "💙",
+  purple_heart: "💜",
+  black_heart: "🖤",
+  white_heart: "🤍",
+  broken_heart: "💔",
+  sparkling_heart: "💖",
+  "100": "💯",
+  white_check_mark: "✅",
+  heavy_check_mark: "✔️",
+  ballot_box_with_check: "☑️",
+  x: "❌",
+  negative_squared_cross_mark: "❎",
+  heavy_multiplication_x: "✖️",
+  heavy_plus_sign: "➕",
+  heavy_minus_sign: "➖",
+  question: "❓",
+  grey_question: "❔",
+  exclamation: "❗",
+  heavy_exclamation_mark: "❗",
+  grey_exclamation: "❕",
+  bangbang: "‼️",
+  interrobang: "⁉️",
+  warning: "⚠️",
+  no_entry: "⛔",
+  no_entry_sign: "🚫",
+  stop_sign: "🛑",
+  red_circle: "🔴",
+  large_orange_circle: "🟠",
+  large_yellow_circle: "🟡",
+  large_green_circle: "🟢",
+  large_blue_circle: "🔵",
+  large_purple_circle: "🟣",
+  white_circle: "⚪",
+  black_circle: "⚫",
+  red_square: "🟥",
+  large_green_square: "🟩",
+  large_yellow_square: "🟨",
+  arrow_right: "➡️",
+  arrow_left: "⬅️",
+  arrow_up: "⬆️",
+  arrow_down: "⬇️",
+  arrows_counterclockwise: "🔄",
+  repeat: "🔁",
+  new: "🆕",
+  ok: "🆗",
+  sos: "🆘",
+  information_source: "ℹ️",
+  recycle: "♻️",
+  infinity: "♾️",
+  copyright: "©️",
+  registered: "®️",
+  tm: "™️",
+
+  // Work things
+  rocket: "🚀",
+  fire: "🔥",
+  boom: "💥",
+  collision: "💥",
+  zap: "⚡",
+  sparkles: "✨",
+  star: "⭐",
+  star2: "🌟",
+  dizzy: "💫",
+  tada: "🎉",
+  confetti_ball: "🎊",
+  balloon: "🎈",
+  gift: "🎁",
+  trophy: "🏆",
+  medal: "🏅",
+  first_place_medal: "🥇",
+  dart: "🎯",
+  bulb: "💡",
+  rotating_light: "🚨",
+  bell: "🔔",
+  no_bell: "🔕",
+  loudspeaker: "📢",
+  mega: "📣",
+  speech_balloon: "💬",
+  thought_balloon: "💭",
+  memo: "📝",
+  pencil: "📝",
+  pencil2: "✏️",
+  pushpin: "📌",
+  round_pushpin: "📍",
+  paperclip: "📎",
+  link: "🔗",
+  lock: "🔒",
+  unlock: "🔓",
+  key: "🔑",
+  closed_lock_with_key: "🔐",
+  hammer: "🔨",
+  wrench: "🔧",
+  hammer_and_wrench: "🛠️",
+  gear: "⚙️",
+  nut_and_bolt: "🔩",
+  toolbox: "🧰",
+  mag: "🔍",
+  mag_right: "🔎",
+  bug: "🐛",
+  ant: "🐜",
+  beetle: "🐞",
+  lady_beetle: "🐞",
+  test_tube: "🧪",
+  microscope: "🔬",
+  computer: "💻",
+  desktop_computer: "🖥️",
+  keyboard: "⌨️",
+  iphone: "📱",
+  floppy_disk: "💾",
+  cd: "💿",
+  package: "📦",
+  inbox_tray: "📥",
+  outbox_tray: "📤",
+  email: "📧",
+  "e-mail": "📧",
+  envelope: "✉️",
+  calendar: "📆",
+  date: "📅",
+  spiral_calendar_pad: "🗓️",
+  clipboard: "📋",
+  bookmark: "🔖",
+  books: "📚",
+  book: "📖",
+  open_book: "📖",
+  page_facing_up: "📄",
+  scroll: "📜",
+  file_folder: "📁",
+  open_file_folder: "📂",
+  chart_with_upwards_trend: "📈",
+  chart_with_downwards_trend: "📉",
+  bar_chart: "📊",
+  hourglass: "⌛",
+  hourglass_flowing_sand: "⏳",
+  stopwatch: "⏱️",
+  alarm_clock: "⏰",
+  clock: "🕓",
+  watch: "⌚",
+  moneybag: "💰",
+  dollar: "💵",
+  credit_card: "💳",
+  shield: "🛡️",
+  crossed_swords: "⚔️",
+  construction: "🚧",
+  traffic_light: "🚥",
+  vertical_traffic_light: "🚦",
+  checkered_flag: "🏁",
+  triangular_flag_on_post: "🚩",
+  white_flag: "🏳️",
+  ship: "🚢",
+  airplane: "✈️",
+  car: "🚗",
+  house: "🏠",
+  office: "🏢",
+  globe_with_meridians: "🌐",
+  earth_americas: "🌎",
+  earth_africa: "🌍",
+  earth_asia: "🌏",
+
+  // Nature, food and weather
+  sunny: "☀️",
+  cloud: "☁️",
+  umbrella: "☔",
+  snowflake: "❄️",
+  rainbow: "🌈",
+  ocean: "🌊",
+  droplet: "💧",
+  seedling: "🌱",
+  evergreen_tree: "🌲",
+  deciduous_tree: "🌳",
+  cactus: "🌵",
+  four_leaf_clover: "🍀",
+  fallen_leaf: "🍂",
+  rose: "🌹",
+  sunflower: "🌻",
+  dog: "🐶",
+  cat: "🐱",
+  mouse: "🐭",
+  rabbit: "🐰",
+  fox_face: "🦊",
+  bear: "🐻",
+  panda_face: "🐼",
+  unicorn_face: "🦄",
+  snail: "🐌",
+  turtle: "🐢",
+  snake: "🐍",
+  crab: "🦀",
+  octopus: "🐙",
+  whale: "🐳",
+  bee: "🐝",
+  honeybee: "🐝",
+  butterfly: "🦋",
+  apple: "🍎",
+  lemon: "🍋",
+  banana: "🍌",
+  pizza: "🍕",
+  hamburger: "🍔",
+  taco: "🌮",
+  doughnut: "🍩",
+  cookie: "🍪",
+  cake: "🍰",
+  birthday: "🎂",
+  popcorn: "🍿",
+  coffee: "☕",
+  tea: "🍵",
+  beer: "🍺",
+  beers: "🍻",
+  wine_glass: "🍷",
+  champagne: "🍾",
+  clinking_glasses: "🥂"
+}
+
+/** `:skin-tone-2:` … `:skin-tone-6:`, which Slack appends right after the emoji they modify */
+export const SKIN_TONES: Readonly<Record<string, string>> = {
+  "skin-tone-2": "🏻",
+  "skin-tone-3": "🏼",
+  "skin-tone-4": "🏽",
+  "skin-tone-5": "🏾",
+  "skin-tone-6": "🏿"
+}
@@ -9,12 +9,28 @@
 export {
   SLACK_URL_REGEX,
   SLACK_URL_REGEX_GLOBAL,
+  SLACK_CLIENT_URL_REGEX,
+  SLACK_DEEP_LINK_REGEX,
   parseSlackUrl,
   findAllSlackUrls,
   isThread,
   cacheKey,
   messageCacheKey,
   type SlackUrl,
+  type SlackUrlKind,
+  SLACK_FILE_URL_REGEX,
+  SLACK_FILE_URL_REGEX_GLOBAL,
+  parseSlackFileUrl,
+  findAllSlackFileUrls,
+  type SlackFileUrl,
+  SLACK_CHANNEL_URL_REGEX,
+  SLACK_USER_URL_REGEX,
+  SLACK_ENTITY_URL_REGEX_GLOBAL,
+  parseSlackEntityUrl,
+  findAllSlackEntityUrls,
+  type SlackChannelUrl,
+  type SlackUserUrl,
+  type SlackEntityUrl,
 } from "./url"
 
 // Types
@@ -25,11 +41,79 @@ export type {
   SlackFile,
   SlackThread,
   SlackBotProfile,
+  SlackReaction,
+  SlackAuthor,
   SlackAttachment,
+  SlackAttachmentField,
+  SlackBlock,
+  SlackTextObject,
+  SlackSectionBlock,
+  SlackHeaderBlock,
+  SlackContextBlock,
+  SlackDividerBlock,
+  SlackImageBlock,
+  SlackActionsBlock,
+  SlackRichTextBlock,
+  SlackBlockElement,
+  SlackButtonElement,
+  SlackImageElement,
+  SlackRichTextElement,
+  SlackRichTextSection,
+  SlackRichTextStyle,
+  SlackRichTextInline,
 } from "./types"
 
+// Block Kit helpers (pure, no dependencies)
+export {hasLayoutBlocks, mentionSource} from "./blocks"
+
+// mrkdwn conversion (pure, no dependencies)
+export {
+  mrkdwnToMarkdown,
+  mrkdwnToHtml,
+  mrkdwnToPlainText,
+  replaceEmoji,
+  findMentions,
+  resolveMentions,
+  type MentionNames,
+  type MentionResolver,
+  type PlainTextOptions,
+} from "./mrkdwn"
+
 // Client (HTTP)
-export {SlackClient, type ISlackClient} from "./client"
+export {
+  SlackClient,
+  SlackError,
+  SlackPermanentError,
+  SlackAuthError,
+  SlackTransientError,
+  RateLimitedError,
+  MessageDeletedError,
+  MAX_THREAD_REPLIES,
+  type ISlackClient,
+  type SlackClientOptions,
+  type ThreadFetchOptions,
+  type SlackErrorKind,
+} from "./client"
+
+// Request scheduling (rate limits)
+export {
+  RequestScheduler,
+  SLACK_METHOD_TIERS,
+  type SlackTier,
+  type SchedulerOptions,
+} from "./scheduler"
 
 // Store (caching) and Loader (fetch-or-cache)
-export {SlackStore, SlackLoader} from "./store"
+export {
+  SlackStore,
+  SlackLoader,
+  DEFAULT_SLACK_TTLS,
+  RETRY_FAILED_AFTER,
+  type CacheStats,
+  type SlackResource,
+  type SlackCacheTtls,
+  type SlackStoreChange,
+  type SlackStoreOptions,
+  type SlackStoreSnapshot,
+  type PersistedEntry,
+} from "./store"
@@ -0,0 +1,239 @@
+/**
+ * Slack mrkdwn conversion (pure, no dependencies).
+ *
+ * Slack message text is not Markdown: `*bold*`, `~strike~`, `<url|label>` links,
+ * `<@U123>` mentions, `:shortcode:` emoji and HTML-escaped `&lt; &gt; &amp;`.
+ * This turns it into Markdown for hovers, HTML for the thread view, or plain text for
+ * inline previews and comments.
+ *
+ * Mention names are resolved up front (see `resolveMentions`) so the conversion
+ * itself stays synchronous.
+ */
+
+import type {SlackUser, SlackChannel} from "./types"
+import {EMOJI, SKIN_TONES} from "./emoji"
+import {LINK_SCHEMES, link} from "../lib/markdownLinks"
+
+/** Display names for the users and channels mentioned in a message, keyed by ID */
+export interface MentionNames {
+  users: Record<string, string>
+  channels: Record<string, string>
+}
+
+/** Anything that can look up users and channels - in practice, `SlackLoader` */
+export interface MentionResolver {
+  getUser(userId: string): Promise<SlackUser>
+  getChannel(channelId: string): Promise<SlackChannel>
+}
+
+export interface PlainTextOptions {
+  /** Keep link targets as `label (url)` instead of just the label */
+  keepUrls?: boolean
+}
+
+type Mode = {format: "markdown"} | {format: "html"} | {format: "plain"; keepUrls: boolean}
+
+const NO_NAMES: MentionNames = {users: {}, channels: {}}
+
+const CODE_REGEX = /```[\s\S]*?```|`[^`\n]+`/g
+const ANGLE_TOKEN_REGEX = /<([^<>\n]+)>/g
+const USER_MENTION_REGEX = /<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g
+const CHANNEL_MENTION_REGEX = /<#([CG][A-Z0-9]+)(?:\|[^>]*)?>/g
+const EMOJI_REGEX = /:([a-z0-9_+-]+):/g
+
+// Slack only treats markers as formatting when they hug the text and sit on word boundaries
+const BOLD_REGEX = /(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g
+const ITALIC_REGEX = /(^|[^\w_])_(?=\S)([^_\n]*?\S)_(?![\w_])/g
+const STRIKE_REGEX = /(^|[^\w~])~(?=\S)([^~\n]*?\S)~(?![\w~])/g
+
+// Stands in for already-rendered pieces while the formatting regexes run
+const PLACEHOLDER = "\u0000"
+const PLACEHOLDER_REGEX = /\u0000(\d+)\u0000/g
+
+/**
+ * IDs of every user and channel mentioned in `text`, without duplicates.
+ */
+export function findMentions(text: string): {userIds: string[]; channelIds: string[]} {
+  const prose = text.replace(CODE_REGEX, "")
+  return {
+    userIds: [...new Set([...prose.matchAll(USER_MENTION_REGEX)].map(m => m[1]))],
+    channelIds: [...new Set([...prose.matchAll(CHANNEL_MENTION_REGEX)].map(m => m[1]))]
+  }
+}
+
+/**
+ * Look up the names of everyone and everything mentioned in `text`.
+ * Never throws: a mention that can't be resolved is left out and renders from its label or ID.
+ */
+export async function resolveMentions(text: string, resolver: MentionResolver): Promise<MentionNames> {
+  const {userIds, channelIds} = findMentions(text)
+  const names: MentionNames = {users: {}, channels: {}}
+
+  await Promise.all([
+    ...userIds.map(async id => {
+      try {
+        names.users[id] = (await resolver.getUser(id)).displayName
+      } catch {
+        // Fall back to the label or ID
+      }
+    }),
+    ...channelIds.map(async id => {
+      try {
+        names.channels[id] = (await resolver.getChannel(id)).name
+      } catch {
+        // Fall back to the label or ID
+      }
+    })
+  ])
+
+  return names
+}
+
+/**
+ * Convert mrkdwn to Markdown for a hover.
+ * HTML entities are left escaped outside code so message text can't inject markup.
+ */
+export function mrkdwnToMarkdown(text: string, names: MentionNames = NO_NAMES): string {
+  return convert(text, names, {format: "markdown"})
+}
+
+/**
+ * Convert mrkdwn to HTML for a webview. Everything but the markup added here is escaped,
+ * and only `http(s):` and `mailto:` links become anchors.
+ */
+export function mrkdwnToHtml(text: string, names: MentionNames = NO_NAMES): string {
+  return convert(text, names, {format: "html"})
+}
+
+/**
+ * Convert mrkdwn to plain text for inline previews and code comments:
+ * formatting markers dropped, entities decoded, mentions and emoji resolved.
+ */
+export function mrkdwnToPlainText(
+  text: string,
+  names: MentionNames = NO_NAMES,
+  options: PlainTextOptions = {}
+): string {
+  return convert(text, names, {format: "plain", keepUrls: options.keepUrls ?? false})
+}
+
+/**
+ * Replace `:shortcode:` emoji with their Unicode characters. Unknown shortcodes are kept.
+ */
+export function replaceEmoji(text: string): string {
+  return text.replace(EMOJI_REGEX, (match, name: string) => emojiFor(name) ?? match)
+}
+
+/** Own keys only: `:constructor:` and `:__proto__:` would otherwise find `Object.prototype` */
+function emojiFor(name: string): string | undefined {
+  if (Object.hasOwn(EMOJI, name)) return EMOJI[name]
+  if (Object.hasOwn(SKIN_TONES, name)) return SKIN_TONES[name]
+  return undefined
+}
+
+// Internals
+
+function convert(text: string, names: MentionNames, mode: Mode): string {
+  let result = ""
+  let last = 0
+  for (const match of text.matchAll(CODE_REGEX)) {
+    result += convertProse(text.slice(last, match.index), names, mode)
+    result += convertCode(match[0], mode)
+    last = match.index + match[0].length
+  }
+  return result + convertProse(text.slice(last), names, mode)
+}
+
+function convertCode(code: string, mode: Mode): string {
+  const isBlock = code.startsWith("```")
+  if (mode.format === "html") {
+    const body = isBlock ? code.slice(3, -3).replace(/^\n/, "").replace(/\n$/, "") : code.slice(1, -1)
+    const html = escapeHtml(decodeEntities(body))
+    return isBlock ? `<pre><code>${html}</code></pre>` : `<code>${html}</code>`
+  }
+  if (mode.format === "plain" || !isBlock) return decodeEntities(code)
+
+  // Slack allows ```inline blocks```; Markdown needs the fences on their own lines
+  const body = code.slice(3, -3).replace(/^\n/, "").replace(/\n$/, "")
+  return "```\n" + decodeEntities(body) + "\n```"
+}
+
+function convertProse(text: string, names: MentionNames, mode: Mode): string {
+  if (!text) return text
+
+  const rendered: string[] = []
+  const hold = (value: string) => `${PLACEHOLDER}${rendered.push(value) - 1}${PLACEHOLDER}`
+
+  let result = text.replace(ANGLE_TOKEN_REGEX, (_match, token: string) => hold(convertToken(token, names, mode)))
+
+  if (mode.format === "markdown") {
+    result = escapeMarkdown(result).replace(BOLD_REGEX, "$1**$2**").replace(STRIKE_REGEX, "$1~~$2~~")
+  } else if (mode.format === "html") {
+    result = escapeHtml(decodeEntities(result))
+      .replace(BOLD_REGEX, "$1<strong>$2</strong>")
+      .replace(ITALIC_REGEX, "$1<em>$2</em>")
+      .replace(STRIKE_REGEX, "$1<del>$2</del>")
+  } else {
+    result = decodeEntities(
+      result.replace(BOLD_REGEX, "$1$2").replace(ITALIC_REGEX, "$1$2").replace(STRIKE_REGEX, "$1$2")
+    )
+  }
+
+  return replaceEmoji(result).replace(PLACEHOLDER_REGEX, (_match, index: string) => rendered[Number(index)])
+}
+
+/** Convert the inside of a `<...>` token: a mention, a special mention or a link */
+function convertToken(token: string, names: MentionNames, mode: Mode): string {
+  const pipe = token.indexOf("|")
+  const target = pipe === -1 ? token : token.slice(0, pipe)
+  const label = pipe === -1 ? undefined : token.slice(pipe + 1)
+  const text = (value: string) =>
+    mode.format === "markdown"
+      ? escapeMarkdown(value)
+      : mode.format === "html"
+        ? escapeHtml(decodeEntities(value))
+        : decodeEntities(value)
+
+  switch (target[0]) {
+    case "@": {
+      const id = target.slice(1)
+      return mention(text(`@${names.users[id] ?? label ?? id}`), mode)
+    }
+    case "#": {
+      const id = target.slice(1)
+      return mention(text(`#${names.channels[id] ?? label ?? id}`), mode)
+    }
+    case "!": {
+      // <!here>, <!channel>, <!subteam^S123|@team>, <!date^1392734382^{date}|Feb 18, 2014>
+      if (label) return text(label)
+      const [command] = target.slice(1).split("^")
+      return text(`@${command}`)
+    }
+  }
+
+  const url = decodeEntities(target)
+  if (!LINK_SCHEMES.test(url)) return text(label ?? target)
+
+  const display = label ?? url.replace(/^mailto:/i, "")
+  if (mode.format === "markdown") return link(escapeMarkdown(display), url)
+  if (mode.format === "html") return `<a href="${escapeHtml(url)}">${text(display)}</a>`
+  return mode.keepUrls && display !== url && `mailto:${display}` !== url ? `${text(display)} (${url})` : text(display)
+}
+
+/** Mentions stand out in HTML; elsewhere they're just text */
+function mention(text: string, mode: Mode): string {
+  return mode.format === "html" ? `<span class="mention">${text}</span>` : text
+}
+
+/** Keep text from being read as Markdown links (which could target `command:` URIs) */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\[\]]/g, "\\$&")
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&")
+}
@@ -0,0 +1,132 @@
+/**
+ * RequestScheduler - Rate-limit aware queue for Slack Web API calls.
+ *
+ * Slack rate-limits per method, in tiers (Tier 1 ≈ 1/min ... Tier 4 ≈ 100+/min).
+ * The scheduler caps how many calls of each tier run at once and, on a 429,
+ * pauses that method for `Retry-After` seconds before retrying.
+ * Once it gives up it hands back the last 429; the client turns that into a RateLimitedError.
+ *
+ * Pure (fetch-agnostic): it schedules whatever `send` does and inspects the Response.
+ */
+
+export type SlackTier = 1 | 2 | 3 | 4
+
+/** Tiers of the methods we call. Unknown methods are treated as Tier 3. */
+export const SLACK_METHOD_TIERS: Readonly<Record<string, SlackTier>> = {
+  "conversations.history": 3,
+  "conversations.replies": 3,
+  "conversations.info": 3,
+  "conversations.join": 3,
+  "users.info": 4,
+  "files.info": 4,
+  // Slack lists it under its special limits; a cheap lookup, so it shares Tier 4
+  "chat.getPermalink": 4
+}
+
+const DEFAULT_TIER: SlackTier = 3
+
+/** Concurrent calls allowed per tier */
+const DEFAULT_CONCURRENCY: Record<SlackTier, number> = {1: 1, 2: 2, 3: 4, 4: 8}
+
+export interface SchedulerOptions {
+  /** Override the concurrent calls allowed per tier */
+  concurrency?: Partial<Record<SlackTier, number>>
+  /** Retries after a 429 before giving up (default 3) */
+  maxRetries?: number
+  /** Longest `Retry-After` worth waiting for, in seconds; longer ones fail right away (default 30) */
+  maxRetryAfter?: number
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>
+}
+
+/** A counting semaphore: one per tier */
+class Slots {
+  private active = 0
+  private readonly waiting: (() => void)[] = []
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++
+      return
+    }
+    // The releasing call hands its slot straight over, so `active` stays put
+    await new Promise<void>(resolve => this.waiting.push(resolve))
+  }
+
+  release(): void {
+    const next = this.waiting.shift()
+    if (next) next()
+    else this.active--
+  }
+}
+
+export class RequestScheduler {
+  private readonly slots = new Map<SlackTier, Slots>()
+  /** Per method: when Slack said we may call it again (epoch ms) */
+  private readonly pausedUntil = new Map<string, number>()
+
+  private readonly concurrency: Record<SlackTier, number>
+  private readonly maxRetries: number
+  private readonly maxRetryAfter: number
+  private readonly sleep: (ms: number) => Promise<void>
+
+  constructor(options: SchedulerOptions = {}) {
+    this.concurrency = {...DEFAULT_CONCURRENCY, ...options.concurrency}
+    this.maxRetries = options.maxRetries ?? 3
+    this.maxRetryAfter = options.maxRetryAfter ?? 30
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)))
+  }
+
+  /**
+   * Run `send` for a Slack method once a slot in its tier is free, retrying on 429.
+   * Resolves with the first non-429 response, or the last 429 if Slack keeps refusing.
+   */
+  async schedule(method: string, send: () => Promise<Response>): Promise<Response> {
+    const slots = this.slotsFor(SLACK_METHOD_TIERS[method] ?? DEFAULT_TIER)
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitUntilResumed(method)
+
+      await slots.acquire()
+      let response: Response
+      try {
+        response = await send()
+      } finally {
+        slots.release()
+      }
+
+      if (response.status !== 429) return response
+
+      const retryAfter = retryAfterSeconds(response, attempt)
+      if (attempt >= this.maxRetries || retryAfter > this.maxRetryAfter) return response
+      // Everyone else calling this method waits too, rather than piling on more 429s
+      this.pausedUntil.set(method, Math.max(this.pausedUntil.get(method) ?? 0, Date.now() + retryAfter * 1000))
+    }
+  }
+
+  private slotsFor(tier: SlackTier): Slots {
+    let slots = this.slots.get(tier)
+    if (!slots) {
+      slots = new Slots(this.concurrency[tier])
+      this.slots.set(tier, slots)
+    }
+    return slots
+  }
+
+  private async waitUntilResumed(method: string): Promise<void> {
+    const until = this.pausedUntil.get(method)
+    if (until === undefined) return
+
+    const wait = until - Date.now()
+    if (wait > 0) await this.sleep(wait)
+    if (this.pausedUntil.get(method) === until) this.pausedUntil.delete(method)
+  }
+}
+
+/** `Retry-After` in seconds, or exponential backoff (1s, 2s, 4s...) when Slack leaves it out */
+export function retryAfterSeconds(response: Response, attempt = 0): number {
+  const header = Number(response.headers.get("retry-after"))
+  return response.headers.has("retry-after") && Number.isFinite(header) && header >= 0 ? header : 2 ** attempt
+}
@@ -1,94 +1,376 @@
 /**
  * SlackStore - In-memory cache for Slack resources.
  *
- * Session-based caching. Clears on extension reload.
- * Also caches errors to avoid repeated API calls and console spam.
+ * Session-based caching with per-resource TTLs. Clears on extension reload.
+ * Expired values are served right away while a background fetch refreshes them
+ * (stale-while-revalidate); listeners hear about refreshes that changed something.
+ * Also caches errors to avoid repeated API calls and console spam. Permanent errors
+ * (`channel_not_found`, deleted messages) last as long as a value would; auth and network
+ * failures are tried again after RETRY_FAILED_AFTER, and a RateLimitedError is never cached.
+ * A cached MessageDeletedError is a tombstone: the link stays dead until it expires or is refreshed.
+ *
+ * `snapshot()` / `restore()` move values and tombstones in and out as plain JSON,
+ * for the on-disk cache to keep across restarts.
  */
 
-import type {SlackMessage, SlackUser, SlackChannel, SlackThread} from "./types"
+import type {SlackMessage, SlackUser, SlackChannel, SlackThread, SlackFile, SlackAuthor} from "./types"
 import type {SlackUrl} from "./url"
-import type {ISlackClient} from "./client"
+import {MessageDeletedError, RateLimitedError, SlackPermanentError, type ISlackClient} from "./client"
+import {resolveMentions, type MentionNames} from "./mrkdwn"
+
+/** Cached result: either success or error, stamped with when it was fetched and last read (epoch ms) */
+type CacheEntry<T> = ({ok: true; value: T} | {ok: false; error: Error}) & {fetchedAt: number; usedAt: number}
+
+/**
+ * A cache entry as plain JSON: a value, or the tombstone of a deleted message.
+ * Other errors aren't worth keeping past the session.
+ */
+export type PersistedEntry<T = unknown> = {key: string; fetchedAt: number; usedAt: number} & (
+  | {value: T}
+  | {deleted: {channelId: string; ts: string}}
+)
+
+export type SlackStoreSnapshot = Record<SlackResource, PersistedEntry[]>
+
+/** How a cache has been doing since the last clear */
+export interface CacheStats {
+  size: number
+  /** Answered from a cached value or error */
+  hits: number
+  /** Answered from an expired value while it was fetched again in the background */
+  stale: number
+  /** Went to the API */
+  misses: number
+  /** Joined a request already in flight for the same key */
+  coalesced: number
+}
+
+export type SlackResource = "messages" | "threads" | "users" | "channels" | "files"
+
+/** How long each resource stays fresh, in ms */
+export type SlackCacheTtls = Record<SlackResource, number>
+
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+
+/**
+ * Users and channels barely change; threads gain replies and reactions all day.
+ */
+export const DEFAULT_SLACK_TTLS: SlackCacheTtls = {
+  messages: 10 * MINUTE,
+  threads: 2 * MINUTE,
+  users: 24 * HOUR,
+  channels: 24 * HOUR,
+  files: HOUR,
+}
 
-/** Cached result: either success or error */
-type CacheEntry<T> = {ok: true; value: T} | {ok: false; error: string}
+/** How long an auth, network or unclassified failure is remembered before trying again, in ms */
+export const RETRY_FAILED_AFTER = 30_000
+
+/** A background refresh changed a cached resource */
+export interface SlackStoreChange {
+  resource: SlackResource
+  key: string
+}
+
+export interface SlackStoreOptions {
+  ttls?: Partial<SlackCacheTtls>
+  /** Injectable for tests */
+  now?: () => number
+}
 
 /**
  * Generic cache with error support.
- * Stores both successful results and errors to avoid repeated fetches.
+ * Stores both successful results and errors to avoid repeated fetches,
+ * and shares in-flight requests so concurrent callers make one API call.
  */
 class Cache<T> {
   private entries = new Map<string, CacheEntry<T>>()
+  private pending = new Map<string, Promise<T>>()
+  private hits = 0
+  private stale = 0
+  private misses = 0
+  private coalesced = 0
+  private writes = 0
+
+  constructor(
+    private readonly ttl: number,
+    private readonly now: () => number,
+    /** Called when a background refresh brings back something different */
+    private readonly onRefresh: (key: string) => void
+  ) {}
 
   get(key: string): CacheEntry<T> | undefined {
     return this.entries.get(key)
   }
 
   set(key: string, value: T): void {
-    this.entries.set(key, {ok: true, value})
+    const now = this.now()
+    this.entries.set(key, {ok: true, value, fetchedAt: now, usedAt: now})
+    this.writes++
   }
 
-  setError(key: string, error: string): void {
-    this.entries.set(key, {ok: false, error})
+  setError(key: string, error: Error): void {
+    const now = this.now()
+    this.entries.set(key, {ok: false, error, fetchedAt: now, usedAt: now})
+    this.writes++
   }
 
   remove(key: string): boolean {
+    this.writes++
     return this.entries.delete(key)
   }
 
+  /** Drop every entry whose key matches */
+  removeMatching(matches: (key: string) => boolean): void {
+    for (const key of this.entries.keys()) {
+      if (matches(key)) this.remove(key)
+    }
+  }
+
+  /** Drop the cached errors whose keys match, leaving values alone */
+  removeErrors(matches: (key: string) => boolean): void {
+    for (const [key, entry] of this.entries) {
+      if (!entry.ok && matches(key)) this.remove(key)
+    }
+  }
+
   clear(): void {
     this.entries.clear()
+    this.writes++
+    this.hits = 0
+    this.stale = 0
+    this.misses = 0
+    this.coalesced = 0
   }
 
   get size(): number {
     return this.entries.size
   }
 
+  stats(): CacheStats {
+    return {size: this.size, hits: this.hits, stale: this.stale, misses: this.misses, coalesced: this.coalesced}
+  }
+
+  /** Bumped on every write, so persistence can tell whether there is anything new to save */
+  get revision(): number {
+    return this.writes
+  }
+
+  /** Values and tombstones as plain JSON */
+  snapshot(): PersistedEntry<T>[] {
+    const persisted: PersistedEntry<T>[] = []
+    for (const [key, entry] of this.entries) {
+      const {fetchedAt, usedAt} = entry
+      if (entry.ok) {
+        persisted.push({key, fetchedAt, usedAt, value: entry.value})
+      } else if (entry.error instanceof MessageDeletedError) {
+        const {channelId, ts} = entry.error
+        persisted.push({key, fetchedAt, usedAt, deleted: {channelId, ts}})
+      }
+    }
+    return persisted
+  }
+
+  /** Load persisted entries, keeping anything fetched this session over them */
+  restore(persisted: PersistedEntry<T>[]): void {
+    for (const {key, fetchedAt, usedAt, ...rest} of persisted) {
+      if (this.entries.has(key)) continue
+      this.entries.set(
+        key,
+        "value" in rest
+          ? {ok: true, value: rest.value, fetchedAt, usedAt}
+          : {ok: false, error: new MessageDeletedError(rest.deleted.channelId, rest.deleted.ts), fetchedAt, usedAt}
+      )
+    }
+  }
+
   /**
    * Fetch-or-cache with error caching.
    * Returns cached value/error, or fetches and caches the result.
+   * Cached errors are rethrown as-is, so callers can still tell them apart by class.
+   * Rate limits pass through uncached: the next call should simply try again.
+   * Callers arriving while a fetch is in flight share its result, or its error.
+   *
+   * Once past its TTL, a value is still returned immediately while it refreshes in
+   * the background; an expired error is simply fetched again. Only permanent errors get
+   * the full TTL - anything else expires after RETRY_FAILED_AFTER.
    */
   async fetch(key: string, fetcher: () => Promise<T>): Promise<T> {
     const cached = this.get(key)
-    if (cached) {
-      if (!cached.ok) throw new Error(cached.error)
+    const expired = cached ? this.now() - cached.fetchedAt >= this.ttlOf(cached) : false
+
+    if (cached) cached.usedAt = this.now()
+
+    if (cached && !expired) {
+      this.hits++
+      if (!cached.ok) throw cached.error
       return cached.value
     }
 
+    if (cached?.ok) {
+      this.stale++
+      this.revalidate(key, cached, fetcher)
+      return cached.value
+    }
+
+    const inFlight = this.pending.get(key)
+    if (inFlight) {
+      this.coalesced++
+      return inFlight
+    }
+
+    this.misses++
+    return this.track(key, this.load(key, fetcher))
+  }
+
+  private ttlOf(entry: CacheEntry<T>): number {
+    return entry.ok || entry.error instanceof SlackPermanentError ? this.ttl : RETRY_FAILED_AFTER
+  }
+
+  private revalidate(key: string, previous: CacheEntry<T> & {ok: true}, fetcher: () => Promise<T>): void {
+    if (this.pending.has(key)) return
+
+    this.track(key, this.load(key, fetcher)).then(
+      value => {
+        if (JSON.stringify(value) !== JSON.stringify(previous.value)) this.onRefresh(key)
+      },
+      error => {
+        // A message deleted since we cached it is news; anything else puts the stale entry back
+        // as it was, still expired, unless something replaced the error in the meantime
+        if (error instanceof MessageDeletedError) this.onRefresh(key)
+        else if (this.entries.get(key)?.ok === false) this.entries.set(key, previous)
+      }
+    )
+  }
+
+  /** Share `request` with whoever asks for `key` until it settles */
+  private async track(key: string, request: Promise<T>): Promise<T> {
+    this.pending.set(key, request)
+    try {
+      return await request
+    } finally {
+      this.pending.delete(key)
+    }
+  }
+
+  private async load(key: string, fetcher: () => Promise<T>): Promise<T> {
     try {
       const value = await fetcher()
       this.set(key, value)
       return value
     } catch (error) {
-      this.setError(key, error instanceof Error ? error.message : "Unknown error")
+      if (!(error instanceof RateLimitedError)) {
+        this.setError(key, error instanceof Error ? error : new Error("Unknown error"))
+      }
       throw error
     }
   }
 }
 
 export class SlackStore {
-  readonly messages = new Cache<SlackMessage>()
-  readonly threads = new Cache<SlackThread>()
-  readonly users = new Cache<SlackUser>()
-  readonly channels = new Cache<SlackChannel>()
+  readonly messages: Cache<SlackMessage>
+  readonly threads: Cache<SlackThread>
+  readonly users: Cache<SlackUser>
+  readonly channels: Cache<SlackChannel>
+  readonly files: Cache<SlackFile>
+
+  private readonly listeners = new Set<(change: SlackStoreChange) => void>()
+
+  constructor(options: SlackStoreOptions = {}) {
+    const ttls = {...DEFAULT_SLACK_TTLS, ...options.ttls}
+    const now = options.now ?? Date.now
+    const cache = <T>(resource: SlackResource) =>
+      new Cache<T>(ttls[resource], now, key => this.listeners.forEach(listener => listener({resource, key})))
+
+    this.messages = cache("messages")
+    this.threads = cache("threads")
+    this.users = cache("users")
+    this.channels = cache("channels")
+    this.files = cache("files")
+  }
+
+  /** Hear about background refreshes that changed a cached resource */
+  onDidChange(listener: (change: SlackStoreChange) => void): {dispose(): void} {
+    this.listeners.add(listener)
+    return {dispose: () => this.listeners.delete(listener)}
+  }
 
   /** Cache key for channel-scoped resources (messages, threads) */
   static key(channelId: string, ts: string): string {
     return `${channelId}:${ts}`
   }
 
+  /** Cache key for the part of a long thread from `oldest` on, fetched for a link to a late reply */
+  static windowKey(channelId: string, threadTs: string, oldest: string): string {
+    return `${SlackStore.key(channelId, threadTs)}>${oldest}`
+  }
+
+  /** Whether a `threads` key holds the thread `threadKey` or a window into it */
+  static isThreadKey(key: string, threadKey: string): boolean {
+    return key === threadKey || key.startsWith(`${threadKey}>`)
+  }
+
+  /** Forget a thread, along with any windows fetched into it */
+  forgetThread(channelId: string, threadTs: string): void {
+    const threadKey = SlackStore.key(channelId, threadTs)
+    this.threads.removeMatching(key => SlackStore.isThreadKey(key, threadKey))
+  }
+
+  /**
+   * Forget the failures cached for a channel and everything in it - after joining it,
+   * say, `not_in_channel` no longer holds. Values stay put.
+   */
+  forgetChannelErrors(channelId: string): void {
+    const inChannel = (key: string) => key.startsWith(`${channelId}:`)
+    this.messages.removeErrors(inChannel)
+    this.threads.removeErrors(inChannel)
+    this.channels.removeErrors(key => key === channelId)
+  }
+
   clear(): void {
     this.messages.clear()
     this.threads.clear()
     this.users.clear()
     this.channels.clear()
+    this.files.clear()
+  }
+
+  /** Bumped on every cache write */
+  get revision(): number {
+    return this.caches().reduce((sum, cache) => sum + cache.revision, 0)
+  }
+
+  snapshot(): SlackStoreSnapshot {
+    return {
+      messages: this.messages.snapshot(),
+      threads: this.threads.snapshot(),
+      users: this.users.snapshot(),
+      channels: this.channels.snapshot(),
+      files: this.files.snapshot(),
+    }
+  }
+
+  /** Load a snapshot. Entries keep their timestamps, so expired ones revalidate on first use. */
+  restore(snapshot: Partial<SlackStoreSnapshot>): void {
+    this.messages.restore((snapshot.messages ?? []) as PersistedEntry<SlackMessage>[])
+    this.threads.restore((snapshot.threads ?? []) as PersistedEntry<SlackThread>[])
+    this.users.restore((snapshot.users ?? []) as PersistedEntry<SlackUser>[])
+    this.channels.restore((snapshot.channels ?? []) as PersistedEntry<SlackChannel>[])
+    this.files.restore((snapshot.files ?? []) as PersistedEntry<SlackFile>[])
   }
 
-  stats() {
+  private caches() {
+    return [this.messages, this.threads, this.users, this.channels, this.files]
+  }
+
+  stats(): Record<SlackResource, CacheStats> {
     return {
-      messages: this.messages.size,
-      threads: this.threads.size,
-      users: this.users.size,
-      channels: this.channels.size,
+      messages: this.messages.stats(),
+      threads: this.threads.stats(),
+      users: this.users.stats(),
+      channels: this.channels.stats(),
+      files: this.files.stats(),
     }
   }
 }
@@ -115,6 +397,21 @@ export class SlackLoader {
     )
   }
 
+  /**
+   * The thread a URL points into. A link to a reply past the replies the capped thread
+   * holds gets the window starting at that reply instead.
+   */
+  async getThreadForUrl(url: SlackUrl): Promise<SlackThread> {
+    const threadTs = url.threadTs ?? url.messageTs
+    const thread = await this.getThread(url.channelId, threadTs)
+    if (!thread.moreReplies || thread.parent.ts === url.messageTs) return thread
+    if (thread.replies.some(reply => reply.ts === url.messageTs)) return thread
+
+    return this.store.threads.fetch(SlackStore.windowKey(url.channelId, threadTs, url.messageTs), () =>
+      this.client.getThread(url.channelId, threadTs, {oldest: url.messageTs})
+    )
+  }
+
   getUser(userId: string): Promise<SlackUser> {
     return this.store.users.fetch(userId, () => this.client.getUser(userId))
   }
@@ -123,38 +420,106 @@ export class SlackLoader {
     return this.store.channels.fetch(channelId, () => this.client.getChannel(channelId))
   }
 
+  getFile(fileId: string): Promise<SlackFile> {
+    return this.store.files.fetch(fileId, () => this.client.getFile(fileId))
+  }
+
+  /**
+   * The web permalink for a URL, to share where Slack's app links don't open (Linear, say).
+   * Archive links already are one; client and `slack://` links are looked up.
+   */
+  async getPermalink(url: SlackUrl): Promise<string> {
+    if (url.kind === "archive") return url.raw
+    return this.client.getPermalink(url.channelId, url.messageTs)
+  }
+
+  /**
+   * Who posted a message. Bot posts name themselves, so only people cost a user lookup.
+   */
+  async getAuthor(message: SlackMessage): Promise<SlackAuthor> {
+    const bot = botAuthor(message)
+    if (bot) return bot
+
+    const user = await this.getUser(message.user)
+    return {name: user.displayName, iconUrl: user.avatarUrl, isBot: false}
+  }
+
+  /**
+   * Names for the users and channels mentioned in message text.
+   * Lookups go through the user/channel caches; failures fall back to the raw ID.
+   */
+  getMentionNames(text: string): Promise<MentionNames> {
+    return resolveMentions(text, this)
+  }
+
   /**
    * Get all messages for a URL (single message or thread).
-   * For single message URLs, also tries to fetch thread replies
+   * For single message URLs of thread parents, also fetches the replies
    * to catch Linear Asks bot messages.
+   * Throws MessageDeletedError when the linked message is gone; a reply missing from a thread
+   * cached before it was posted gets the thread refetched first.
    */
   async getMessagesForUrl(url: SlackUrl): Promise<{
     target: SlackMessage
     all: SlackMessage[]
+    /** Replies in the whole thread, fetched or not */
     replyCount: number
+    /** Replies left out of `all` by the reply cap or the window */
+    moreReplies: number
   }> {
     if (url.threadTs) {
-      const thread = await this.getThread(url.channelId, url.threadTs)
+      let thread = await this.getThreadForUrl(url)
+      const has = ({parent, replies}: SlackThread) => [parent, ...replies].some(m => m.ts === url.messageTs)
+      if (!has(thread) && this.isCachedBefore(url.channelId, url.threadTs, url.messageTs)) {
+        // The reply may be newer than the cached thread rather than deleted
+        this.store.forgetThread(url.channelId, url.threadTs)
+        thread = await this.getThreadForUrl(url)
+      }
       const all = [thread.parent, ...thread.replies]
-      const target = all.find(m => m.ts === url.messageTs) ?? thread.parent
-      return {target, all, replyCount: thread.replies.length}
+      const target = all.find(m => m.ts === url.messageTs)
+      // A deleted reply is simply missing; a deleted parent with replies left is a tombstone
+      if (!target || target.subtype === "tombstone") throw new MessageDeletedError(url.channelId, url.messageTs)
+      return {target, all, ...replyCounts(thread)}
     }
 
     // Single message URL
     const target = await this.getMessage(url.channelId, url.messageTs)
     const all = [target]
 
-    // Try to fetch thread replies (message might be a thread parent)
+    // Only thread parents have replies worth a conversations.replies call
+    if (!target.replyCount) return {target, all, replyCount: 0, moreReplies: 0}
+
     try {
       const thread = await this.getThread(url.channelId, target.ts)
-      if (thread.replies.length > 0) {
-        all.push(...thread.replies)
-        return {target, all, replyCount: thread.replies.length}
-      }
+      all.push(...thread.replies)
+      return {target, all, ...replyCounts(thread)}
     } catch {
-      // Not a thread parent - that's fine
+      // Replies unavailable - the message alone will do
+      return {target, all, replyCount: target.replyCount, moreReplies: 0}
     }
+  }
+
+  /** Whether the cached thread was fetched before the message at `ts` was posted */
+  private isCachedBefore(channelId: string, threadTs: string, ts: string): boolean {
+    const cached = this.store.threads.get(SlackStore.key(channelId, threadTs))
+    return !!cached && cached.fetchedAt < Number(ts) * 1000
+  }
+}
 
-    return {target, all, replyCount: 0}
+/** Every reply the thread has, and how many of them weren't fetched */
+function replyCounts(thread: SlackThread): {replyCount: number; moreReplies: number} {
+  const moreReplies = thread.moreReplies ?? 0
+  return {replyCount: thread.replies.length + moreReplies, moreReplies}
+}
+
+/** The bot identity a message carries, if it was posted by a bot, app or webhook */
+function botAuthor(message: SlackMessage): SlackAuthor | null {
+  const {bot_profile: profile} = message
+  if (profile) {
+    return {name: profile.name, iconUrl: profile.icons?.image_48 ?? profile.icons?.image_36, isBot: true}
+  }
+  if (message.subtype === "bot_message" && message.username) {
+    return {name: message.username, isBot: true}
   }
+  return null
 }
@@ -8,10 +8,37 @@ export interface SlackMessage {
   ts: string
   threadTs?: string
   replyCount?: number
+  /** The newest reply's ts, on thread parents; counts replies that weren't loaded */
+  latestReply?: string
   files?: SlackFile[]
   channel: string
+  /** e.g. `bot_message`, `thread_broadcast`, `channel_join`; absent for plain user posts */
+  subtype?: string
+  /** Display name legacy bots and webhooks post under (`subtype: "bot_message"`) */
+  username?: string
   bot_profile?: SlackBotProfile
+  reactions?: SlackReaction[]
+  edited?: {user: string; ts: string}
   attachments?: SlackAttachment[]
+  /** Block Kit layout. For bot and workflow messages this is the real content and `text` is a fallback. */
+  blocks?: SlackBlock[]
+}
+
+export interface SlackReaction {
+  /** Shortcode without colons, possibly with a skin tone: `+1::skin-tone-2` */
+  name: string
+  count: number
+  users?: string[]
+}
+
+/**
+ * Who posted a message, whether a person or a bot.
+ * Bots carry their identity on the message itself; people need a `users.info` lookup.
+ */
+export interface SlackAuthor {
+  name: string
+  iconUrl?: string
+  isBot: boolean
 }
 
 export interface SlackBotProfile {
@@ -29,24 +56,168 @@ export interface SlackBotProfile {
   team_id?: string
 }
 
+/**
+ * Legacy ("secondary") attachment. Still what most alerting and CI integrations send,
+ * and what Slack uses for link unfurls.
+ */
 export interface SlackAttachment {
-  from_url?: string
   id?: number
-  [key: string]: unknown
+  /** `good`, `warning`, `danger` or a hex color like `#36a64f` */
+  color?: string
+  fallback?: string
+  pretext?: string
+  author_name?: string
+  author_link?: string
+  author_icon?: string
+  title?: string
+  title_link?: string
+  /** mrkdwn */
+  text?: string
+  fields?: SlackAttachmentField[]
+  image_url?: string
+  thumb_url?: string
+  footer?: string
+  /** Unix seconds */
+  ts?: number | string
+  /** Unfurled link this attachment previews */
+  from_url?: string
+  /** Newer integrations put Block Kit inside attachments to get the color bar */
+  blocks?: SlackBlock[]
+}
+
+export interface SlackAttachmentField {
+  title: string
+  value: string
+  /** Slack lays short fields out two per row */
+  short?: boolean
+}
+
+// Block Kit
+// https://api.slack.com/reference/block-kit/blocks
+
+export type SlackBlock =
+  | SlackSectionBlock
+  | SlackHeaderBlock
+  | SlackContextBlock
+  | SlackDividerBlock
+  | SlackImageBlock
+  | SlackActionsBlock
+  | SlackRichTextBlock
+
+export interface SlackTextObject {
+  type: "plain_text" | "mrkdwn"
+  text: string
+  emoji?: boolean
+  verbatim?: boolean
+}
+
+export interface SlackSectionBlock {
+  type: "section"
+  block_id?: string
+  text?: SlackTextObject
+  fields?: SlackTextObject[]
+  accessory?: SlackBlockElement
+}
+
+export interface SlackHeaderBlock {
+  type: "header"
+  block_id?: string
+  text: SlackTextObject
+}
+
+export interface SlackContextBlock {
+  type: "context"
+  block_id?: string
+  elements: Array<SlackTextObject | SlackImageElement>
+}
+
+export interface SlackDividerBlock {
+  type: "divider"
+  block_id?: string
+}
+
+export interface SlackImageBlock {
+  type: "image"
+  block_id?: string
+  image_url: string
+  alt_text: string
+  title?: SlackTextObject
+}
+
+export interface SlackActionsBlock {
+  type: "actions"
+  block_id?: string
+  elements: SlackBlockElement[]
+}
+
+export interface SlackRichTextBlock {
+  type: "rich_text"
+  block_id?: string
+  elements: SlackRichTextElement[]
 }
 
+/** Interactive elements. Only the parts worth showing read-only are modelled. */
+export type SlackBlockElement = SlackButtonElement | SlackImageElement | {type: string}
+
+export interface SlackButtonElement {
+  type: "button"
+  text: SlackTextObject
+  url?: string
+  value?: string
+}
+
+export interface SlackImageElement {
+  type: "image"
+  image_url: string
+  alt_text: string
+}
+
+export type SlackRichTextElement =
+  | {type: "rich_text_section"; elements: SlackRichTextInline[]}
+  | {type: "rich_text_list"; style: "bullet" | "ordered"; indent?: number; elements: SlackRichTextSection[]}
+  | {type: "rich_text_preformatted"; elements: SlackRichTextInline[]}
+  | {type: "rich_text_quote"; elements: SlackRichTextInline[]}
+
+export type SlackRichTextSection = Extract<SlackRichTextElement, {type: "rich_text_section"}>
+
+export interface SlackRichTextStyle {
+  bold?: boolean
+  italic?: boolean
+  strike?: boolean
+  code?: boolean
+}
+
+export type SlackRichTextInline =
+  | {type: "text"; text: string; style?: SlackRichTextStyle}
+  | {type: "link"; url: string; text?: string; style?: SlackRichTextStyle}
+  | {type: "user"; user_id: string}
+  | {type: "channel"; channel_id: string}
+  | {type: "usergroup"; usergroup_id: string}
+  | {type: "broadcast"; range: "here" | "channel" | "everyone"}
+  | {type: "emoji"; name: string; unicode?: string}
+  | {type: "date"; timestamp: number; fallback?: string}
+
 export interface SlackUser {
   id: string
   name: string
   realName: string
   displayName: string
   avatarUrl?: string
+  /** Job title from the profile */
+  title?: string
+  /** IANA zone, e.g. `America/Los_Angeles` */
+  timeZone?: string
+  /** Human label, e.g. `Pacific Daylight Time` */
+  timeZoneLabel?: string
 }
 
 export interface SlackChannel {
   id: string
   name: string
   isPrivate: boolean
+  topic?: string
+  purpose?: string
+  memberCount?: number
 }
 
 export interface SlackFile {
@@ -59,9 +230,22 @@ export interface SlackFile {
   permalink?: string
   thumb?: string
   size: number
+  /** Fields below are only filled by `files.info` (file permalinks), not by message payloads */
+  title?: string
+  filetype?: string
+  pretty_type?: string
+  /** Uploader's user ID */
+  user?: string
+  /** Unix seconds */
+  created?: number
+  /** First lines of a text snippet or text upload */
+  preview?: string
+  preview_is_truncated?: boolean
 }
 
 export interface SlackThread {
   parent: SlackMessage
   replies: SlackMessage[]
+  /** Replies the thread has that weren't fetched: past the reply cap, or outside the requested window */
+  moreReplies?: number
 }
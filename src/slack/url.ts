@@ -5,17 +5,40 @@
  * It can only be created through `parseSlackUrl()`, ensuring all
  * instances are valid.
  *
+ * Every permalink shape Slack hands out normalizes to the same value:
+ * - `archive`  — `https://<sub>.slack.com/archives/C…/p…`, including Enterprise Grid
+ *                (`<sub>.enterprise.slack.com`) and GovSlack (`<sub>.slack-gov.com`)
+ * - `client`   — `https://app.slack.com/client/T…/C…/thread/C…-<ts>`
+ * - `deepLink` — `slack://channel?team=T…&id=C…&message=<ts>`
+ *
  * Pure module - no VS Code imports, no HTTP calls, fully testable.
  */
 
 export const SLACK_URL_REGEX =
-  /https:\/\/([a-zA-Z0-9-]+)\.slack\.com\/archives\/([A-Z0-9]+)\/p(\d+)(?:\?thread_ts=(\d+\.\d+)[^\s]*)?/
+  /https:\/\/([a-zA-Z0-9-]+)(?:\.enterprise)?\.slack(?:-gov)?\.com\/archives\/([A-Z0-9]+)\/p(\d+)(?:\?thread_ts=(\d+\.\d+)[^\s]*)?/
+
+/** `app.slack.com` web client links. Groups: team, channel, thread ts. */
+export const SLACK_CLIENT_URL_REGEX =
+  /https:\/\/app\.slack(?:-gov)?\.com\/client\/([A-Z0-9]+)\/([A-Z0-9]+)\/thread\/[A-Z0-9]+-(\d+\.\d+)/
+
+/** `slack://` desktop deep links. The query is parsed separately — Slack does not fix the param order. */
+export const SLACK_DEEP_LINK_REGEX = /slack:\/\/channel\?[\w.=&%-]+/
 
-/** Global variant for matchAll — each call to matchAll resets state, so sharing is safe. */
-export const SLACK_URL_REGEX_GLOBAL = new RegExp(SLACK_URL_REGEX.source, "g")
+/** Global variant for matchAll, covering every shape — each call to matchAll resets state, so sharing is safe. */
+export const SLACK_URL_REGEX_GLOBAL = new RegExp(
+  [SLACK_URL_REGEX, SLACK_CLIENT_URL_REGEX, SLACK_DEEP_LINK_REGEX].map(regex => regex.source).join("|"),
+  "g"
+)
+
+/** Which permalink shape a URL was written in. */
+export type SlackUrlKind = "archive" | "client" | "deepLink"
 
 export interface SlackUrl {
   readonly raw: string
+  readonly kind: SlackUrlKind
+  /** Host the link points at, e.g. `acme.enterprise.slack.com`, `app.slack.com`, or `channel` for deep links */
+  readonly host: string
+  /** Workspace subdomain for `archive` links, team ID (`T…`/`E…`) for `client` and `deepLink` */
   readonly workspace: string
   readonly channelId: string
   readonly messageTs: string
@@ -27,30 +50,91 @@ export interface SlackUrl {
  *
  * @example
  * parseSlackUrl('https://myworkspace.slack.com/archives/C1234ABCD/p1234567890123456')
- * // => { raw: '...', workspace: 'myworkspace', channelId: 'C1234ABCD', messageTs: '1234567890.123456' }
+ * // => { raw: '...', kind: 'archive', host: 'myworkspace.slack.com', workspace: 'myworkspace',
+ * //      channelId: 'C1234ABCD', messageTs: '1234567890.123456' }
  *
  * parseSlackUrl('https://myworkspace.slack.com/archives/C1234/p1234567890123456?thread_ts=1234567890.345678')
  * // => { ..., threadTs: '1234567890.345678' }
  *
+ * parseSlackUrl('https://app.slack.com/client/T0123/C1234/thread/C1234-1234567890.345678')
+ * // => { kind: 'client', workspace: 'T0123', channelId: 'C1234', messageTs: '1234567890.345678', threadTs: '1234567890.345678' }
+ *
  * parseSlackUrl('not a slack url')
  * // => null
  */
 export function parseSlackUrl(raw: string): SlackUrl | null {
+  // Several shapes may appear in one string; the earliest one wins, as it would for a single regex.
+  const candidates = [parseArchiveUrl(raw), parseClientUrl(raw), parseDeepLink(raw)]
+  const found = candidates.filter((c): c is {index: number; url: SlackUrl} => c !== null)
+  if (!found.length) return null
+
+  return found.reduce((first, c) => (c.index < first.index ? c : first)).url
+}
+
+type ParsedAt = {index: number; url: SlackUrl} | null
+
+function parseArchiveUrl(raw: string): ParsedAt {
   const match = SLACK_URL_REGEX.exec(raw)
   if (!match) return null
 
   const [fullUrl, workspace, channelId, rawTs, threadTs] = match
-  const messageTs = formatTimestamp(rawTs)
+  return {
+    index: match.index,
+    url: {
+      raw: fullUrl,
+      kind: "archive",
+      host: hostOf(fullUrl),
+      workspace,
+      channelId,
+      messageTs: formatTimestamp(rawTs),
+      threadTs,
+    },
+  }
+}
+
+function parseClientUrl(raw: string): ParsedAt {
+  const match = SLACK_CLIENT_URL_REGEX.exec(raw)
+  if (!match) return null
+
+  // A client link always opens the thread pane, so the ts is the thread parent.
+  const [fullUrl, teamId, channelId, ts] = match
+  return {
+    index: match.index,
+    url: {raw: fullUrl, kind: "client", host: hostOf(fullUrl), workspace: teamId, channelId, messageTs: ts, threadTs: ts},
+  }
+}
+
+function parseDeepLink(raw: string): ParsedAt {
+  const match = SLACK_DEEP_LINK_REGEX.exec(raw)
+  if (!match) return null
+
+  const [fullUrl] = match
+  const params = new URLSearchParams(fullUrl.slice(fullUrl.indexOf("?") + 1))
+  const teamId = params.get("team")
+  const channelId = params.get("id")
+  const message = params.get("message")
+  if (!teamId || !channelId || !message || !/^[A-Z0-9]+$/.test(channelId)) return null
+
+  const messageTs = normalizeTimestamp(message)
+  if (!messageTs) return null
 
+  const threadTs = params.get("thread_ts")
   return {
-    raw: fullUrl,
-    workspace,
-    channelId,
-    messageTs,
-    threadTs,
+    index: match.index,
+    url: {
+      raw: fullUrl,
+      kind: "deepLink",
+      host: "channel",
+      workspace: teamId,
+      channelId,
+      messageTs,
+      threadTs: threadTs ? normalizeTimestamp(threadTs) ?? undefined : undefined,
+    },
   }
 }
 
+const hostOf = (url: string): string => url.slice("https://".length, url.indexOf("/", "https://".length))
+
 /**
  * Convert Slack's compact timestamp (p1234567890123456) to API format (1234567890.123456)
  */
@@ -58,6 +142,13 @@ function formatTimestamp(rawTs: string): string {
   return `${rawTs.slice(0, -6)}.${rawTs.slice(-6)}`
 }
 
+/** Accept either the API format or the compact `p…` form, as deep links are written both ways. */
+function normalizeTimestamp(value: string): string | null {
+  if (/^\d+\.\d+$/.test(value)) return value
+  const compact = /^p?(\d{7,})$/.exec(value)
+  return compact ? formatTimestamp(compact[1]) : null
+}
+
 // Derived properties as functions - more composable than methods
 
 export const isThread = (url: SlackUrl): boolean => url.threadTs !== undefined
@@ -75,3 +166,120 @@ export function findAllSlackUrls(text: string): SlackUrl[] {
     .map(match => parseSlackUrl(match[0]))
     .filter((url): url is SlackUrl => url !== null)
 }
+
+// File permalinks ----------------------------------------------------------
+
+/** `https://<sub>.slack.com/files/U…/F…/name` — uploads and snippets. Groups: workspace, uploader, file ID, name. */
+export const SLACK_FILE_URL_REGEX =
+  /https:\/\/([a-zA-Z0-9-]+)(?:\.enterprise)?\.slack(?:-gov)?\.com\/files\/([A-Z0-9]+)\/(F[A-Z0-9]+)(?:\/([\w.%-]+))?/
+
+/** Global variant for matchAll. */
+export const SLACK_FILE_URL_REGEX_GLOBAL = new RegExp(SLACK_FILE_URL_REGEX.source, "g")
+
+export interface SlackFileUrl {
+  readonly raw: string
+  readonly host: string
+  readonly workspace: string
+  /** The uploader, as written in the link */
+  readonly userId: string
+  readonly fileId: string
+  /** File name slug from the link, if present. The real name comes from `files.info`. */
+  readonly name?: string
+}
+
+/**
+ * Parse a Slack file permalink.
+ *
+ * @example
+ * parseSlackFileUrl('https://acme.slack.com/files/U1234/F5678/build.log')
+ * // => { raw: '...', host: 'acme.slack.com', workspace: 'acme', userId: 'U1234', fileId: 'F5678', name: 'build.log' }
+ */
+export function parseSlackFileUrl(raw: string): SlackFileUrl | null {
+  const match = SLACK_FILE_URL_REGEX.exec(raw)
+  if (!match) return null
+
+  const [fullUrl, workspace, userId, fileId, name] = match
+  return {raw: fullUrl, host: hostOf(fullUrl), workspace, userId, fileId, name}
+}
+
+/**
+ * Find all Slack file permalinks in a string.
+ */
+export function findAllSlackFileUrls(text: string): SlackFileUrl[] {
+  return [...text.matchAll(SLACK_FILE_URL_REGEX_GLOBAL)]
+    .map(match => parseSlackFileUrl(match[0]))
+    .filter((url): url is SlackFileUrl => url !== null)
+}
+
+// Channel and user links ---------------------------------------------------
+
+/**
+ * `https://<sub>.slack.com/archives/C…` with no message segment. The lookahead keeps it
+ * from matching the channel part of a message permalink. Groups: workspace, channel.
+ */
+export const SLACK_CHANNEL_URL_REGEX =
+  /https:\/\/([a-zA-Z0-9-]+)(?:\.enterprise)?\.slack(?:-gov)?\.com\/archives\/([A-Z0-9]+)(?![A-Z0-9]|\/p\d)/
+
+/** `https://<sub>.slack.com/team/U…` profile links. Groups: workspace, user. */
+export const SLACK_USER_URL_REGEX = /https:\/\/([a-zA-Z0-9-]+)(?:\.enterprise)?\.slack(?:-gov)?\.com\/team\/([UW][A-Z0-9]+)/
+
+/** Global variant for matchAll, covering both channel and user links. */
+export const SLACK_ENTITY_URL_REGEX_GLOBAL = new RegExp(
+  [SLACK_CHANNEL_URL_REGEX, SLACK_USER_URL_REGEX].map(regex => regex.source).join("|"),
+  "g"
+)
+
+export interface SlackChannelUrl {
+  readonly kind: "channel"
+  readonly raw: string
+  readonly host: string
+  readonly workspace: string
+  readonly channelId: string
+}
+
+export interface SlackUserUrl {
+  readonly kind: "user"
+  readonly raw: string
+  readonly host: string
+  readonly workspace: string
+  readonly userId: string
+}
+
+/** A link to a channel or a person rather than to a message. */
+export type SlackEntityUrl = SlackChannelUrl | SlackUserUrl
+
+/**
+ * Parse a Slack channel or user profile link.
+ *
+ * @example
+ * parseSlackEntityUrl('https://acme.slack.com/archives/C1234ABCD')
+ * // => { kind: 'channel', raw: '...', host: 'acme.slack.com', workspace: 'acme', channelId: 'C1234ABCD' }
+ *
+ * parseSlackEntityUrl('https://acme.slack.com/team/U1234ABCD')
+ * // => { kind: 'user', ..., userId: 'U1234ABCD' }
+ */
+export function parseSlackEntityUrl(raw: string): SlackEntityUrl | null {
+  const channel = SLACK_CHANNEL_URL_REGEX.exec(raw)
+  const user = SLACK_USER_URL_REGEX.exec(raw)
+
+  if (channel && (!user || channel.index < user.index)) {
+    const [fullUrl, workspace, channelId] = channel
+    return {kind: "channel", raw: fullUrl, host: hostOf(fullUrl), workspace, channelId}
+  }
+
+  if (user) {
+    const [fullUrl, workspace, userId] = user
+    return {kind: "user", raw: fullUrl, host: hostOf(fullUrl), workspace, userId}
+  }
+
+  return null
+}
+
+/**
+ * Find all Slack channel and user links in a string.
+ */
+export function findAllSlackEntityUrls(text: string): SlackEntityUrl[] {
+  return [...text.matchAll(SLACK_ENTITY_URL_REGEX_GLOBAL)]
+    .map(match => parseSlackEntityUrl(match[0]))
+    .filter((url): url is SlackEntityUrl => url !== null)
+}
@@ -1,5 +1,12 @@
 import type {SlackMessage, SlackUser, SlackChannel, SlackFile} from "../slack"
-import type {LinearIssue, LinearWorkflowState, LinearViewer} from "../linear"
+import type {
+  LinearIssue,
+  LinearWorkflowState,
+  LinearViewer,
+  LinearTeam,
+  LinearProject,
+  LinearAttachment
+} from "../linear"
 
 /**
  * Test fixtures for realistic mock data
@@ -11,7 +18,10 @@ export const TEST_USERS: Record<string, SlackUser> = {
     name: "alice",
     realName: "Alice Johnson",
     displayName: "Alice",
-    avatarUrl: "https://example.com/avatars/alice.jpg"
+    avatarUrl: "https://example.com/avatars/alice.jpg",
+    title: "Staff Engineer",
+    timeZone: "Europe/Lisbon",
+    timeZoneLabel: "Western European Summer Time"
   },
   U9876543210: {
     id: "U9876543210",
@@ -33,7 +43,10 @@ export const TEST_CHANNELS: Record<string, SlackChannel> = {
   C1234ABCD: {
     id: "C1234ABCD",
     name: "general",
-    isPrivate: false
+    isPrivate: false,
+    topic: "Company-wide announcements",
+    purpose: "Everyone, everything",
+    memberCount: 42
   },
   C5678EFGH: {
     id: "C5678EFGH",
@@ -75,6 +88,20 @@ export const TEST_FILES: Record<string, SlackFile> = {
     url_private: "https://files.slack.com/files-pri/T123/F555/report.pdf",
     permalink: "https://workspace.slack.com/files/U123/F555/report.pdf",
     size: 2097152
+  },
+  snippet: {
+    id: "F7777777777",
+    name: "deploy.sh",
+    title: "deploy.sh",
+    mimetype: "text/plain",
+    filetype: "shell",
+    pretty_type: "Shell",
+    user: "U9876543210",
+    created: 1234567890,
+    url_private: "https://files.slack.com/files-pri/T123/F777/deploy.sh",
+    permalink: "https://workspace.slack.com/files/U9876543210/F7777777777/deploy.sh",
+    preview: "#!/bin/sh\nset -e\nnpm run package",
+    size: 2048
   }
 }
 
@@ -120,6 +147,55 @@ export const TEST_MESSAGES: Record<string, SlackMessage> = {
     user: "U9876543210",
     text: "This is a multi-line message\nWith several lines\nAnd some more content\n\nEven a blank line!",
     channel: "C1234ABCD"
+  },
+  formatted: {
+    ts: "1234567890.678901",
+    user: "U1234567890",
+    text: "<@U9876543210> can you check <#C1234ABCD>? *deploy* is :white_check_mark: &amp; the <https://example.com/runbook|runbook> says `a &lt; b`",
+    channel: "C1234ABCD"
+  },
+  alertBot: {
+    ts: "1234567890.789012",
+    user: "U9876543210",
+    text: "New alert",
+    channel: "C1234ABCD",
+    bot_profile: {
+      id: "B0ALERTS",
+      name: "Alertmanager",
+      icons: {image_48: "https://example.com/avatars/alertmanager.png"}
+    },
+    blocks: [
+      {type: "header", text: {type: "plain_text", text: ":rotating_light: High error rate", emoji: true}},
+      {
+        type: "section",
+        text: {type: "mrkdwn", text: "*api-gateway* is returning 5xx for <@U1234567890>'s checkout flow"},
+        fields: [
+          {type: "mrkdwn", text: "*Severity*\nP1"},
+          {type: "mrkdwn", text: "*Region*\neu-west-1"}
+        ]
+      },
+      {type: "context", elements: [{type: "mrkdwn", text: "Triggered by Datadog monitor #4242"}]}
+    ],
+    attachments: [
+      {
+        color: "danger",
+        title: "Error rate > 5%",
+        title_link: "https://example.com/monitors/4242",
+        fields: [{title: "Current", value: "7.3%", short: true}]
+      }
+    ]
+  },
+  reacted: {
+    ts: "1234567890.890123",
+    user: "U1234567890",
+    text: "Rolled back, looks healthy now",
+    channel: "C1234ABCD",
+    edited: {user: "U1234567890", ts: "1234567890.990123"},
+    reactions: [
+      {name: "white_check_mark", count: 1, users: ["U9876543210"]},
+      {name: "+1::skin-tone-3", count: 3},
+      {name: "partyparrot", count: 2}
+    ]
   }
 }
 
@@ -163,6 +239,9 @@ export const TEST_LINEAR_ISSUES: Record<string, LinearIssue> = {
     title: "Implement new feature",
     url: "https://linear.app/company/issue/ENG-1234",
     updatedAt: new Date().toISOString(),
+    priority: 2,
+    priorityLabel: "High",
+    assignee: {id: "user-alice", name: "Alice"},
     state: {
       id: "state-1",
       name: "In Progress",
@@ -189,6 +268,9 @@ export const TEST_LINEAR_ISSUES: Record<string, LinearIssue> = {
     title: "Update documentation",
     url: "https://linear.app/company/issue/PROJ-555",
     updatedAt: new Date().toISOString(),
+    priority: 0,
+    priorityLabel: "No priority",
+    assignee: null,
     state: {
       id: "state-3",
       name: "Todo",
@@ -207,19 +289,65 @@ export const TEST_WORKFLOW_STATES: LinearWorkflowState[] = [
   {id: "state-canceled", name: "Canceled", color: "#95a5a6", type: "canceled"}
 ]
 
+/** The teams behind the fixture issues' prefixes */
+export const TEST_LINEAR_TEAMS: LinearTeam[] = [
+  {id: "team-eng", key: "ENG", name: "Engineering"},
+  {id: "team-tst", key: "TST", name: "Testing"},
+  {id: "team-proj", key: "PROJ", name: "Projects"}
+]
+
+/** Attachments by issue id; the other issues have none */
+export const TEST_LINEAR_ATTACHMENTS: Record<string, LinearAttachment[]> = {
+  "issue-id-1": [
+    {
+      id: "attachment-slack",
+      title: "Slack thread in #engineering",
+      url: "https://workspace.slack.com/archives/C5678EFGH/p1234567890456789",
+      sourceType: "slack"
+    },
+    {
+      id: "attachment-pr",
+      title: "Fix token refresh [#42]",
+      subtitle: "acme/app",
+      url: "https://github.com/acme/app/pull/42",
+      sourceType: "github"
+    }
+  ]
+}
+
+/** Projects by team id; the other teams have none */
+export const TEST_LINEAR_PROJECTS: Record<string, LinearProject[]> = {
+  "team-eng": [
+    {id: "project-checkout", name: "Checkout"},
+    {id: "project-search", name: "Search"}
+  ]
+}
+
 export const TEST_VIEWER: LinearViewer = {
   id: "viewer-test-id",
   name: "Test User",
   email: "testuser@example.com"
 }
 
+/** A message that was deleted after being linked */
+export const TEST_DELETED_MESSAGE_TS = "1234567890.901234"
+
 export const TEST_SLACK_URLS = {
   simple: "https://workspace.slack.com/archives/C1234ABCD/p1234567890123456",
   withFiles: "https://workspace.slack.com/archives/C1234ABCD/p1234567890234567",
   threadParent: "https://workspace.slack.com/archives/C1234ABCD/p1234567890345678",
   threadReply: "https://workspace.slack.com/archives/C1234ABCD/p1234567890345679?thread_ts=1234567890.345678",
   linearBot: "https://workspace.slack.com/archives/C5678EFGH/p1234567890456789",
-  multiline: "https://workspace.slack.com/archives/C1234ABCD/p1234567890567890"
+  multiline: "https://workspace.slack.com/archives/C1234ABCD/p1234567890567890",
+  formatted: "https://workspace.slack.com/archives/C1234ABCD/p1234567890678901",
+  alertBot: "https://workspace.slack.com/archives/C1234ABCD/p1234567890789012",
+  reacted: "https://workspace.slack.com/archives/C1234ABCD/p1234567890890123",
+  deleted: "https://workspace.slack.com/archives/C1234ABCD/p1234567890901234",
+  deletedReply: "https://workspace.slack.com/archives/C1234ABCD/p1234567890345699?thread_ts=1234567890.345678",
+  snippetFile: "https://workspace.slack.com/files/U9876543210/F7777777777/deploy.sh",
+  channel: "https://workspace.slack.com/archives/C1234ABCD",
+  privateChannel: "https://workspace.slack.com/archives/G9012IJKL",
+  user: "https://workspace.slack.com/team/U1234567890"
 }
 
 /**
@@ -229,6 +357,13 @@ export function getTestMessage(ts: string): SlackMessage | undefined {
   return Object.values(TEST_MESSAGES).find(msg => msg.ts === ts)
 }
 
+/**
+ * Get a test file by ID
+ */
+export function getTestFile(fileId: string): SlackFile | undefined {
+  return Object.values(TEST_FILES).find(file => file.id === fileId)
+}
+
 /**
  * Get a test user by ID
  */
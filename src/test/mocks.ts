@@ -5,18 +5,33 @@
  * Production code has no knowledge of these mocks.
  */
 
-import type {SlackMessage, SlackUser, SlackChannel, SlackThread} from "../slack"
-import type {LinearIssue, LinearComment, LinearViewer, LinearWorkflowState} from "../linear"
-import type {ISlackClient} from "../slack"
+import type {SlackMessage, SlackUser, SlackChannel, SlackThread, SlackFile} from "../slack"
+import type {
+  LinearIssue,
+  LinearComment,
+  LinearViewer,
+  LinearWorkflowState,
+  LinearTeam,
+  LinearProject,
+  LinearIssueInput,
+  LinearAttachment,
+  LinearAttachmentInput
+} from "../linear"
+import {MessageDeletedError, SlackPermanentError, type ISlackClient} from "../slack"
 import type {ILinearClient} from "../linear"
 import {
   TEST_MESSAGES,
   TEST_THREAD_REPLIES,
+  TEST_DELETED_MESSAGE_TS,
   getTestUser,
   getTestChannel,
+  getTestFile,
   getTestLinearIssue,
   getTestWorkflowStates,
-  getTestViewer
+  getTestViewer,
+  TEST_LINEAR_TEAMS,
+  TEST_LINEAR_PROJECTS,
+  TEST_LINEAR_ATTACHMENTS
 } from "./fixtures"
 
 /**
@@ -25,6 +40,8 @@ import {
  */
 export class MockSlackClient implements ISlackClient {
   async getMessage(channelId: string, ts: string): Promise<SlackMessage> {
+    if (ts === TEST_DELETED_MESSAGE_TS) throw new MessageDeletedError(channelId, ts)
+
     // Check if this is a known fixture message
     const fixtureMessage = Object.values(TEST_MESSAGES).find(msg => msg.ts === ts)
     if (fixtureMessage) {
@@ -97,6 +114,21 @@ export class MockSlackClient implements ISlackClient {
       }
     )
   }
+
+  async joinChannel(channelId: string): Promise<SlackChannel> {
+    return this.getChannel(channelId)
+  }
+
+  async getPermalink(channelId: string, ts: string): Promise<string> {
+    return `https://workspace.slack.com/archives/${channelId}/p${ts.replace(".", "")}`
+  }
+
+  async getFile(fileId: string): Promise<SlackFile> {
+    const fixtureFile = getTestFile(fileId)
+    if (fixtureFile) return fixtureFile
+
+    throw new SlackPermanentError("file_not_found", "files.info")
+  }
 }
 
 /**
@@ -180,4 +212,47 @@ export class MockLinearClient implements ILinearClient {
   async getWorkflowStates(_issueId: string): Promise<LinearWorkflowState[]> {
     return getTestWorkflowStates()
   }
+
+  async getTeams(): Promise<LinearTeam[]> {
+    return TEST_LINEAR_TEAMS
+  }
+
+  async getProjects(teamId: string): Promise<LinearProject[]> {
+    return TEST_LINEAR_PROJECTS[teamId] ?? []
+  }
+
+  /** What `createIssue` was asked to create, for tests to inspect */
+  readonly createdIssues: LinearIssueInput[] = []
+
+  async createIssue(input: LinearIssueInput): Promise<LinearIssue> {
+    this.createdIssues.push(input)
+    const key = TEST_LINEAR_TEAMS.find(team => team.id === input.teamId)?.key ?? "MOCK"
+    const identifier = `${key}-${900 + this.createdIssues.length}`
+    return {
+      id: `created-${identifier}`,
+      identifier,
+      title: input.title,
+      url: `https://linear.app/test/issue/${identifier}`,
+      updatedAt: new Date().toISOString(),
+      state: {id: "mock-backlog-id", name: "Backlog", color: "#bec2c8", type: "backlog"},
+      assignee: null
+    }
+  }
+
+  async getAttachments(issueId: string): Promise<LinearAttachment[]> {
+    return TEST_LINEAR_ATTACHMENTS[issueId] ?? []
+  }
+
+  /** What was attached, by either method, for tests to inspect */
+  readonly attached: LinearAttachmentInput[] = []
+
+  async createAttachment(input: LinearAttachmentInput): Promise<LinearAttachment> {
+    this.attached.push(input)
+    return {id: `attachment-${this.attached.length}`, title: input.title, subtitle: input.subtitle, url: input.url}
+  }
+
+  async linkAttachmentUrl(issueId: string, url: string, title = url): Promise<LinearAttachment> {
+    this.attached.push({issueId, url, title})
+    return {id: `attachment-${this.attached.length}`, title, url, sourceType: "slack"}
+  }
 }
@@ -12,8 +12,10 @@
  * duplicated, so a default that drifts in the manifest fails the tests here too.
  */
 
-import {readFileSync} from "fs"
-import {join} from "path"
+import {existsSync, mkdtempSync, readdirSync, readFileSync} from "fs"
+import {readFile, stat} from "fs/promises"
+import {tmpdir} from "os"
+import {basename, join} from "path"
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -184,6 +186,12 @@ export class Range {
   with(start = this.start, end = this.end): Range {
     return new Range(start, end)
   }
+
+  intersection(other: Range): Range | undefined {
+    const start = this.start.isAfterOrEqual(other.start) ? this.start : other.start
+    const end = this.end.isBeforeOrEqual(other.end) ? this.end : other.end
+    return start.isAfter(end) ? undefined : new Range(start, end)
+  }
 }
 
 export class Selection extends Range {
@@ -248,14 +256,26 @@ export class Uri {
     return new Uri("file", path)
   }
 
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(base.scheme, [base.path, ...segments].join("/"), base.query, base.authority)
+  }
+
   static parse(value: string): Uri {
     const [scheme, rest] = value.includes(":") ? [value.slice(0, value.indexOf(":")), value.slice(value.indexOf(":") + 1)] : ["file", value]
-    return new Uri(scheme, rest.replace(/^\/\//, ""))
+    const [path, query] = rest.includes("?") ? [rest.slice(0, rest.indexOf("?")), rest.slice(rest.indexOf("?") + 1)] : [rest, ""]
+    const [, authority = "", rooted] = /^(?:\/\/([^/]*))?(.*)$/.exec(path)!
+    return new Uri(scheme, rooted, query, authority)
+  }
+
+  static from({scheme, path = "", query = ""}: {scheme: string; path?: string; query?: string}): Uri {
+    return new Uri(scheme, path, query)
   }
 
   private constructor(
     readonly scheme: string,
-    readonly path: string
+    readonly path: string,
+    readonly query = "",
+    readonly authority = ""
   ) {}
 
   get fsPath(): string {
@@ -263,7 +283,8 @@ export class Uri {
   }
 
   toString(): string {
-    return `${this.scheme}:${this.path}`
+    const authority = this.authority ? `//${this.authority}` : ""
+    return `${this.scheme}:${authority}${this.path}${this.query ? `?${this.query}` : ""}`
   }
 }
 
@@ -271,6 +292,41 @@ export class ThemeColor {
   constructor(readonly id: string) {}
 }
 
+export class ThemeIcon {
+  constructor(
+    readonly id: string,
+    readonly color?: ThemeColor
+  ) {}
+}
+
+export class TreeItem {
+  label?: string
+  resourceUri?: Uri
+  description?: string
+  tooltip?: string | MarkdownString
+  iconPath?: ThemeIcon
+  command?: {command: string; title: string; arguments?: unknown[]}
+
+  constructor(
+    labelOrUri: string | Uri,
+    public collapsibleState: number = TreeItemCollapsibleState.None
+  ) {
+    if (labelOrUri instanceof Uri) this.resourceUri = labelOrUri
+    else this.label = labelOrUri
+  }
+}
+
+export class RelativePattern {
+  readonly baseUri: Uri
+
+  constructor(
+    base: Uri | {uri: Uri},
+    readonly pattern: string
+  ) {
+    this.baseUri = base instanceof Uri ? base : base.uri
+  }
+}
+
 export class CodeActionKind {
   static readonly Empty = new CodeActionKind("")
   static readonly QuickFix = new CodeActionKind("quickfix")
@@ -291,6 +347,7 @@ export class CodeActionKind {
 
 export class CodeAction {
   command?: {command: string; title: string; arguments?: unknown[]}
+  edit?: WorkspaceEdit
   diagnostics?: unknown[]
   isPreferred?: boolean
 
@@ -300,6 +357,68 @@ export class CodeAction {
   ) {}
 }
 
+export class DocumentLink {
+  tooltip?: string
+
+  constructor(
+    readonly range: Range,
+    readonly target?: Uri
+  ) {}
+}
+
+export class WorkspaceEdit {
+  private readonly edits: [Uri, TextEdit[]][] = []
+
+  replace(uri: Uri, range: Range, newText: string): void {
+    const entry = this.edits.find(([edited]) => edited.toString() === uri.toString())
+    if (entry) entry[1].push({range, newText})
+    else this.edits.push([uri, [{range, newText}]])
+  }
+
+  insert(uri: Uri, position: Position, newText: string): void {
+    this.replace(uri, new Range(position, position), newText)
+  }
+
+  delete(uri: Uri, range: Range): void {
+    this.replace(uri, range, "")
+  }
+
+  get size(): number {
+    return this.edits.length
+  }
+
+  entries(): [Uri, TextEdit[]][] {
+    return this.edits
+  }
+}
+
+interface TextEdit {
+  range: Range
+  newText: string
+}
+
+export class Diagnostic {
+  source?: string
+  code?: string | number | {value: string | number; target: Uri}
+
+  constructor(
+    readonly range: Range,
+    readonly message: string,
+    readonly severity: number = DiagnosticSeverity.Error
+  ) {}
+}
+
+export class CodeLens {
+  constructor(
+    readonly range: Range,
+    public command?: {command: string; title: string; arguments?: unknown[]}
+  ) {}
+
+  get isResolved(): boolean {
+    return this.command !== undefined
+  }
+}
+
 export class Hover {
   readonly contents: unknown[]
 
@@ -313,12 +432,15 @@ export class Hover {
 
 export const ConfigurationTarget = {Global: 1, Workspace: 2, WorkspaceFolder: 3} as const
 export const ExtensionMode = {Production: 1, Development: 2, Test: 3} as const
+export const DiagnosticSeverity = {Error: 0, Warning: 1, Information: 2, Hint: 3} as const
 export const CodeActionTriggerKind = {Invoke: 1, Automatic: 2} as const
 export const DecorationRangeBehavior = {OpenOpen: 0, ClosedClosed: 1, OpenClosed: 2, ClosedOpen: 3} as const
 export const OverviewRulerLane = {Left: 1, Center: 2, Right: 4, Full: 7} as const
 export const StatusBarAlignment = {Left: 1, Right: 2} as const
 export const ViewColumn = {Active: -1, Beside: -2, One: 1, Two: 2, Three: 3} as const
 export const EndOfLine = {LF: 1, CRLF: 2} as const
+export const TreeItemCollapsibleState = {None: 0, Collapsed: 1, Expanded: 2} as const
+export const FileType = {Unknown: 0, File: 1, Directory: 2, SymbolicLink: 64} as const
 export const TextEditorRevealType = {Default: 0, InCenter: 1, InCenterIfOutsideViewport: 2, AtTop: 3} as const
 
 // Documents ----------------------------------------------------------------
@@ -407,7 +529,28 @@ let untitledCount = 0
 
 const openDocuments: TextDocument[] = []
 
+const textDocumentContentProviders = new Map<string, any>()
+
 const openTextDocument = async (options?: {content?: string; language?: string} | string | Uri): Promise<TextDocument> => {
+  // Virtual documents come from the content provider registered for their scheme
+  if (options instanceof Uri && textDocumentContentProviders.has(options.scheme)) {
+    const open = documentFor(options)
+    if (open) return open
+    const content = await textDocumentContentProviders.get(options.scheme).provideTextDocumentContent(options, cancellation)
+    const document = new TextDocument(content, options.path.endsWith(".md") ? "markdown" : "plaintext", options)
+    openDocuments.push(document)
+    return document
+  }
+
+  // Files on disk open with their content, once
+  if (options instanceof Uri && options.scheme === "file") {
+    const open = documentFor(options)
+    if (open) return open
+    const document = new TextDocument(await readFile(options.fsPath, "utf8"), "plaintext", options)
+    openDocuments.push(document)
+    return document
+  }
+
   const {content = "", language = "plaintext"} = typeof options === "object" && options !== null && !(options instanceof Uri) ? options : {}
   const document = new TextDocument(content, language, Uri.parse(`untitled:Untitled-${++untitledCount}`))
   openDocuments.push(document)
@@ -417,6 +560,103 @@ const openTextDocument = async (options?: {content?: string; language?: string}
 const documentFor = (uri: Uri): TextDocument | undefined =>
   openDocuments.find(document => document.uri.toString() === uri.toString())
 
+// Workspace files ----------------------------------------------------------
+
+/**
+ * Workspace folders are real directories (tests make temp ones), so `findFiles`,
+ * `workspace.fs` and the watchers behave like they do over a real checkout.
+ */
+
+/** The glob dialect `findFiles` and `files.exclude` use: `**`, `*`, `?` and `{a,b}`. */
+const globToRegExp = (glob: string): RegExp => {
+  let source = ""
+  let braces = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*" && glob[i + 1] === "*") {
+      i++
+      if (glob[i + 1] === "/") {
+        i++
+        source += "(?:.*/)?"
+      } else {
+        source += ".*"
+      }
+    } else if (char === "*") source += "[^/]*"
+    else if (char === "?") source += "[^/]"
+    else if (char === "{") {
+      braces++
+      source += "(?:"
+    } else if (char === "}" && braces) {
+      braces--
+      source += ")"
+    } else if (char === "," && braces) source += "|"
+    else source += char.replace(/[.+^$()|[\]\\]/g, "\\$&")
+  }
+  return new RegExp(`^${source}$`)
+}
+
+const walk = (dir: string): string[] =>
+  readdirSync(dir, {withFileTypes: true}).flatMap(entry =>
+    entry.isDirectory() ? walk(join(dir, entry.name)) : [join(dir, entry.name)]
+  )
+
+const findFiles = async (include: string | RelativePattern, exclude?: string | null, maxResults = Infinity): Promise<Uri[]> => {
+  // Like the real thing, leaving `exclude` out applies `files.exclude`; `null` applies nothing
+  const filesExclude = new Configuration("files").get("exclude", {}) as Record<string, boolean>
+  const excludes = exclude === undefined ? Object.keys(filesExclude).filter(glob => filesExclude[glob]) : exclude ? [exclude] : []
+  const excluded = excludes.map(globToRegExp)
+
+  const [bases, pattern] =
+    include instanceof RelativePattern ? [[include.baseUri], include.pattern] : [(workspace.workspaceFolders ?? []).map(folder => folder.uri), include]
+  const included = globToRegExp(pattern)
+
+  const found = bases.flatMap(base =>
+    (existsSync(base.fsPath) ? walk(base.fsPath) : [])
+      .filter(path => {
+        const relative = path.slice(base.fsPath.length + 1)
+        // An excluded folder takes everything under it along
+        const segments = relative.split("/")
+        const paths = segments.map((_, i) => segments.slice(0, i + 1).join("/"))
+        return included.test(relative) && !excluded.some(regExp => paths.some(prefix => regExp.test(prefix)))
+      })
+      .map(path => Uri.file(path))
+  )
+  return found.slice(0, maxResults)
+}
+
+const workspaceFolderOf = (uri: Uri): WorkspaceFolder | undefined =>
+  workspace.workspaceFolders?.find(folder => uri.path === folder.uri.path || uri.path.startsWith(`${folder.uri.path}/`))
+
+interface WorkspaceFolder {
+  uri: Uri
+  name: string
+  index: number
+}
+
+/** A file watcher that only reports what tests tell it to, via `fire`. */
+export class FileSystemWatcher {
+  private readonly created = new EventEmitter<Uri>()
+  private readonly changed = new EventEmitter<Uri>()
+  private readonly deleted = new EventEmitter<Uri>()
+  readonly onDidCreate = this.created.event
+  readonly onDidChange = this.changed.event
+  readonly onDidDelete = this.deleted.event
+
+  constructor(readonly globPattern: unknown) {}
+
+  fire(kind: "create" | "change" | "delete", uri: Uri): void {
+    const emitter = kind === "create" ? this.created : kind === "change" ? this.changed : this.deleted
+    emitter.fire(uri)
+  }
+
+  dispose(): void {
+    fileSystemWatchers.splice(fileSystemWatchers.indexOf(this), 1)
+  }
+}
+
+/** Watchers the extension created and hasn't disposed. */
+export const fileSystemWatchers: FileSystemWatcher[] = []
+
 // Editors ------------------------------------------------------------------
 
 class TextEditor {
@@ -453,6 +693,8 @@ const registeredCommands = new Map<string, (...args: any[]) => any>()
 
 const hoverProviders: any[] = []
 const codeActionProviders: any[] = []
+const documentLinkProviders: any[] = []
+const codeLensProviders: any[] = []
 
 const cancellation = {
   isCancellationRequested: false,
@@ -477,13 +719,33 @@ const builtinCommands: Record<string, (...args: any[]) => Promise<unknown>> = {
   async "vscode.executeCodeActionProvider"(uri: Uri, range: Range) {
     const document = documentFor(uri)
     if (!document) return []
-    const context = {diagnostics: [], only: undefined, triggerKind: CodeActionTriggerKind.Invoke}
+    // Like the editor, hand providers the diagnostics under the range
+    const diagnostics = languages.getDiagnostics(uri).filter(diagnostic => diagnostic.range.intersection(range))
+    const context = {diagnostics, only: undefined, triggerKind: CodeActionTriggerKind.Invoke}
     const actions = await Promise.all(
       codeActionProviders.map(provider => provider.provideCodeActions(document, range, context, cancellation))
     )
     return actions.flat().filter(Boolean)
   },
 
+  async "vscode.executeCodeLensProvider"(uri: Uri) {
+    const document = documentFor(uri)
+    if (!document) return []
+    const lenses = await Promise.all(
+      codeLensProviders.map(provider => provider.provideCodeLenses(document, cancellation))
+    )
+    return lenses.flat().filter(Boolean)
+  },
+
+  async "vscode.executeLinkProvider"(uri: Uri) {
+    const document = documentFor(uri)
+    if (!document) return []
+    const links = await Promise.all(
+      documentLinkProviders.map(provider => provider.provideDocumentLinks(document, cancellation))
+    )
+    return links.flat().filter(Boolean)
+  },
+
   async "workbench.action.closeAllEditors"() {
     window.activeTextEditor = undefined
     window.visibleTextEditors = []
@@ -528,8 +790,66 @@ export function answerQuickPick(...answers: unknown[]): void {
   quickPickAnswers.push(...answers)
 }
 
+/** Input boxes the extension opened, in order, with their options (e.g. the prefilled `value`). */
+export const inputBoxes: unknown[] = []
+
+const inputBoxAnswers: (string | undefined)[] = []
+
+/** Queue what the user "types" at the next input box(es). Unanswered boxes resolve to `undefined`, like Escape. */
+export function answerInputBox(...answers: (string | undefined)[]): void {
+  inputBoxAnswers.push(...answers)
+}
+
 const noopDisposable = () => new Disposable(() => {})
 
+/** A webview panel that records what it was given; `receive` plays a message from the page */
+export class WebviewPanel {
+  visible = true
+  private readonly messageListeners: ((message: unknown) => unknown)[] = []
+  private readonly disposeListeners: (() => unknown)[] = []
+
+  readonly webview = {
+    html: "",
+    cspSource: "vscode-webview://stub",
+    onDidReceiveMessage: (listener: (message: unknown) => unknown) => {
+      this.messageListeners.push(listener)
+      return new Disposable(() => {})
+    },
+    postMessage: async (_message: unknown) => true
+  }
+
+  constructor(
+    readonly viewType: string,
+    public title: string,
+    readonly viewColumn: unknown,
+    readonly options: unknown
+  ) {}
+
+  async receive(message: unknown): Promise<void> {
+    await Promise.all(this.messageListeners.map(listener => listener(message)))
+  }
+
+  reveal(): void {
+    this.visible = true
+  }
+
+  onDidDispose(listener: () => unknown): Disposable {
+    this.disposeListeners.push(listener)
+    return new Disposable(() => {})
+  }
+
+  dispose(): void {
+    this.visible = false
+    this.disposeListeners.forEach(listener => listener())
+  }
+}
+
+/** Tree views the extension created, by view ID. */
+export const treeViews = new Map<string, {treeDataProvider: any; showCollapseAll?: boolean}>()
+
+/** Webview panels the extension opened, in order. */
+export const webviewPanels: WebviewPanel[] = []
+
 export const window = {
   activeTextEditor: undefined as TextEditor | undefined,
   visibleTextEditors: [] as TextEditor[],
@@ -561,8 +881,20 @@ export const window = {
     return quickPickAnswers.shift()
   },
 
-  async showInputBox(): Promise<undefined> {
-    return undefined
+  async showInputBox(options?: unknown): Promise<string | undefined> {
+    inputBoxes.push(options)
+    return inputBoxAnswers.shift()
+  },
+
+  createWebviewPanel(viewType: string, title: string, column: unknown, options?: unknown): WebviewPanel {
+    const panel = new WebviewPanel(viewType, title, column, options)
+    webviewPanels.push(panel)
+    return panel
+  },
+
+  createTreeView(viewId: string, options: {treeDataProvider: any; showCollapseAll?: boolean}) {
+    treeViews.set(viewId, options)
+    return {...options, visible: true, async reveal() {}, dispose: () => void treeViews.delete(viewId)}
   },
 
   createTextEditorDecorationType(options: unknown) {
@@ -587,7 +919,7 @@ export const window = {
 }
 
 export const workspace = {
-  workspaceFolders: undefined as unknown[] | undefined,
+  workspaceFolders: undefined as WorkspaceFolder[] | undefined,
 
   get textDocuments(): TextDocument[] {
     return openDocuments
@@ -603,12 +935,65 @@ export const workspace = {
   },
 
   openTextDocument,
+  findFiles,
+  getWorkspaceFolder: workspaceFolderOf,
+
+  asRelativePath(pathOrUri: string | Uri, includeWorkspaceFolder = false): string {
+    const uri = typeof pathOrUri === "string" ? Uri.file(pathOrUri) : pathOrUri
+    const folder = workspaceFolderOf(uri)
+    if (!folder) return uri.path
+    const relative = uri.path.slice(folder.uri.path.length + 1)
+    return includeWorkspaceFolder ? `${folder.name}/${relative}` : relative
+  },
+
+  fs: {
+    async readFile(uri: Uri): Promise<Uint8Array> {
+      return new Uint8Array(await readFile(uri.fsPath))
+    },
+    async stat(uri: Uri) {
+      const stats = await stat(uri.fsPath)
+      return {type: stats.isDirectory() ? FileType.Directory : FileType.File, size: stats.size, ctime: stats.ctimeMs, mtime: stats.mtimeMs}
+    }
+  },
+
+  createFileSystemWatcher(globPattern: unknown): FileSystemWatcher {
+    const watcher = new FileSystemWatcher(globPattern)
+    fileSystemWatchers.push(watcher)
+    return watcher
+  },
+
+  registerTextDocumentContentProvider(scheme: string, provider: unknown): Disposable {
+    textDocumentContentProviders.set(scheme, provider)
+    return new Disposable(() => textDocumentContentProviders.delete(scheme))
+  },
   onDidOpenTextDocument: noopDisposable,
   onDidCloseTextDocument: noopDisposable,
   onDidChangeTextDocument: noopDisposable,
   onDidSaveTextDocument: noopDisposable
 }
 
+/** Every collection's diagnostics, keyed by collection name and then by document URI. */
+const diagnosticCollections = new Map<string, Map<string, Diagnostic[]>>()
+
+const createDiagnosticCollection = (name = "") => {
+  const entries = new Map<string, Diagnostic[]>()
+  diagnosticCollections.set(name, entries)
+  return {
+    name,
+    set(uri: Uri, diagnostics: readonly Diagnostic[] | undefined) {
+      if (diagnostics?.length) entries.set(uri.toString(), [...diagnostics])
+      else entries.delete(uri.toString())
+    },
+    get: (uri: Uri) => entries.get(uri.toString()),
+    delete: (uri: Uri) => void entries.delete(uri.toString()),
+    clear: () => entries.clear(),
+    dispose() {
+      entries.clear()
+      diagnosticCollections.delete(name)
+    }
+  }
+}
+
 const registerProvider = (registry: unknown[], provider: unknown): Disposable => {
   registry.push(provider)
   return new Disposable(() => registry.splice(registry.indexOf(provider), 1))
@@ -618,7 +1003,13 @@ export const languages = {
   registerHoverProvider: (_selector: unknown, provider: unknown) => registerProvider(hoverProviders, provider),
   registerCodeActionsProvider: (_selector: unknown, provider: unknown, _metadata?: unknown) =>
     registerProvider(codeActionProviders, provider),
-  registerCompletionItemProvider: noopDisposable
+  registerDocumentLinkProvider: (_selector: unknown, provider: unknown) => registerProvider(documentLinkProviders, provider),
+  registerCodeLensProvider: (_selector: unknown, provider: unknown) => registerProvider(codeLensProviders, provider),
+  registerCompletionItemProvider: noopDisposable,
+  createDiagnosticCollection,
+  getDiagnostics(uri: Uri): Diagnostic[] {
+    return [...diagnosticCollections.values()].flatMap(entries => entries.get(uri.toString()) ?? [])
+  }
 }
 
 export const extensions = {
@@ -644,6 +1035,7 @@ export const env = {
 /**
  * A disposable-collecting `ExtensionContext`, enough to call `activate()` directly.
  * `extensionMode` is `Test`, which is what keeps 1Password resolution out of the way.
+ * Each context gets its own empty global storage directory, so nothing persisted leaks between tests.
  */
 export function createExtensionContext(): Record<string, unknown> {
   const memento = {get: () => undefined, update: async () => {}, keys: () => [] as string[]}
@@ -652,6 +1044,7 @@ export function createExtensionContext(): Record<string, unknown> {
     extensionMode: ExtensionMode.Test,
     extensionPath: process.cwd(),
     extensionUri: Uri.file(process.cwd()),
+    globalStorageUri: Uri.file(mkdtempSync(join(tmpdir(), "slackoscope-storage-"))),
     globalState: {...memento, setKeysForSync: () => {}},
     workspaceState: memento,
     secrets: {get: async () => undefined, store: async () => {}, delete: async () => {}},
@@ -659,6 +1052,11 @@ export function createExtensionContext(): Record<string, unknown> {
   }
 }
 
+/** Open real directories as the workspace's folders, for `findFiles` and the watchers to work on. */
+export function openWorkspaceFolders(...paths: string[]): void {
+  workspace.workspaceFolders = paths.map((path, index) => ({uri: Uri.file(path), name: basename(path), index}))
+}
+
 /**
  * Return the stub to a pristine state. Call between tests so leftover settings,
  * commands, providers, or recorded messages cannot leak from one test into the next.
@@ -669,6 +1067,10 @@ export function reset(): void {
   registeredCommands.clear()
   hoverProviders.length = 0
   codeActionProviders.length = 0
+  documentLinkProviders.length = 0
+  codeLensProviders.length = 0
+  textDocumentContentProviders.clear()
+  diagnosticCollections.clear()
   openDocuments.length = 0
   window.activeTextEditor = undefined
   window.visibleTextEditors = []
@@ -677,4 +1079,10 @@ export function reset(): void {
   shownMessages.error.length = 0
   quickPicks.length = 0
   quickPickAnswers.length = 0
+  inputBoxes.length = 0
+  inputBoxAnswers.length = 0
+  webviewPanels.length = 0
+  treeViews.clear()
+  fileSystemWatchers.length = 0
+  workspace.workspaceFolders = undefined
 }
@@ -0,0 +1,270 @@
+/**
+ * `slackoscope audit`: scanning a directory and checking its links against local fake
+ * Slack and Linear APIs.
+ */
+
+import * as assert from "assert"
+import {execFileSync} from "child_process"
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from "fs"
+import {createServer, type Server} from "http"
+import type {AddressInfo} from "net"
+import {tmpdir} from "os"
+import {join} from "path"
+import {main, EXIT_ERROR, EXIT_FINDINGS, EXIT_OK} from "../../cli/main"
+import {scanDirectory, scanText} from "../../cli/scan"
+
+const slackUrl = (channel: string, ts: string) => `https://acme.slack.com/archives/${channel}/p${ts.replace(".", "")}`
+
+const LINKS = {
+  resolved: slackUrl("C0GENERAL", "1700000000.000100"),
+  old: slackUrl("C0GENERAL", "1700000000.000200"),
+  current: slackUrl("C0GENERAL", "1700000000.000300"),
+  deleted: slackUrl("C0GENERAL", "1700000000.000400"),
+  hidden: slackUrl("C0HIDDEN", "1700000000.000500"),
+  outside: slackUrl("C0OUTSIDE", "1700000000.000600")
+}
+
+/** What's in the fake workspace, keyed by channel and ts */
+const MESSAGES: Record<string, {ts: string; text: string}> = {
+  "C0GENERAL:1700000000.000100": {ts: "1700000000.000100", text: "Tracked in ENG-1"},
+  "C0GENERAL:1700000000.000200": {ts: "1700000000.000200", text: "Filed as ENG-2"},
+  "C0GENERAL:1700000000.000300": {ts: "1700000000.000300", text: "Working on it in ENG-3"},
+  "C0GENERAL:1700000000.000390": {ts: "1700000000.000390", text: "The message before the deleted one"}
+}
+
+const NOW = new Date()
+
+const ISSUES: Record<string, unknown> = {
+  "ENG-1": issue("ENG-1", {name: "Done", type: "completed"}, NOW),
+  "ENG-2": issue("ENG-2", {name: "Todo", type: "unstarted"}, new Date(NOW.getTime() - 200 * 86400000)),
+  "ENG-3": issue("ENG-3", {name: "In Progress", type: "started"}, NOW)
+}
+
+function issue(identifier: string, state: {name: string; type: string}, updatedAt: Date) {
+  return {
+    id: `id-${identifier}`,
+    identifier,
+    title: `Issue ${identifier}`,
+    url: `https://linear.app/acme/issue/${identifier}`,
+    updatedAt: updatedAt.toISOString(),
+    state: {id: `state-${state.type}`, color: "#888888", ...state}
+  }
+}
+
+/** Slack's Web API and Linear's GraphQL endpoint, answering from the fixtures above */
+class FakeApis {
+  readonly slackCalls: string[] = []
+  private server: Server | null = null
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      let body = ""
+      request.on("data", chunk => (body += chunk))
+      request.on("end", () => {
+        const url = new URL(request.url ?? "/", "http://localhost")
+        const answer = url.pathname === "/graphql" ? this.linear(body) : this.slack(url, body, request.headers)
+        response.writeHead(200, {"Content-Type": "application/json"})
+        response.end(JSON.stringify(answer))
+      })
+    })
+    await new Promise<void>(resolve => this.server?.listen(0, "127.0.0.1", resolve))
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+  }
+
+  private slack(url: URL, body: string, headers: Record<string, unknown>) {
+    const method = url.pathname.replace(/^\/api\//, "")
+    this.slackCalls.push(method)
+    if (headers.authorization !== "Bearer xoxb-test") return {ok: false, error: "invalid_auth"}
+
+    const params = new URLSearchParams(body || url.search)
+    const channel = params.get("channel") ?? ""
+    if (channel === "C0HIDDEN") return {ok: false, error: "channel_not_found"}
+    if (channel === "C0OUTSIDE") return {ok: false, error: "not_in_channel"}
+
+    // Like Slack, answer with the newest message at or before `latest`
+    const latest = params.get("latest") ?? ""
+    const messages = Object.entries(MESSAGES)
+      .filter(([key, message]) => key.startsWith(`${channel}:`) && message.ts <= latest)
+      .map(([, message]) => message)
+      .sort((a, b) => b.ts.localeCompare(a.ts))
+    return {ok: true, messages: messages.slice(0, 1)}
+  }
+
+  private linear(body: string) {
+    const {query, variables} = JSON.parse(body) as {query: string; variables?: {identifier: string}}
+    if (query.includes("teams")) return {data: {teams: {nodes: [{id: "team-eng", key: "ENG", name: "Engineering"}]}}}
+    return {data: {issue: ISSUES[variables?.identifier ?? ""] ?? null}}
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server?.close(resolve))
+  }
+}
+
+suite("slackoscope audit", () => {
+  const apis = new FakeApis()
+  let baseUrl = ""
+  let root: string
+
+  const write = (path: string, content: string) => {
+    mkdirSync(join(root, path, ".."), {recursive: true})
+    writeFileSync(join(root, path), content)
+  }
+
+  /** Run the CLI, collecting what it prints */
+  const run = async (args: string[], env: Record<string, string> = {}) => {
+    let stdout = ""
+    let stderr = ""
+    const code = await main(args, {
+      env: {
+        SLACKOSCOPE_TOKEN: "xoxb-test",
+        SLACKOSCOPE_LINEAR_TOKEN: "lin_api_test",
+        SLACKOSCOPE_SLACK_API_URL: `${baseUrl}/api`,
+        SLACKOSCOPE_LINEAR_API_URL: `${baseUrl}/graphql`,
+        ...env
+      },
+      stdout: text => (stdout += text),
+      stderr: text => (stderr += text)
+    })
+    return {code, stdout, stderr}
+  }
+
+  suiteSetup(async () => {
+    baseUrl = await apis.start()
+  })
+
+  suiteTeardown(() => apis.stop())
+
+  setup(() => {
+    root = mkdtempSync(join(tmpdir(), "slackoscope-audit-"))
+    write("src/app.ts", `// See ${LINKS.deleted}\nconst a = 1 // ${LINKS.resolved}\n`)
+    write("docs/notes.md", `Context: ${LINKS.old}, ${LINKS.current}\n\nPrivate: ${LINKS.hidden}\n`)
+    write("docs/outside.md", `${LINKS.outside}\n`)
+    write("node_modules/lib/index.js", `// ${LINKS.deleted}\n`)
+    apis.slackCalls.length = 0
+  })
+
+  teardown(() => rmSync(root, {recursive: true, force: true}))
+
+  test("finds links with their 1-based line and column", () => {
+    const links = scanText("a.md", `x\n  ${LINKS.old} and ${LINKS.current}\n`)
+
+    assert.deepStrictEqual(
+      links.map(({line, column, url}) => [line, column, url.messageTs]),
+      [
+        [2, 3, "1700000000.000200"],
+        [2, 8 + LINKS.old.length, "1700000000.000300"]
+      ]
+    )
+  })
+
+  test("skips what .gitignore leaves out in a git checkout", async () => {
+    write(".gitignore", "node_modules/\ndocs/\n")
+    execFileSync("git", ["init", "-q"], {cwd: root})
+
+    const {links} = await scanDirectory(root)
+
+    assert.deepStrictEqual([...new Set(links.map(({file}) => file))], ["src/app.ts"])
+  })
+
+  test("reports dead links and finished or stale issues as JSON", async () => {
+    const {code, stdout} = await run(["audit", root, "--format", "json"])
+    const report = JSON.parse(stdout)
+
+    assert.strictEqual(code, EXIT_FINDINGS)
+    assert.deepStrictEqual(report.summary, {files: 3, links: 6, error: 1, warning: 2, note: 2})
+    assert.deepStrictEqual(
+      report.findings.map((f: {file: string; line: number; rule: string; level: string}) => [
+        f.file,
+        f.line,
+        f.rule,
+        f.level
+      ]),
+      [
+        ["docs/notes.md", 1, "issue-old", "note"],
+        ["docs/notes.md", 3, "channel-not-found", "warning"],
+        ["docs/outside.md", 1, "link-unresolved", "note"],
+        ["src/app.ts", 1, "message-deleted", "error"],
+        ["src/app.ts", 2, "issue-resolved", "warning"]
+      ]
+    )
+    assert.strictEqual(report.findings[4].message, "ENG-1 is Done — this reference may be stale")
+  })
+
+  test("prints file:line:column lines and a summary as text", async () => {
+    const {stdout} = await run(["audit", root])
+
+    assert.match(stdout, /^src\/app\.ts:1:8: error: Linked Slack message was deleted \[message-deleted\]$/m)
+    assert.match(stdout, /^5 problems \(1 error, 2 warnings, 2 notes\) in 6 links in 3 files$/m)
+  })
+
+  test("writes SARIF for code scanning", async () => {
+    const {stdout} = await run(["audit", root, "--format", "sarif"])
+    const sarif = JSON.parse(stdout)
+
+    assert.strictEqual(sarif.version, "2.1.0")
+    const [sarifRun] = sarif.runs
+    assert.ok(sarifRun.tool.driver.rules.some((rule: {id: string}) => rule.id === "message-deleted"))
+    const deleted = sarifRun.results.find((result: {ruleId: string}) => result.ruleId === "message-deleted")
+    assert.strictEqual(deleted.level, "error")
+    assert.deepStrictEqual(deleted.locations[0].physicalLocation, {
+      artifactLocation: {uri: "src/app.ts"},
+      region: {startLine: 1, startColumn: 8, endColumn: 8 + LINKS.deleted.length}
+    })
+  })
+
+  test("the exit code follows --fail-on", async () => {
+    write("src/app.ts", `// ${LINKS.resolved}\n`)
+    rmSync(join(root, "docs"), {recursive: true})
+
+    assert.strictEqual((await run(["audit", root])).code, EXIT_OK)
+    assert.strictEqual((await run(["audit", root, "--fail-on", "warning"])).code, EXIT_FINDINGS)
+    assert.strictEqual((await run(["audit", root, "--fail-on", "never"])).code, EXIT_OK)
+  })
+
+  test("looks each message up once, however many times it's linked", async () => {
+    write("src/more.ts", `// ${LINKS.current}\n// ${LINKS.current}\n`)
+    await run(["audit", root, "--format", "json"])
+
+    const lookups = apis.slackCalls.filter(method => method === "conversations.history")
+    assert.strictEqual(lookups.length, Object.keys(LINKS).length)
+  })
+
+  test("skips Linear checks without a Linear token", async () => {
+    const {stdout} = await run(["audit", root, "--format", "json"], {SLACKOSCOPE_LINEAR_TOKEN: ""})
+
+    assert.ok(JSON.parse(stdout).findings.every((f: {rule: string}) => !f.rule.startsWith("issue-")))
+  })
+
+  test("fails without running when the token is missing or rejected", async () => {
+    const missing = await run(["audit", root], {SLACKOSCOPE_TOKEN: ""})
+    assert.strictEqual(missing.code, EXIT_ERROR)
+    assert.match(missing.stderr, /set SLACKOSCOPE_TOKEN/)
+
+    const rejected = await run(["audit", root], {SLACKOSCOPE_TOKEN: "xoxb-revoked"})
+    assert.strictEqual(rejected.code, EXIT_ERROR)
+    assert.match(rejected.stderr, /Slack rejected the token \(invalid_auth\)/)
+  })
+
+  test("fails when Slack couldn't be asked about any link", async () => {
+    const unreachable = await run(["audit", root, "--fail-on", "never"], {
+      SLACKOSCOPE_SLACK_API_URL: "http://127.0.0.1:1/api"
+    })
+    assert.strictEqual(unreachable.code, EXIT_ERROR)
+    assert.match(unreachable.stderr, /couldn't check any of the links/)
+
+    // One unresolved link among checked ones is just a finding
+    write("docs/outside.md", `${LINKS.outside}\n${LINKS.current}\n`)
+    write("src/app.ts", "")
+    rmSync(join(root, "docs", "notes.md"))
+    assert.strictEqual((await run(["audit", root])).code, EXIT_OK)
+  })
+
+  test("rejects unknown arguments with usage", async () => {
+    const {code, stderr} = await run(["audit", root, "--format", "xml"])
+
+    assert.strictEqual(code, EXIT_ERROR)
+    assert.match(stderr, /unknown format "xml"/)
+    assert.match(stderr, /Usage: slackoscope audit/)
+  })
+})
@@ -0,0 +1,236 @@
+import * as assert from "assert"
+import {hasLayoutBlocks, mentionSource, type SlackBlock, type SlackMessage} from "../../slack"
+import {colorBar, renderAttachment, renderBlocks} from "../../vscode"
+
+const MENTIONS = {users: {U1: "Alice"}, channels: {C1: "general"}}
+
+suite("renderBlocks", () => {
+  test("renders headers, mrkdwn sections, dividers and context", () => {
+    const blocks: SlackBlock[] = [
+      {type: "header", text: {type: "plain_text", text: "Deploy *finished* :tada:"}},
+      {type: "section", text: {type: "mrkdwn", text: "*web* is live"}},
+      {type: "divider"},
+      {
+        type: "context",
+        elements: [
+          {type: "mrkdwn", text: "by <@U1>"},
+          {type: "plain_text", text: "v1.2"}
+        ]
+      }
+    ]
+
+    assert.strictEqual(
+      renderBlocks(blocks, MENTIONS),
+      "### Deploy \\*finished\\* 🎉\n\n**web** is live\n\n---\n\nby @Alice · v1.2"
+    )
+  })
+
+  test("renders section fields as a title/value table", () => {
+    const blocks: SlackBlock[] = [
+      {
+        type: "section",
+        fields: [
+          {type: "mrkdwn", text: "*Status*\nFiring"},
+          {type: "mrkdwn", text: "*Owner*\n<@U1> | on call"}
+        ]
+      }
+    ]
+
+    assert.strictEqual(
+      renderBlocks(blocks, MENTIONS),
+      "| | |\n|---|---|\n| **Status** | Firing |\n| **Owner** | @Alice \\| on call |"
+    )
+  })
+
+  test("keeps link buttons and drops interactive ones", () => {
+    const blocks: SlackBlock[] = [
+      {
+        type: "actions",
+        elements: [
+          {type: "button", text: {type: "plain_text", text: "Open runbook"}, url: "https://example.com/runbook"},
+          {type: "button", text: {type: "plain_text", text: "Acknowledge"}, value: "ack"},
+          {type: "static_select"}
+        ]
+      }
+    ]
+
+    assert.strictEqual(renderBlocks(blocks), "[Open runbook](https://example.com/runbook)")
+  })
+
+  test("drops links from buttons and images whose URL isn't a web link", () => {
+    const blocks: SlackBlock[] = [
+      {
+        type: "actions",
+        elements: [
+          {type: "button", text: {type: "plain_text", text: "Run"}, url: "command:workbench.action.terminal.new"}
+        ]
+      },
+      {type: "image", image_url: "command:workbench.action.terminal.new", alt_text: "graph"}
+    ]
+
+    assert.strictEqual(renderBlocks(blocks), "Run\n\ngraph")
+  })
+
+  test("renders image blocks", () => {
+    assert.strictEqual(
+      renderBlocks([{type: "image", image_url: "https://example.com/graph.png", alt_text: "error [graph]"}]),
+      "![error \\[graph\\]](https://example.com/graph.png)"
+    )
+  })
+
+  test("renders rich text with styles, mentions, links, emoji and lists", () => {
+    const blocks: SlackBlock[] = [
+      {
+        type: "rich_text",
+        elements: [
+          {
+            type: "rich_text_section",
+            elements: [
+              {type: "text", text: "Hey "},
+              {type: "user", user_id: "U1"},
+              {type: "text", text: " see ", style: {bold: true}},
+              {type: "link", url: "https://example.com", text: "this"},
+              {type: "text", text: " in "},
+              {type: "channel", channel_id: "C1"},
+              {type: "emoji", name: "fire", unicode: "1f525"}
+            ]
+          },
+          {
+            type: "rich_text_list",
+            style: "ordered",
+            elements: [
+              {type: "rich_text_section", elements: [{type: "text", text: "npm ci", style: {code: true}}]},
+              {type: "rich_text_section", elements: [{type: "text", text: "ship it", style: {strike: true}}]}
+            ]
+          },
+          {type: "rich_text_preformatted", elements: [{type: "text", text: "a < b"}]},
+          {type: "rich_text_quote", elements: [{type: "broadcast", range: "here"}]}
+        ]
+      }
+    ]
+
+    assert.strictEqual(
+      renderBlocks(blocks, MENTIONS),
+      [
+        "Hey @Alice **see** [this](https://example.com) in #general🔥",
+        "1. `npm ci`\n2. ~~ship it~~",
+        "```\na < b\n```",
+        "> @here"
+      ].join("\n\n")
+    )
+  })
+
+  test("escapes HTML in plain text", () => {
+    assert.strictEqual(
+      renderBlocks([{type: "header", text: {type: "plain_text", text: "<img src=x>"}}]),
+      "### \\<img src=x\\>"
+    )
+  })
+})
+
+suite("renderAttachment", () => {
+  test("renders pretext, then a color bar leading the title link, text, fields and footer", () => {
+    const markdown = renderAttachment(
+      {
+        color: "danger",
+        pretext: "Build failed for <@U1>",
+        title: "CI #512",
+        title_link: "https://ci.example.com/512",
+        text: "*3* tests failed",
+        fields: [{title: "Branch", value: "main", short: true}],
+        footer: "CI"
+      },
+      MENTIONS
+    )
+
+    assert.strictEqual(
+      markdown,
+      [
+        "Build failed for @Alice",
+        "🟥 **[CI #512](https://ci.example.com/512)**",
+        "**3** tests failed",
+        "| | |\n|---|---|\n| **Branch** | main |",
+        "_CI_"
+      ].join("\n\n")
+    )
+  })
+
+  test("puts the color bar on its own line when a table comes first", () => {
+    assert.strictEqual(
+      renderAttachment({color: "good", fields: [{title: "Status", value: "OK"}]}),
+      "🟩\n\n| | |\n|---|---|\n| **Status** | OK |"
+    )
+  })
+
+  test("shows the label without a link when the URL isn't a web or mail link", () => {
+    const markdown = renderAttachment({
+      author_name: "Deploy bot",
+      author_link: "command:workbench.action.terminal.new",
+      title: "Open terminal",
+      title_link: "command:workbench.action.terminal.new",
+      image_url: "command:workbench.action.terminal.new"
+    })
+
+    assert.strictEqual(markdown, "_Deploy bot_\n\n**Open terminal**")
+  })
+
+  test("falls back to the fallback text", () => {
+    assert.strictEqual(renderAttachment({fallback: "Deploy *done*"}), "Deploy **done**")
+  })
+
+  test("renders nothing for an attachment with no content, like a Linear Asks link", () => {
+    assert.strictEqual(renderAttachment({from_url: "https://linear.app/company/issue/ENG-1234"}), "")
+  })
+})
+
+suite("colorBar", () => {
+  test("maps Slack's named colors", () => {
+    assert.deepStrictEqual(["good", "warning", "danger"].map(colorBar), ["🟩", "🟨", "🟥"])
+  })
+
+  test("maps hex colors to the nearest colored square", () => {
+    assert.deepStrictEqual(
+      ["#36a64f", "#2eb886", "#439FE0", "#a30200", "#ff9900", "#7b2cbf", "#fc0", "#8b4513"].map(colorBar),
+      ["🟩", "🟩", "🟦", "🟥", "🟧", "🟪", "🟨", "🟫"]
+    )
+  })
+
+  test("maps greys to black or white", () => {
+    assert.deepStrictEqual(["#dddddd", "#333"].map(colorBar), ["⬜", "⬛"])
+  })
+
+  test("returns nothing for no color or an unknown one", () => {
+    assert.deepStrictEqual([undefined, "", "chartreuse", "#12345"].map(colorBar), ["", "", "", ""])
+  })
+})
+
+suite("Block Kit message helpers", () => {
+  const message = (overrides: Partial<SlackMessage>): SlackMessage => ({
+    text: "fallback",
+    user: "U1",
+    ts: "1234567890.123456",
+    channel: "C1",
+    ...overrides
+  })
+
+  test("treats rich_text-only blocks as a mirror of the text", () => {
+    assert.strictEqual(hasLayoutBlocks(message({blocks: [{type: "rich_text", elements: []}]})), false)
+    assert.strictEqual(hasLayoutBlocks(message({blocks: [{type: "divider"}]})), true)
+    assert.strictEqual(hasLayoutBlocks(message({})), false)
+  })
+
+  test("collects mentions from text, blocks and attachments", () => {
+    const source = mentionSource(
+      message({
+        text: "<@U1>",
+        blocks: [
+          {type: "section", text: {type: "mrkdwn", text: "<#C1>"}},
+          {type: "rich_text", elements: [{type: "rich_text_section", elements: [{type: "user", user_id: "U2"}]}]}
+        ],
+        attachments: [{fields: [{title: "Owner", value: "<@U3>"}]}]
+      })
+    )
+
+    assert.deepStrictEqual(source.split("\n"), ["<@U1>", "<#C1>", "<@U2>", "<@U3>"])
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * The CodeLens summary above lines with Slack links, and the actions behind its parts.
+ */
+
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {createExtensionContext, quickPicks, reset} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_MESSAGES, TEST_SLACK_URLS} from "../fixtures"
+import {activate} from "../../extension"
+
+suite("CodeLens", () => {
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+  })
+
+  // Per test, since a test may swap in a client of its own
+  setup(() => {
+    registerTestMocks({
+      createSlackClient: () => new MockSlackClient(),
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  teardown(() => reset())
+
+  const CONTENT = [
+    `// ${TEST_SLACK_URLS.threadParent}`,
+    `const issue = "${TEST_SLACK_URLS.linearBot}"`,
+    `// ${TEST_SLACK_URLS.deleted}`
+  ].join("\n")
+
+  /** Activate with `settings`, then ask for the lenses of a document with `CONTENT` */
+  const lensesFor = async (settings: Record<string, unknown> = {"codeLens.enabled": true}) => {
+    const config = vscode.workspace.getConfiguration("slackoscope")
+    await config.update("token", "test-slack-token", vscode.ConfigurationTarget.Global)
+    await config.update("linearToken", "test-linear-token", vscode.ConfigurationTarget.Global)
+    for (const [key, value] of Object.entries(settings)) {
+      await config.update(key, value, vscode.ConfigurationTarget.Global)
+    }
+    await activate(createExtensionContext() as never)
+
+    const document = await vscode.workspace.openTextDocument({content: CONTENT, language: "typescript"})
+    const lenses = await vscode.commands.executeCommand<vscode.CodeLens[]>(
+      "vscode.executeCodeLensProvider",
+      document.uri
+    )
+    return lenses ?? []
+  }
+
+  const titlesOnLine = (lenses: vscode.CodeLens[], line: number) =>
+    lenses.filter(lens => lens.range.start.line === line).map(lens => lens.command?.title)
+
+  test("is off unless enabled", async () => {
+    assert.deepStrictEqual(await lensesFor({}), [])
+  })
+
+  test("summarizes the channel, author, replies and last activity", async () => {
+    const [summary, ...rest] = titlesOnLine(await lensesFor(), 0)
+
+    assert.match(summary ?? "", /^#general · @Alice · 3 replies · last activity .+$/)
+    assert.deepStrictEqual(rest, ["TST-10291 Done", "↻ Refresh"])
+  })
+
+  test("shows the thread's Linear issue and state", async () => {
+    assert.deepStrictEqual(titlesOnLine(await lensesFor(), 1).slice(1), ["ENG-1234 In Progress", "↻ Refresh"])
+  })
+
+  test("counts the newest reply as activity even when it wasn't loaded", async () => {
+    // The parent says a reply came in three hours ago; the loaded replies are all from 2009
+    const latestReply = `${Math.floor(Date.now() / 1000) - 3 * 3600}.000100`
+    class LongThreadClient extends MockSlackClient {
+      async getMessage(channelId: string, ts: string) {
+        const message = await super.getMessage(channelId, ts)
+        return ts === TEST_MESSAGES.threadParent.ts ? {...message, latestReply} : message
+      }
+      async getThread(channelId: string, threadTs: string) {
+        const thread = await super.getThread(channelId, threadTs)
+        return {...thread, parent: {...thread.parent, latestReply}}
+      }
+    }
+    registerTestMocks({
+      createSlackClient: () => new LongThreadClient(),
+      createLinearClient: () => new MockLinearClient()
+    })
+
+    const [summary] = titlesOnLine(await lensesFor(), 0)
+    assert.match(summary ?? "", /last activity 3h ago$/)
+  })
+
+  test("leaves out the parts that are turned off", async () => {
+    const lenses = await lensesFor({
+      "codeLens.enabled": true,
+      "codeLens.showAuthor": false,
+      "codeLens.showLastActivity": false,
+      "codeLens.showLinear": false
+    })
+
+    assert.deepStrictEqual(titlesOnLine(lenses, 0), ["#general · 3 replies", "↻ Refresh"])
+    assert.deepStrictEqual(titlesOnLine(lenses, 1), ["#engineering", "↻ Refresh"])
+  })
+
+  test("says when the message is gone", async () => {
+    assert.deepStrictEqual(titlesOnLine(await lensesFor(), 2), ["Message deleted", "↻ Refresh"])
+  })
+
+  test("the summary opens the thread and the issue offers the Linear actions", async () => {
+    const lenses = (await lensesFor()).filter(lens => lens.range.start.line === 1)
+    const [summary, issue] = lenses.map(lens => lens.command!)
+
+    assert.strictEqual(summary.command, "slackoscope.openThread")
+    assert.deepStrictEqual(summary.arguments, [{url: TEST_SLACK_URLS.linearBot}])
+
+    await vscode.commands.executeCommand(issue.command, ...(issue.arguments ?? []))
+    const [{items}] = quickPicks as {items: {label: string}[]}[]
+    assert.deepStrictEqual(
+      items.map(item => item.label.replace(/^\$\([\w-]+\) /, "")),
+      ["Open in Linear", "Post as comment", "Assign to me", "Set status", "Post, assign & close"]
+    )
+  })
+})
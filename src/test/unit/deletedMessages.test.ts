@@ -0,0 +1,141 @@
+/**
+ * Deleted messages: detecting them, remembering them, and flagging links to them.
+ */
+
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {MessageDeletedError, SlackClient, SlackLoader, SlackStore, type SlackMessage} from "../../slack"
+import {createExtensionContext, reset} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_DELETED_MESSAGE_TS, TEST_SLACK_URLS} from "../fixtures"
+import {activate} from "../../extension"
+
+suite("SlackClient.getMessage", () => {
+  const realFetch = globalThis.fetch
+
+  /** Answer every request with `conversations.history` returning `messages`. */
+  const respondWith = (messages: Partial<SlackMessage>[]) => {
+    globalThis.fetch = (async () => new Response(JSON.stringify({ok: true, messages}))) as typeof fetch
+  }
+
+  teardown(() => {
+    globalThis.fetch = realFetch
+  })
+
+  test("returns the message when Slack answers with the requested ts", async () => {
+    respondWith([{ts: "1234567890.123456", text: "hello"}])
+    const message = await new SlackClient("xoxb-test").getMessage("C1", "1234567890.123456")
+
+    assert.strictEqual(message.text, "hello")
+  })
+
+  test("reads Slack's snake_case thread fields", async () => {
+    respondWith([
+      {
+        ts: "1234567890.123456",
+        text: "hello",
+        thread_ts: "1234567890.123456",
+        reply_count: 2,
+        latest_reply: "1234567899.000100"
+      } as never
+    ])
+    const message = await new SlackClient("xoxb-test").getMessage("C1", "1234567890.123456")
+
+    assert.strictEqual(message.threadTs, "1234567890.123456")
+    assert.strictEqual(message.replyCount, 2)
+    assert.strictEqual(message.latestReply, "1234567899.000100")
+  })
+
+  test("raises MessageDeletedError when Slack answers with an older message", async () => {
+    respondWith([{ts: "1234567880.000001", text: "the message before"}])
+
+    await assert.rejects(new SlackClient("xoxb-test").getMessage("C1", "1234567890.123456"), (error: unknown) => {
+      assert.ok(error instanceof MessageDeletedError)
+      assert.strictEqual(error.channelId, "C1")
+      assert.strictEqual(error.ts, "1234567890.123456")
+      return true
+    })
+  })
+
+  test("raises MessageDeletedError when there is nothing at or before the ts", async () => {
+    respondWith([])
+
+    await assert.rejects(new SlackClient("xoxb-test").getMessage("C1", "1234567890.123456"), MessageDeletedError)
+  })
+})
+
+suite("Deleted message tombstones", () => {
+  class CountingSlackClient extends MockSlackClient {
+    messageLookups = 0
+
+    override async getMessage(channelId: string, ts: string) {
+      this.messageLookups++
+      return super.getMessage(channelId, ts)
+    }
+  }
+
+  test("caches the deletion and rethrows it as a MessageDeletedError", async () => {
+    const client = new CountingSlackClient()
+    const loader = new SlackLoader(client, new SlackStore())
+
+    await assert.rejects(loader.getMessage("C1234ABCD", TEST_DELETED_MESSAGE_TS), MessageDeletedError)
+    await assert.rejects(loader.getMessage("C1234ABCD", TEST_DELETED_MESSAGE_TS), MessageDeletedError)
+    assert.strictEqual(client.messageLookups, 1)
+  })
+
+  test("looks again once the tombstone is removed", async () => {
+    const client = new CountingSlackClient()
+    const store = new SlackStore()
+    const loader = new SlackLoader(client, store)
+
+    await assert.rejects(loader.getMessage("C1234ABCD", TEST_DELETED_MESSAGE_TS), MessageDeletedError)
+    store.messages.remove(SlackStore.key("C1234ABCD", TEST_DELETED_MESSAGE_TS))
+    await assert.rejects(loader.getMessage("C1234ABCD", TEST_DELETED_MESSAGE_TS), MessageDeletedError)
+    assert.strictEqual(client.messageLookups, 2)
+  })
+})
+
+suite("Dead link diagnostics", () => {
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => new MockSlackClient(),
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  teardown(() => reset())
+
+  /** Open `content` in an editor, activate the extension, and wait for its diagnostics to settle. */
+  const diagnosticsFor = async (content: string): Promise<vscode.Diagnostic[]> => {
+    const document = await vscode.workspace.openTextDocument({content, language: "markdown"})
+    await vscode.window.showTextDocument(document)
+    await vscode.workspace
+      .getConfiguration("slackoscope")
+      .update("token", "test-slack-token", vscode.ConfigurationTarget.Global)
+    await activate(createExtensionContext() as never)
+
+    // Decorations update asynchronously after activation
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const diagnostics = vscode.languages.getDiagnostics(document.uri)
+      if (diagnostics.length) return diagnostics
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+    return vscode.languages.getDiagnostics(document.uri)
+  }
+
+  test("warns about links to deleted messages, and only those", async () => {
+    const diagnostics = await diagnosticsFor(`See ${TEST_SLACK_URLS.simple}\nand ${TEST_SLACK_URLS.deleted}\n`)
+
+    assert.strictEqual(diagnostics.length, 1)
+    const [diagnostic] = diagnostics
+    assert.strictEqual(diagnostic.severity, vscode.DiagnosticSeverity.Warning)
+    assert.strictEqual(diagnostic.source, "Slackoscope")
+    assert.strictEqual(diagnostic.code, "message-deleted")
+    assert.strictEqual(diagnostic.range.start.line, 1)
+    assert.strictEqual(diagnostic.range.start.character, 4)
+  })
+})
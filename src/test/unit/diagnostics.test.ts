@@ -0,0 +1,190 @@
+/**
+ * Problems panel diagnostics for broken, inaccessible and resolved links, and their quick fixes.
+ */
+
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {SlackPermanentError, type SlackMessage, type SlackThread} from "../../slack"
+import type {LinearIssue} from "../../linear"
+import {createExtensionContext, reset} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_SLACK_URLS, TEST_WORKFLOW_STATES} from "../fixtures"
+import {activate} from "../../extension"
+
+const HIDDEN_CHANNEL_URL = "https://workspace.slack.com/archives/C0HIDDEN1/p1234567890123456"
+const MISSING_MESSAGE_URL = "https://workspace.slack.com/archives/C1234ABCD/p1234567890000001"
+
+/** A token that can't see one channel, and a message Slack can't find */
+class BrokenLinksSlackClient extends MockSlackClient {
+  readonly hidden = new Set(["C0HIDDEN1"])
+
+  override async getMessage(channelId: string, ts: string): Promise<SlackMessage> {
+    this.check(channelId, ts)
+    return super.getMessage(channelId, ts)
+  }
+
+  override async getThread(channelId: string, threadTs: string): Promise<SlackThread> {
+    this.check(channelId, threadTs)
+    return super.getThread(channelId, threadTs)
+  }
+
+  private check(channelId: string, ts: string): void {
+    if (this.hidden.has(channelId)) throw new SlackPermanentError("channel_not_found", "conversations.history")
+    if (ts === "1234567890.000001") throw new SlackPermanentError("message_not_found", "conversations.history")
+  }
+}
+
+/** ENG-1234 has shipped */
+class DoneLinearClient extends MockLinearClient {
+  override async getIssueByIdentifier(identifier: string): Promise<LinearIssue> {
+    const issue = await super.getIssueByIdentifier(identifier)
+    const done = TEST_WORKFLOW_STATES.find(state => state.type === "completed")!
+    return {...issue, state: {id: done.id, name: done.name, color: done.color, type: done.type}}
+  }
+}
+
+suite("Link diagnostics", () => {
+  let client: BrokenLinksSlackClient
+
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => client,
+      createLinearClient: () => new DoneLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  setup(() => {
+    client = new BrokenLinksSlackClient()
+  })
+
+  teardown(() => reset())
+
+  const codeOf = ({code}: vscode.Diagnostic) => (typeof code === "object" ? code.value : code)
+
+  /** Poll until `done` holds for the document's diagnostics, or give up and return them */
+  const waitFor = async (uri: vscode.Uri, done: (diagnostics: vscode.Diagnostic[]) => boolean) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const diagnostics = vscode.languages.getDiagnostics(uri)
+      if (done(diagnostics)) return diagnostics
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+    return vscode.languages.getDiagnostics(uri)
+  }
+
+  /** Open `content` in an editor, activate with `settings`, and wait for `count` diagnostics */
+  const open = async (content: string, count: number, settings: Record<string, unknown> = {}) => {
+    const document = await vscode.workspace.openTextDocument({content, language: "typescript"})
+    await vscode.window.showTextDocument(document)
+    const config = vscode.workspace.getConfiguration("slackoscope")
+    await config.update("token", "test-slack-token", vscode.ConfigurationTarget.Global)
+    await config.update("linearToken", "test-linear-token", vscode.ConfigurationTarget.Global)
+    for (const [key, value] of Object.entries(settings)) {
+      await config.update(key, value, vscode.ConfigurationTarget.Global)
+    }
+    await activate(createExtensionContext() as never)
+
+    const diagnostics = await waitFor(document.uri, found => found.length >= count)
+    return {document, diagnostics}
+  }
+
+  const CONTENT = [
+    `// ${MISSING_MESSAGE_URL}`,
+    `const hidden = "${HIDDEN_CHANNEL_URL}"`,
+    `// Tracked in ${TEST_SLACK_URLS.linearBot}`,
+    `// ${TEST_SLACK_URLS.simple}`
+  ].join("\n")
+
+  test("flags missing messages, hidden channels and resolved tickets", async () => {
+    const {diagnostics} = await open(CONTENT, 3)
+
+    const byLine = [...diagnostics].sort((a, b) => a.range.start.line - b.range.start.line)
+    assert.deepStrictEqual(
+      byLine.map(diagnostic => [diagnostic.range.start.line, codeOf(diagnostic), diagnostic.severity]),
+      [
+        [0, "message-not-found", vscode.DiagnosticSeverity.Warning],
+        [1, "channel-not-found", vscode.DiagnosticSeverity.Warning],
+        [2, "issue-resolved", vscode.DiagnosticSeverity.Information]
+      ]
+    )
+    assert.ok(byLine.every(diagnostic => diagnostic.source === "Slackoscope"))
+    assert.strictEqual(byLine[2].message, "ENG-1234 is Done — this reference may be stale")
+  })
+
+  test("severities follow the settings, and off leaves a kind out", async () => {
+    const {diagnostics} = await open(CONTENT, 2, {
+      "diagnostics.brokenLink": "error",
+      "diagnostics.inaccessibleLink": "hint",
+      "diagnostics.resolvedIssue": "off"
+    })
+
+    assert.deepStrictEqual(diagnostics.map(diagnostic => [codeOf(diagnostic), diagnostic.severity]).sort(), [
+      ["channel-not-found", vscode.DiagnosticSeverity.Hint],
+      ["message-not-found", vscode.DiagnosticSeverity.Error]
+    ])
+  })
+
+  suite("Quick fixes", () => {
+    /** The quick fixes offered with the cursor on the link on `line` */
+    const quickFixes = async (document: vscode.TextDocument, line: number) => {
+      const {range} = vscode.languages.getDiagnostics(document.uri).find(d => d.range.start.line === line)!
+      const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+        "vscode.executeCodeActionProvider",
+        document.uri,
+        new vscode.Range(range.start, range.start)
+      )
+      return (actions ?? []).filter(action => action.kind === vscode.CodeActionKind.QuickFix)
+    }
+
+    test("a dead link can be removed, taking its comment line with it", async () => {
+      const {document} = await open(CONTENT, 3)
+      const [remove, refresh] = await quickFixes(document, 0)
+
+      assert.strictEqual(remove.title, "Remove reference")
+      assert.ok(remove.isPreferred)
+      const [[uri, [edit]]] = remove.edit!.entries()
+      assert.strictEqual(uri.toString(), document.uri.toString())
+      assert.deepStrictEqual([edit.range.start.line, edit.range.start.character, edit.newText], [0, 0, ""])
+      assert.ok(edit.range.end.character > MISSING_MESSAGE_URL.length)
+      assert.strictEqual(refresh.title, "Refresh")
+    })
+
+    test("removing a link from code leaves the rest of the line", async () => {
+      const {document} = await open(CONTENT, 3)
+      const [remove] = await quickFixes(document, 1)
+
+      const [[, [edit]]] = remove.edit!.entries()
+      assert.strictEqual(document.getText(edit.range), HIDDEN_CHANNEL_URL)
+    })
+
+    test("a resolved ticket's reference offers to open the ticket", async () => {
+      const {document} = await open(CONTENT, 3)
+      const fixes = await quickFixes(document, 2)
+
+      assert.deepStrictEqual(
+        fixes.map(action => action.title),
+        ["Open ticket", "Remove reference", "Refresh"]
+      )
+      const [openTicket] = fixes
+      assert.strictEqual(openTicket.command?.command, "vscode.open")
+      assert.strictEqual(
+        (openTicket.command?.arguments?.[0] as vscode.Uri).toString(),
+        "https://linear.app/company/issue/ENG-1234"
+      )
+    })
+
+    test("refreshing clears the diagnostic once the channel is visible", async () => {
+      const {document} = await open(CONTENT, 3)
+      const [, refresh] = await quickFixes(document, 1)
+
+      client.hidden.clear()
+      await vscode.commands.executeCommand(refresh.command!.command, ...refresh.command!.arguments!)
+
+      const diagnostics = await waitFor(document.uri, found => !found.some(d => codeOf(d) === "channel-not-found"))
+      assert.deepStrictEqual(diagnostics.map(codeOf).sort(), ["issue-resolved", "message-not-found"])
+    })
+  })
+})
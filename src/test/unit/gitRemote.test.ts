@@ -0,0 +1,79 @@
+/**
+ * Links to code on a git host: reading remotes, host-specific line anchors, and asking a
+ * real checkout for its commit and remote.
+ */
+
+import * as assert from "assert"
+import {execFileSync} from "child_process"
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from "fs"
+import {tmpdir} from "os"
+import {join} from "path"
+import {codeLineUrl, gitCodeLink, remoteWebUrl} from "../../lib/gitRemote"
+
+suite("git remote links", () => {
+  test("reads the remote shapes git accepts", () => {
+    assert.strictEqual(remoteWebUrl("git@github.com:acme/app.git"), "https://github.com/acme/app")
+    assert.strictEqual(remoteWebUrl("https://github.com/acme/app.git"), "https://github.com/acme/app")
+    assert.strictEqual(remoteWebUrl("https://token@gitlab.com/acme/tools/app"), "https://gitlab.com/acme/tools/app")
+    assert.strictEqual(remoteWebUrl("ssh://git@bitbucket.org:7999/acme/app.git"), "https://bitbucket.org/acme/app")
+    assert.strictEqual(remoteWebUrl("/srv/git/app.git"), null)
+    assert.strictEqual(remoteWebUrl("file:///srv/git/app.git"), null)
+  })
+
+  test("anchors lines the way each host does", () => {
+    const link = (host: string, start: number, end: number) =>
+      codeLineUrl(`https://${host}/acme/app`, "4f2a9c1", "src/my file.ts", start, end)
+
+    assert.strictEqual(link("github.com", 10, 12), "https://github.com/acme/app/blob/4f2a9c1/src/my%20file.ts#L10-L12")
+    assert.strictEqual(link("github.com", 10, 10), "https://github.com/acme/app/blob/4f2a9c1/src/my%20file.ts#L10")
+    assert.strictEqual(link("gitlab.com", 10, 12), "https://gitlab.com/acme/app/-/blob/4f2a9c1/src/my%20file.ts#L10-12")
+    assert.strictEqual(
+      link("bitbucket.org", 10, 12),
+      "https://bitbucket.org/acme/app/src/4f2a9c1/src/my%20file.ts#lines-10:12"
+    )
+  })
+
+  suite("gitCodeLink", () => {
+    let root: string
+    const git = (...args: string[]) =>
+      execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {cwd: root})
+        .toString()
+        .trim()
+
+    setup(() => {
+      root = mkdtempSync(join(tmpdir(), "slackoscope-git-"))
+      mkdirSync(join(root, "src"))
+      writeFileSync(join(root, "src", "app.ts"), "const a = 1\nconst b = 2\n")
+      git("init", "-q")
+    })
+
+    teardown(() => rmSync(root, {recursive: true, force: true}))
+
+    test("links the lines at the current commit on origin's host", async () => {
+      git("remote", "add", "origin", "git@github.com:acme/app.git")
+      git("add", ".")
+      git("commit", "-qm", "Initial commit")
+      const commit = git("rev-parse", "HEAD")
+
+      assert.deepStrictEqual(await gitCodeLink(join(root, "src", "app.ts"), 1, 2), {
+        url: `https://github.com/acme/app/blob/${commit}/src/app.ts#L1-L2`,
+        path: "src/app.ts",
+        repo: "acme/app",
+        commit,
+        startLine: 1,
+        endLine: 2
+      })
+    })
+
+    test("is null without an origin or a commit", async () => {
+      git("add", ".")
+      git("commit", "-qm", "Initial commit")
+      assert.strictEqual(await gitCodeLink(join(root, "src", "app.ts"), 1, 1), null)
+
+      rmSync(join(root, ".git"), {recursive: true})
+      git("init", "-q")
+      git("remote", "add", "origin", "git@github.com:acme/app.git")
+      assert.strictEqual(await gitCodeLink(join(root, "src", "app.ts"), 1, 1), null)
+    })
+  })
+})
@@ -0,0 +1,380 @@
+/**
+ * Hover content: what the tooltip says for each kind of Slack link.
+ *
+ * Runs against the `vscode` stub with the extension activated in-process, the same
+ * way `linearCommands.test.ts` does.
+ */
+
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {createExtensionContext, reset} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_CHANNELS, TEST_FILES, TEST_LINEAR_ISSUES, TEST_MESSAGES, TEST_SLACK_URLS, TEST_USERS} from "../fixtures"
+import {activate} from "../../extension"
+import {HoverContentBuilder} from "../../vscode/renderers"
+
+const activateExtension = async () => {
+  await vscode.workspace
+    .getConfiguration("slackoscope")
+    .update("token", "test-slack-token", vscode.ConfigurationTarget.Global)
+  await activate(createExtensionContext() as never)
+}
+
+/** The rendered markdown of the hover at `character` on the first line of `content`. */
+const hoverMarkdownAt = async (content: string, character: number): Promise<string> => {
+  const document = await vscode.workspace.openTextDocument({content: `${content}\n`, language: "javascript"})
+  const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+    "vscode.executeHoverProvider",
+    document.uri,
+    new vscode.Position(0, character)
+  )
+  return (hovers ?? [])
+    .flatMap(hover => hover.contents)
+    .map(content => (typeof content === "string" ? content : (content as vscode.MarkdownString).value))
+    .join("\n")
+}
+
+suite("Hover content", () => {
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => new MockSlackClient(),
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  teardown(() => reset())
+
+  suite("message text", () => {
+    test("renders Slack mrkdwn as Markdown with mentions resolved", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.formatted, 10)
+
+      assert.ok(
+        markdown.includes(
+          "> @Bob can you check #general? **deploy** is ✅ &amp; the [runbook](https://example.com/runbook) says `a < b`"
+        ),
+        markdown
+      )
+    })
+  })
+
+  suite("bot messages", () => {
+    test("shows the Block Kit layout instead of the fallback text", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.alertBot, 10)
+
+      assert.match(markdown, /> ### 🚨 High error rate/)
+      assert.match(markdown, /> \*\*api-gateway\*\* is returning 5xx for @Alice's checkout flow/)
+      assert.match(markdown, /> \| \*\*Severity\*\* \| P1 \|/)
+      assert.doesNotMatch(markdown, /New alert/)
+    })
+
+    test("shows attachments with their color bar and title link", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.alertBot, 10)
+
+      assert.match(markdown, /> 🟥 \*\*\[Error rate \\> 5%\]\(https:\/\/example\.com\/monitors\/4242\)\*\*/)
+      assert.match(markdown, /> \| \*\*Current\*\* \| 7\.3% \|/)
+    })
+  })
+
+  suite("authors and reactions", () => {
+    test("names a bot from its profile, with its icon and an APP badge", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.alertBot, 10)
+
+      assert.match(
+        markdown,
+        /<img src="https:\/\/example\.com\/avatars\/alertmanager\.png" width="16" height="16"\/> \*\*Alertmanager\*\* `APP`/
+      )
+      assert.doesNotMatch(markdown, /@Bob/)
+    })
+
+    test("escapes a bot's name and icon URL, and only shows https icons", () => {
+      const author = (iconUrl: string) =>
+        new HoverContentBuilder()
+          .author({name: "[Deploy](command:workbench.action.terminal.new)", iconUrl, isBot: true}, TEST_MESSAGES.simple)
+          .build().value
+
+      const markdown = author('https://example.com/icon.png" onerror="alert(1)')
+      assert.match(markdown, /^<img src="https:\/\/example\.com\/icon\.png&quot; onerror=&quot;alert\(1\)" width="16"/)
+      assert.match(markdown, /\*\*\\\[Deploy\\\]\(command:workbench\.action\.terminal\.new\)\*\* `APP`/)
+      assert.doesNotMatch(author("http://example.com/icon.png"), /<img/)
+    })
+
+    test("marks edited messages next to the author", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.reacted, 10)
+
+      assert.match(markdown, /\*\*@Alice\*\* \(.+\) _\(edited .+\)_:/)
+    })
+
+    test("shows a reactions row, keeping custom emoji as shortcodes", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.reacted, 10)
+
+      assert.match(markdown, /^✅ 1 · 👍🏼 3 · :partyparrot: 2$/m)
+    })
+
+    test("leaves out the edited marker and reactions when there are none", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.simple, 10)
+
+      assert.doesNotMatch(markdown, /edited/)
+      assert.doesNotMatch(markdown, / · .+ \d+$/m)
+    })
+  })
+
+  suite("threads", () => {
+    test("offers to open the thread of a link into one", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.threadReply, 10)
+
+      assert.match(markdown, /\[☰ Open thread\]\(command:slackoscope\.openThread\?/)
+    })
+
+    test("has no thread to open for a message without replies", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.simple, 10)
+
+      assert.doesNotMatch(markdown, /Open thread/)
+    })
+  })
+
+  suite("deleted messages", () => {
+    test("shows a tombstone with a refresh action instead of an error", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.deleted, 10)
+
+      assert.match(markdown, /🗑 \*\*Message deleted\*\*/)
+      assert.match(markdown, /\[↻ Refresh\]\(command:slackoscope\.refreshMessage\?/)
+      assert.doesNotMatch(markdown, /Error/)
+    })
+
+    test("treats a reply missing from its thread as deleted, not as the thread parent", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.deletedReply, 10)
+
+      assert.match(markdown, /Message deleted/)
+      assert.doesNotMatch(markdown, /Thread started/)
+    })
+  })
+
+  suite("file permalinks", () => {
+    test("shows the file name, uploader, size and type", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.snippetFile, 10)
+
+      assert.match(markdown, /\*\*deploy\.sh\*\*/)
+      assert.match(markdown, /Uploaded by @Bob/)
+      assert.match(markdown, /\(2 KB · Shell\)/)
+    })
+
+    test("escapes the file name and the uploader's name", () => {
+      const file = {...TEST_FILES.snippet, name: "a](command:workbench.action.terminal.new) [b"}
+      const markdown = new HoverContentBuilder()
+        .uploader({...TEST_USERS.U9876543210, displayName: "<b>Bob</b>"}, file)
+        .files([file])
+        .build().value
+
+      assert.match(markdown, /^\*\*Uploaded by @\\<b\\>Bob\\<\/b\\>\*\*/m)
+      assert.ok(
+        markdown.includes(
+          "☰ [**a\\](command:workbench.action.terminal.new) \\[b**](https://files.slack.com/files-pri/T123/F777/deploy.sh)"
+        ),
+        markdown
+      )
+    })
+
+    test("previews a text snippet as a code block", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.snippetFile, 10)
+
+      assert.ok(markdown.includes("```shell\n#!/bin/sh\nset -e\nnpm run package\n```"), markdown)
+    })
+
+    test("fences a preview that contains a code fence of its own", () => {
+      const preview = "Usage:\n```\nnpm run package\n```\n[run](command:workbench.action.terminal.new)"
+      const markdown = new HoverContentBuilder()
+        .snippet({...TEST_FILES.snippet, filetype: "markdown", preview})
+        .build().value
+
+      assert.strictEqual(markdown, `\`\`\`\`markdown\n${preview}\n\`\`\`\``)
+    })
+
+    test("prefers the file link under the cursor over a message link on the same line", async () => {
+      await activateExtension()
+      const line = `${TEST_SLACK_URLS.simple} ${TEST_SLACK_URLS.snippetFile}`
+      const markdown = await hoverMarkdownAt(line, TEST_SLACK_URLS.simple.length + 10)
+
+      assert.match(markdown, /deploy\.sh/)
+      assert.doesNotMatch(markdown, /simple test message/)
+    })
+
+    test("reports a file the token cannot see", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt("https://workspace.slack.com/files/U1/F0000000000/gone.txt", 10)
+
+      assert.match(markdown, /\*\*File not found\*\*/)
+      assert.match(markdown, /isn't shared anywhere the token can see/)
+    })
+  })
+
+  suite("channel links", () => {
+    test("shows the channel card: privacy, size, topic and purpose", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.channel, 10)
+
+      assert.match(markdown, /\*\*#general\*\* · _public channel_ · 42 members/)
+      assert.match(markdown, /\*\*Topic:\*\* Company-wide announcements/)
+      assert.match(markdown, /\*\*Purpose:\*\* Everyone, everything/)
+    })
+
+    test("marks private channels and leaves out what the API did not return", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.privateChannel, 10)
+
+      assert.match(markdown, /🔒 \*\*#private-team\*\* · _private channel_$/m)
+      assert.doesNotMatch(markdown, /Topic|Purpose/)
+    })
+
+    test("renders the topic as mrkdwn, so only web links become links", () => {
+      const markdown = new HoverContentBuilder()
+        .channelDetails({
+          ...TEST_CHANNELS.C1234ABCD,
+          topic: "See the <https://example.com/runbook|runbook> &lt;b&gt;",
+          purpose: "[Run](command:workbench.action.terminal.new)"
+        })
+        .build().value
+
+      assert.match(markdown, /\*\*Topic:\*\* See the \[runbook\]\(https:\/\/example\.com\/runbook\) &lt;b&gt;/)
+      assert.match(markdown, /\*\*Purpose:\*\* \\\[Run\\\]\(command:/)
+    })
+
+    test("does not treat a message permalink as a channel link", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.simple, 10)
+
+      assert.match(markdown, /simple test message/)
+      assert.doesNotMatch(markdown, /public channel/)
+    })
+  })
+
+  suite("user links", () => {
+    test("shows the profile card: avatar, names, title and time zone", async () => {
+      await activateExtension()
+      const markdown = await hoverMarkdownAt(TEST_SLACK_URLS.user, 10)
+
+      assert.match(markdown, /<img src="https:\/\/example\.com\/avatars\/alice\.jpg"/)
+      assert.match(markdown, /\*\*@Alice\*\* \(Alice Johnson\)/)
+      assert.match(markdown, /_Staff Engineer_/)
+      assert.match(markdown, /🕓 Western European Summer Time · .+ local time/)
+    })
+
+    test("escapes the title and still renders with a time zone the runtime doesn't know", () => {
+      const markdown = new HoverContentBuilder()
+        .userProfile({
+          ...TEST_USERS.U1234567890,
+          title: "[Staff](command:workbench.action.terminal.new) <b>",
+          timeZone: "Mars/Olympus_Mons",
+          timeZoneLabel: undefined
+        })
+        .build().value
+
+      assert.match(markdown, /_\\\[Staff\\\]\(command:workbench\.action\.terminal\.new\) \\<b\\>_/)
+      assert.match(markdown, /^🕓 Mars\/Olympus\\_Mons$/m)
+    })
+
+    test("escapes the display and real names", () => {
+      const markdown = new HoverContentBuilder()
+        .userProfile({
+          ...TEST_USERS.U1234567890,
+          avatarUrl: "",
+          displayName: "[x](command:workbench.action.terminal.new)",
+          realName: "<img src=x>"
+        })
+        .build().value
+
+      assert.match(markdown, /^\*\*@\\\[x\\\]\(command:workbench\.action\.terminal\.new\)\*\* \(\\<img src=x\\>\)$/m)
+    })
+  })
+
+  suite("Linear issue references", () => {
+    const activateWithLinear = async () => {
+      await vscode.workspace
+        .getConfiguration("slackoscope")
+        .update("linearToken", "test-linear-token", vscode.ConfigurationTarget.Global)
+      await activateExtension()
+    }
+
+    test("shows the issue card for a bare identifier: title, state, assignee and priority", async () => {
+      await activateWithLinear()
+      const markdown = await hoverMarkdownAt("// TODO(ENG-1234): split this up", 10)
+
+      assert.match(
+        markdown,
+        /🜃 \*\*\[ENG-1234\]\(https:\/\/linear\.app\/company\/issue\/ENG-1234\)\*\* · ◉ In Progress/
+      )
+      assert.match(markdown, /> \*\*Implement new feature\*\*/)
+      assert.match(markdown, /𖨆 @Alice · ⚑ High · updated /)
+    })
+
+    test("shows the issue card for a link, and says when nobody has it", async () => {
+      await activateWithLinear()
+      const markdown = await hoverMarkdownAt("// https://linear.app/company/issue/PROJ-555/update-documentation", 40)
+
+      assert.match(markdown, /\[PROJ-555\]/)
+      assert.match(markdown, /𖨆 _Unassigned_ · updated /)
+      assert.doesNotMatch(markdown, /⚑/)
+    })
+
+    test("offers the Linear actions for the issue", async () => {
+      await activateWithLinear()
+      const markdown = await hoverMarkdownAt("// TODO(ENG-1234)", 10)
+
+      const [, encoded] = markdown.match(/\(command:slackoscope\.postToLinear\?([^)]+)\)/) ?? []
+      assert.ok(encoded, markdown)
+      assert.deepStrictEqual(JSON.parse(decodeURIComponent(encoded)), {
+        issueId: "issue-id-1",
+        identifier: "ENG-1234",
+        fromLine: 0
+      })
+      assert.match(markdown, /\(command:slackoscope\.assignToMe\?/)
+      assert.match(markdown, /\(command:slackoscope\.setStatus\?/)
+    })
+
+    test("links only the attachments with web URLs", () => {
+      const markdown = new HoverContentBuilder()
+        .linearAttachments([
+          {id: "a1", title: "Fix token refresh (#42)", url: "https://github.com/acme/app/pull/42"},
+          {id: "a2", title: "Open a terminal", url: "command:workbench.action.terminal.new"}
+        ])
+        .build().value
+
+      assert.strictEqual(markdown, "⛓ [Fix token refresh (#42)](https://github.com/acme/app/pull/42)")
+    })
+
+    test("escapes the issue title and assignee", () => {
+      const markdown = new HoverContentBuilder()
+        .linearIssue({
+          ...TEST_LINEAR_ISSUES["ENG-1234"],
+          title: "[Fix](command:workbench.action.terminal.new)",
+          assignee: {id: "user-mallory", name: "<b>Mallory</b>"}
+        })
+        .build().value
+
+      assert.match(markdown, /^> \*\*\\\[Fix\\\]\(command:workbench\.action\.terminal\.new\)\*\*$/m)
+      assert.match(markdown, /𖨆 @\\<b\\>Mallory\\<\/b\\> · /)
+    })
+
+    test("says nothing without a Linear token", async () => {
+      await activateExtension()
+
+      assert.strictEqual(await hoverMarkdownAt("// TODO(ENG-1234)", 10), "")
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import * as assert from "assert"
+import {SlackLoader, SlackStore, type SlackAuthor} from "../../slack"
+import type {InlineSettings} from "../../vscode"
+import {buildInlineContent} from "../../vscode/renderers"
+import {MockSlackClient} from "../mocks"
+import {TEST_MESSAGES} from "../fixtures"
+
+const SETTINGS: InlineSettings = {
+  enabled: true,
+  showTime: false,
+  useRelativeTime: true,
+  showUser: true,
+  showChannelName: true,
+  fontSize: 12,
+  color: "#888",
+  fontStyle: "italic"
+}
+
+const ALICE: SlackAuthor = {name: "Alice", isBot: false}
+
+suite("buildInlineContent", () => {
+  test("names people with an @ and bots without", () => {
+    const message = TEST_MESSAGES.simple
+
+    assert.strictEqual(buildInlineContent(message, ALICE, SETTINGS).text, '@Alice: "This is a simple test message"')
+    assert.strictEqual(
+      buildInlineContent(message, {name: "Alertmanager", isBot: true}, SETTINGS).text,
+      'Alertmanager: "This is a simple test message"'
+    )
+  })
+
+  test("marks edits and shows the most-used reactions", () => {
+    assert.strictEqual(
+      buildInlineContent(TEST_MESSAGES.reacted, ALICE, SETTINGS).text,
+      '@Alice: "Rolled back, looks healthy now" (edited) • 👍🏼 3  :partyparrot: 2  ✅ 1'
+    )
+  })
+})
+
+suite("SlackLoader.getAuthor", () => {
+  class CountingSlackClient extends MockSlackClient {
+    userLookups = 0
+
+    override async getUser(userId: string) {
+      this.userLookups++
+      return super.getUser(userId)
+    }
+  }
+
+  test("takes a bot's identity from its profile without a user lookup", async () => {
+    const client = new CountingSlackClient()
+    const loader = new SlackLoader(client, new SlackStore())
+
+    assert.deepStrictEqual(await loader.getAuthor(TEST_MESSAGES.alertBot), {
+      name: "Alertmanager",
+      iconUrl: "https://example.com/avatars/alertmanager.png",
+      isBot: true
+    })
+    assert.strictEqual(client.userLookups, 0)
+  })
+
+  test("uses the username of legacy bot messages", async () => {
+    const loader = new SlackLoader(new MockSlackClient(), new SlackStore())
+    const message = {...TEST_MESSAGES.simple, subtype: "bot_message", username: "deploy-hook"}
+
+    assert.deepStrictEqual(await loader.getAuthor(message), {name: "deploy-hook", isBot: true})
+  })
+
+  test("looks people up", async () => {
+    const client = new CountingSlackClient()
+    const loader = new SlackLoader(client, new SlackStore())
+
+    assert.deepStrictEqual(await loader.getAuthor(TEST_MESSAGES.simple), {
+      name: "Alice",
+      iconUrl: "https://example.com/avatars/alice.jpg",
+      isBot: false
+    })
+    assert.strictEqual(client.userLookups, 1)
+  })
+})
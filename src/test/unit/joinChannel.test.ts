@@ -0,0 +1,96 @@
+/**
+ * Links into channels the token isn't in: offering to join public ones, and explaining
+ * how to get into private ones.
+ */
+
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {SlackPermanentError, type SlackChannel, type SlackMessage} from "../../slack"
+import {createExtensionContext, reset} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_SLACK_URLS} from "../fixtures"
+import {activate} from "../../extension"
+
+const PRIVATE_CHANNEL_URL = "https://workspace.slack.com/archives/G9012IJKL/p1234567890123456"
+
+/** A bot that's a member of nothing until it joins, and can only join public channels */
+class OutsiderSlackClient extends MockSlackClient {
+  readonly joined = new Set<string>()
+
+  override async getMessage(channelId: string, ts: string): Promise<SlackMessage> {
+    if (!this.joined.has(channelId)) throw new SlackPermanentError("not_in_channel", "conversations.history")
+    return super.getMessage(channelId, ts)
+  }
+
+  override async joinChannel(channelId: string): Promise<SlackChannel> {
+    const channel = await this.getChannel(channelId)
+    if (channel.isPrivate) {
+      throw new SlackPermanentError("method_not_supported_for_channel_type", "conversations.join")
+    }
+    this.joined.add(channelId)
+    return channel
+  }
+}
+
+suite("Joining channels", () => {
+  let client: OutsiderSlackClient
+
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => client,
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  setup(async () => {
+    client = new OutsiderSlackClient()
+    await vscode.workspace
+      .getConfiguration("slackoscope")
+      .update("token", "test-slack-token", vscode.ConfigurationTarget.Global)
+    await activate(createExtensionContext() as never)
+  })
+
+  teardown(() => reset())
+
+  /** The rendered markdown of the hover over `url` */
+  const hoverMarkdown = async (url: string): Promise<string> => {
+    const document = await vscode.workspace.openTextDocument({content: `${url}\n`, language: "javascript"})
+    const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+      "vscode.executeHoverProvider",
+      document.uri,
+      new vscode.Position(0, 10)
+    )
+    return (hovers ?? [])
+      .flatMap(hover => hover.contents)
+      .map(content => (content as vscode.MarkdownString).value)
+      .join("\n")
+  }
+
+  test("offers to join a public channel the bot isn't in", async () => {
+    const markdown = await hoverMarkdown(TEST_SLACK_URLS.simple)
+
+    assert.match(markdown, /bot isn't in #general/)
+    assert.match(markdown, /\[⇥ Join #general and retry\]\(command:slackoscope\.joinChannel\?/)
+  })
+
+  test("shows the message once joined, without waiting for the cached error to expire", async () => {
+    await hoverMarkdown(TEST_SLACK_URLS.simple)
+    await vscode.commands.executeCommand("slackoscope.joinChannel", {channelId: "C1234ABCD"})
+    const markdown = await hoverMarkdown(TEST_SLACK_URLS.simple)
+
+    assert.doesNotMatch(markdown, /isn't in/)
+    assert.match(markdown, /simple test message/)
+  })
+
+  test("explains how to get invited into a private channel instead", async () => {
+    const markdown = await hoverMarkdown(PRIVATE_CHANNEL_URL)
+
+    assert.match(markdown, /bot isn't in #private-team/)
+    assert.match(markdown, /\/invite @your-app/)
+    assert.doesNotMatch(markdown, /joinChannel/)
+  })
+})
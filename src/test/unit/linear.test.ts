@@ -1,5 +1,17 @@
 import * as assert from "assert"
-import {extractLinearIssueFromMessage, findLinearIssues} from "../../linear"
+import {
+  extractLinearIssueFromMessage,
+  findLinearIssues,
+  findLinearReferences,
+  findLinearIssueInMessages,
+  findLinearIssuesInMessages,
+  isTeamIssue,
+  LinearLoader,
+  LinearStore,
+  type LinearStoreChange
+} from "../../linear"
+import {parseSlackUrl, RETRY_FAILED_AFTER} from "../../slack"
+import {MockLinearClient} from "../mocks"
 
 suite("Linear Integration Tests", () => {
   suite("findLinearIssues", () => {
@@ -77,6 +89,132 @@ suite("Linear Integration Tests", () => {
     })
   })
 
+  suite("findLinearReferences", () => {
+    test("finds bare identifiers with where they sit", () => {
+      assert.deepStrictEqual(findLinearReferences("// TODO(ABC-123): and DEF-4"), [
+        {identifier: "ABC-123", index: 8, length: 7, isUrl: false},
+        {identifier: "DEF-4", index: 22, length: 5, isUrl: false}
+      ])
+    })
+
+    test("spans the whole link, scheme and title slug included, but not what follows it", () => {
+      const link = "https://linear.app/acme/issue/ABC-123/fix-the-thing"
+
+      assert.deepStrictEqual(findLinearReferences(`"${link}", ABC-124`), [
+        {identifier: "ABC-123", index: 1, length: link.length, isUrl: true},
+        {identifier: "ABC-124", index: link.length + 4, length: 7, isUrl: false}
+      ])
+    })
+
+    test("does not count the identifier inside a link twice", () => {
+      const references = findLinearReferences("linear.app/acme/issue/ABC-123 and https://linear.app/acme/issue/ABC-123")
+
+      assert.deepStrictEqual(
+        references.map(({identifier, isUrl}) => [identifier, isUrl]),
+        [
+          ["ABC-123", true],
+          ["ABC-123", true]
+        ]
+      )
+    })
+
+    test("keeps every mention, unlike findLinearIssues", () => {
+      assert.strictEqual(findLinearReferences("ABC-1 ABC-1").length, 2)
+    })
+
+    test("keeps links, but only bare identifiers of known teams", () => {
+      const references = findLinearReferences("UTF-8 ABC-1 linear.app/acme/issue/XYZ-2", new Set(["ABC"]))
+
+      assert.deepStrictEqual(
+        references.map(({identifier}) => identifier),
+        ["ABC-1", "XYZ-2"]
+      )
+    })
+  })
+
+  suite("team keys", () => {
+    const TEAMS = new Set(["ENG", "TST"])
+
+    test("isTeamIssue checks the prefix, and accepts anything while the teams aren't known", () => {
+      assert.strictEqual(isTeamIssue("ENG-12", TEAMS), true)
+      assert.strictEqual(isTeamIssue("ENGX-12", TEAMS), false)
+      assert.strictEqual(isTeamIssue("UTF-8", undefined), true)
+    })
+
+    test("findLinearIssues drops look-alikes that aren't issues", () => {
+      const text = "Encode as UTF-8, dates as ISO-8601, hash with SHA-256, see CVE-2024 and ENG-42"
+
+      assert.deepStrictEqual(findLinearIssues(text), ["UTF-8", "ISO-8601", "SHA-256", "CVE-2024", "ENG-42"])
+      assert.deepStrictEqual(findLinearIssues(text, TEAMS), ["ENG-42"])
+    })
+
+    test("extractLinearIssueFromMessage skips past look-alikes in the text", () => {
+      const message = {text: "UTF-8 decoding broke, tracked in TST-7"}
+
+      assert.strictEqual(extractLinearIssueFromMessage(message), "UTF-8")
+      assert.strictEqual(extractLinearIssueFromMessage(message, TEAMS), "TST-7")
+      assert.strictEqual(extractLinearIssueFromMessage({text: "Bumped to SHA-256"}, TEAMS), null)
+    })
+
+    test("extractLinearIssueFromMessage trusts Linear Asks links whatever the team", () => {
+      const message = {
+        text: "Issue created",
+        bot_profile: {name: "Linear Asks"},
+        attachments: [{from_url: "https://linear.app/acme/issue/OPS-5"}]
+      }
+
+      assert.strictEqual(extractLinearIssueFromMessage(message, TEAMS), "OPS-5")
+    })
+
+    test("findLinearIssueInMessages moves on to the message that names a real issue", () => {
+      const messages = [
+        {ts: "1", user: "U1", channel: "C1", text: "Is this a CVE-2024 thing?"},
+        {ts: "2", user: "U2", channel: "C1", text: "No, filed as ENG-9"}
+      ]
+
+      assert.strictEqual(findLinearIssueInMessages(messages, TEAMS), "ENG-9")
+    })
+  })
+
+  suite("several issues in a thread", () => {
+    const parent = {ts: "1", user: "U1", channel: "C1", text: "Checkout is down, see ENG-1 and ENG-2"}
+    const reply = {ts: "2", user: "U2", channel: "C1", threadTs: "1", text: "Split out ENG-3, ENG-1 stays the main one"}
+    const asks = {
+      ts: "3",
+      user: "UBOT",
+      channel: "C1",
+      threadTs: "1",
+      text: "Issue created",
+      bot_profile: {name: "Linear Asks"},
+      attachments: [{from_url: "https://linear.app/acme/issue/ENG-4"}]
+    }
+
+    test("ranks Linear Asks issues, then the parent's mentions, then the replies'", () => {
+      assert.deepStrictEqual(findLinearIssuesInMessages([parent, reply, asks]), ["ENG-4", "ENG-1", "ENG-2", "ENG-3"])
+      assert.strictEqual(findLinearIssueInMessages([parent, reply, asks]), "ENG-4")
+    })
+
+    test("a linked reply counts as a reply, not the parent", () => {
+      assert.deepStrictEqual(findLinearIssuesInMessages([reply, parent]), ["ENG-1", "ENG-2", "ENG-3"])
+    })
+
+    test("the loader keeps every issue that exists, best match first", async () => {
+      const loader = new LinearLoader(new MockLinearClient(), new LinearStore())
+      const url = parseSlackUrl("https://acme.slack.com/archives/C123/p1700000000000100")!
+      const messages = [
+        {ts: "1700000000.000100", user: "U1", channel: "C123", text: "Two bugs here: PROJ-555 and ENG-1234"},
+        {ts: "1700000000.000200", user: "U2", channel: "C123", threadTs: "1700000000.000100", text: "Also ISO-8601"}
+      ]
+
+      const issues = await loader.getIssuesForUrl(url, messages)
+
+      assert.deepStrictEqual(
+        issues.map(issue => issue.identifier),
+        ["PROJ-555", "ENG-1234"]
+      )
+    })
+  })
+
   suite("extractLinearIssueFromMessage", () => {
     test("should extract issue from Linear Asks bot attachment", () => {
       const message = {
@@ -216,4 +354,149 @@ suite("Linear Integration Tests", () => {
       assert.strictEqual(issueId, "TST-800", "Should fallback to text when URL is malformed")
     })
   })
+
+  suite("LinearLoader team keys", () => {
+    class CountingLinearClient extends MockLinearClient {
+      readonly lookups: string[] = []
+      teamFetches = 0
+      failTeams = false
+
+      override async getIssueByIdentifier(identifier: string) {
+        this.lookups.push(identifier)
+        return super.getIssueByIdentifier(identifier)
+      }
+
+      override async getTeams() {
+        this.teamFetches++
+        if (this.failTeams) throw new Error("Network down")
+        return super.getTeams()
+      }
+    }
+
+    test("fetches the teams once and only looks up their issues", async () => {
+      const client = new CountingLinearClient()
+      const loader = new LinearLoader(client, new LinearStore())
+
+      const [utf, eng] = await Promise.all([loader.getIssue("UTF-8"), loader.getIssue("ENG-1234")])
+      await loader.getIssue("SHA-256")
+
+      assert.strictEqual(utf, null)
+      assert.strictEqual(eng?.identifier, "ENG-1234")
+      assert.deepStrictEqual(client.lookups, ["ENG-1234"])
+      assert.strictEqual(client.teamFetches, 1)
+    })
+
+    test("links a thread to the first issue of a real team", async () => {
+      const loader = new LinearLoader(new CountingLinearClient(), new LinearStore())
+      const url = parseSlackUrl("https://acme.slack.com/archives/C123/p1700000000000100")!
+      const messages = [
+        {ts: "1700000000.000100", user: "U1", channel: "C123", text: "ISO-8601 timestamps are off by an hour"},
+        {ts: "1700000000.000200", user: "U2", channel: "C123", text: "Filed as TST-10291"}
+      ]
+
+      assert.deepStrictEqual(await loader.getMetadataForUrl(url, messages), [
+        {issueId: "issue-id-2", identifier: "TST-10291"}
+      ])
+    })
+
+    test("prefers the configured keys and doesn't fetch", async () => {
+      const client = new CountingLinearClient()
+      const loader = new LinearLoader(client, new LinearStore(), {teamKeys: () => ["ops "]})
+
+      assert.deepStrictEqual(await loader.getTeamKeys(), new Set(["OPS"]))
+      assert.strictEqual(await loader.getIssue("ENG-1234"), null)
+      assert.strictEqual(client.teamFetches, 0)
+    })
+
+    test("accepts any prefix when the teams can't be fetched, and tries again later", async () => {
+      let time = 0
+      const client = new CountingLinearClient()
+      client.failTeams = true
+      const loader = new LinearLoader(client, new LinearStore({now: () => time}))
+
+      assert.strictEqual((await loader.getIssue("UTF-8"))?.identifier, "UTF-8")
+      assert.strictEqual((await loader.getIssue("ENG-1234"))?.identifier, "ENG-1234")
+      assert.strictEqual(client.teamFetches, 1, "the failure is remembered")
+
+      client.failTeams = false
+      time += RETRY_FAILED_AFTER
+      assert.strictEqual(await loader.getIssue("SHA-256"), null)
+      assert.strictEqual(client.teamFetches, 2)
+    })
+  })
+
+  suite("LinearLoader issue expiry", () => {
+    class ChangingLinearClient extends MockLinearClient {
+      lookups = 0
+      stateName = "In Progress"
+
+      override async getIssueByIdentifier(identifier: string) {
+        this.lookups++
+        const issue = await super.getIssueByIdentifier(identifier)
+        return {...issue, state: {...issue.state, name: this.stateName}}
+      }
+    }
+
+    test("serves an expired issue at once, then refreshes it and announces the change", async () => {
+      let time = 0
+      const client = new ChangingLinearClient()
+      const store = new LinearStore({now: () => time})
+      const loader = new LinearLoader(client, store)
+      const changes: LinearStoreChange[] = []
+      store.onDidChange(change => changes.push(change))
+
+      await loader.getIssue("TST-123")
+      time += 60_000
+      await loader.getIssue("TST-123")
+      assert.strictEqual(client.lookups, 1, "still fresh after a minute")
+
+      time += 2 * 60_000
+      client.stateName = "Done"
+      const stale = await loader.getIssue("TST-123")
+      assert.strictEqual(stale?.state.name, "In Progress")
+
+      await new Promise(resolve => setImmediate(resolve))
+      assert.strictEqual((await loader.getIssue("TST-123"))?.state.name, "Done")
+      assert.deepStrictEqual(changes, [{resource: "issues", key: "TST-123"}])
+    })
+  })
+
+  suite("LinearLoader failures", () => {
+    class MissingIssueClient extends MockLinearClient {
+      lookups = 0
+
+      override async getIssueByIdentifier(identifier: string) {
+        this.lookups++
+        if (identifier === "TST-404") throw new Error("Entity not found: Issue")
+        return super.getIssueByIdentifier(identifier)
+      }
+    }
+
+    test("shares a fetch in flight between callers", async () => {
+      const client = new MissingIssueClient()
+      const loader = new LinearLoader(client, new LinearStore())
+
+      const issues = await Promise.all([loader.getIssue("TST-123"), loader.getIssue("TST-123")])
+
+      assert.deepStrictEqual(
+        issues.map(issue => issue?.identifier),
+        ["TST-123", "TST-123"]
+      )
+      assert.strictEqual(client.lookups, 1)
+    })
+
+    test("doesn't ask again for an issue Linear couldn't find until the retry delay has passed", async () => {
+      let time = 0
+      const client = new MissingIssueClient()
+      const loader = new LinearLoader(client, new LinearStore({now: () => time}))
+
+      await Promise.all([loader.getIssue("TST-404"), loader.getIssue("TST-404")])
+      assert.strictEqual(await loader.getIssue("TST-404"), null)
+      assert.strictEqual(client.lookups, 1)
+
+      time += RETRY_FAILED_AFTER
+      assert.strictEqual(await loader.getIssue("TST-404"), null)
+      assert.strictEqual(client.lookups, 2)
+    })
+  })
 })
@@ -6,7 +6,18 @@
  */
 
 import * as assert from "assert"
-import type {ILinearClient, LinearIssue, LinearComment, LinearViewer, LinearWorkflowState} from "../../linear"
+import type {
+  ILinearClient,
+  LinearIssue,
+  LinearComment,
+  LinearViewer,
+  LinearWorkflowState,
+  LinearTeam,
+  LinearProject,
+  LinearIssueInput,
+  LinearAttachment,
+  LinearAttachmentInput
+} from "../../linear"
 
 /**
  * Mock LinearClient for unit testing that tracks method calls and returns predictable data.
@@ -78,6 +89,38 @@ class TestableLinearClient implements ILinearClient {
     this.calls.push({method: "getWorkflowStates", args: [issueId]})
     return this.mockStates
   }
+
+  async getTeams(): Promise<LinearTeam[]> {
+    this.calls.push({method: "getTeams", args: []})
+    return [{id: "team-1", key: "TST", name: "Testing"}]
+  }
+
+  async getProjects(teamId: string): Promise<LinearProject[]> {
+    this.calls.push({method: "getProjects", args: [teamId]})
+    return [{id: "project-1", name: "Checkout"}]
+  }
+
+  async createIssue(input: LinearIssueInput): Promise<LinearIssue> {
+    this.calls.push({method: "createIssue", args: [input]})
+    return {...this.mockIssue, title: input.title}
+  }
+
+  async getAttachments(issueId: string): Promise<LinearAttachment[]> {
+    this.calls.push({method: "getAttachments", args: [issueId]})
+    return [
+      {id: "attachment-1", title: "Slack thread", url: "https://acme.slack.com/archives/C1/p1", sourceType: "slack"}
+    ]
+  }
+
+  async createAttachment(input: LinearAttachmentInput): Promise<LinearAttachment> {
+    this.calls.push({method: "createAttachment", args: [input]})
+    return {id: "attachment-2", title: input.title, subtitle: input.subtitle, url: input.url}
+  }
+
+  async linkAttachmentUrl(issueId: string, url: string, title?: string): Promise<LinearAttachment> {
+    this.calls.push({method: "linkAttachmentUrl", args: [issueId, url, title]})
+    return {id: "attachment-3", title: title ?? url, url, sourceType: "slack"}
+  }
 }
 
 suite("LinearClient Unit Tests", () => {
@@ -236,6 +279,43 @@ suite("LinearClient Unit Tests", () => {
     })
   })
 
+  suite("createIssue", () => {
+    test("should return the created issue", async () => {
+      const issue = await client.createIssue({teamId: "team-1", title: "Checkout is down"})
+
+      assert.strictEqual(issue.identifier, "TST-123")
+      assert.strictEqual(issue.title, "Checkout is down")
+    })
+
+    test("should pass the input through", async () => {
+      const input = {teamId: "team-1", title: "Checkout is down", description: "From Slack", projectId: "project-1"}
+      await client.createIssue(input)
+
+      assert.strictEqual(client.calls[0].method, "createIssue")
+      assert.deepStrictEqual(client.calls[0].args, [input])
+    })
+  })
+
+  suite("attachments", () => {
+    test("createAttachment should pass the input through", async () => {
+      const input = {
+        issueId: "issue-123",
+        url: "https://github.com/acme/app/blob/4f2a9c1/src/app.ts#L10",
+        title: "src/app.ts:10"
+      }
+      const attachment = await client.createAttachment(input)
+
+      assert.strictEqual(attachment.url, input.url)
+      assert.deepStrictEqual(client.calls[0], {method: "createAttachment", args: [input]})
+    })
+
+    test("linkAttachmentUrl should leave the title to Linear when none is given", async () => {
+      await client.linkAttachmentUrl("issue-123", "https://acme.slack.com/archives/C1/p1")
+
+      assert.deepStrictEqual(client.calls[0].args, ["issue-123", "https://acme.slack.com/archives/C1/p1", undefined])
+    })
+  })
+
   suite("Integration Patterns", () => {
     test("should support assign-to-me workflow", async () => {
       // Get current viewer
@@ -294,5 +374,11 @@ suite("LinearClient Interface Compliance", () => {
     assert.ok(typeof client.assignIssue === "function")
     assert.ok(typeof client.updateIssueState === "function")
     assert.ok(typeof client.getWorkflowStates === "function")
+    assert.ok(typeof client.getTeams === "function")
+    assert.ok(typeof client.getProjects === "function")
+    assert.ok(typeof client.createIssue === "function")
+    assert.ok(typeof client.getAttachments === "function")
+    assert.ok(typeof client.createAttachment === "function")
+    assert.ok(typeof client.linkAttachmentUrl === "function")
   })
 })
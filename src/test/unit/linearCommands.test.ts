@@ -7,10 +7,20 @@
  */
 
 import * as assert from "assert"
-import {readFileSync} from "fs"
+import {execFileSync} from "child_process"
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from "fs"
+import {tmpdir} from "os"
 import {join} from "path"
 import * as vscode from "vscode"
-import {answerQuickPick, createExtensionContext, quickPicks, reset, shownMessages} from "../stubs/vscode"
+import {
+  answerInputBox,
+  answerQuickPick,
+  createExtensionContext,
+  inputBoxes,
+  quickPicks,
+  reset,
+  shownMessages
+} from "../stubs/vscode"
 import {registerTestMocks, clearTestMocks} from "../testRegistry"
 import {MockSlackClient, MockLinearClient} from "../mocks"
 import {TEST_SLACK_URLS, TEST_WORKFLOW_STATES} from "../fixtures"
@@ -41,6 +51,20 @@ const codeActionsFor = async (url: string): Promise<vscode.CodeAction[]> => {
 
 const titlesOf = (actions: vscode.CodeAction[]) => actions.map(action => action.title)
 
+/** The rendered markdown of the hover at the first URL in a fresh document. */
+const hoverMarkdownFor = async (url: string): Promise<string> => {
+  const document = await vscode.workspace.openTextDocument({content: `${url}\n`, language: "javascript"})
+  const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+    "vscode.executeHoverProvider",
+    document.uri,
+    new vscode.Position(0, 10)
+  )
+  return (hovers ?? [])
+    .flatMap(hover => hover.contents)
+    .map(content => (typeof content === "string" ? content : (content as vscode.MarkdownString).value))
+    .join("\n")
+}
+
 /** What every Linear command says when there is no token, from `linearPostingHelpers`. */
 const NO_LINEAR_TOKEN =
   "Slackoscope: Linear integration not configured. Set slackoscope.linearToken in VS Code Settings."
@@ -52,11 +76,14 @@ const contributedCommands = (): string[] => {
 }
 
 suite("Linear commands", () => {
+  /** The Linear client of the latest activation */
+  let linearClient: MockLinearClient
+
   suiteSetup(() => {
     process.env.NODE_ENV = "test"
     registerTestMocks({
       createSlackClient: () => new MockSlackClient(),
-      createLinearClient: () => new MockLinearClient()
+      createLinearClient: () => (linearClient = new MockLinearClient())
     })
   })
 
@@ -166,6 +193,21 @@ suite("Linear commands", () => {
       ])
     })
 
+    test("offers the Linear actions on an issue referenced directly, over the line's Slack link", async () => {
+      await activateWith()
+      const actions = await codeActionsFor(`// ENG-1234 ${TEST_SLACK_URLS.simple}`)
+
+      assert.deepStrictEqual(titlesOf(actions), [
+        "Post as comment on ENG-1234 (Linear)",
+        "Assign ENG-1234 to me (Linear)",
+        "Set ENG-1234 status (Linear)",
+        "Post snippet, assign & close ENG-1234 (Linear)"
+      ])
+      assert.deepStrictEqual(actions[0].command?.arguments, [
+        {issueId: "issue-id-1", identifier: "ENG-1234", fromLine: 0}
+      ])
+    })
+
     test("points the insert action at the line the URL ends on", async () => {
       await activateWith()
       const [insert] = await codeActionsFor(TEST_SLACK_URLS.simple)
@@ -251,21 +293,277 @@ suite("Linear commands", () => {
     })
   })
 
-  suite("hover actions", () => {
-    /** The rendered markdown of the hover at the first URL in a fresh document. */
-    const hoverMarkdownFor = async (url: string): Promise<string> => {
-      const document = await vscode.workspace.openTextDocument({content: `${url}\n`, language: "javascript"})
-      const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
-        "vscode.executeHoverProvider",
-        document.uri,
-        new vscode.Position(0, 10)
-      )
-      return (hovers ?? [])
-        .flatMap(hover => hover.contents)
-        .map(content => (typeof content === "string" ? content : (content as vscode.MarkdownString).value))
-        .join("\n")
+  suite("several issues", () => {
+    const ISSUES = {
+      issues: [
+        {issueId: "issue-id-1", identifier: "ENG-1234", title: "Implement new feature"},
+        {issueId: "issue-id-3", identifier: "PROJ-555", title: "Update documentation"}
+      ]
     }
 
+    test("asks which issue to act on, best match first", async () => {
+      await activateWith()
+      answerQuickPick({label: "PROJ-555", issue: ISSUES.issues[1]})
+
+      await vscode.commands.executeCommand("slackoscope.assignToMe", ISSUES)
+
+      const [{items}] = quickPicks as {items: {label: string; description: string}[]}[]
+      assert.deepStrictEqual(
+        items.map(({label, description}) => [label, description]),
+        [
+          ["ENG-1234", "Implement new feature"],
+          ["PROJ-555", "Update documentation"]
+        ]
+      )
+      assert.deepStrictEqual(shownMessages.information, ["Slackoscope: Assigned MOCK-123 to Test User"])
+    })
+
+    test("goes on to the status pick for the chosen issue", async () => {
+      await activateWith()
+      answerQuickPick({label: "ENG-1234", issue: ISSUES.issues[0]})
+
+      await vscode.commands.executeCommand("slackoscope.setStatus", ISSUES)
+
+      assert.strictEqual(quickPicks.length, 2, "should pick the issue, then the state")
+    })
+
+    test("does nothing when the issue pick is cancelled", async () => {
+      await activateWith()
+
+      await vscode.commands.executeCommand("slackoscope.assignToMe", ISSUES)
+
+      assert.strictEqual(quickPicks.length, 1)
+      assert.deepStrictEqual(shownMessages.information, [])
+      assert.deepStrictEqual(shownMessages.error, [])
+    })
+  })
+
+  suite("createLinearIssue", () => {
+    test("the hover offers it for a thread without an issue", async () => {
+      await activateWith()
+      const markdown = await hoverMarkdownFor(TEST_SLACK_URLS.simple)
+
+      const [, encoded] = markdown.match(/\(command:slackoscope\.createLinearIssue\?([^)]+)\)/) ?? []
+      assert.ok(encoded, "createLinearIssue link should carry arguments")
+      assert.deepStrictEqual(JSON.parse(decodeURIComponent(encoded)), {url: TEST_SLACK_URLS.simple})
+      assert.doesNotMatch(await hoverMarkdownFor(TEST_SLACK_URLS.linearBot), /createLinearIssue/)
+    })
+
+    test("the hover leaves it out without a Linear token", async () => {
+      await activateWith({linear: ""})
+
+      assert.doesNotMatch(await hoverMarkdownFor(TEST_SLACK_URLS.simple), /createLinearIssue/)
+    })
+
+    test("files the message in the chosen team and project, titled after its first line", async () => {
+      await activateWith()
+      answerQuickPick(
+        {label: "Engineering", team: {id: "team-eng", key: "ENG"}},
+        {label: "Checkout", id: "project-checkout"}
+      )
+      answerInputBox("Multi-line message")
+
+      await vscode.commands.executeCommand("slackoscope.createLinearIssue", {url: TEST_SLACK_URLS.multiline})
+
+      assert.deepStrictEqual(
+        quickPicks.map(pick => (pick.items as {label: string}[]).map(item => item.label)),
+        [
+          ["Engineering", "Testing", "Projects"],
+          ["No project", "Checkout", "Search"]
+        ]
+      )
+      assert.strictEqual((inputBoxes[0] as {value: string}).value, "This is a multi-line message")
+
+      const [created] = linearClient.createdIssues
+      assert.strictEqual(created.teamId, "team-eng")
+      assert.strictEqual(created.projectId, "project-checkout")
+      assert.strictEqual(created.title, "Multi-line message")
+      assert.match(
+        created.description ?? "",
+        /^\*\*@\w+\*\* in \[Slack\]\(https:\/\/workspace\.slack\.com\/archives\/C1234ABCD\/p1234567890567890\):/
+      )
+      assert.match(created.description ?? "", /^> This is a multi-line message\n> With several lines$/m)
+      assert.deepStrictEqual(shownMessages.information, ["Slackoscope: Created ENG-901"])
+    })
+
+    test("links a client or desktop link's message by its web permalink", async () => {
+      await activateWith()
+      answerQuickPick({label: "Testing", team: {id: "team-tst", key: "TST"}})
+      answerInputBox("Multi-line message")
+
+      await vscode.commands.executeCommand("slackoscope.createLinearIssue", {
+        url: "slack://channel?team=T0123ABCD&id=C1234ABCD&message=1234567890.567890"
+      })
+
+      const [created] = linearClient.createdIssues
+      assert.match(
+        created.description ?? "",
+        /^\*\*@\w+\*\* in \[Slack\]\(https:\/\/workspace\.slack\.com\/archives\/C1234ABCD\/p1234567890567890\):/
+      )
+      assert.doesNotMatch(created.description ?? "", /slack:\/\//)
+    })
+
+    test("links the new issue to the thread right away", async () => {
+      await activateWith()
+      answerQuickPick({label: "Testing", team: {id: "team-tst", key: "TST"}})
+      answerInputBox("Simple")
+
+      await vscode.commands.executeCommand("slackoscope.createLinearIssue", {url: TEST_SLACK_URLS.simple})
+      const markdown = await hoverMarkdownFor(TEST_SLACK_URLS.simple)
+
+      assert.match(markdown, /TST-901/)
+      assert.match(markdown, /\(command:slackoscope\.assignToMe\?/)
+      assert.doesNotMatch(markdown, /createLinearIssue/)
+    })
+
+    test("adds the editor's selection as a code block", async () => {
+      await activateWith()
+      const document = await vscode.workspace.openTextDocument({
+        content: "const total = 1\nreturn total\n",
+        language: "javascript"
+      })
+      const editor = await vscode.window.showTextDocument(document)
+      editor.selection = new vscode.Selection(new vscode.Position(0, 0), new vscode.Position(1, 12))
+      answerQuickPick({label: "Testing", team: {id: "team-tst", key: "TST"}})
+      answerInputBox("Simple")
+
+      await vscode.commands.executeCommand("slackoscope.createLinearIssue", {url: TEST_SLACK_URLS.simple})
+
+      assert.match(
+        linearClient.createdIssues[0].description ?? "",
+        /```javascript\nconst total = 1\nreturn total\n```$/
+      )
+    })
+
+    test("fences a selection that holds a code fence of its own", async () => {
+      await activateWith()
+      const content = "Usage:\n```\nnpm run package\n```"
+      const document = await vscode.workspace.openTextDocument({content, language: "markdown"})
+      const editor = await vscode.window.showTextDocument(document)
+      editor.selection = new vscode.Selection(new vscode.Position(0, 0), new vscode.Position(3, 3))
+      answerQuickPick({label: "Testing", team: {id: "team-tst", key: "TST"}})
+      answerInputBox("Simple")
+
+      await vscode.commands.executeCommand("slackoscope.createLinearIssue", {url: TEST_SLACK_URLS.simple})
+
+      assert.ok(linearClient.createdIssues[0].description?.endsWith(`\`\`\`\`markdown\n${content}\n\`\`\`\``))
+    })
+
+    test("creates nothing when the title is dismissed", async () => {
+      await activateWith()
+      answerQuickPick({label: "Testing", team: {id: "team-tst", key: "TST"}})
+
+      await vscode.commands.executeCommand("slackoscope.createLinearIssue", {url: TEST_SLACK_URLS.simple})
+
+      assert.deepStrictEqual(linearClient.createdIssues, [])
+      assert.deepStrictEqual(shownMessages.information, [])
+    })
+  })
+
+  suite("attachToLinear", () => {
+    const ISSUE = {issueId: "issue-id-1", identifier: "ENG-1234"}
+
+    test("the hover lists the issue's attachments and offers to attach the thread", async () => {
+      await activateWith()
+      const markdown = await hoverMarkdownFor(TEST_SLACK_URLS.linearBot)
+
+      assert.match(markdown, /\[Slack thread in #engineering\]\(https:\/\/workspace\.slack\.com\//)
+      assert.match(markdown, /\[Fix token refresh #42\]\(https:\/\/github\.com\/acme\/app\/pull\/42\)/)
+
+      const [, encoded] = markdown.match(/\(command:slackoscope\.attachToLinear\?([^)]+)\)/) ?? []
+      assert.ok(encoded, "attachToLinear link should carry arguments")
+      assert.deepStrictEqual(JSON.parse(decodeURIComponent(encoded)), {
+        ...ISSUE,
+        url: TEST_SLACK_URLS.linearBot,
+        fromLine: 0
+      })
+    })
+
+    test("attaches just the Slack link outside a git checkout", async () => {
+      await activateWith()
+      await vscode.window.showTextDocument(await vscode.workspace.openTextDocument({content: "x\n"}))
+
+      await vscode.commands.executeCommand("slackoscope.attachToLinear", {...ISSUE, url: TEST_SLACK_URLS.linearBot})
+
+      assert.strictEqual(quickPicks.length, 0, "nothing to choose between")
+      assert.deepStrictEqual(linearClient.attached, [
+        {issueId: "issue-id-1", url: TEST_SLACK_URLS.linearBot, title: TEST_SLACK_URLS.linearBot}
+      ])
+      assert.deepStrictEqual(shownMessages.information, ["Slackoscope: Attached the Slack thread to ENG-1234"])
+    })
+
+    test("attaches a client or desktop link by its web permalink", async () => {
+      await activateWith()
+      await vscode.window.showTextDocument(await vscode.workspace.openTextDocument({content: "x\n"}))
+
+      await vscode.commands.executeCommand("slackoscope.attachToLinear", {
+        ...ISSUE,
+        url: "slack://channel?team=T0123ABCD&id=C1234ABCD&message=1234567890.567890"
+      })
+
+      const permalink = "https://workspace.slack.com/archives/C1234ABCD/p1234567890567890"
+      assert.deepStrictEqual(linearClient.attached, [{issueId: "issue-id-1", url: permalink, title: permalink}])
+    })
+
+    test("offers the selected lines on the git remote too", async () => {
+      const root = mkdtempSync(join(tmpdir(), "slackoscope-attach-"))
+      const git = (...args: string[]) =>
+        execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {cwd: root})
+          .toString()
+          .trim()
+      try {
+        writeFileSync(join(root, "app.ts"), `// ${TEST_SLACK_URLS.linearBot}\nconst a = 1\nconst b = 2\n`)
+        git("init", "-q")
+        git("remote", "add", "origin", "https://github.com/acme/app.git")
+        git("add", ".")
+        git("commit", "-qm", "Initial commit")
+        const commit = git("rev-parse", "HEAD")
+
+        await activateWith()
+        const editor = await vscode.window.showTextDocument(
+          await vscode.workspace.openTextDocument(vscode.Uri.file(join(root, "app.ts")))
+        )
+        editor.selection = new vscode.Selection(new vscode.Position(1, 0), new vscode.Position(3, 0))
+        answerQuickPick([{label: "Code", attach: "code"}])
+
+        await vscode.commands.executeCommand("slackoscope.attachToLinear", {...ISSUE, url: TEST_SLACK_URLS.linearBot})
+
+        const [{items}] = quickPicks as {items: {label: string; description: string}[]}[]
+        assert.deepStrictEqual(
+          items.map(({label, description}) => [label, description]),
+          [
+            ["Slack thread", TEST_SLACK_URLS.linearBot],
+            ["Code", "app.ts:2-3"]
+          ]
+        )
+        assert.deepStrictEqual(linearClient.attached, [
+          {
+            issueId: "issue-id-1",
+            url: `https://github.com/acme/app/blob/${commit}/app.ts#L2-L3`,
+            title: "app.ts:2-3",
+            subtitle: `acme/app @ ${commit.slice(0, 7)}`
+          }
+        ])
+        assert.deepStrictEqual(shownMessages.information, ["Slackoscope: Attached the code to ENG-1234"])
+      } finally {
+        rmSync(root, {recursive: true, force: true})
+      }
+    })
+
+    test("does nothing when the pick is cancelled", async () => {
+      await activateWith()
+
+      await vscode.commands.executeCommand("slackoscope.attachToLinear", {
+        issues: [ISSUE, {issueId: "issue-id-3", identifier: "PROJ-555"}],
+        url: TEST_SLACK_URLS.linearBot
+      })
+
+      assert.deepStrictEqual(linearClient.attached, [])
+      assert.deepStrictEqual(shownMessages.information, [])
+    })
+  })
+
+  suite("hover actions", () => {
     test("offers the Linear actions when an issue is detected", async () => {
       await activateWith()
       const markdown = await hoverMarkdownFor(TEST_SLACK_URLS.linearBot)
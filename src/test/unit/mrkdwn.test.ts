@@ -0,0 +1,242 @@
+import * as assert from "assert"
+import {
+  findMentions,
+  mrkdwnToHtml,
+  mrkdwnToMarkdown,
+  mrkdwnToPlainText,
+  replaceEmoji,
+  resolveMentions,
+  type MentionNames,
+  type MentionResolver
+} from "../../slack"
+import {TEST_USERS, TEST_CHANNELS} from "../fixtures"
+
+const NAMES: MentionNames = {
+  users: {U1234567890: "Alice"},
+  channels: {C1234ABCD: "general"}
+}
+
+suite("mrkdwnToMarkdown", () => {
+  suite("formatting", () => {
+    test("turns *bold* into Markdown bold and ~strike~ into strikethrough", () => {
+      assert.strictEqual(mrkdwnToMarkdown("this is *very* ~not~ fine"), "this is **very** ~~not~~ fine")
+    })
+
+    test("leaves _italic_ alone, since Markdown reads it the same way", () => {
+      assert.strictEqual(mrkdwnToMarkdown("_maybe_ later"), "_maybe_ later")
+    })
+
+    test("ignores markers inside words and with padding spaces", () => {
+      assert.strictEqual(mrkdwnToMarkdown("2*3*4 and snake_case_name"), "2*3*4 and snake_case_name")
+      assert.strictEqual(mrkdwnToMarkdown("* not bold *"), "* not bold *")
+    })
+
+    test("does not format inside code", () => {
+      assert.strictEqual(mrkdwnToMarkdown("run `rm *.log*` now"), "run `rm *.log*` now")
+    })
+
+    test("puts the fences of a one-line code block on their own lines", () => {
+      assert.strictEqual(mrkdwnToMarkdown("try ```npm ci``` first"), "try ```\nnpm ci\n``` first")
+    })
+
+    test("keeps multi-line code blocks intact", () => {
+      assert.strictEqual(mrkdwnToMarkdown("```\nconst a = 1\nconst b = 2\n```"), "```\nconst a = 1\nconst b = 2\n```")
+    })
+  })
+
+  suite("entities", () => {
+    test("leaves entities escaped in prose so they render as text, not HTML", () => {
+      assert.strictEqual(mrkdwnToMarkdown("&lt;img src=x&gt; &amp; co"), "&lt;img src=x&gt; &amp; co")
+    })
+
+    test("decodes entities inside code, where Markdown shows them literally", () => {
+      assert.strictEqual(mrkdwnToMarkdown("`a &lt; b &amp;&amp; c`"), "`a < b && c`")
+    })
+  })
+
+  suite("mentions", () => {
+    test("uses resolved names for users and channels", () => {
+      assert.strictEqual(mrkdwnToMarkdown("<@U1234567890> see <#C1234ABCD>", NAMES), "@Alice see #general")
+    })
+
+    test("falls back to the label, then the ID", () => {
+      assert.strictEqual(mrkdwnToMarkdown("<#C9999|random> <@U9999|bob> <@U8888>"), "#random @bob @U8888")
+    })
+
+    test("prefers the resolved name over a stale label", () => {
+      assert.strictEqual(mrkdwnToMarkdown("<#C1234ABCD|old-name>", NAMES), "#general")
+    })
+
+    test("renders special mentions", () => {
+      assert.strictEqual(
+        mrkdwnToMarkdown("<!here> <!channel> <!subteam^S123|@oncall> <!date^1392734382^{date}|Feb 18, 2014>"),
+        "@here @channel @oncall Feb 18, 2014"
+      )
+    })
+  })
+
+  suite("links", () => {
+    test("turns labelled links into Markdown links", () => {
+      assert.strictEqual(
+        mrkdwnToMarkdown("see <https://example.com/a_b_c|the *docs*>"),
+        "see [the *docs*](https://example.com/a_b_c)"
+      )
+    })
+
+    test("shows bare links as their URL", () => {
+      assert.strictEqual(mrkdwnToMarkdown("<https://example.com>"), "[https://example.com](https://example.com)")
+    })
+
+    test("decodes entities in the URL and escapes parentheses", () => {
+      assert.strictEqual(
+        mrkdwnToMarkdown("<https://example.com/?a=1&amp;b=(2)|q>"),
+        "[q](https://example.com/?a=1&b=%282%29)"
+      )
+    })
+
+    test("shows mailto links as the address", () => {
+      assert.strictEqual(mrkdwnToMarkdown("<mailto:ops@example.com>"), "[ops@example.com](mailto:ops@example.com)")
+    })
+
+    test("does not link other schemes", () => {
+      assert.strictEqual(mrkdwnToMarkdown("<command:slackoscope.clearCache|click>"), "click")
+    })
+
+    test("escapes Markdown link syntax typed into a message", () => {
+      assert.strictEqual(mrkdwnToMarkdown("[x](command:evil)"), "\\[x\\](command:evil)")
+    })
+  })
+
+  suite("emoji", () => {
+    test("replaces known shortcodes and keeps unknown ones", () => {
+      assert.strictEqual(mrkdwnToMarkdown(":tada: shipped :partyparrot:"), "🎉 shipped :partyparrot:")
+    })
+
+    test("applies skin tone modifiers", () => {
+      assert.strictEqual(mrkdwnToMarkdown(":+1::skin-tone-3:"), "👍🏼")
+    })
+
+    test("leaves clock times alone", () => {
+      assert.strictEqual(mrkdwnToMarkdown("at 10:30:00"), "at 10:30:00")
+    })
+
+    test("does not touch shortcodes inside code or URLs", () => {
+      assert.strictEqual(mrkdwnToMarkdown("`:tada:`"), "`:tada:`")
+      assert.strictEqual(
+        mrkdwnToMarkdown("<https://example.com/:tada:/>"),
+        "[https://example.com/:tada:/](https://example.com/:tada:/)"
+      )
+    })
+  })
+})
+
+suite("mrkdwnToPlainText", () => {
+  test("drops formatting markers and decodes entities", () => {
+    assert.strictEqual(mrkdwnToPlainText("*bold* _it_ ~gone~ &lt;tag&gt; &amp;"), "bold it gone <tag> &")
+  })
+
+  test("shows links by label", () => {
+    assert.strictEqual(
+      mrkdwnToPlainText("see <https://example.com|the docs> or <https://example.org>"),
+      "see the docs or https://example.org"
+    )
+  })
+
+  test("keeps link targets when asked", () => {
+    assert.strictEqual(
+      mrkdwnToPlainText("see <https://example.com|the docs> or <https://example.org>", undefined, {keepUrls: true}),
+      "see the docs (https://example.com) or https://example.org"
+    )
+  })
+
+  test("resolves mentions and emoji", () => {
+    assert.strictEqual(mrkdwnToPlainText("<@U1234567890> :eyes: <#C1234ABCD>", NAMES), "@Alice 👀 #general")
+  })
+
+  test("keeps code as written, with entities decoded", () => {
+    assert.strictEqual(mrkdwnToPlainText("`*a* &amp;&amp; b`"), "`*a* && b`")
+  })
+})
+
+suite("mrkdwnToHtml", () => {
+  test("turns formatting into tags", () => {
+    assert.strictEqual(
+      mrkdwnToHtml("*bold* _it_ ~gone~ `code`"),
+      "<strong>bold</strong> <em>it</em> <del>gone</del> <code>code</code>"
+    )
+  })
+
+  test("keeps Slack's escaped markup escaped, quotes included", () => {
+    assert.strictEqual(
+      mrkdwnToHtml('&lt;img src=x onerror=alert(1)&gt; "q"'),
+      "&lt;img src=x onerror=alert(1)&gt; &quot;q&quot;"
+    )
+  })
+
+  test("links only http(s) and mailto targets", () => {
+    assert.strictEqual(
+      mrkdwnToHtml("<https://example.com?a=1&amp;b=2|the docs> <javascript:alert(1)|click>"),
+      '<a href="https://example.com?a=1&amp;b=2">the docs</a> click'
+    )
+  })
+
+  test("marks resolved mentions", () => {
+    assert.strictEqual(
+      mrkdwnToHtml("<@U1234567890> in <#C1234ABCD>", NAMES),
+      '<span class="mention">@Alice</span> in <span class="mention">#general</span>'
+    )
+  })
+
+  test("renders code blocks as pre, unformatted", () => {
+    assert.strictEqual(mrkdwnToHtml("```\n*a* &lt; b\n```"), "<pre><code>*a* &lt; b</code></pre>")
+  })
+})
+
+suite("replaceEmoji", () => {
+  test("replaces shortcodes anywhere in the text", () => {
+    assert.strictEqual(replaceEmoji("a:fire:b"), "a🔥b")
+  })
+
+  test("keeps shortcodes named after Object's own properties", () => {
+    assert.strictEqual(replaceEmoji(":constructor:"), ":constructor:")
+    assert.strictEqual(replaceEmoji("a:__proto__:b"), "a:__proto__:b")
+  })
+})
+
+suite("findMentions", () => {
+  test("collects each user and channel once, skipping code", () => {
+    assert.deepStrictEqual(findMentions("<@U1> <@U2|bob> <@U1> <#C1|general> `<@U3>`"), {
+      userIds: ["U1", "U2"],
+      channelIds: ["C1"]
+    })
+  })
+})
+
+suite("resolveMentions", () => {
+  const resolver: MentionResolver = {
+    async getUser(userId) {
+      const user = TEST_USERS[userId]
+      if (!user) throw new Error("user_not_found")
+      return user
+    },
+    async getChannel(channelId) {
+      const channel = TEST_CHANNELS[channelId]
+      if (!channel) throw new Error("channel_not_found")
+      return channel
+    }
+  }
+
+  test("looks up display names and channel names", async () => {
+    assert.deepStrictEqual(await resolveMentions("<@U1234567890> in <#C1234ABCD>", resolver), {
+      users: {U1234567890: "Alice"},
+      channels: {C1234ABCD: "general"}
+    })
+  })
+
+  test("leaves out mentions that fail to resolve instead of throwing", async () => {
+    const names = await resolveMentions("<@UNOPE|ghost> <#CNOPE>", resolver)
+
+    assert.deepStrictEqual(names, {users: {}, channels: {}})
+    assert.strictEqual(mrkdwnToPlainText("<@UNOPE|ghost> <#CNOPE>", names), "@ghost #CNOPE")
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * The on-disk cache: what survives a restart, what doesn't, and how it's bounded.
+ */
+
+import * as assert from "assert"
+import {existsSync, mkdtempSync, readFileSync, writeFileSync} from "fs"
+import {tmpdir} from "os"
+import {join} from "path"
+import * as vscode from "vscode"
+import {MessageDeletedError, SlackStore} from "../../slack"
+import {LinearStore} from "../../linear"
+import {PersistentCache, Settings, cacheAccount} from "../../vscode"
+import {CACHE_SCHEMA_VERSION} from "../../vscode/storage"
+import {createExtensionContext, reset} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_MESSAGES, TEST_SLACK_URLS, getTestLinearIssue} from "../fixtures"
+import {activate, deactivate} from "../../extension"
+
+const configure = (key: string, value: unknown) =>
+  vscode.workspace.getConfiguration("slackoscope").update(key, value, vscode.ConfigurationTarget.Global)
+
+suite("PersistentCache", () => {
+  let storage: vscode.Uri
+  const cacheFile = () => join(storage.fsPath, "cache.json")
+
+  /** A PersistentCache over fresh stores, as a new session would have */
+  const session = (account = cacheAccount("xoxp-test")) => {
+    const slackStore = new SlackStore()
+    const linearStore = new LinearStore()
+    const settings = new Settings()
+    const cache = new PersistentCache(storage, slackStore, linearStore, settings, () => account)
+    return {slackStore, linearStore, cache}
+  }
+
+  setup(() => {
+    storage = vscode.Uri.file(mkdtempSync(join(tmpdir(), "slackoscope-cache-test-")))
+  })
+
+  teardown(() => reset())
+
+  test("brings values and tombstones back in the next session", async () => {
+    const first = session()
+    first.slackStore.messages.set("C1:1.1", TEST_MESSAGES.simple)
+    first.slackStore.messages.setError("C1:2.2", new MessageDeletedError("C1", "2.2"))
+    first.slackStore.messages.setError("C1:3.3", new Error("channel_not_found"))
+    first.linearStore.setIssue("ENG-1234", getTestLinearIssue("ENG-1234")!)
+    await first.cache.save()
+    first.cache.dispose()
+
+    const second = session()
+    await second.cache.load()
+    second.cache.dispose()
+
+    const fail = async () => assert.fail("should have come from the saved cache")
+    assert.deepStrictEqual(await second.slackStore.messages.fetch("C1:1.1", fail), TEST_MESSAGES.simple)
+    await assert.rejects(second.slackStore.messages.fetch("C1:2.2", fail), MessageDeletedError)
+    assert.strictEqual(second.slackStore.messages.get("C1:3.3"), undefined, "plain errors stay in the session")
+    assert.strictEqual(second.linearStore.getIssue("ENG-1234")?.identifier, "ENG-1234")
+  })
+
+  test("ignores a file written with another schema version", async () => {
+    const first = session()
+    first.slackStore.users.set("U1", {id: "U1", name: "alice", realName: "Alice", displayName: "Alice"})
+    await first.cache.save()
+    first.cache.dispose()
+
+    const file = JSON.parse(readFileSync(cacheFile(), "utf8"))
+    writeFileSync(cacheFile(), JSON.stringify({...file, version: CACHE_SCHEMA_VERSION + 1}))
+
+    const second = session()
+    await second.cache.load()
+    second.cache.dispose()
+
+    assert.strictEqual(second.slackStore.users.size, 0)
+  })
+
+  test("ignores a file saved with other tokens", async () => {
+    const first = session(cacheAccount("xoxp-one"))
+    first.slackStore.users.set("U1", {id: "U1", name: "alice", realName: "Alice", displayName: "Alice"})
+    await first.cache.save()
+    first.cache.dispose()
+
+    const second = session(cacheAccount("xoxp-two"))
+    await second.cache.load()
+    second.cache.dispose()
+
+    assert.strictEqual(second.slackStore.users.size, 0)
+  })
+
+  test("has read the stores by the time dispose returns, so they can be cleared while it writes", async () => {
+    const {slackStore, cache} = session()
+    slackStore.users.set("U1", {id: "U1", name: "alice", realName: "Alice", displayName: "Alice"})
+
+    const saved = cache.dispose()
+    slackStore.clear()
+    await saved
+
+    const users: {key: string}[] = JSON.parse(readFileSync(cacheFile(), "utf8")).slack.users
+    assert.deepStrictEqual(
+      users.map(entry => entry.key),
+      ["U1"]
+    )
+  })
+
+  test("keeps only the most recently used entries on disk", async () => {
+    await configure("cache.maxEntries", 100)
+    let time = 1_000
+    const slackStore = new SlackStore({now: () => time})
+    const cache = new PersistentCache(storage, slackStore, new LinearStore(), new Settings(), () => "")
+
+    for (let i = 0; i < 105; i++) {
+      time++
+      slackStore.users.set(`U${i}`, {id: `U${i}`, name: `user${i}`, realName: "", displayName: `user${i}`})
+    }
+    // Reading the oldest entry makes it the most recently used
+    time++
+    await slackStore.users.fetch("U0", async () => assert.fail("cached"))
+
+    await cache.save()
+    cache.dispose()
+
+    const saved: {key: string}[] = JSON.parse(readFileSync(cacheFile(), "utf8")).slack.users
+    const keys = saved.map(entry => entry.key)
+    assert.strictEqual(keys.length, 100)
+    assert.ok(keys.includes("U0"))
+    assert.deepStrictEqual(
+      ["U1", "U2", "U3", "U4", "U5"].filter(key => keys.includes(key)),
+      []
+    )
+  })
+
+  test("writes nothing, and removes what was there, when persistence is off", async () => {
+    const first = session()
+    first.slackStore.users.set("U1", {id: "U1", name: "alice", realName: "Alice", displayName: "Alice"})
+    await first.cache.save()
+    first.cache.dispose()
+    assert.ok(existsSync(cacheFile()))
+
+    await configure("cache.persist", false)
+    const second = session()
+    second.slackStore.users.set("U2", {id: "U2", name: "bob", realName: "Bob", displayName: "Bob"})
+    await second.cache.save()
+    second.cache.dispose()
+
+    assert.ok(!existsSync(cacheFile()))
+  })
+})
+
+suite("clearCache command", () => {
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => new MockSlackClient(),
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  teardown(() => reset())
+
+  test("wipes the saved cache along with the in-memory one", async () => {
+    const context = createExtensionContext()
+    const storage = context.globalStorageUri as vscode.Uri
+    const cacheFile = join(storage.fsPath, "cache.json")
+    writeFileSync(
+      cacheFile,
+      JSON.stringify({version: CACHE_SCHEMA_VERSION, savedAt: 0, slack: {}, linear: {issues: []}})
+    )
+
+    await configure("token", "test-slack-token")
+    await activate(context as never)
+    await vscode.commands.executeCommand("slackoscope.clearCache")
+
+    assert.ok(!existsSync(cacheFile))
+  })
+})
+
+suite("Cache across token changes", () => {
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => new MockSlackClient(),
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  teardown(() => reset())
+
+  /** Hover a Slack link so the stores have something in them */
+  const hoverSlackLink = async () => {
+    const document = await vscode.workspace.openTextDocument({content: `${TEST_SLACK_URLS.simple}\n`})
+    await vscode.commands.executeCommand("vscode.executeHoverProvider", document.uri, new vscode.Position(0, 10))
+  }
+
+  const savedCache = (storage: vscode.Uri) => JSON.parse(readFileSync(join(storage.fsPath, "cache.json"), "utf8"))
+
+  test("saves the cache under the current tokens on deactivate", async () => {
+    const context = createExtensionContext()
+    await configure("token", "test-slack-token")
+    await activate(context as never)
+    await hoverSlackLink()
+    await deactivate()
+
+    const saved = savedCache(context.globalStorageUri as vscode.Uri)
+    assert.strictEqual(saved.account, cacheAccount("test-slack-token", undefined))
+    assert.ok(saved.slack.messages.length > 0)
+  })
+
+  test("forgets what the old token fetched", async () => {
+    const context = createExtensionContext()
+    await configure("token", "test-slack-token")
+    await activate(context as never)
+    await hoverSlackLink()
+
+    await configure("token", "other-slack-token")
+    // Settings report the change on the next tick; reconfigure as the listener would
+    await new Promise(resolve => setTimeout(resolve, 0))
+    await vscode.commands.executeCommand("slackoscope._forceReconfigure")
+    await deactivate()
+
+    const saved = savedCache(context.globalStorageUri as vscode.Uri)
+    assert.strictEqual(saved.account, cacheAccount("other-slack-token", undefined))
+    assert.deepStrictEqual(saved.slack.messages, [])
+  })
+})
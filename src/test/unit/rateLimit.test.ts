@@ -0,0 +1,164 @@
+/**
+ * Rate limits: SlackClient's request scheduler against a local fake Slack Web API.
+ */
+
+import * as assert from "assert"
+import {createServer, type IncomingMessage, type Server} from "http"
+import type {AddressInfo} from "net"
+import {
+  RateLimitedError,
+  RequestScheduler,
+  SlackClient,
+  SlackLoader,
+  SlackStore,
+  type SchedulerOptions
+} from "../../slack"
+
+interface FakeResponse {
+  status?: number
+  headers?: Record<string, string>
+  body?: unknown
+  /** Hold the response back this long, in ms */
+  delay?: number
+}
+
+type FakeHandler = (method: string, request: IncomingMessage) => FakeResponse
+
+const USER = {id: "U1", name: "alice", real_name: "Alice", profile: {display_name: "Alice"}}
+
+/** A local stand-in for slack.com/api that records which methods were called. */
+class FakeSlackApi {
+  readonly calls: string[] = []
+  inFlight = 0
+  peakInFlight = 0
+
+  private server: Server | null = null
+  private handler: FakeHandler = () => ({body: {ok: true}})
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      const method = new URL(request.url ?? "/", "http://localhost").pathname.replace(/^\/api\//, "")
+      this.calls.push(method)
+      this.inFlight++
+      this.peakInFlight = Math.max(this.peakInFlight, this.inFlight)
+
+      const {
+        status = 200,
+        headers = {},
+        body = {ok: false, error: "ratelimited"},
+        delay = 0
+      } = this.handler(method, request)
+      setTimeout(() => {
+        this.inFlight--
+        response.writeHead(status, {"Content-Type": "application/json", ...headers})
+        response.end(JSON.stringify(body))
+      }, delay)
+    })
+    await new Promise<void>(resolve => this.server?.listen(0, "127.0.0.1", resolve))
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api`
+  }
+
+  respond(handler: FakeHandler): void {
+    this.handler = handler
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server?.close(resolve))
+  }
+}
+
+suite("Slack rate limits", () => {
+  const api = new FakeSlackApi()
+  let baseUrl = ""
+  let waits: number[] = []
+
+  /** A client on the fake API whose scheduler records backoff waits instead of sleeping. */
+  const client = (options: SchedulerOptions = {}) =>
+    new SlackClient("xoxb-test", {
+      baseUrl,
+      scheduler: new RequestScheduler({
+        sleep: async ms => {
+          waits.push(ms)
+        },
+        ...options
+      })
+    })
+
+  /** Answer 429 for the first `times` calls, then succeed. */
+  const rateLimitedFor = (times: number, headers: Record<string, string> = {"Retry-After": "1"}) => {
+    let calls = 0
+    return (): FakeResponse => (calls++ < times ? {status: 429, headers} : {body: {ok: true, user: USER}})
+  }
+
+  suiteSetup(async () => {
+    baseUrl = await api.start()
+  })
+
+  suiteTeardown(() => api.stop())
+
+  setup(() => {
+    api.calls.length = 0
+    api.peakInFlight = 0
+    waits = []
+  })
+
+  test("caps concurrent calls per method tier", async () => {
+    api.respond(() => ({body: {ok: true, user: USER}, delay: 20}))
+    const slack = client({concurrency: {4: 2}})
+
+    await Promise.all(["U1", "U2", "U3", "U4", "U5", "U6"].map(id => slack.getUser(id)))
+
+    assert.strictEqual(api.calls.length, 6)
+    assert.strictEqual(api.peakInFlight, 2)
+  })
+
+  test("waits for Retry-After on a 429, then retries", async () => {
+    api.respond(rateLimitedFor(1, {"Retry-After": "3"}))
+
+    const user = await client().getUser("U1")
+
+    assert.strictEqual(user.displayName, "Alice")
+    assert.deepStrictEqual(api.calls, ["users.info", "users.info"])
+    assert.strictEqual(waits.length, 1)
+    assert.ok(waits[0] > 2000 && waits[0] <= 3000, `waited ${waits[0]}ms`)
+  })
+
+  test("backs off exponentially when Slack leaves out Retry-After", async () => {
+    api.respond(rateLimitedFor(2, {}))
+
+    await client().getUser("U1")
+
+    assert.strictEqual(waits.length, 2)
+    assert.ok(waits[0] <= 1000 && waits[1] > 1000 && waits[1] <= 2000, `waited ${waits.join(", ")}ms`)
+  })
+
+  test("gives up with a RateLimitedError after the last retry", async () => {
+    api.respond(rateLimitedFor(Infinity, {"Retry-After": "0"}))
+
+    await assert.rejects(client({maxRetries: 2}).getUser("U1"), (error: unknown) => {
+      assert.ok(error instanceof RateLimitedError)
+      assert.strictEqual(error.method, "users.info")
+      return true
+    })
+    assert.strictEqual(api.calls.length, 3)
+  })
+
+  test("fails right away when Retry-After is longer than worth waiting", async () => {
+    api.respond(rateLimitedFor(1, {"Retry-After": "120"}))
+
+    await assert.rejects(client().getUser("U1"), RateLimitedError)
+    assert.strictEqual(api.calls.length, 1)
+    assert.deepStrictEqual(waits, [])
+  })
+
+  test("doesn't cache a rate limit as a failure", async () => {
+    api.respond(rateLimitedFor(1, {"Retry-After": "120"}))
+    const loader = new SlackLoader(client(), new SlackStore())
+
+    await assert.rejects(loader.getUser("U1"), RateLimitedError)
+    const user = await loader.getUser("U1")
+
+    assert.strictEqual(user.displayName, "Alice")
+    assert.strictEqual(api.calls.length, 2)
+  })
+})
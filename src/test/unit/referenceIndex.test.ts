@@ -0,0 +1,280 @@
+/**
+ * The workspace-wide index of Slack links, and the "Slack References" tree built on it.
+ */
+
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from "fs"
+import {tmpdir} from "os"
+import {join} from "path"
+import {SlackLoader, SlackStore} from "../../slack"
+import {LinearLoader, LinearStore} from "../../linear"
+import {ReferenceIndex, ReferencesTreeProvider} from "../../vscode"
+import type {ReferenceNode} from "../../vscode/providers"
+import {gitignoreGlobs} from "../../lib/gitignore"
+import {globMatcher} from "../../lib/glob"
+import {createExtensionContext, fileSystemWatchers, openWorkspaceFolders, reset} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_SLACK_URLS} from "../fixtures"
+import {activate} from "../../extension"
+
+suite("gitignoreGlobs", () => {
+  test("turns .gitignore lines into findFiles globs", () => {
+    assert.deepStrictEqual(gitignoreGlobs("# deps\nnode_modules/\n\n/dist\n*.log\n!keep.log\nsrc/generated\n"), [
+      "**/node_modules",
+      "**/node_modules/**",
+      "dist",
+      "dist/**",
+      "**/*.log",
+      "**/*.log/**",
+      "src/generated",
+      "src/generated/**"
+    ])
+  })
+})
+
+suite("globMatcher", () => {
+  test("matches a path when it or a folder above it matches", () => {
+    const excluded = globMatcher(["**/node_modules", "dist", "**/*.{log,tmp}", "build[0-9]"])
+
+    assert.ok(excluded("node_modules"))
+    assert.ok(excluded("web/node_modules/lib/index.js"))
+    assert.ok(excluded("dist/app.js"))
+    assert.ok(excluded("logs/today.log"))
+    assert.ok(excluded("build2/app.js"))
+    assert.ok(!excluded("src/dist/app.js"))
+    assert.ok(!excluded("src/app.ts"))
+    assert.ok(!excluded("buildx/app.js"))
+  })
+})
+
+suite("Slack reference index", () => {
+  let root: string
+  let index: ReferenceIndex
+
+  const write = (path: string, content: string | Buffer) => {
+    mkdirSync(join(root, path, ".."), {recursive: true})
+    writeFileSync(join(root, path), content)
+  }
+
+  const indexedFiles = () => [...new Set(index.references.map(({uri}) => vscode.workspace.asRelativePath(uri)))].sort()
+
+  const fire = async (kind: "create" | "change" | "delete", path: string) => {
+    fileSystemWatchers[0].fire(kind, vscode.Uri.file(join(root, path)))
+    await index.flush()
+  }
+
+  setup(async () => {
+    root = mkdtempSync(join(tmpdir(), "slackoscope-workspace-"))
+    write(".gitignore", "node_modules/\n")
+    write("src/app.ts", `// See ${TEST_SLACK_URLS.threadReply}\nconst a = 1\n// and ${TEST_SLACK_URLS.threadParent}\n`)
+    write("docs/notes.md", `Decided in ${TEST_SLACK_URLS.linearBot}\n`)
+    write("src/plain.ts", "export const nothing = 0\n")
+    write("node_modules/lib/index.js", `// ${TEST_SLACK_URLS.simple}\n`)
+    write("out/bundle.js", `// ${TEST_SLACK_URLS.simple}\n`)
+    write("logo.bin", Buffer.concat([Buffer.from([0, 1, 2]), Buffer.from(TEST_SLACK_URLS.simple)]))
+
+    openWorkspaceFolders(root)
+    await vscode.workspace.getConfiguration("files").update("exclude", {"**/out": true, "**/.git": true})
+
+    index = new ReferenceIndex()
+    await index.start()
+  })
+
+  teardown(() => {
+    index.dispose()
+    reset()
+    rmSync(root, {recursive: true, force: true})
+  })
+
+  test("finds every link in the workspace, skipping ignored, excluded and binary files", () => {
+    assert.deepStrictEqual(indexedFiles(), ["docs/notes.md", "src/app.ts"])
+
+    const app = index.references.filter(({uri}) => uri.path.endsWith("app.ts"))
+    assert.deepStrictEqual(
+      app.map(({occurrence, lineText}) => [occurrence.range.start.line, occurrence.range.start.character, lineText]),
+      [
+        [0, 7, `// See ${TEST_SLACK_URLS.threadReply}`],
+        [2, 7, `// and ${TEST_SLACK_URLS.threadParent}`]
+      ]
+    )
+  })
+
+  test("picks up new and edited files from the watcher", async () => {
+    write("src/new.ts", `// ${TEST_SLACK_URLS.simple}\n`)
+    await fire("create", "src/new.ts")
+    assert.deepStrictEqual(indexedFiles(), ["docs/notes.md", "src/app.ts", "src/new.ts"])
+
+    write("src/app.ts", "// links removed\n")
+    await fire("change", "src/app.ts")
+    assert.deepStrictEqual(indexedFiles(), ["docs/notes.md", "src/new.ts"])
+  })
+
+  test("drops deleted files and folders", async () => {
+    rmSync(join(root, "docs"), {recursive: true})
+    await fire("delete", "docs")
+
+    assert.deepStrictEqual(indexedFiles(), ["src/app.ts"])
+  })
+
+  test("ignores watcher events for files the scan would skip", async () => {
+    write("node_modules/lib/other.js", `// ${TEST_SLACK_URLS.simple}\n`)
+    await fire("create", "node_modules/lib/other.js")
+
+    assert.deepStrictEqual(indexedFiles(), ["docs/notes.md", "src/app.ts"])
+  })
+
+  test("drops watcher events for excluded files before they're queued", async () => {
+    let changes = 0
+    index.onDidChange(() => changes++)
+
+    write("out/bundle.js", `// ${TEST_SLACK_URLS.threadParent}\n`)
+    write("node_modules/lib/index.js", `// ${TEST_SLACK_URLS.threadParent}\n`)
+    await fire("change", "out/bundle.js")
+    await fire("change", "node_modules/lib/index.js")
+
+    assert.strictEqual(changes, 0)
+  })
+
+  test("applies each folder's .gitignore to that folder only", async () => {
+    const other = mkdtempSync(join(tmpdir(), "slackoscope-workspace-"))
+    try {
+      write("node_modules/lib/index.js", `// ${TEST_SLACK_URLS.simple}\n`)
+      mkdirSync(join(other, "node_modules"))
+      writeFileSync(join(other, "node_modules", "vendored.js"), `// ${TEST_SLACK_URLS.simple}\n`)
+      writeFileSync(join(other, ".gitignore"), "*.log\n")
+      openWorkspaceFolders(root, other)
+      await index.rebuild()
+
+      const files = index.references.map(({uri}) => uri.fsPath).filter(path => path.includes("node_modules"))
+      assert.deepStrictEqual(files, [join(other, "node_modules", "vendored.js")])
+
+      writeFileSync(join(other, "node_modules", "new.js"), `// ${TEST_SLACK_URLS.simple}\n`)
+      fileSystemWatchers[0].fire("create", vscode.Uri.file(join(other, "node_modules", "new.js")))
+      await index.flush()
+      assert.ok(index.references.some(({uri}) => uri.fsPath === join(other, "node_modules", "new.js")))
+    } finally {
+      rmSync(other, {recursive: true, force: true})
+    }
+  })
+
+  test("forgets everything and stops watching when stopped", async () => {
+    index.stop()
+    assert.deepStrictEqual(index.references, [])
+    assert.ok(!index.isRunning)
+    assert.strictEqual(fileSystemWatchers.length, 0)
+  })
+
+  test("drops a scan that is still running when stopped", async () => {
+    const scanning = index.rebuild()
+    index.stop()
+    let changes = 0
+    index.onDidChange(() => changes++)
+    await scanning
+
+    assert.deepStrictEqual(index.references, [])
+    assert.strictEqual(changes, 0)
+  })
+
+  test("keeps only the newest of overlapping rebuilds", async () => {
+    let changes = 0
+    index.onDidChange(() => changes++)
+    const first = index.rebuild()
+    rmSync(join(root, "docs"), {recursive: true})
+    await Promise.all([first, index.rebuild()])
+
+    assert.deepStrictEqual(indexedFiles(), ["src/app.ts"])
+    assert.strictEqual(changes, 1)
+  })
+
+  test("tells listeners when the index changes", async () => {
+    let changes = 0
+    index.onDidChange(() => changes++)
+
+    write("src/plain.ts", `// ${TEST_SLACK_URLS.simple}\n`)
+    await fire("change", "src/plain.ts")
+
+    assert.strictEqual(changes, 1)
+  })
+
+  suite("Slack References tree", () => {
+    let tree: ReferencesTreeProvider
+
+    setup(() => {
+      tree = new ReferencesTreeProvider(index, {
+        slackLoader: new SlackLoader(new MockSlackClient(), new SlackStore()),
+        linearLoader: new LinearLoader(new MockLinearClient(), new LinearStore())
+      })
+    })
+
+    const labelOf = async (node: ReferenceNode) => {
+      const item = await tree.getTreeItem(node)
+      return [item.label, item.description]
+    }
+
+    test("groups references by channel, then thread, then file", async () => {
+      const channels = tree.getChildren()
+      assert.deepStrictEqual(await Promise.all(channels.map(labelOf)), [
+        ["#general", "2 references"],
+        ["#engineering", "1 reference"]
+      ])
+
+      const [thread] = tree.getChildren(channels[0])
+      assert.strictEqual(tree.getChildren(channels[0]).length, 1)
+      const [file] = tree.getChildren(thread)
+      const item = await tree.getTreeItem(file)
+      assert.strictEqual(item.resourceUri?.path, join(root, "src/app.ts"))
+      assert.strictEqual(item.description, "2 references")
+      assert.strictEqual(tree.getChildren(file).length, 2)
+    })
+
+    test("previews the linked message and its Linear issue's state", async () => {
+      const [, engineering] = tree.getChildren()
+      const [thread] = tree.getChildren(engineering)
+
+      assert.deepStrictEqual(await labelOf(thread), ["Linear issue created", "ENG-1234 · In Progress · 1 reference"])
+    })
+
+    test("a line jumps to the link", async () => {
+      const [, engineering] = tree.getChildren()
+      const [line] = tree.getChildren(tree.getChildren(tree.getChildren(engineering)[0])[0])
+      const item = await tree.getTreeItem(line)
+
+      assert.strictEqual(item.description, "line 1")
+      assert.strictEqual(item.command?.command, "vscode.open")
+      const [uri, {selection}] = item.command?.arguments as [vscode.Uri, {selection: vscode.Range}]
+      assert.strictEqual(uri.path, join(root, "docs/notes.md"))
+      assert.strictEqual(selection.start.character, "Decided in ".length)
+    })
+  })
+})
+
+suite("Reference indexing setting", () => {
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => new MockSlackClient(),
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  teardown(() => reset())
+
+  const configure = (key: string, value: unknown) =>
+    vscode.workspace.getConfiguration("slackoscope").update(key, value, vscode.ConfigurationTarget.Global)
+
+  test("doesn't watch the workspace when turned off, and starts when turned on", async () => {
+    await configure("token", "test-slack-token")
+    await configure("references.index", false)
+    await activate(createExtensionContext() as never)
+    assert.strictEqual(fileSystemWatchers.length, 0)
+
+    await configure("references.index", true)
+    // Settings report the change on the next tick
+    await new Promise(resolve => setTimeout(resolve, 0))
+    assert.strictEqual(fileSystemWatchers.length, 1)
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Slack failures: telling them apart, remembering only the ones worth remembering,
+ * and explaining them in the hover.
+ */
+
+import * as assert from "assert"
+import {
+  RETRY_FAILED_AFTER,
+  SlackAuthError,
+  SlackClient,
+  SlackPermanentError,
+  SlackStore,
+  SlackTransientError,
+  type SlackError
+} from "../../slack"
+import {HoverContentBuilder} from "../../vscode/renderers"
+
+suite("SlackClient errors", () => {
+  const realFetch = globalThis.fetch
+
+  /** Answer every request with `body` (or make it fail outright) */
+  const respondWith = (respond: () => Response) => {
+    globalThis.fetch = (async () => respond()) as typeof fetch
+  }
+  const slackSays = (body: object) => respondWith(() => new Response(JSON.stringify(body)))
+
+  teardown(() => {
+    globalThis.fetch = realFetch
+  })
+
+  /** The error `getChannel` fails with */
+  const failure = async (): Promise<SlackError> => {
+    try {
+      await new SlackClient("xoxb-test").getChannel("C1")
+    } catch (error) {
+      return error as SlackError
+    }
+    return assert.fail("getChannel should have failed")
+  }
+
+  test("treats a channel out of reach as permanent", async () => {
+    slackSays({ok: false, error: "not_in_channel"})
+    const error = await failure()
+
+    assert.ok(error instanceof SlackPermanentError)
+    assert.strictEqual(error.code, "not_in_channel")
+    assert.strictEqual(error.method, "conversations.info")
+  })
+
+  test("blames the token for auth errors, naming the missing scope", async () => {
+    slackSays({ok: false, error: "missing_scope", needed: "channels:read", provided: "channels:history"})
+    const error = await failure()
+
+    assert.ok(error instanceof SlackAuthError)
+    assert.strictEqual(error.neededScope, "channels:read")
+  })
+
+  test("treats Slack's own failures as transient", async () => {
+    slackSays({ok: false, error: "internal_error"})
+    assert.ok((await failure()) instanceof SlackTransientError)
+
+    respondWith(() => new Response("Service Unavailable", {status: 503}))
+    const error = await failure()
+    assert.ok(error instanceof SlackTransientError)
+    assert.strictEqual(error.code, "http_503")
+  })
+
+  test("treats being offline as transient", async () => {
+    globalThis.fetch = (async () => {
+      throw new TypeError("fetch failed")
+    }) as typeof fetch
+    const error = await failure()
+
+    assert.ok(error instanceof SlackTransientError)
+    assert.strictEqual(error.code, "network_error")
+  })
+
+  test("reports a missing token as an auth error without calling Slack", async () => {
+    respondWith(() => assert.fail("should not call Slack"))
+
+    await assert.rejects(new SlackClient("").getChannel("C1"), SlackAuthError)
+  })
+})
+
+suite("SlackStore error caching", () => {
+  /** A store on a hand-wound clock, and a fetcher that counts its calls */
+  const setup = (error: Error) => {
+    let time = 0
+    const store = new SlackStore({now: () => time})
+    const fetcher = {
+      calls: 0,
+      fetch: async () => {
+        fetcher.calls++
+        throw error
+      }
+    }
+    return {store, fetcher, advance: (ms: number) => (time += ms)}
+  }
+
+  test("keeps a permanent error for the resource's whole TTL", async () => {
+    const {store, fetcher, advance} = setup(new SlackPermanentError("channel_not_found", "conversations.info"))
+
+    await assert.rejects(store.channels.fetch("C1", fetcher.fetch))
+    advance(RETRY_FAILED_AFTER * 10)
+    await assert.rejects(store.channels.fetch("C1", fetcher.fetch))
+
+    assert.strictEqual(fetcher.calls, 1)
+  })
+
+  test("tries again once a transient error has had time to clear", async () => {
+    const {store, fetcher, advance} = setup(new SlackTransientError("network_error", "conversations.info"))
+
+    await assert.rejects(store.channels.fetch("C1", fetcher.fetch))
+    await assert.rejects(store.channels.fetch("C1", fetcher.fetch))
+    assert.strictEqual(fetcher.calls, 1, "a burst of lookups shares the failure")
+
+    advance(RETRY_FAILED_AFTER)
+    await assert.rejects(store.channels.fetch("C1", fetcher.fetch))
+    assert.strictEqual(fetcher.calls, 2)
+  })
+
+  test("tries again after an auth error, since the token may have been fixed", async () => {
+    const {store, fetcher, advance} = setup(new SlackAuthError("invalid_auth", "users.info"))
+
+    await assert.rejects(store.users.fetch("U1", fetcher.fetch))
+    advance(RETRY_FAILED_AFTER)
+    await assert.rejects(store.users.fetch("U1", fetcher.fetch))
+
+    assert.strictEqual(fetcher.calls, 2)
+  })
+})
+
+suite("Hover failure explanations", () => {
+  const explain = (error: SlackError, channel?: Parameters<HoverContentBuilder["failure"]>[1]) =>
+    new HoverContentBuilder().failure(error, channel).build().value
+
+  test("tells you to invite the bot into the channel by name", () => {
+    const markdown = explain(new SlackPermanentError("not_in_channel", "conversations.history"), {
+      id: "C1",
+      name: "private-channel",
+      isPrivate: true
+    })
+
+    assert.match(markdown, /bot isn't in #private-channel/)
+    assert.match(markdown, /\/invite @your-app/)
+  })
+
+  test("falls back to the channel ID when the channel can't be looked up", () => {
+    const markdown = explain(new SlackPermanentError("channel_not_found", "conversations.history"), "C0PRIVATE")
+
+    assert.match(markdown, /Can't see `C0PRIVATE`/)
+  })
+
+  test("names the scope the token is missing", () => {
+    const markdown = explain(new SlackAuthError("missing_scope", "files.info", "files:read"))
+
+    assert.match(markdown, /missing the `files:read` scope/)
+  })
+
+  test("promises a retry for network trouble", () => {
+    const markdown = explain(new SlackTransientError("network_error", "conversations.history"))
+
+    assert.match(markdown, /Couldn't reach Slack/)
+    assert.match(markdown, new RegExp(`${RETRY_FAILED_AFTER / 1000}s`))
+  })
+})
@@ -0,0 +1,246 @@
+import * as assert from "assert"
+import {
+  MessageDeletedError,
+  parseSlackUrl,
+  SlackLoader,
+  SlackStore,
+  type SlackMessage,
+  type SlackStoreChange
+} from "../../slack"
+import {MockSlackClient} from "../mocks"
+import {TEST_SLACK_URLS} from "../fixtures"
+
+/** Counts API calls, and can hold them until `release()` so tests can pile callers up. */
+class GatedSlackClient extends MockSlackClient {
+  calls: string[] = []
+  failWith: Error | null = null
+  private gate: Promise<void> = Promise.resolve()
+  private open = () => {}
+
+  hold(): void {
+    this.gate = new Promise(resolve => (this.open = resolve))
+  }
+
+  release(): void {
+    this.open()
+  }
+
+  override async getMessage(channelId: string, ts: string) {
+    this.calls.push(`getMessage ${ts}`)
+    await this.gate
+    if (this.failWith) throw this.failWith
+    return super.getMessage(channelId, ts)
+  }
+
+  override async getThread(channelId: string, threadTs: string) {
+    this.calls.push(`getThread ${threadTs}`)
+    await this.gate
+    return super.getThread(channelId, threadTs)
+  }
+}
+
+suite("SlackStore caching", () => {
+  test("shares one request between concurrent callers", async () => {
+    const client = new GatedSlackClient()
+    const store = new SlackStore()
+    const loader = new SlackLoader(client, store)
+
+    client.hold()
+    const callers = [1, 2, 3].map(() => loader.getMessage("C1", "1234567890.123456"))
+    client.release()
+    const messages = await Promise.all(callers)
+
+    assert.deepStrictEqual(client.calls, ["getMessage 1234567890.123456"])
+    assert.ok(messages.every(message => message === messages[0]))
+    assert.deepStrictEqual(store.stats().messages, {size: 1, hits: 0, stale: 0, misses: 1, coalesced: 2})
+  })
+
+  test("hands a shared request's error to every caller", async () => {
+    const client = new GatedSlackClient()
+    const loader = new SlackLoader(client, new SlackStore())
+    client.failWith = new Error("channel_not_found")
+
+    client.hold()
+    const callers = [1, 2].map(() => loader.getMessage("C1", "1234567890.123456"))
+    client.release()
+
+    for (const caller of callers) await assert.rejects(caller, /channel_not_found/)
+    assert.strictEqual(client.calls.length, 1)
+  })
+
+  test("counts hits once a value is cached, and starts over on clear", async () => {
+    const store = new SlackStore()
+    const loader = new SlackLoader(new GatedSlackClient(), store)
+
+    await loader.getUser("U1234567890")
+    await loader.getUser("U1234567890")
+    assert.deepStrictEqual(store.stats().users, {size: 1, hits: 1, stale: 0, misses: 1, coalesced: 0})
+
+    store.clear()
+    assert.deepStrictEqual(store.stats().users, {size: 0, hits: 0, stale: 0, misses: 0, coalesced: 0})
+  })
+})
+
+suite("SlackStore expiry", () => {
+  const MINUTE = 60_000
+
+  /** A store on a hand-wound clock, recording the changes it announces */
+  const setup = () => {
+    let time = 0
+    const store = new SlackStore({now: () => time})
+    const changes: SlackStoreChange[] = []
+    store.onDidChange(change => changes.push(change))
+    return {store, changes, advance: (ms: number) => (time += ms)}
+  }
+
+  /** Let a background refresh settle */
+  const settle = () => new Promise(resolve => setImmediate(resolve))
+
+  test("serves an expired value right away and refreshes it in the background", async () => {
+    const {store, changes, advance} = setup()
+    let text = "first"
+    const fetcher = async () => ({ts: "1.1", user: "U1", channel: "C1", text})
+
+    await store.messages.fetch("C1:1.1", fetcher)
+    advance(11 * MINUTE)
+    text = "edited"
+
+    assert.strictEqual((await store.messages.fetch("C1:1.1", fetcher)).text, "first")
+    await settle()
+    assert.strictEqual((await store.messages.fetch("C1:1.1", fetcher)).text, "edited")
+    assert.deepStrictEqual(changes, [{resource: "messages", key: "C1:1.1"}])
+    assert.strictEqual(store.stats().messages.stale, 1)
+  })
+
+  test("stays quiet when the refresh brings back the same data", async () => {
+    const {store, changes, advance} = setup()
+    const fetcher = async () => ({id: "U1", name: "alice", realName: "Alice", displayName: "Alice"})
+
+    await store.users.fetch("U1", fetcher)
+    advance(25 * 60 * MINUTE)
+    await store.users.fetch("U1", fetcher)
+    await settle()
+
+    assert.deepStrictEqual(changes, [])
+  })
+
+  test("keeps users and channels far longer than threads", async () => {
+    const {store, advance} = setup()
+    let calls = 0
+    const thread = async () => (calls++, {parent: {ts: "1.1", user: "U1", channel: "C1", text: ""}, replies: []})
+    const user = async () => (calls++, {id: "U1", name: "alice", realName: "Alice", displayName: "Alice"})
+
+    await store.threads.fetch("C1:1.1", thread)
+    await store.users.fetch("U1", user)
+    advance(5 * MINUTE)
+    await store.threads.fetch("C1:1.1", thread)
+    await store.users.fetch("U1", user)
+    await settle()
+
+    assert.strictEqual(calls, 3)
+  })
+
+  test("announces a message deleted since it was cached", async () => {
+    const {store, changes, advance} = setup()
+    let deleted = false
+    const fetcher = async () => {
+      if (deleted) throw new MessageDeletedError("C1", "1.1")
+      return {ts: "1.1", user: "U1", channel: "C1", text: "hi"}
+    }
+
+    await store.messages.fetch("C1:1.1", fetcher)
+    advance(11 * MINUTE)
+    deleted = true
+    await store.messages.fetch("C1:1.1", fetcher)
+    await settle()
+
+    assert.deepStrictEqual(changes, [{resource: "messages", key: "C1:1.1"}])
+    await assert.rejects(store.messages.fetch("C1:1.1", fetcher), MessageDeletedError)
+  })
+
+  test("keeps the stale value when the refresh fails", async () => {
+    const {store, advance} = setup()
+    let failing = false
+    const fetcher = async () => {
+      if (failing) throw new Error("fetch failed")
+      return {ts: "1.1", user: "U1", channel: "C1", text: "hi"}
+    }
+
+    await store.messages.fetch("C1:1.1", fetcher)
+    advance(11 * MINUTE)
+    failing = true
+    await store.messages.fetch("C1:1.1", fetcher)
+    await settle()
+
+    assert.strictEqual((await store.messages.fetch("C1:1.1", fetcher)).text, "hi")
+  })
+
+  test("keeps the stale value expired after a failed refresh, so the next read tries again", async () => {
+    const {store, advance} = setup()
+    let calls = 0
+    const fetcher = async () => {
+      if (calls++) throw new Error("fetch failed")
+      return {ts: "1.1", user: "U1", channel: "C1", text: "hi"}
+    }
+
+    await store.messages.fetch("C1:1.1", fetcher)
+    advance(11 * MINUTE)
+    await store.messages.fetch("C1:1.1", fetcher)
+    await settle()
+
+    assert.strictEqual(store.messages.get("C1:1.1")?.fetchedAt, 0)
+    assert.strictEqual((await store.messages.fetch("C1:1.1", fetcher)).text, "hi")
+    await settle()
+    assert.strictEqual(calls, 3)
+  })
+})
+
+suite("SlackLoader.getMessagesForUrl", () => {
+  test("doesn't look for replies to a message that has none", async () => {
+    const client = new GatedSlackClient()
+    const loader = new SlackLoader(client, new SlackStore())
+
+    const {replyCount} = await loader.getMessagesForUrl(parseSlackUrl(TEST_SLACK_URLS.simple)!)
+
+    assert.strictEqual(replyCount, 0)
+    assert.deepStrictEqual(client.calls, ["getMessage 1234567890.123456"])
+  })
+
+  test("refetches a cached thread for a reply posted since, but not for a deleted one", async () => {
+    /** A thread that gains a reply after the first fetch */
+    class GrowingThreadClient extends GatedSlackClient {
+      posted: SlackMessage[] = []
+
+      override async getThread(channelId: string, threadTs: string) {
+        const thread = await super.getThread(channelId, threadTs)
+        return {...thread, replies: [...thread.replies, ...this.posted]}
+      }
+    }
+    const client = new GrowingThreadClient()
+    const time = 1700000060_000
+    const loader = new SlackLoader(client, new SlackStore({now: () => time}))
+    const reply = (ts: string) =>
+      parseSlackUrl(`https://workspace.slack.com/archives/C1/p${ts.replace(".", "")}?thread_ts=1700000000.000100`)!
+
+    await loader.getMessagesForUrl(reply("1700000000.000101"))
+    await assert.rejects(loader.getMessagesForUrl(reply("1700000030.000100")), MessageDeletedError)
+    assert.strictEqual(client.calls.length, 1, "a reply older than the cache is deleted")
+
+    client.posted.push({ts: "1700000120.000100", user: "U1", text: "Posted later", channel: "C1"})
+    const {target} = await loader.getMessagesForUrl(reply("1700000120.000100"))
+
+    assert.strictEqual(target.text, "Posted later")
+    assert.strictEqual(client.calls.length, 2)
+  })
+
+  test("fetches the replies of a thread parent", async () => {
+    const client = new GatedSlackClient()
+    const loader = new SlackLoader(client, new SlackStore())
+
+    const {all, replyCount} = await loader.getMessagesForUrl(parseSlackUrl(TEST_SLACK_URLS.threadParent)!)
+
+    assert.strictEqual(replyCount, 3)
+    assert.strictEqual(all.length, 4)
+    assert.deepStrictEqual(client.calls, ["getMessage 1234567890.345678", "getThread 1234567890.345678"])
+  })
+})
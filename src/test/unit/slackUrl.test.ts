@@ -0,0 +1,246 @@
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {
+  findAllSlackEntityUrls,
+  findAllSlackFileUrls,
+  findAllSlackUrls,
+  parseSlackEntityUrl,
+  parseSlackFileUrl,
+  parseSlackUrl
+} from "../../slack"
+import {SlackUrlOccurrence} from "../../vscode"
+import {reset} from "../stubs/vscode"
+
+suite("parseSlackUrl", () => {
+  suite("archive links", () => {
+    test("parses a workspace permalink", () => {
+      assert.deepStrictEqual(parseSlackUrl("https://acme.slack.com/archives/C1234ABCD/p1234567890123456"), {
+        raw: "https://acme.slack.com/archives/C1234ABCD/p1234567890123456",
+        kind: "archive",
+        host: "acme.slack.com",
+        workspace: "acme",
+        channelId: "C1234ABCD",
+        messageTs: "1234567890.123456",
+        threadTs: undefined
+      })
+    })
+
+    test("parses a thread reply permalink", () => {
+      const url = parseSlackUrl(
+        "https://acme.slack.com/archives/C1234ABCD/p1234567890345679?thread_ts=1234567890.345678&cid=C1234ABCD"
+      )
+
+      assert.strictEqual(url?.messageTs, "1234567890.345679")
+      assert.strictEqual(url?.threadTs, "1234567890.345678")
+    })
+
+    test("parses an Enterprise Grid permalink", () => {
+      const url = parseSlackUrl("https://acme.enterprise.slack.com/archives/C1234ABCD/p1234567890123456")
+
+      assert.strictEqual(url?.kind, "archive")
+      assert.strictEqual(url?.host, "acme.enterprise.slack.com")
+      assert.strictEqual(url?.workspace, "acme")
+      assert.strictEqual(url?.channelId, "C1234ABCD")
+    })
+
+    test("parses a GovSlack permalink", () => {
+      const url = parseSlackUrl("https://agency.slack-gov.com/archives/G9012IJKL/p1234567890123456")
+
+      assert.strictEqual(url?.host, "agency.slack-gov.com")
+      assert.strictEqual(url?.workspace, "agency")
+      assert.strictEqual(url?.channelId, "G9012IJKL")
+      assert.strictEqual(url?.messageTs, "1234567890.123456")
+    })
+  })
+
+  suite("web client links", () => {
+    test("parses an app.slack.com thread link as the thread parent", () => {
+      assert.deepStrictEqual(
+        parseSlackUrl("https://app.slack.com/client/T0123ABCD/C1234ABCD/thread/C1234ABCD-1234567890.345678"),
+        {
+          raw: "https://app.slack.com/client/T0123ABCD/C1234ABCD/thread/C1234ABCD-1234567890.345678",
+          kind: "client",
+          host: "app.slack.com",
+          workspace: "T0123ABCD",
+          channelId: "C1234ABCD",
+          messageTs: "1234567890.345678",
+          threadTs: "1234567890.345678"
+        }
+      )
+    })
+
+    test("accepts an Enterprise Grid org ID in place of a team ID", () => {
+      const url = parseSlackUrl("https://app.slack.com/client/E0123ABCD/C1234ABCD/thread/C1234ABCD-1234567890.345678")
+
+      assert.strictEqual(url?.workspace, "E0123ABCD")
+    })
+
+    test("ignores a client link that does not point at a message", () => {
+      assert.strictEqual(parseSlackUrl("https://app.slack.com/client/T0123ABCD/C1234ABCD"), null)
+    })
+  })
+
+  suite("deep links", () => {
+    test("parses a slack:// message deep link", () => {
+      assert.deepStrictEqual(parseSlackUrl("slack://channel?team=T0123ABCD&id=C1234ABCD&message=1234567890.123456"), {
+        raw: "slack://channel?team=T0123ABCD&id=C1234ABCD&message=1234567890.123456",
+        kind: "deepLink",
+        host: "channel",
+        workspace: "T0123ABCD",
+        channelId: "C1234ABCD",
+        messageTs: "1234567890.123456",
+        threadTs: undefined
+      })
+    })
+
+    test("does not depend on parameter order", () => {
+      const url = parseSlackUrl("slack://channel?id=C1234ABCD&message=1234567890.123456&team=T0123ABCD")
+
+      assert.strictEqual(url?.channelId, "C1234ABCD")
+      assert.strictEqual(url?.workspace, "T0123ABCD")
+    })
+
+    test("normalizes a compact p-timestamp and a thread_ts", () => {
+      const url = parseSlackUrl(
+        "slack://channel?team=T0123ABCD&id=C1234ABCD&message=p1234567890345679&thread_ts=1234567890.345678"
+      )
+
+      assert.strictEqual(url?.messageTs, "1234567890.345679")
+      assert.strictEqual(url?.threadTs, "1234567890.345678")
+    })
+
+    test("ignores a deep link to a channel rather than a message", () => {
+      assert.strictEqual(parseSlackUrl("slack://channel?team=T0123ABCD&id=C1234ABCD"), null)
+    })
+  })
+
+  test("returns null for anything else", () => {
+    for (const raw of ["not a slack url", "https://example.com/archives/C1234/p1234567890", "slack://open"]) {
+      assert.strictEqual(parseSlackUrl(raw), null, raw)
+    }
+  })
+})
+
+suite("findAllSlackUrls", () => {
+  test("finds every shape in the order it appears", () => {
+    const text = [
+      "// see https://acme.slack.com/archives/C1111/p1111111111111111",
+      "// and 'slack://channel?team=T1&id=C2222&message=2222222222.222222'",
+      "// also https://app.slack.com/client/T1/C3333/thread/C3333-3333333333.333333)",
+      "// and https://acme.enterprise.slack.com/archives/C4444/p4444444444444444"
+    ].join("\n")
+
+    assert.deepStrictEqual(
+      findAllSlackUrls(text).map(url => [url.kind, url.channelId]),
+      [
+        ["archive", "C1111"],
+        ["deepLink", "C2222"],
+        ["client", "C3333"],
+        ["archive", "C4444"]
+      ]
+    )
+  })
+})
+
+suite("parseSlackFileUrl", () => {
+  test("parses an upload permalink", () => {
+    assert.deepStrictEqual(parseSlackFileUrl("https://acme.slack.com/files/U1234ABCD/F5678EFGH/build.log"), {
+      raw: "https://acme.slack.com/files/U1234ABCD/F5678EFGH/build.log",
+      host: "acme.slack.com",
+      workspace: "acme",
+      userId: "U1234ABCD",
+      fileId: "F5678EFGH",
+      name: "build.log"
+    })
+  })
+
+  test("parses a permalink without a name slug", () => {
+    const url = parseSlackFileUrl("https://acme.enterprise.slack.com/files/U1234ABCD/F5678EFGH")
+
+    assert.strictEqual(url?.fileId, "F5678EFGH")
+    assert.strictEqual(url?.name, undefined)
+  })
+
+  test("is not confused with message permalinks", () => {
+    const text = "https://acme.slack.com/archives/C1/p1234567890123456 https://acme.slack.com/files/U1/F2/a.txt"
+
+    assert.deepStrictEqual(
+      findAllSlackFileUrls(text).map(url => url.fileId),
+      ["F2"]
+    )
+    assert.deepStrictEqual(
+      findAllSlackUrls(text).map(url => url.channelId),
+      ["C1"]
+    )
+  })
+})
+
+suite("parseSlackEntityUrl", () => {
+  test("parses a channel link", () => {
+    assert.deepStrictEqual(parseSlackEntityUrl("https://acme.slack.com/archives/C1234ABCD"), {
+      kind: "channel",
+      raw: "https://acme.slack.com/archives/C1234ABCD",
+      host: "acme.slack.com",
+      workspace: "acme",
+      channelId: "C1234ABCD"
+    })
+  })
+
+  test("parses a user profile link", () => {
+    assert.deepStrictEqual(parseSlackEntityUrl("https://acme.slack.com/team/U1234ABCD"), {
+      kind: "user",
+      raw: "https://acme.slack.com/team/U1234ABCD",
+      host: "acme.slack.com",
+      workspace: "acme",
+      userId: "U1234ABCD"
+    })
+  })
+
+  test("never matches a message permalink", () => {
+    assert.strictEqual(parseSlackEntityUrl("https://acme.slack.com/archives/C1234ABCD/p1234567890123456"), null)
+  })
+
+  test("finds channel and user links among message links", () => {
+    const text = [
+      "owners: https://acme.slack.com/team/U1111 in https://acme.slack.com/archives/C2222/",
+      "context: https://acme.slack.com/archives/C3333/p1234567890123456"
+    ].join("\n")
+
+    assert.deepStrictEqual(
+      findAllSlackEntityUrls(text).map(url => url.kind),
+      ["user", "channel"]
+    )
+  })
+})
+
+suite("SlackUrlOccurrence timestamp ranges", () => {
+  teardown(() => reset())
+
+  const timestampTextOf = async (url: string): Promise<string | undefined> => {
+    const document = await vscode.workspace.openTextDocument({content: `// ${url}\n`, language: "javascript"})
+    const [occurrence] = SlackUrlOccurrence.scanDocument(document)
+    const range = occurrence?.timestampRange()
+    return range ? document.getText(range) : undefined
+  }
+
+  test("covers the p-segment of an archive link", async () => {
+    assert.strictEqual(
+      await timestampTextOf("https://acme.slack.com/archives/C1/p1234567890123456"),
+      "p1234567890123456"
+    )
+  })
+
+  test("covers the trailing ts of a client link", async () => {
+    assert.strictEqual(
+      await timestampTextOf("https://app.slack.com/client/T1/C1/thread/C1-1234567890.345678"),
+      "1234567890.345678"
+    )
+  })
+
+  test("covers the message value of a deep link", async () => {
+    assert.strictEqual(
+      await timestampTextOf("slack://channel?team=T1&id=C1&message=1234567890.123456"),
+      "1234567890.123456"
+    )
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Threads as read-only Markdown documents under `slackoscope:`, and the Ctrl+click
+ * links that open them from code.
+ */
+
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {MessageDeletedError, parseSlackUrl, SlackLoader, SlackStore, type SlackThread} from "../../slack"
+import {LinearLoader, LinearStore} from "../../linear"
+import {ThreadDocumentProvider} from "../../vscode"
+import {createExtensionContext, reset} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_MESSAGES, TEST_SLACK_URLS} from "../fixtures"
+import {activate} from "../../extension"
+
+/** A client whose threads have all been deleted */
+class DeletedThreadClient extends MockSlackClient {
+  override async getThread(channelId: string, threadTs: string): Promise<SlackThread> {
+    throw new MessageDeletedError(channelId, threadTs)
+  }
+}
+
+suite("Thread documents", () => {
+  let client: MockSlackClient
+
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => client,
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  setup(() => {
+    client = new MockSlackClient()
+  })
+
+  teardown(() => reset())
+
+  const start = async (): Promise<void> => {
+    await vscode.workspace
+      .getConfiguration("slackoscope")
+      .update("token", "test-slack-token", vscode.ConfigurationTarget.Global)
+    await activate(createExtensionContext() as never)
+  }
+
+  /** The text of the thread document a link opens */
+  const threadDocument = async (link: string): Promise<vscode.TextDocument> =>
+    vscode.workspace.openTextDocument(ThreadDocumentProvider.uri(parseSlackUrl(link)!))
+
+  const documentLinks = async (content: string): Promise<vscode.DocumentLink[]> => {
+    const document = await vscode.workspace.openTextDocument({content})
+    return vscode.commands.executeCommand("vscode.executeLinkProvider", document.uri)
+  }
+
+  test("renders the whole thread as Markdown, marking the linked message", async () => {
+    await start()
+
+    const document = await threadDocument(TEST_SLACK_URLS.threadReply)
+    const text = document.getText()
+
+    assert.strictEqual(document.languageId, "markdown")
+    assert.match(text, /^# #general thread\n/)
+    assert.match(
+      text,
+      /3 replies · \[Open in Slack\]\(https:\/\/workspace\.slack\.com\/archives\/C1234ABCD\/p1234567890345679/
+    )
+    assert.match(text, /This is a thread parent message/)
+    assert.match(text, /## .* ← linked\n\nFirst reply to thread/)
+    assert.strictEqual(text.match(/← linked/g)?.length, 1)
+    assert.match(text, /## Linear Asks `APP`/)
+  })
+
+  test("says why a thread can't be shown", async () => {
+    client = new DeletedThreadClient()
+    await start()
+
+    const document = await threadDocument(TEST_SLACK_URLS.threadReply)
+
+    assert.match(document.getText(), /⚠️ The message this link points to was deleted\./)
+  })
+
+  test("Slack links in code open the thread document", async () => {
+    await start()
+
+    const [link] = await documentLinks(`// ${TEST_SLACK_URLS.threadReply}\n`)
+
+    assert.strictEqual(link.target?.scheme, "slackoscope")
+    assert.strictEqual(link.target?.query, TEST_SLACK_URLS.threadReply)
+    assert.strictEqual(link.range.start.character, 3)
+  })
+
+  test("leaves links to the browser when the setting is off", async () => {
+    await vscode.workspace
+      .getConfiguration("slackoscope")
+      .update("links.openThreadDocument", false, vscode.ConfigurationTarget.Global)
+    await start()
+
+    assert.deepStrictEqual(await documentLinks(`// ${TEST_SLACK_URLS.threadReply}\n`), [])
+  })
+
+  test("a thread document's own Slack link isn't redirected back to it", async () => {
+    await start()
+    const document = await threadDocument(TEST_SLACK_URLS.threadParent)
+
+    assert.deepStrictEqual(await vscode.commands.executeCommand("vscode.executeLinkProvider", document.uri), [])
+  })
+
+  test("updates open documents when their thread is refreshed in the background", async () => {
+    const provider = new ThreadDocumentProvider({
+      slackLoader: new SlackLoader(client, new SlackStore()),
+      linearLoader: new LinearLoader(null, new LinearStore())
+    })
+    vscode.workspace.registerTextDocumentContentProvider(ThreadDocumentProvider.scheme, provider)
+    const document = await threadDocument(TEST_SLACK_URLS.threadReply)
+    const changed: string[] = []
+    provider.onDidChange(uri => changed.push(uri.toString()))
+
+    provider.refresh({resource: "threads", key: SlackStore.key("C1234ABCD", "1111111111.111111")})
+    provider.refresh({resource: "users", key: "U1234567890"})
+    provider.refresh({resource: "threads", key: SlackStore.key("C1234ABCD", TEST_MESSAGES.threadParent.ts)})
+
+    assert.deepStrictEqual(changed, [document.uri.toString()])
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * The thread view: fetching every page of replies (up to a cap), and showing them in a panel.
+ */
+
+import * as assert from "assert"
+import * as vscode from "vscode"
+import {
+  parseSlackUrl,
+  SlackClient,
+  SlackLoader,
+  SlackStore,
+  type SlackThread,
+  type ThreadFetchOptions
+} from "../../slack"
+import {createExtensionContext, reset, shownMessages, webviewPanels} from "../stubs/vscode"
+import {registerTestMocks, clearTestMocks} from "../testRegistry"
+import {MockSlackClient, MockLinearClient} from "../mocks"
+import {TEST_MESSAGES, TEST_SLACK_URLS, TEST_THREAD_REPLIES} from "../fixtures"
+import {renderThreadHtml} from "../../vscode/renderers"
+import {activate} from "../../extension"
+
+suite("SlackClient.getThread", () => {
+  const realFetch = globalThis.fetch
+
+  teardown(() => {
+    globalThis.fetch = realFetch
+  })
+
+  test("follows cursors until the last page, without repeating the parent", async () => {
+    const parent = {ts: "1.000001", text: "parent"}
+    const pages: Record<string, object> = {
+      "": {ok: true, messages: [parent, {ts: "1.000002", text: "one"}], response_metadata: {next_cursor: "page2"}},
+      page2: {ok: true, messages: [parent, {ts: "1.000003", text: "two"}], response_metadata: {next_cursor: ""}}
+    }
+    const cursors: string[] = []
+    globalThis.fetch = (async (input: string) => {
+      const cursor = new URL(input).searchParams.get("cursor") ?? ""
+      cursors.push(cursor)
+      return new Response(JSON.stringify(pages[cursor]))
+    }) as typeof fetch
+
+    const thread = await new SlackClient("xoxb-test").getThread("C1", "1.000001")
+
+    assert.deepStrictEqual(cursors, ["", "page2"])
+    assert.strictEqual(thread.parent.text, "parent")
+    assert.deepStrictEqual(
+      thread.replies.map(reply => reply.text),
+      ["one", "two"]
+    )
+    assert.strictEqual(thread.moreReplies, undefined)
+  })
+
+  test("stops at the reply cap and counts the replies left behind", async () => {
+    const parent = {ts: "1.000001", text: "parent", reply_count: 5}
+    const pages: Record<string, object> = {
+      "": {ok: true, messages: [parent, {ts: "1.000002"}, {ts: "1.000003"}], response_metadata: {next_cursor: "p2"}},
+      p2: {ok: true, messages: [parent, {ts: "1.000004"}, {ts: "1.000005"}], response_metadata: {next_cursor: "p3"}}
+    }
+    const cursors: string[] = []
+    globalThis.fetch = (async (input: string) => {
+      const cursor = new URL(input).searchParams.get("cursor") ?? ""
+      cursors.push(cursor)
+      return new Response(JSON.stringify(pages[cursor]))
+    }) as typeof fetch
+
+    const thread = await new SlackClient("xoxb-test").getThread("C1", "1.000001", {maxReplies: 3})
+
+    assert.deepStrictEqual(cursors, ["", "p2"])
+    assert.deepStrictEqual(
+      thread.replies.map(reply => reply.ts),
+      ["1.000002", "1.000003", "1.000004"]
+    )
+    assert.strictEqual(thread.moreReplies, 2)
+  })
+
+  test("fetches a window from `oldest` on, and the parent it leaves out", async () => {
+    const requests: URLSearchParams[] = []
+    globalThis.fetch = (async (input: string) => {
+      const params = new URL(input).searchParams
+      requests.push(params)
+      const messages = params.has("oldest")
+        ? [
+            {ts: "1.000900", text: "late"},
+            {ts: "1.000901", text: "later"}
+          ]
+        : [{ts: "1.000001", text: "parent", reply_count: 901}]
+      return new Response(JSON.stringify({ok: true, messages}))
+    }) as typeof fetch
+
+    const thread = await new SlackClient("xoxb-test").getThread("C1", "1.000001", {oldest: "1.000900"})
+
+    assert.strictEqual(requests.length, 2)
+    assert.strictEqual(requests[0].get("oldest"), "1.000900")
+    assert.strictEqual(requests[0].get("inclusive"), "true")
+    assert.strictEqual(requests[1].get("limit"), "1")
+    assert.strictEqual(thread.parent.text, "parent")
+    assert.deepStrictEqual(
+      thread.replies.map(reply => reply.text),
+      ["late", "later"]
+    )
+    assert.strictEqual(thread.moreReplies, 899)
+  })
+})
+
+/** A thread too long to fetch whole: only the first reply makes the cap */
+class LongThreadClient extends MockSlackClient {
+  windows: string[] = []
+
+  override async getThread(channelId: string, threadTs: string, options?: ThreadFetchOptions): Promise<SlackThread> {
+    const {parent, replies} = await super.getThread(channelId, threadTs)
+    const oldest = options?.oldest
+    if (!oldest) return {parent, replies: replies.slice(0, 1), moreReplies: replies.length - 1}
+
+    this.windows.push(oldest)
+    const window = replies.filter(reply => reply.ts >= oldest)
+    return {parent, replies: window, moreReplies: replies.length - window.length}
+  }
+}
+
+suite("Long threads", () => {
+  const lateReply = TEST_THREAD_REPLIES[2]
+  const lateReplyUrl = `https://workspace.slack.com/archives/C1234ABCD/p${lateReply.ts.replace(".", "")}?thread_ts=${TEST_MESSAGES.threadParent.ts}`
+
+  test("a link to a reply past the cap resolves through the window starting at it", async () => {
+    const client = new LongThreadClient()
+    const loader = new SlackLoader(client, new SlackStore())
+
+    const {target, replyCount, moreReplies} = await loader.getMessagesForUrl(parseSlackUrl(lateReplyUrl)!)
+
+    assert.strictEqual(target.text, "Last reply")
+    assert.deepStrictEqual(client.windows, [lateReply.ts])
+    assert.strictEqual(replyCount, TEST_THREAD_REPLIES.length)
+    assert.strictEqual(moreReplies, 2)
+  })
+
+  test("a loaded reply needs no window, and still counts the whole thread", async () => {
+    const client = new LongThreadClient()
+    const loader = new SlackLoader(client, new SlackStore())
+
+    const {target, replyCount, moreReplies} = await loader.getMessagesForUrl(
+      parseSlackUrl(TEST_SLACK_URLS.threadReply)!
+    )
+
+    assert.strictEqual(target.text, "First reply to thread")
+    assert.deepStrictEqual(client.windows, [])
+    assert.strictEqual(replyCount, TEST_THREAD_REPLIES.length)
+    assert.strictEqual(moreReplies, TEST_THREAD_REPLIES.length - 1)
+  })
+
+  test("forgetting a thread forgets its windows too", async () => {
+    const store = new SlackStore()
+    const loader = new SlackLoader(new LongThreadClient(), store)
+    await loader.getMessagesForUrl(parseSlackUrl(lateReplyUrl)!)
+    assert.strictEqual(store.threads.stats().size, 2)
+
+    store.forgetThread("C1234ABCD", TEST_MESSAGES.threadParent.ts)
+
+    assert.strictEqual(store.threads.stats().size, 0)
+  })
+
+  test("the panel says how many replies were left out", () => {
+    const author = {name: "Alice", isBot: false}
+    const html = renderThreadHtml(
+      {
+        messages: [TEST_MESSAGES.threadParent, TEST_THREAD_REPLIES[0]].map(message => ({
+          message,
+          author,
+          mentions: {users: {}, channels: {}}
+        })),
+        targetTs: TEST_MESSAGES.threadParent.ts,
+        moreReplies: 2
+      },
+      {cspSource: "vscode-resource:", nonce: "abc"}
+    )
+
+    assert.match(html, /3 replies/)
+    assert.match(html, /2 more replies not loaded/)
+  })
+})
+
+suite("Thread panel", () => {
+  class CountingSlackClient extends MockSlackClient {
+    threadLookups = 0
+
+    override async getThread(channelId: string, threadTs: string): Promise<SlackThread> {
+      this.threadLookups++
+      return super.getThread(channelId, threadTs)
+    }
+  }
+
+  let client: CountingSlackClient
+
+  suiteSetup(() => {
+    process.env.NODE_ENV = "test"
+    registerTestMocks({
+      createSlackClient: () => client,
+      createLinearClient: () => new MockLinearClient()
+    })
+  })
+
+  suiteTeardown(() => clearTestMocks())
+
+  setup(async () => {
+    client = new CountingSlackClient()
+    await vscode.workspace
+      .getConfiguration("slackoscope")
+      .update("token", "test-slack-token", vscode.ConfigurationTarget.Global)
+    await activate(createExtensionContext() as never)
+  })
+
+  teardown(() => reset())
+
+  test("shows every message of the thread, highlighting the linked one", async () => {
+    await vscode.commands.executeCommand("slackoscope.openThread", {url: TEST_SLACK_URLS.threadReply})
+
+    assert.strictEqual(webviewPanels.length, 1)
+    const [panel] = webviewPanels
+    const {html} = panel.webview
+    assert.strictEqual(panel.title, "#general thread")
+    assert.match(html, /This is a thread parent message/)
+    assert.match(html, /First reply to thread/)
+    assert.match(html, /class="message target" id="ts-1234567890\.345679"/)
+    assert.strictEqual(html.match(/class="message target"/g)?.length, 1)
+    assert.match(html, /Linear Asks<\/strong> <span class="badge">APP<\/span>/)
+    assert.match(html, /script-src 'nonce-/)
+  })
+
+  test("reuses the panel for another link into the same thread", async () => {
+    await vscode.commands.executeCommand("slackoscope.openThread", {url: TEST_SLACK_URLS.threadReply})
+    await vscode.commands.executeCommand("slackoscope.openThread", {url: TEST_SLACK_URLS.threadParent})
+
+    assert.strictEqual(webviewPanels.length, 1)
+    assert.match(webviewPanels[0].webview.html, /class="message target" id="ts-1234567890\.345678"/)
+  })
+
+  test("fetches the thread again when the panel's refresh button is pressed", async () => {
+    await vscode.commands.executeCommand("slackoscope.openThread", {url: TEST_SLACK_URLS.threadReply})
+    await webviewPanels[0].receive({type: "refresh"})
+
+    assert.strictEqual(client.threadLookups, 2)
+  })
+
+  test("opens the thread of the link under the cursor when run from the Command Palette", async () => {
+    const document = await vscode.workspace.openTextDocument({content: `// ${TEST_SLACK_URLS.threadParent}\n`})
+    const editor = await vscode.window.showTextDocument(document)
+    editor.selection = new vscode.Selection(0, 10, 0, 10)
+
+    await vscode.commands.executeCommand("slackoscope.openThread")
+
+    assert.strictEqual(webviewPanels.length, 1)
+    assert.match(webviewPanels[0].webview.html, /First reply to thread/)
+  })
+
+  test("asks for a link when there is none under the cursor", async () => {
+    await vscode.commands.executeCommand("slackoscope.openThread")
+
+    assert.strictEqual(webviewPanels.length, 0)
+    assert.match(shownMessages.error[0], /cursor on a Slack message link/)
+  })
+})
@@ -4,25 +4,23 @@
 
 import * as vscode from "vscode"
 import type {ILinearClient, LinearIssue} from "../../linear"
-import {LINEAR_NOT_CONFIGURED} from "./linearPostingHelpers"
+import {LINEAR_NOT_CONFIGURED, pickTargetIssue, type LinearIssueTarget} from "./linearPostingHelpers"
 
-interface AssignToMeArgs {
-  issueId: string
-  identifier: string
-}
-
-export async function assignToMe(linearClient: ILinearClient | null, args: AssignToMeArgs): Promise<void> {
+export async function assignToMe(linearClient: ILinearClient | null, args: LinearIssueTarget): Promise<void> {
   if (!linearClient) {
     vscode.window.showErrorMessage(`Slackoscope: ${LINEAR_NOT_CONFIGURED}`)
     return
   }
 
+  const issue = await pickTargetIssue(args, "Assign which issue to you?")
+  if (!issue) return // User cancelled
+
   try {
     // Get current user
     const viewer = await linearClient.getViewer()
 
     // Assign the issue to the current user
-    const updatedIssue: LinearIssue = await linearClient.assignIssue(args.issueId, viewer.id)
+    const updatedIssue: LinearIssue = await linearClient.assignIssue(issue.issueId, viewer.id)
 
     vscode.window.showInformationMessage(`Slackoscope: Assigned ${updatedIssue.identifier} to ${viewer.name}`)
   } catch (error) {
@@ -0,0 +1,104 @@
+/**
+ * attachToLinear command - Attach the Slack thread, and optionally the code, to a Linear issue.
+ *
+ * Both show up in the issue's sidebar. The Slack link goes through Linear's own link
+ * handling, so workspaces with the Slack integration get a synced thread. The code link
+ * points at the git remote, pinned to the current commit: the selected lines, or the line
+ * with the Slack link.
+ */
+
+import * as vscode from "vscode"
+import {parseSlackUrl, type SlackLoader} from "../../slack"
+import type {ILinearClient, LinearStore} from "../../linear"
+import {gitCodeLink, type GitCodeLink} from "../../lib/gitRemote"
+import {LINEAR_NOT_CONFIGURED, pickTargetIssue, type LinearIssueTarget} from "./linearPostingHelpers"
+
+type AttachToLinearArgs = LinearIssueTarget & {url: string; fromLine?: number}
+
+interface AttachToLinearDeps {
+  slackLoader: SlackLoader
+  linearClient: ILinearClient | null
+  linearStore: LinearStore
+}
+
+type AttachmentKind = "Slack thread" | "code"
+
+export async function attachToLinear(deps: AttachToLinearDeps, args: AttachToLinearArgs): Promise<void> {
+  const {linearClient} = deps
+  if (!linearClient) {
+    vscode.window.showErrorMessage(`Slackoscope: ${LINEAR_NOT_CONFIGURED}`)
+    return
+  }
+
+  const url = parseSlackUrl(args.url)
+  if (!url) {
+    vscode.window.showErrorMessage("Slackoscope: Invalid Slack URL")
+    return
+  }
+
+  const issue = await pickTargetIssue(args, "Attach to which issue?")
+  if (!issue) return // User cancelled
+
+  // The code is only offered when it's in a checkout with a remote to link to
+  const codeLink = await currentCodeLink(args.fromLine)
+  let kinds: AttachmentKind[] = ["Slack thread"]
+  if (codeLink) {
+    const picked = await vscode.window.showQuickPick(
+      [
+        {label: "Slack thread", description: url.raw, picked: true, attach: "Slack thread" as const},
+        {label: "Code", description: codeTitle(codeLink), picked: true, attach: "code" as const}
+      ],
+      {placeHolder: `Attach to ${issue.identifier}`, canPickMany: true}
+    )
+    if (!picked?.length) return
+    kinds = picked.map(item => item.attach)
+  }
+
+  try {
+    for (const kind of kinds) {
+      if (kind === "Slack thread") {
+        // Linear only recognizes the web permalink as a Slack thread
+        await linearClient.linkAttachmentUrl(issue.issueId, await deps.slackLoader.getPermalink(url))
+      } else if (codeLink) {
+        await linearClient.createAttachment({
+          issueId: issue.issueId,
+          url: codeLink.url,
+          title: codeTitle(codeLink),
+          subtitle: `${codeLink.repo} @ ${codeLink.commit.slice(0, 7)}`
+        })
+      }
+    }
+    vscode.window.showInformationMessage(`Slackoscope: Attached the ${kinds.join(" and ")} to ${issue.identifier}`)
+  } catch (error) {
+    if (error instanceof Error) {
+      vscode.window.showErrorMessage(`Slackoscope: Failed to attach to ${issue.identifier}: ${error.message}`)
+    }
+  } finally {
+    // Even a partial success changes what the hover lists
+    deps.linearStore.forgetAttachments(issue.issueId)
+  }
+}
+
+/** e.g. "src/app.ts:10-12" */
+function codeTitle({path, startLine, endLine}: GitCodeLink): string {
+  return startLine === endLine ? `${path}:${startLine}` : `${path}:${startLine}-${endLine}`
+}
+
+/** The selected lines of the active file, or else the given line, on the git host */
+async function currentCodeLink(fromLine?: number): Promise<GitCodeLink | null> {
+  const editor = vscode.window.activeTextEditor
+  if (!editor || editor.document.uri.scheme !== "file") return null
+
+  const {selection} = editor
+  if (selection.isEmpty) {
+    const line = (fromLine ?? selection.active.line) + 1
+    return gitCodeLink(editor.document.uri.fsPath, line, line)
+  }
+
+  // A selection of whole lines ends at the start of the next one
+  const end =
+    selection.end.character === 0 && selection.end.line > selection.start.line
+      ? selection.end.line - 1
+      : selection.end.line
+  return gitCodeLink(editor.document.uri.fsPath, selection.start.line + 1, end + 1)
+}
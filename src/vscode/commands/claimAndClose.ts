@@ -9,15 +9,13 @@ import {
   LINEAR_NOT_CONFIGURED,
   buildCommentBody,
   findExistingSlackoscopeComment,
+  pickTargetIssue,
   promptForExistingComment,
   resolvePostContent,
+  type LinearIssueTarget,
 } from "./linearPostingHelpers"
 
-interface ClaimAndCloseArgs {
-  issueId: string
-  identifier: string
-  fromLine?: number
-}
+type ClaimAndCloseArgs = LinearIssueTarget & {fromLine?: number}
 
 export async function claimAndClose(
   linearClient: ILinearClient | null,
@@ -35,6 +33,10 @@ export async function claimAndClose(
     return
   }
 
+  const issue = await pickTargetIssue(args, "Claim and close which issue?")
+  if (!issue) return // User cancelled
+  const {issueId, identifier} = issue
+
   const content = await resolvePostContent(editor, args.fromLine, settings.linear.postFromUrlLine)
   if (!content) return // User cancelled
 
@@ -43,7 +45,7 @@ export async function claimAndClose(
 
   try {
     // Step 1: Post comment (with duplicate detection)
-    const existingComment = await findExistingSlackoscopeComment(linearClient, args.issueId)
+    const existingComment = await findExistingSlackoscopeComment(linearClient, issueId)
 
     if (existingComment) {
       const action = await promptForExistingComment(existingComment, content)
@@ -52,23 +54,23 @@ export async function claimAndClose(
       if (action === "update") {
         await linearClient.updateComment(existingComment.id, commentBody)
       } else {
-        await linearClient.createComment(args.issueId, commentBody)
+        await linearClient.createComment(issueId, commentBody)
       }
     } else {
-      await linearClient.createComment(args.issueId, commentBody)
+      await linearClient.createComment(issueId, commentBody)
     }
 
     // Step 2: Assign to current user
     const viewer = await linearClient.getViewer()
-    await linearClient.assignIssue(args.issueId, viewer.id)
+    await linearClient.assignIssue(issueId, viewer.id)
 
     // Step 3: Set to done status
-    const doneStateId = await resolveDoneStateId(linearClient, settings, args.issueId)
+    const doneStateId = await resolveDoneStateId(linearClient, settings, issueId)
     if (!doneStateId) return // User cancelled
 
-    await linearClient.updateIssueState(args.issueId, doneStateId)
+    await linearClient.updateIssueState(issueId, doneStateId)
 
-    vscode.window.showInformationMessage(`Slackoscope: ${args.identifier} claimed and closed`)
+    vscode.window.showInformationMessage(`Slackoscope: ${identifier} claimed and closed`)
   } catch (error) {
     if (error instanceof Error) {
       vscode.window.showErrorMessage(`Slackoscope: Failed to claim & close: ${error.message}`)
@@ -1,13 +1,19 @@
 /**
- * clearCache command - Clear all cached data.
+ * clearCache command - Clear all cached data, in memory and on disk.
  */
 
 import * as vscode from "vscode"
 import type {SlackStore} from "../../slack"
 import type {LinearStore} from "../../linear"
+import type {PersistentCache} from "../storage"
 
-export function clearCache(slackStore: SlackStore, linearStore: LinearStore): void {
+export async function clearCache(
+  slackStore: SlackStore,
+  linearStore: LinearStore,
+  persistentCache: PersistentCache,
+): Promise<void> {
   slackStore.clear()
   linearStore.clear()
+  await persistentCache.clear()
   vscode.window.showInformationMessage("Slackoscope: Cache cleared")
 }
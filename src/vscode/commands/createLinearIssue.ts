@@ -0,0 +1,116 @@
+/**
+ * createLinearIssue command - File a Linear issue for a Slack message.
+ *
+ * A guided flow: pick the team (and a project, if the team has any), confirm the title,
+ * which starts as the message's first line. The description quotes the message with
+ * its author and permalink, plus the editor's selection as a code block when there is one.
+ */
+
+import * as vscode from "vscode"
+import {mentionSource, mrkdwnToMarkdown, mrkdwnToPlainText, parseSlackUrl, type SlackLoader} from "../../slack"
+import type {ILinearClient, LinearStore, LinearTeam} from "../../linear"
+import {codeBlock, escapeText} from "../renderers"
+import {LINEAR_NOT_CONFIGURED} from "./linearPostingHelpers"
+
+interface CreateLinearIssueArgs {
+  url: string
+}
+
+interface CreateLinearIssueDeps {
+  slackLoader: SlackLoader
+  linearClient: ILinearClient | null
+  linearStore: LinearStore
+}
+
+/** Longest prefilled title; Linear takes more, but a title should fit on one line */
+const MAX_TITLE_LENGTH = 100
+
+export async function createLinearIssue(deps: CreateLinearIssueDeps, args: CreateLinearIssueArgs): Promise<void> {
+  const {linearClient} = deps
+  if (!linearClient) {
+    vscode.window.showErrorMessage(`Slackoscope: ${LINEAR_NOT_CONFIGURED}`)
+    return
+  }
+
+  const url = parseSlackUrl(args.url)
+  if (!url) {
+    vscode.window.showErrorMessage("Slackoscope: Invalid Slack URL")
+    return
+  }
+
+  try {
+    const team = await pickTeam(await linearClient.getTeams())
+    if (!team) return // User cancelled
+
+    const projects = await linearClient.getProjects(team.id)
+    let projectId: string | undefined
+    if (projects.length) {
+      const picked = await vscode.window.showQuickPick(
+        [{label: "No project", id: undefined}, ...projects.map(({id, name}) => ({label: name, id}))],
+        {placeHolder: `Add the ${team.key} issue to a project?`}
+      )
+      if (!picked) return
+      projectId = picked.id
+    }
+
+    const {target} = await deps.slackLoader.getMessagesForUrl(url)
+    const author = await deps.slackLoader.getAuthor(target)
+    const mentions = await deps.slackLoader.getMentionNames(mentionSource(target))
+
+    const title = await vscode.window.showInputBox({
+      title: `New ${team.key} issue`,
+      prompt: "Issue title",
+      value: firstLine(mrkdwnToPlainText(target.text, mentions)),
+      validateInput: value => (value.trim() ? undefined : "The issue needs a title")
+    })
+    if (!title?.trim()) return
+
+    const name = author.isBot ? `${author.name} (bot)` : `@${author.name}`
+    const quote = mrkdwnToMarkdown(target.text, mentions)
+      .split("\n")
+      .map(line => `> ${line}`)
+      .join("\n")
+    // Linear can't open client or `slack://` links, so it gets the web permalink
+    const permalink = await deps.slackLoader.getPermalink(url)
+    const sections = [`**${escapeText(name)}** in [Slack](${permalink}):`, quote]
+
+    const editor = vscode.window.activeTextEditor
+    if (editor && !editor.selection.isEmpty) {
+      sections.push(codeBlock(editor.document.getText(editor.selection), editor.document.languageId))
+    }
+
+    const issue = await linearClient.createIssue({
+      teamId: team.id,
+      title: title.trim(),
+      description: sections.join("\n\n"),
+      projectId
+    })
+
+    // The thread now has an issue; the hover, decorations and CodeLens pick it up from the store
+    deps.linearStore.linkIssue(url, issue)
+
+    vscode.window.showInformationMessage(`Slackoscope: Created ${issue.identifier}`)
+  } catch (error) {
+    if (error instanceof Error) {
+      vscode.window.showErrorMessage(`Slackoscope: Failed to create Linear issue: ${error.message}`)
+    }
+  }
+}
+
+/** Ask which team the issue is for; a workspace with one team isn't asked */
+async function pickTeam(teams: LinearTeam[]): Promise<LinearTeam | undefined> {
+  if (teams.length <= 1) return teams[0]
+
+  const picked = await vscode.window.showQuickPick(
+    teams.map(team => ({label: team.name, description: team.key, team})),
+    {placeHolder: "Create the issue in which team?"}
+  )
+  return picked?.team
+}
+
+/** The first non-blank line of the message, shortened to fit a title */
+function firstLine(text: string): string {
+  const line = text.split("\n").find(line => line.trim()) ?? ""
+  const trimmed = line.trim()
+  return trimmed.length <= MAX_TITLE_LENGTH ? trimmed : `${trimmed.slice(0, MAX_TITLE_LENGTH - 1)}…`
+}
@@ -3,7 +3,7 @@
  */
 
 import * as vscode from "vscode"
-import {parseSlackUrl, type SlackLoader} from "../../slack"
+import {parseSlackUrl, mrkdwnToPlainText, type SlackLoader} from "../../slack"
 import type {LinearLoader} from "../../linear"
 
 interface InsertCommentArgs {
@@ -43,21 +43,24 @@ export async function insertComment(deps: InsertCommentDeps, args: InsertComment
     const {target, all} = await deps.slackLoader.getMessagesForUrl(url)
 
     // Get the message to insert
-    const user = await deps.slackLoader.getUser(target.user)
-    const lines = target.text.split("\n")
+    const author = await deps.slackLoader.getAuthor(target)
+    const mentions = await deps.slackLoader.getMentionNames(target.text)
+    const lines = mrkdwnToPlainText(target.text, mentions, {keepUrls: true}).split("\n")
 
     // Check for Linear issue if not already provided
     let linearIdentifier = args.linearIdentifier
     if (!linearIdentifier) {
       const linearMetadata = await deps.linearLoader.getMetadataForUrl(url, all)
       if (linearMetadata) {
-        linearIdentifier = linearMetadata.identifier
+        linearIdentifier = linearMetadata[0].identifier
       }
     }
 
     // Build the comment content with Linear ticket ID if available
     const linearPrefix = linearIdentifier ? `[${linearIdentifier}] ` : ""
-    const header = `${linearPrefix}@${user.displayName}:`
+    const name = author.isBot ? `${author.name} (bot)` : `@${author.name}`
+    const edited = target.edited ? " (edited)" : ""
+    const header = `${linearPrefix}${name}${edited}:`
     const commentLines = [header, ...lines]
 
     const document = editor.document
@@ -0,0 +1,48 @@
+/**
+ * joinChannel command - Join a public channel the token isn't in, then reload its links.
+ *
+ * Offered by the hover when a lookup failed with `not_in_channel`.
+ */
+
+import * as vscode from "vscode"
+import {SlackError, type ISlackClient, type SlackStore} from "../../slack"
+import type {DecorationController} from "../controllers"
+
+interface JoinChannelArgs {
+  channelId: string
+}
+
+export async function joinChannel(
+  slackClient: ISlackClient,
+  slackStore: SlackStore,
+  decorationController: DecorationController,
+  args: JoinChannelArgs
+): Promise<void> {
+  try {
+    const channel = await slackClient.joinChannel(args.channelId)
+
+    // The cached `not_in_channel` failures are wrong now
+    slackStore.forgetChannelErrors(channel.id)
+    slackStore.channels.set(channel.id, channel)
+    decorationController.refresh({resource: "channels", key: channel.id})
+
+    vscode.window.showInformationMessage(`Slackoscope: Joined #${channel.name} — hover again to see its messages`)
+  } catch (error) {
+    vscode.window.showErrorMessage(`Slackoscope: ${joinFailure(error)}`)
+  }
+}
+
+function joinFailure(error: unknown): string {
+  if (!(error instanceof SlackError)) return error instanceof Error ? error.message : "Couldn't join the channel"
+
+  switch (error.code) {
+    case "method_not_supported_for_channel_type":
+      return "Private channels can't be joined — ask someone in it to run `/invite @your-app`"
+    case "missing_scope":
+      return "Joining channels needs the `channels:join` scope — add it to the app and reinstall"
+    case "is_archived":
+      return "The channel is archived and can't be joined"
+    default:
+      return `Couldn't join the channel (${error.code})`
+  }
+}
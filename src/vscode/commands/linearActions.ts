@@ -0,0 +1,38 @@
+/**
+ * linearActions command - Pick one of the Linear actions for an issue.
+ *
+ * Offered by the CodeLens, which has room for one click per part, not a menu.
+ */
+
+import * as vscode from "vscode"
+
+interface LinearActionsArgs {
+  issueId: string
+  identifier: string
+  /** The issue's page in Linear */
+  url: string
+  fromLine?: number
+}
+
+interface LinearActionItem extends vscode.QuickPickItem {
+  command: string
+  args: unknown
+}
+
+export async function linearActions(args: LinearActionsArgs): Promise<void> {
+  const {issueId, identifier, fromLine} = args
+  const items: LinearActionItem[] = [
+    {label: "$(link-external) Open in Linear", command: "vscode.open", args: vscode.Uri.parse(args.url)},
+    {label: "$(comment) Post as comment", command: "slackoscope.postToLinear", args: {issueId, identifier, fromLine}},
+    {label: "$(person) Assign to me", command: "slackoscope.assignToMe", args: {issueId, identifier}},
+    {label: "$(circle-large-outline) Set status", command: "slackoscope.setStatus", args: {issueId, identifier}},
+    {
+      label: "$(pass) Post, assign & close",
+      command: "slackoscope.claimAndClose",
+      args: {issueId, identifier, fromLine}
+    }
+  ]
+
+  const picked = await vscode.window.showQuickPick(items, {placeHolder: `${identifier} (Linear)`})
+  if (picked) await vscode.commands.executeCommand(picked.command, picked.args)
+}
@@ -1,15 +1,37 @@
 /**
- * Shared helpers for Linear posting commands (postToLinear, claimAndClose).
+ * Shared helpers for Linear commands: picking the target issue for all of them, and
+ * building and deduplicating comments for the posting ones (postToLinear, claimAndClose).
  */
 
 import * as vscode from "vscode"
-import type {ILinearClient, LinearComment} from "../../linear"
+import type {ILinearClient, LinearComment, LinearIssueRef} from "../../linear"
 
 export const SLACKOSCOPE_SIGNATURE = "_Posted from VS Code via [Slackoscope]"
 
 export const LINEAR_NOT_CONFIGURED =
   "Linear integration not configured. Set slackoscope.linearToken in VS Code Settings."
 
+/**
+ * The issue a Linear command acts on: one already chosen, or the candidates to choose from
+ * when a thread mentions several.
+ */
+export type LinearIssueTarget = LinearIssueRef | {issues: LinearIssueRef[]}
+
+/**
+ * Resolve the issue to act on, asking which when there are several.
+ * Returns undefined if the user dismisses the pick.
+ */
+export async function pickTargetIssue(target: LinearIssueTarget, placeHolder: string): Promise<LinearIssueRef | undefined> {
+  if (!("issues" in target)) return target
+  if (target.issues.length <= 1) return target.issues[0]
+
+  const picked = await vscode.window.showQuickPick(
+    target.issues.map(issue => ({label: issue.identifier, description: issue.title, issue})),
+    {placeHolder}
+  )
+  return picked?.issue
+}
+
 export function buildCommentBody(content: string, language: string): string {
   return `\`\`\`${language}
 ${content}
@@ -0,0 +1,31 @@
+/**
+ * openThread command - Show the Slack thread behind a link in a panel beside the editor.
+ *
+ * From the hover, the link comes as an argument; from the Command Palette, it's the
+ * Slack link under the cursor.
+ */
+
+import * as vscode from "vscode"
+import {parseSlackUrl, type SlackUrl} from "../../slack"
+import type {ThreadPanelController} from "../controllers"
+import {SlackUrlOccurrence} from "../editor"
+
+interface OpenThreadArgs {
+  url?: string
+}
+
+export async function openThread(threadPanels: ThreadPanelController, args?: OpenThreadArgs): Promise<void> {
+  const url = args?.url ? parseSlackUrl(args.url) : urlAtCursor()
+  if (!url) {
+    vscode.window.showErrorMessage("Slackoscope: Put the cursor on a Slack message link to open its thread")
+    return
+  }
+
+  await threadPanels.open(url)
+}
+
+function urlAtCursor(): SlackUrl | null {
+  const editor = vscode.window.activeTextEditor
+  if (!editor) return null
+  return SlackUrlOccurrence.at(editor.document, editor.selection.active)?.url ?? null
+}
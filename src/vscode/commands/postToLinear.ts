@@ -9,15 +9,13 @@ import {
   LINEAR_NOT_CONFIGURED,
   buildCommentBody,
   findExistingSlackoscopeComment,
+  pickTargetIssue,
   promptForExistingComment,
   resolvePostContent,
+  type LinearIssueTarget,
 } from "./linearPostingHelpers"
 
-interface PostToLinearArgs {
-  issueId: string
-  identifier: string
-  fromLine?: number
-}
+type PostToLinearArgs = LinearIssueTarget & {fromLine?: number}
 
 export async function postToLinear(linearClient: ILinearClient | null, settings: Settings, args: PostToLinearArgs): Promise<void> {
   if (!linearClient) {
@@ -31,6 +29,10 @@ export async function postToLinear(linearClient: ILinearClient | null, settings:
     return
   }
 
+  const issue = await pickTargetIssue(args, "Post to which issue?")
+  if (!issue) return // User cancelled
+  const {issueId, identifier} = issue
+
   const content = await resolvePostContent(editor, args.fromLine, settings.linear.postFromUrlLine)
   if (!content) return // User cancelled
 
@@ -38,7 +40,7 @@ export async function postToLinear(linearClient: ILinearClient | null, settings:
   const commentBody = buildCommentBody(content, language)
 
   try {
-    const existingComment = await findExistingSlackoscopeComment(linearClient, args.issueId)
+    const existingComment = await findExistingSlackoscopeComment(linearClient, issueId)
 
     if (existingComment) {
       const action = await promptForExistingComment(existingComment, content)
@@ -46,14 +48,14 @@ export async function postToLinear(linearClient: ILinearClient | null, settings:
 
       if (action === "update") {
         await linearClient.updateComment(existingComment.id, commentBody)
-        vscode.window.showInformationMessage(`Slackoscope: Updated comment on ${args.identifier}`)
+        vscode.window.showInformationMessage(`Slackoscope: Updated comment on ${identifier}`)
       } else {
-        await linearClient.createComment(args.issueId, commentBody)
-        vscode.window.showInformationMessage(`Slackoscope: Added new comment to ${args.identifier}`)
+        await linearClient.createComment(issueId, commentBody)
+        vscode.window.showInformationMessage(`Slackoscope: Added new comment to ${identifier}`)
       }
     } else {
-      await linearClient.createComment(args.issueId, commentBody)
-      vscode.window.showInformationMessage(`Slackoscope: Posted to ${args.identifier}`)
+      await linearClient.createComment(issueId, commentBody)
+      vscode.window.showInformationMessage(`Slackoscope: Posted to ${identifier}`)
     }
   } catch (error) {
     if (error instanceof Error) {
@@ -1,13 +1,21 @@
 /**
  * refreshMessage command - Invalidate cache for a specific Slack URL.
  *
- * Removes the message and thread entries so the next hover fetches fresh data.
+ * Removes the message and thread entries so the next hover fetches fresh data, and
+ * re-renders the link's decorations, diagnostics and CodeLens.
  */
 
 import * as vscode from "vscode"
 import {parseSlackUrl, SlackStore} from "../../slack"
+import type {DecorationController} from "../controllers"
+import type {CodeLensProvider} from "../providers"
 
-export function refreshMessage(slackStore: SlackStore, args: {url: string}): void {
+export function refreshMessage(
+  slackStore: SlackStore,
+  decorationController: DecorationController,
+  codeLenses: CodeLensProvider,
+  args: {url: string}
+): void {
   const url = parseSlackUrl(args.url)
   if (!url) return
 
@@ -15,10 +23,15 @@ export function refreshMessage(slackStore: SlackStore, args: {url: string}): voi
   slackStore.messages.remove(key)
 
   // Also invalidate thread cache (message may be a thread parent, or part of a thread)
-  slackStore.threads.remove(key)
+  slackStore.forgetThread(url.channelId, url.messageTs)
   if (url.threadTs) {
-    slackStore.threads.remove(SlackStore.key(url.channelId, url.threadTs))
+    slackStore.forgetThread(url.channelId, url.threadTs)
   }
 
+  // A channel the token couldn't see may have been shared with it since
+  slackStore.forgetChannelErrors(url.channelId)
+  decorationController.refresh({resource: "messages", key})
+  codeLenses.refresh()
+
   vscode.window.showInformationMessage("Slackoscope: Refreshed — hover again to see updated content")
 }
@@ -0,0 +1,16 @@
+/**
+ * refreshReferences command - Scan the workspace for Slack links again.
+ *
+ * The index keeps itself current from file events; this is for when it missed some,
+ * like files changed while VS Code was closed being caught up by a branch switch.
+ */
+
+import * as vscode from "vscode"
+import type {ReferenceIndex} from "../controllers"
+
+export async function refreshReferences(referenceIndex: ReferenceIndex): Promise<void> {
+  await vscode.window.withProgress(
+    {location: {viewId: "slackoscope.references"}, title: "Scanning for Slack links"},
+    () => referenceIndex.rebuild()
+  )
+}
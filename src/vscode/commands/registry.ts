@@ -11,7 +11,9 @@
 import * as vscode from "vscode"
 import type {SlackStore, SlackLoader, ISlackClient} from "../../slack"
 import type {LinearStore, LinearLoader, ILinearClient} from "../../linear"
-import type {DecorationController} from "../controllers"
+import type {DecorationController, ReferenceIndex, ThreadPanelController} from "../controllers"
+import type {CodeLensProvider} from "../providers"
+import type {PersistentCache} from "../storage"
 import type {Settings} from "../config"
 import {toggleInline} from "./toggleInline"
 import {insertComment} from "./insertComment"
@@ -21,6 +23,13 @@ import {assignToMe} from "./assignToMe"
 import {setStatus} from "./setStatus"
 import {claimAndClose} from "./claimAndClose"
 import {refreshMessage} from "./refreshMessage"
+import {linearActions} from "./linearActions"
+import {createLinearIssue} from "./createLinearIssue"
+import {attachToLinear} from "./attachToLinear"
+import {joinChannel} from "./joinChannel"
+import {openThread} from "./openThread"
+import {refreshReferences} from "./refreshReferences"
+import type {LinearIssueTarget} from "./linearPostingHelpers"
 
 /**
  * Dependencies available to commands.
@@ -33,6 +42,10 @@ export interface CommandDependencies {
   linearStore: LinearStore
   linearLoader: LinearLoader
   decorationController: DecorationController
+  codeLenses: CodeLensProvider
+  threadPanels: ThreadPanelController
+  referenceIndex: ReferenceIndex
+  persistentCache: PersistentCache
   settings: Settings
 }
 
@@ -46,22 +59,40 @@ const COMMANDS = {
   insertCommentedMessage: (deps: CommandDependencies) => (args: {url: string; lineNumber?: number; linearIdentifier?: string}) =>
     insertComment({slackLoader: deps.slackLoader, linearLoader: deps.linearLoader}, args),
 
-  clearCache: (deps: CommandDependencies) => () => clearCache(deps.slackStore, deps.linearStore),
+  clearCache: (deps: CommandDependencies) => () =>
+    clearCache(deps.slackStore, deps.linearStore, deps.persistentCache),
 
-  postToLinear: (deps: CommandDependencies) => (args: {issueId: string; identifier: string; fromLine?: number}) =>
+  postToLinear: (deps: CommandDependencies) => (args: LinearIssueTarget & {fromLine?: number}) =>
     postToLinear(deps.linearClient, deps.settings, args),
 
-  assignToMe: (deps: CommandDependencies) => (args: {issueId: string; identifier: string}) =>
+  assignToMe: (deps: CommandDependencies) => (args: LinearIssueTarget) =>
     assignToMe(deps.linearClient, args),
 
-  setStatus: (deps: CommandDependencies) => (args: {issueId: string; identifier: string}) =>
+  setStatus: (deps: CommandDependencies) => (args: LinearIssueTarget) =>
     setStatus(deps.linearClient, args),
 
-  claimAndClose: (deps: CommandDependencies) => (args: {issueId: string; identifier: string; fromLine?: number}) =>
+  claimAndClose: (deps: CommandDependencies) => (args: LinearIssueTarget & {fromLine?: number}) =>
     claimAndClose(deps.linearClient, deps.settings, args),
 
   refreshMessage: (deps: CommandDependencies) => (args: {url: string}) =>
-    refreshMessage(deps.slackStore, args),
+    refreshMessage(deps.slackStore, deps.decorationController, deps.codeLenses, args),
+
+  joinChannel: (deps: CommandDependencies) => (args: {channelId: string}) =>
+    joinChannel(deps.slackClient, deps.slackStore, deps.decorationController, args),
+
+  openThread: (deps: CommandDependencies) => (args?: {url?: string}) =>
+    openThread(deps.threadPanels, args),
+
+  linearActions: () => (args: {issueId: string; identifier: string; url: string; fromLine?: number}) =>
+    linearActions(args),
+
+  createLinearIssue: (deps: CommandDependencies) => (args: {url: string}) =>
+    createLinearIssue({slackLoader: deps.slackLoader, linearClient: deps.linearClient, linearStore: deps.linearStore}, args),
+
+  attachToLinear: (deps: CommandDependencies) => (args: LinearIssueTarget & {url: string; fromLine?: number}) =>
+    attachToLinear({slackLoader: deps.slackLoader, linearClient: deps.linearClient, linearStore: deps.linearStore}, args),
+
+  refreshReferences: (deps: CommandDependencies) => () => refreshReferences(deps.referenceIndex),
 } as const
 
 export type CommandId = keyof typeof COMMANDS
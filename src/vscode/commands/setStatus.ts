@@ -4,22 +4,20 @@
 
 import * as vscode from "vscode"
 import type {ILinearClient, LinearWorkflowState, LinearIssue} from "../../linear"
-import {LINEAR_NOT_CONFIGURED} from "./linearPostingHelpers"
+import {LINEAR_NOT_CONFIGURED, pickTargetIssue, type LinearIssueTarget} from "./linearPostingHelpers"
 
-interface SetStatusArgs {
-  issueId: string
-  identifier: string
-}
-
-export async function setStatus(linearClient: ILinearClient | null, args: SetStatusArgs): Promise<void> {
+export async function setStatus(linearClient: ILinearClient | null, args: LinearIssueTarget): Promise<void> {
   if (!linearClient) {
     vscode.window.showErrorMessage(`Slackoscope: ${LINEAR_NOT_CONFIGURED}`)
     return
   }
 
+  const issue = await pickTargetIssue(args, "Set the status of which issue?")
+  if (!issue) return // User cancelled
+
   try {
     // Get available workflow states for this issue's team
-    const states: LinearWorkflowState[] = await linearClient.getWorkflowStates(args.issueId)
+    const states: LinearWorkflowState[] = await linearClient.getWorkflowStates(issue.issueId)
 
     // Sort states by type for a logical order (backlog, unstarted, started, completed, canceled)
     const typeOrder: Record<string, number> = {
@@ -39,7 +37,7 @@ export async function setStatus(linearClient: ILinearClient | null, args: SetSta
     }))
 
     const selected = await vscode.window.showQuickPick(items, {
-      placeHolder: `Select status for ${args.identifier}`,
+      placeHolder: `Select status for ${issue.identifier}`,
       title: "Set Linear Issue Status",
     })
 
@@ -47,7 +45,7 @@ export async function setStatus(linearClient: ILinearClient | null, args: SetSta
 
     // Update the issue state
     const stateId = selected.detail!
-    const updatedIssue: LinearIssue = await linearClient.updateIssueState(args.issueId, stateId)
+    const updatedIssue: LinearIssue = await linearClient.updateIssueState(issue.issueId, stateId)
 
     vscode.window.showInformationMessage(
       `Slackoscope: Updated ${updatedIssue.identifier} status to ${updatedIssue.state.name}`
@@ -1 +1 @@
-export {Settings, type InlineSettings, type HoverSettings, type HighlightingSettings, type SettingsChangeEvent} from "./settings"
+export {Settings, type InlineSettings, type HoverSettings, type CodeLensSettings, type HighlightingSettings, type LinkSettings, type DiagnosticSettings, type DiagnosticLevel, type ReferenceSettings, type CacheSettings, type SettingsChangeEvent} from "./settings"
@@ -24,6 +24,14 @@ export interface HoverSettings {
   showFileInfo: boolean
 }
 
+export interface CodeLensSettings {
+  enabled: boolean
+  showAuthor: boolean
+  showReplies: boolean
+  showLastActivity: boolean
+  showLinear: boolean
+}
+
 export interface HighlightingSettings {
   enabled: boolean
   todayColor: string
@@ -31,10 +39,35 @@ export interface HighlightingSettings {
   oldColor: string
 }
 
+export interface LinkSettings {
+  openThreadDocument: boolean
+}
+
+/** How loudly a kind of diagnostic is reported, or "off" to leave it out */
+export type DiagnosticLevel = "error" | "warning" | "information" | "hint" | "off"
+
+export interface DiagnosticSettings {
+  brokenLink: DiagnosticLevel
+  inaccessibleLink: DiagnosticLevel
+  resolvedIssue: DiagnosticLevel
+}
+
 export interface LinearSettings {
   doneStateTypes: string[]
   showTicketWarnings: boolean
   postFromUrlLine: boolean
+  /** Prefixes that mark real issues, e.g. `ENG`; empty means fetch them from Linear */
+  teamKeys: string[]
+}
+
+export interface ReferenceSettings {
+  /** Scan and watch the workspace for Slack links in the background */
+  index: boolean
+}
+
+export interface CacheSettings {
+  persist: boolean
+  maxEntries: number
 }
 
 export interface SettingsChangeEvent {
@@ -101,6 +134,18 @@ export class Settings implements vscode.Disposable {
     }
   }
 
+  // CodeLens settings
+
+  get codeLens(): CodeLensSettings {
+    return {
+      enabled: this.config.get("codeLens.enabled", false),
+      showAuthor: this.config.get("codeLens.showAuthor", true),
+      showReplies: this.config.get("codeLens.showReplies", true),
+      showLastActivity: this.config.get("codeLens.showLastActivity", true),
+      showLinear: this.config.get("codeLens.showLinear", true),
+    }
+  }
+
   // Highlighting settings
 
   get highlighting(): HighlightingSettings {
@@ -112,6 +157,24 @@ export class Settings implements vscode.Disposable {
     }
   }
 
+  // Link settings
+
+  get links(): LinkSettings {
+    return {
+      openThreadDocument: this.config.get("links.openThreadDocument", true),
+    }
+  }
+
+  // Diagnostic settings
+
+  get diagnostics(): DiagnosticSettings {
+    return {
+      brokenLink: this.config.get("diagnostics.brokenLink", "warning"),
+      inaccessibleLink: this.config.get("diagnostics.inaccessibleLink", "warning"),
+      resolvedIssue: this.config.get("diagnostics.resolvedIssue", "information"),
+    }
+  }
+
   // Linear settings
 
   get linear(): LinearSettings {
@@ -119,6 +182,24 @@ export class Settings implements vscode.Disposable {
       doneStateTypes: this.config.get("linear.doneStateTypes", ["completed"]),
       showTicketWarnings: this.config.get("linear.showTicketWarnings", true),
       postFromUrlLine: this.config.get("linear.postFromUrlLine", true),
+      teamKeys: this.config.get("linear.teamKeys", []),
+    }
+  }
+
+  // Reference settings
+
+  get references(): ReferenceSettings {
+    return {
+      index: this.config.get("references.index", true),
+    }
+  }
+
+  // Cache settings
+
+  get cache(): CacheSettings {
+    return {
+      persist: this.config.get("cache.persist", true),
+      maxEntries: Math.max(100, this.config.get("cache.maxEntries", 5000)),
     }
   }
 
@@ -138,6 +219,7 @@ export class Settings implements vscode.Disposable {
           const displayChanged =
             e.affectsConfiguration("slackoscope.inline") ||
             e.affectsConfiguration("slackoscope.hover") ||
+            e.affectsConfiguration("slackoscope.codeLens") ||
             e.affectsConfiguration("slackoscope.highlighting")
 
           this.previousTokens = {
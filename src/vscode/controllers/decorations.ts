@@ -3,17 +3,35 @@
  *
  * Three decoration systems:
  * 1. URL Replacement (controlled by showChannelName setting) - replaces channel ID and timestamp
- * 2. Inline Preview (on by default, toggle turns off) - shows message content after the URL
+ * 2. Inline Preview (on by default, toggle turns off) - shows message content after the URL,
+ *    or file name and size after a file permalink
  * 3. Highlight (controlled by highlighting.enabled setting) - background color based on message age
+ *
+ * Linear issues referenced directly, by link or bare identifier, get the same DONE/OLD
+ * ticket warnings as threads whose Linear issue is.
+ *
+ * Links to deleted messages get a "message deleted" preview and a struck-through highlight.
+ * Deleted, missing and inaccessible messages, and threads whose Linear issue is done, are
+ * also reported as diagnostics, so they show up in the Problems panel.
+ *
+ * When a background cache refresh brings in newer data, `refresh` re-renders the
+ * visible editors that show it.
  */
 
 import * as vscode from "vscode"
-import type {SlackMessage} from "../../slack"
-import type {LinearIssue} from "../../linear"
+import {MessageDeletedError, SlackError, SlackStore, type SlackMessage, type SlackFile, type SlackStoreChange} from "../../slack"
+import type {LinearIssue, LinearStoreChange} from "../../linear"
 import type {Settings} from "../config"
 import type {LoaderDependencies} from "../dependencies"
-import {SlackUrlOccurrence} from "../editor"
-import {createInlineDecorationType, buildInlineContent, createDecorationOptions} from "../renderers"
+import {SlackUrlOccurrence, SlackFileUrlOccurrence, LinearIssueOccurrence} from "../editor"
+import {
+  createInlineDecorationType,
+  buildInlineContent,
+  buildFileInlineContent,
+  buildDeletedInlineContent,
+  createDecorationOptions,
+  buildDiagnostics,
+} from "../renderers"
 import {formatAbsoluteTime, slackTsToDate} from "../renderers/formatting"
 
 interface FetchResult {
@@ -22,6 +40,24 @@ interface FetchResult {
   linearIssue?: LinearIssue
 }
 
+/** Fetched messages, plus the links whose message turned out to be deleted or failed to load */
+interface FetchResults {
+  results: FetchResult[]
+  deleted: SlackUrlOccurrence[]
+  failed: {occurrence: SlackUrlOccurrence; error: SlackError}[]
+}
+
+interface FileFetchResult {
+  occurrence: SlackFileUrlOccurrence
+  file: SlackFile
+}
+
+/** A Linear issue and where the document mentions it, whether directly or through a linked thread */
+interface TicketReference {
+  range: vscode.Range
+  issue: LinearIssue
+}
+
 export class DecorationController implements vscode.Disposable {
   // URL replacement decorations
   private channelNameDecorationType: vscode.TextEditorDecorationType | null = null
@@ -34,14 +70,22 @@ export class DecorationController implements vscode.Disposable {
   // Highlight decorations (message age)
   private todayHighlightType: vscode.TextEditorDecorationType | null = null
   private oldHighlightType: vscode.TextEditorDecorationType | null = null
+  private deletedHighlightType: vscode.TextEditorDecorationType | null = null
 
   // Linear ticket warning decorations
   private doneWarningType: vscode.TextEditorDecorationType | null = null
   private oldTicketWarningType: vscode.TextEditorDecorationType | null = null
 
+  // Broken, inaccessible and resolved links, listed in the Problems panel
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection("slackoscope")
+
   private disposables: vscode.Disposable[] = []
   private updateTimeout: NodeJS.Timeout | null = null
 
+  // Editors waiting to re-render after cache refreshes, batched
+  private readonly staleEditors = new Set<vscode.TextEditor>()
+  private refreshTimeout: NodeJS.Timeout | null = null
+
   constructor(
     private readonly deps: LoaderDependencies,
     private settings: Settings
@@ -68,6 +112,9 @@ export class DecorationController implements vscode.Disposable {
       }),
       vscode.window.onDidChangeVisibleTextEditors(editors => {
         editors.forEach(editor => this.updateDecorations(editor))
+      }),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        this.diagnostics.delete(document.uri)
       })
     )
   }
@@ -86,6 +133,51 @@ export class DecorationController implements vscode.Disposable {
     }
   }
 
+  /**
+   * Re-render the visible editors affected by a cache refresh.
+   * Refreshes tend to land in bursts, so re-renders are batched.
+   */
+  refresh(change: SlackStoreChange | LinearStoreChange): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (this.isAffected(editor.document, change)) this.staleEditors.add(editor)
+    }
+    if (this.staleEditors.size === 0 || this.refreshTimeout) return
+
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = null
+      const editors = [...this.staleEditors]
+      this.staleEditors.clear()
+      editors.forEach(editor => this.updateDecorations(editor))
+    }, 300)
+  }
+
+  private isAffected(document: vscode.TextDocument, {resource, key}: SlackStoreChange | LinearStoreChange): boolean {
+    if (resource === "files") {
+      return SlackFileUrlOccurrence.scanDocument(document).some(occ => occ.url.fileId === key)
+    }
+
+    const occurrences = SlackUrlOccurrence.scanDocument(document)
+    switch (resource) {
+      case "messages":
+        return occurrences.some(({url}) => SlackStore.key(url.channelId, url.messageTs) === key)
+      case "threads":
+        return occurrences.some(({url}) =>
+          SlackStore.isThreadKey(key, SlackStore.key(url.channelId, url.threadTs ?? url.messageTs))
+        )
+      case "channels":
+        return occurrences.some(({url}) => url.channelId === key)
+      case "issues":
+        // Any linked thread can mention the issue
+        return (
+          occurrences.length > 0 ||
+          LinearIssueOccurrence.scanDocument(document).some(({identifier}) => identifier === key)
+        )
+      default:
+        // Authors can belong to any message
+        return occurrences.length > 0
+    }
+  }
+
   private createUrlReplacementTypes(): void {
     // Hide original text and show replacement via 'before'
     this.channelNameDecorationType = vscode.window.createTextEditorDecorationType({
@@ -111,6 +203,10 @@ export class DecorationController implements vscode.Disposable {
       backgroundColor: hl.oldColor,
       isWholeLine: false,
     })
+    this.deletedHighlightType = vscode.window.createTextEditorDecorationType({
+      textDecoration: "line-through",
+      opacity: "0.6",
+    })
   }
 
   private createWarningTypes(): void {
@@ -137,14 +233,21 @@ export class DecorationController implements vscode.Disposable {
 
   private async updateDecorations(editor: vscode.TextEditor): Promise<void> {
     const occurrences = SlackUrlOccurrence.scanDocument(editor.document)
+    const fileOccurrences = SlackFileUrlOccurrence.scanDocument(editor.document)
+    const issueOccurrences = LinearIssueOccurrence.scanDocument(editor.document)
 
-    if (occurrences.length === 0) {
+    if (occurrences.length === 0 && fileOccurrences.length === 0 && issueOccurrences.length === 0) {
       this.clearEditorDecorations(editor)
+      this.diagnostics.delete(editor.document.uri)
       return
     }
 
     // Fetch all messages first (needed for inline + highlight)
-    const results = await this.fetchMessages(occurrences)
+    const [{results, deleted, failed}, fileResults, issueResults] = await Promise.all([
+      this.fetchMessages(occurrences),
+      this.fetchFiles(fileOccurrences),
+      this.fetchIssues(issueOccurrences),
+    ])
 
     // URL replacements (channel name + timestamp)
     if (this.settings.inline.showChannelName) {
@@ -155,49 +258,81 @@ export class DecorationController implements vscode.Disposable {
 
     // Inline previews
     if (this.isInlineActive && this.inlineDecorationType) {
-      await this.applyInlinePreviews(editor, results)
+      await this.applyInlinePreviews(editor, results, fileResults, deleted)
     }
 
     // Highlight decorations
     if (this.settings.highlighting.enabled) {
-      this.applyHighlights(editor, results)
+      this.applyHighlights(editor, results, deleted)
     } else {
       this.clearHighlights(editor)
     }
 
     // Linear ticket warnings
     if (this.settings.linear.showTicketWarnings) {
-      this.applyTicketWarnings(editor, results)
+      const threadTickets = results.flatMap(({occurrence, linearIssue}) =>
+        linearIssue ? [{range: occurrence.range, issue: linearIssue}] : []
+      )
+      this.applyTicketWarnings(editor, [...threadTickets, ...issueResults])
     } else {
       this.clearTicketWarnings(editor)
     }
+
+    // Problems panel
+    this.applyDiagnostics(editor.document, {results, deleted, failed})
   }
 
-  private async fetchMessages(occurrences: SlackUrlOccurrence[]): Promise<FetchResult[]> {
+  private async fetchMessages(occurrences: SlackUrlOccurrence[]): Promise<FetchResults> {
+    const deleted: SlackUrlOccurrence[] = []
+    const failed: FetchResults["failed"] = []
     const results = await Promise.all(
       occurrences.map(async occ => {
         try {
           const {target, all} = await this.deps.slackLoader.getMessagesForUrl(occ.url)
 
-          // Try to get Linear issue metadata
+          // Try to get the thread's best-matching Linear issue, which its warnings follow
           let linearIssue: LinearIssue | undefined
           try {
-            const metadata = await this.deps.linearLoader.getMetadataForUrl(occ.url, all)
-            if (metadata) {
-              const issue = await this.deps.linearLoader.getIssue(metadata.identifier)
-              linearIssue = issue ?? undefined
-            }
+            const issues = await this.deps.linearLoader.getIssuesForUrl(occ.url, all)
+            linearIssue = issues[0]
           } catch {
             // Linear lookup failed, continue without it
           }
 
           return {occurrence: occ, message: target, linearIssue} as FetchResult
+        } catch (error) {
+          if (error instanceof MessageDeletedError) deleted.push(occ)
+          else if (error instanceof SlackError) failed.push({occurrence: occ, error})
+          return null
+        }
+      })
+    )
+    return {results: results.filter((r): r is FetchResult => r !== null), deleted, failed}
+  }
+
+  private async fetchFiles(occurrences: SlackFileUrlOccurrence[]): Promise<FileFetchResult[]> {
+    const results = await Promise.all(
+      occurrences.map(async occ => {
+        try {
+          const file = await this.deps.slackLoader.getFile(occ.url.fileId)
+          return {occurrence: occ, file} as FileFetchResult
         } catch {
           return null
         }
       })
     )
-    return results.filter((r): r is FetchResult => r !== null)
+    return results.filter((r): r is FileFetchResult => r !== null)
+  }
+
+  /** Look up directly referenced issues; identifiers Linear doesn't know are left alone */
+  private async fetchIssues(occurrences: LinearIssueOccurrence[]): Promise<TicketReference[]> {
+    const results = await Promise.all(
+      occurrences.map(async ({identifier, range}) => {
+        const issue = await this.deps.linearLoader.getIssue(identifier)
+        return issue ? {range, issue} : null
+      })
+    )
+    return results.filter((r): r is TicketReference => r !== null)
   }
 
   private async applyUrlReplacements(
@@ -238,7 +373,12 @@ export class DecorationController implements vscode.Disposable {
     editor.setDecorations(this.timestampDecorationType, timestampDecorations)
   }
 
-  private async applyInlinePreviews(editor: vscode.TextEditor, results: FetchResult[]): Promise<void> {
+  private async applyInlinePreviews(
+    editor: vscode.TextEditor,
+    results: FetchResult[],
+    fileResults: FileFetchResult[],
+    deleted: SlackUrlOccurrence[]
+  ): Promise<void> {
     if (!this.inlineDecorationType) return
 
     const decorationOptions = await Promise.all(
@@ -246,11 +386,12 @@ export class DecorationController implements vscode.Disposable {
         // Use inlineDecorationRange to position after any trailing quotes
         const range = occurrence.inlineDecorationRange(editor.document)
         try {
-          const user = this.settings.inline.showUser
-            ? await this.deps.slackLoader.getUser(message.user)
+          const author = this.settings.inline.showUser
+            ? await this.deps.slackLoader.getAuthor(message)
             : undefined
 
-          const content = buildInlineContent(message, user, this.settings.inline)
+          const mentions = await this.deps.slackLoader.getMentionNames(message.text)
+          const content = buildInlineContent(message, author, this.settings.inline, mentions)
           return createDecorationOptions(range, content)
         } catch (error) {
           console.error("Inline preview error:", error)
@@ -259,11 +400,23 @@ export class DecorationController implements vscode.Disposable {
       })
     )
 
-    editor.setDecorations(this.inlineDecorationType, decorationOptions)
+    const fileDecorationOptions = fileResults.map(({occurrence, file}) =>
+      createDecorationOptions(occurrence.inlineDecorationRange(editor.document), buildFileInlineContent(file, this.settings.inline))
+    )
+
+    const deletedDecorationOptions = deleted.map(occurrence =>
+      createDecorationOptions(occurrence.inlineDecorationRange(editor.document), buildDeletedInlineContent())
+    )
+
+    editor.setDecorations(this.inlineDecorationType, [
+      ...decorationOptions,
+      ...fileDecorationOptions,
+      ...deletedDecorationOptions,
+    ])
   }
 
-  private applyHighlights(editor: vscode.TextEditor, results: FetchResult[]): void {
-    if (!this.todayHighlightType || !this.oldHighlightType) return
+  private applyHighlights(editor: vscode.TextEditor, results: FetchResult[], deleted: SlackUrlOccurrence[]): void {
+    if (!this.todayHighlightType || !this.oldHighlightType || !this.deletedHighlightType) return
 
     const todayRanges: vscode.Range[] = []
     const oldRanges: vscode.Range[] = []
@@ -285,9 +438,16 @@ export class DecorationController implements vscode.Disposable {
 
     editor.setDecorations(this.todayHighlightType, todayRanges)
     editor.setDecorations(this.oldHighlightType, oldRanges)
+    editor.setDecorations(this.deletedHighlightType, deleted.map(occurrence => occurrence.range))
   }
 
-  private applyTicketWarnings(editor: vscode.TextEditor, results: FetchResult[]): void {
+  private applyDiagnostics(document: vscode.TextDocument, {results, deleted, failed}: FetchResults): void {
+    const issues = results.flatMap(({occurrence, linearIssue}) => (linearIssue ? [{occurrence, issue: linearIssue}] : []))
+    const input = {deleted, failed, issues, doneStateTypes: this.settings.linear.doneStateTypes}
+    this.diagnostics.set(document.uri, buildDiagnostics(input, this.settings.diagnostics))
+  }
+
+  private applyTicketWarnings(editor: vscode.TextEditor, tickets: TicketReference[]): void {
     if (!this.doneWarningType || !this.oldTicketWarningType) return
 
     const doneRanges: vscode.Range[] = []
@@ -296,20 +456,18 @@ export class DecorationController implements vscode.Disposable {
     const oldDays = this.settings.highlighting.oldDays
     const doneStateTypes = this.settings.linear.doneStateTypes
 
-    for (const {occurrence, linearIssue} of results) {
-      if (!linearIssue) continue
-
-      const isDone = doneStateTypes.includes(linearIssue.state.type)
-      const updatedAt = new Date(linearIssue.updatedAt)
+    for (const {range, issue} of tickets) {
+      const isDone = doneStateTypes.includes(issue.state.type)
+      const updatedAt = new Date(issue.updatedAt)
       const diffDays = Math.floor((now.getTime() - updatedAt.getTime()) / 86400000)
       const isOld = diffDays >= oldDays
 
       // Done and old can both apply
       if (isDone) {
-        doneRanges.push(occurrence.range)
+        doneRanges.push(range)
       }
       if (isOld) {
-        oldTicketRanges.push(occurrence.range)
+        oldTicketRanges.push(range)
       }
     }
 
@@ -334,6 +492,7 @@ export class DecorationController implements vscode.Disposable {
   private clearHighlights(editor: vscode.TextEditor): void {
     if (this.todayHighlightType) editor.setDecorations(this.todayHighlightType, [])
     if (this.oldHighlightType) editor.setDecorations(this.oldHighlightType, [])
+    if (this.deletedHighlightType) editor.setDecorations(this.deletedHighlightType, [])
   }
 
   private clearTicketWarnings(editor: vscode.TextEditor): void {
@@ -352,13 +511,16 @@ export class DecorationController implements vscode.Disposable {
 
   dispose(): void {
     if (this.updateTimeout) clearTimeout(this.updateTimeout)
+    if (this.refreshTimeout) clearTimeout(this.refreshTimeout)
     this.channelNameDecorationType?.dispose()
     this.timestampDecorationType?.dispose()
     this.inlineDecorationType?.dispose()
     this.todayHighlightType?.dispose()
     this.oldHighlightType?.dispose()
+    this.deletedHighlightType?.dispose()
     this.doneWarningType?.dispose()
     this.oldTicketWarningType?.dispose()
+    this.diagnostics.dispose()
     this.disposables.forEach(d => d.dispose())
   }
 }
@@ -3,3 +3,6 @@
  */
 
 export {DecorationController} from "./decorations"
+export {ThreadPanelController} from "./threadPanel"
+export {loadThreadView, describeThreadFailure} from "./threadView"
+export {ReferenceIndex, type SlackReference} from "./referenceIndex"
@@ -0,0 +1,244 @@
+/**
+ * ReferenceIndex - Every Slack message link in the workspace, not just the visible editors.
+ *
+ * Scans each workspace folder once in the background with `findFiles`, skipping what
+ * `files.exclude` and the folder's own `.gitignore` leave out, then keeps up to date from a
+ * file watcher. Watcher events for excluded files are dropped on arrival, checked against
+ * the same globs without a search. Files are read from disk rather than opened as
+ * documents, so indexing doesn't wake language servers.
+ */
+
+import * as vscode from "vscode"
+import {gitignoreGlobs} from "../../lib/gitignore"
+import {globMatcher} from "../../lib/glob"
+import {SlackUrlOccurrence} from "../editor"
+
+/** A Slack link in a workspace file */
+export interface SlackReference {
+  uri: vscode.Uri
+  occurrence: SlackUrlOccurrence
+  /** The line the link sits on, trimmed - shows how it's used */
+  lineText: string
+}
+
+/** Most files indexed; a repo past this is better served by search */
+const MAX_FILES = 20_000
+
+/** Bigger files are generated or data, not where people paste Slack links */
+const MAX_FILE_SIZE = 1024 * 1024
+
+/** How long file changes settle before they're re-indexed */
+const UPDATE_DELAY = 500
+
+/** What a workspace folder leaves out of the index */
+interface FolderExclude {
+  /** For `findFiles`, relative to the folder */
+  glob: string | undefined
+  /** The same rules, for a path relative to the folder */
+  matches: (path: string) => boolean
+}
+
+export class ReferenceIndex implements vscode.Disposable {
+  /** References per file URI; files without any aren't kept */
+  private readonly files = new Map<string, SlackReference[]>()
+  private readonly changes = new vscode.EventEmitter<void>()
+  readonly onDidChange = this.changes.event
+
+  /** Files changed on disk since the last update, and whether they were deleted */
+  private readonly pending = new Map<string, {uri: vscode.Uri; deleted: boolean}>()
+  private updateTimer: ReturnType<typeof setTimeout> | null = null
+  /** Exclude rules per workspace folder URI */
+  private excludes = new Map<string, FolderExclude>()
+  private running = false
+  /** Bumped by each rebuild and by stop(), so a scan that's been overtaken can tell */
+  private generation = 0
+  private disposables: vscode.Disposable[] = []
+
+  /** Whether the index is watching the workspace, or about to */
+  get isRunning(): boolean {
+    return this.running
+  }
+
+  /**
+   * Scan the workspace and start watching it. Resolves once the first scan is in.
+   */
+  async start(): Promise<void> {
+    if (this.running) return
+    this.running = true
+
+    // Events can arrive mid-scan, and are filtered with these
+    await this.loadExcludes()
+    if (!this.running) return // Stopped meanwhile
+
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*")
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(uri => this.queue(uri, false)),
+      watcher.onDidChange(uri => this.queue(uri, false)),
+      watcher.onDidDelete(uri => this.queue(uri, true)),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration("files.exclude")) void this.rebuild()
+      })
+    )
+    await this.rebuild()
+  }
+
+  /** Every reference, in no particular order */
+  get references(): SlackReference[] {
+    return [...this.files.values()].flat()
+  }
+
+  /** Stop watching the workspace and forget what was indexed */
+  stop(): void {
+    this.running = false
+    this.generation++
+    if (this.updateTimer) clearTimeout(this.updateTimer)
+    this.updateTimer = null
+    this.pending.clear()
+    this.disposables.forEach(d => d.dispose())
+    this.disposables = []
+    this.files.clear()
+    this.changes.fire()
+  }
+
+  /**
+   * Forget everything and scan the workspace again, e.g. after the exclude rules changed.
+   */
+  async rebuild(): Promise<void> {
+    // Bail out after every await once stopped or overtaken by a newer rebuild
+    const generation = ++this.generation
+    const isCurrent = () => this.running && generation === this.generation
+
+    const folders = await this.loadExcludes()
+    if (!isCurrent()) return
+    const uris: vscode.Uri[] = []
+    for (const folder of folders) {
+      const exclude = this.excludes.get(folder.uri.toString())?.glob
+      const pattern = new vscode.RelativePattern(folder, "**/*")
+      uris.push(...(await vscode.workspace.findFiles(pattern, exclude, MAX_FILES - uris.length)))
+      if (!isCurrent()) return
+      if (uris.length >= MAX_FILES) break
+    }
+
+    // Scanned aside and swapped in at the end, so a scan that's given up leaves nothing behind
+    const files = new Map<string, SlackReference[]>()
+    // One file at a time: a big repo shouldn't hold every file in memory at once
+    for (const uri of uris) {
+      const references = await this.referencesIn(uri)
+      if (!isCurrent()) return
+      if (references.length) files.set(uri.toString(), references)
+    }
+
+    this.files.clear()
+    for (const [key, references] of files) this.files.set(key, references)
+    this.changes.fire()
+  }
+
+  /** Read every folder's exclude rules; returns the folders */
+  private async loadExcludes(): Promise<readonly vscode.WorkspaceFolder[]> {
+    const folders = vscode.workspace.workspaceFolders ?? []
+    this.excludes = new Map(
+      await Promise.all(folders.map(async folder => [folder.uri.toString(), await folderExclude(folder)] as const))
+    )
+    return folders
+  }
+
+  private queue(uri: vscode.Uri, deleted: boolean): void {
+    // New ignore rules change which files belong in the index at all
+    if (uri.path.endsWith("/.gitignore")) {
+      void this.rebuild()
+      return
+    }
+    // Most events are for build output and dependencies; drop them before any async work.
+    // A deletion is always let through: it may be a folder holding indexed files.
+    if (!deleted && !this.isIncluded(uri)) return
+
+    this.pending.set(uri.toString(), {uri, deleted})
+    if (this.updateTimer) clearTimeout(this.updateTimer)
+    this.updateTimer = setTimeout(() => void this.flush(), UPDATE_DELAY)
+  }
+
+  /** Re-index the files that changed since the last flush. Public for tests. */
+  async flush(): Promise<void> {
+    if (this.updateTimer) clearTimeout(this.updateTimer)
+    this.updateTimer = null
+
+    const changed = [...this.pending.values()]
+    this.pending.clear()
+    if (!changed.length) return
+
+    for (const {uri, deleted} of changed) {
+      const key = uri.toString()
+      if (deleted) {
+        // A deleted folder takes its files with it
+        for (const file of [...this.files.keys()]) {
+          if (file === key || file.startsWith(`${key}/`)) this.files.delete(file)
+        }
+      } else {
+        const references = await this.referencesIn(uri)
+        if (references.length) this.files.set(key, references)
+        else this.files.delete(key)
+      }
+    }
+    this.changes.fire()
+  }
+
+  /** The links in a file; none for folders, big or binary files, and files that can't be read */
+  private async referencesIn(uri: vscode.Uri): Promise<SlackReference[]> {
+    try {
+      const {size, type} = await vscode.workspace.fs.stat(uri)
+      if (type !== vscode.FileType.File || size > MAX_FILE_SIZE) return []
+
+      const bytes = await vscode.workspace.fs.readFile(uri)
+      // A NUL byte means binary; there are no links worth finding in it
+      if (bytes.includes(0)) return []
+
+      const text = new TextDecoder().decode(bytes)
+      const lines = text.split(/\r?\n/)
+      return SlackUrlOccurrence.scanText(text).map(occurrence => ({
+        uri,
+        occurrence,
+        lineText: lines[occurrence.range.start.line].trim()
+      }))
+    } catch {
+      // Gone or unreadable - either way, nothing to index
+      return []
+    }
+  }
+
+  /** Whether the scan would have picked this file up: inside a folder, and not excluded there */
+  private isIncluded(uri: vscode.Uri): boolean {
+    const folder = vscode.workspace.getWorkspaceFolder(uri)
+    const exclude = folder && this.excludes.get(folder.uri.toString())
+    if (!folder || !exclude) return false
+
+    return !exclude.matches(uri.path.slice(folder.uri.path.replace(/\/$/, "").length + 1))
+  }
+
+  dispose(): void {
+    this.stop()
+    this.changes.dispose()
+  }
+}
+
+/**
+ * The folder's `files.exclude` plus its root `.gitignore`. Passing any exclude to
+ * `findFiles` replaces its `files.exclude` default, so that's folded in here.
+ */
+async function folderExclude(folder: vscode.WorkspaceFolder): Promise<FolderExclude> {
+  const filesExclude = vscode.workspace
+    .getConfiguration("files", folder.uri)
+    .get<Record<string, unknown>>("exclude", {})
+  const globs = Object.entries(filesExclude)
+    .filter(([, excluded]) => excluded === true)
+    .map(([glob]) => glob)
+
+  try {
+    const gitignore = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, ".gitignore"))
+    globs.push(...gitignoreGlobs(new TextDecoder().decode(gitignore)))
+  } catch {
+    // No .gitignore
+  }
+
+  return {glob: globs.length ? `{${globs.join(",")}}` : undefined, matches: globMatcher(globs)}
+}
@@ -0,0 +1,92 @@
+/**
+ * ThreadPanelController - Shows a whole Slack thread in a webview beside the editor.
+ *
+ * One panel per thread: opening a link into a thread that already has a panel
+ * reveals it and moves the highlight to the linked message. The panel's refresh
+ * button drops the cached thread and fetches it again.
+ */
+
+import * as vscode from "vscode"
+import {randomBytes} from "crypto"
+import {SlackStore, type SlackUrl} from "../../slack"
+import type {LoaderDependencies} from "../dependencies"
+import {renderThreadError, renderThreadHtml} from "../renderers"
+import {describeThreadFailure, loadThreadView} from "./threadView"
+
+const VIEW_TYPE = "slackoscope.thread"
+
+interface OpenThread {
+  panel: vscode.WebviewPanel
+  url: SlackUrl
+}
+
+export class ThreadPanelController implements vscode.Disposable {
+  /** Open panels, keyed by the thread's cache key */
+  private readonly panels = new Map<string, OpenThread>()
+
+  constructor(
+    private readonly deps: LoaderDependencies,
+    private readonly slackStore: SlackStore
+  ) {}
+
+  /**
+   * Show the thread `url` belongs to. A link to a message outside any thread shows
+   * just that message (and its replies, if it started one).
+   */
+  async open(url: SlackUrl): Promise<void> {
+    const key = threadKey(url)
+    const open = this.panels.get(key)
+    if (open) {
+      open.url = url
+      open.panel.reveal(vscode.ViewColumn.Beside, true)
+      return this.render(open)
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      VIEW_TYPE,
+      "Slack thread",
+      {viewColumn: vscode.ViewColumn.Beside, preserveFocus: true},
+      {enableScripts: true, localResourceRoots: []}
+    )
+    const thread: OpenThread = {panel, url}
+    this.panels.set(key, thread)
+
+    panel.webview.onDidReceiveMessage(async (message: {type?: string}) => {
+      if (message?.type === "refresh") await this.refresh(thread)
+    })
+    panel.onDidDispose(() => this.panels.delete(key))
+
+    await this.render(thread)
+  }
+
+  /** Forget the cached thread and messages, then render from fresh data */
+  private async refresh(thread: OpenThread): Promise<void> {
+    const {channelId, threadTs, messageTs} = thread.url
+    this.slackStore.forgetThread(channelId, threadTs ?? messageTs)
+    this.slackStore.messages.remove(SlackStore.key(channelId, messageTs))
+    await this.render(thread)
+  }
+
+  private async render({panel, url}: OpenThread): Promise<void> {
+    const page = {cspSource: panel.webview.cspSource, nonce: randomBytes(16).toString("base64")}
+
+    try {
+      const thread = await loadThreadView(this.deps, url)
+      panel.title = thread.channel ? `#${thread.channel.name} thread` : "Slack thread"
+      panel.webview.html = renderThreadHtml(thread, page)
+    } catch (error) {
+      console.error("Thread view error:", error)
+      panel.webview.html = renderThreadError(describeThreadFailure(error), page)
+    }
+  }
+
+  dispose(): void {
+    this.panels.forEach(({panel}) => panel.dispose())
+    this.panels.clear()
+  }
+}
+
+/** Links into the same thread share a panel */
+function threadKey(url: SlackUrl): string {
+  return SlackStore.key(url.channelId, url.threadTs ?? url.messageTs)
+}
@@ -0,0 +1,36 @@
+import {mentionSource, MessageDeletedError, SlackError, type SlackUrl} from "../../slack"
+import type {LoaderDependencies} from "../dependencies"
+import {explainFailure, type ThreadViewMessage, type ThreadViewModel} from "../renderers"
+
+/**
+ * Load the thread a link points into, with every message's author and mention names.
+ *
+ * The thread panel and the thread document render the same data, one as HTML and
+ * one as Markdown; this is the part they share.
+ */
+export async function loadThreadView({slackLoader}: LoaderDependencies, url: SlackUrl): Promise<ThreadViewModel> {
+  const [thread, channel] = await Promise.all([
+    slackLoader.getThreadForUrl(url),
+    slackLoader.getChannel(url.channelId).catch(() => undefined)
+  ])
+
+  const messages = await Promise.all(
+    [thread.parent, ...thread.replies].map(async (message): Promise<ThreadViewMessage> => ({
+      message,
+      author: await slackLoader.getAuthor(message).catch(() => ({name: message.user, isBot: false})),
+      mentions: await slackLoader.getMentionNames(mentionSource(message))
+    }))
+  )
+
+  return {channel, messages, targetTs: url.messageTs, moreReplies: thread.moreReplies ?? 0}
+}
+
+/** One sentence on why a thread couldn't be loaded, and what to do about it */
+export function describeThreadFailure(error: unknown): string {
+  if (error instanceof MessageDeletedError) return "The message this link points to was deleted."
+  if (error instanceof SlackError) {
+    const {problem, remedy} = explainFailure(error)
+    return `${problem}. ${remedy}`
+  }
+  return error instanceof Error ? error.message : "Couldn't load the thread."
+}
@@ -0,0 +1,59 @@
+/**
+ * SlackEntityUrlOccurrence - A Slack channel or user profile link found in an editor document.
+ *
+ * Like `SlackFileUrlOccurrence`, this pairs the parsed link with where it sits.
+ */
+
+import * as vscode from "vscode"
+import {parseSlackEntityUrl, SLACK_ENTITY_URL_REGEX_GLOBAL, type SlackEntityUrl} from "../../slack"
+import {rangeFromLineMatch, rangeFromDocumentMatch} from "./ranges"
+
+export class SlackEntityUrlOccurrence {
+  private constructor(
+    public readonly url: SlackEntityUrl,
+    public readonly range: vscode.Range
+  ) {}
+
+  // Factory methods
+
+  static fromLineMatch(line: vscode.TextLine, match: RegExpMatchArray): SlackEntityUrlOccurrence | null {
+    const url = parseSlackEntityUrl(match[0])
+    if (!url) return null
+    return new SlackEntityUrlOccurrence(url, rangeFromLineMatch(line, match))
+  }
+
+  static fromDocumentMatch(document: vscode.TextDocument, match: RegExpMatchArray): SlackEntityUrlOccurrence | null {
+    const url = parseSlackEntityUrl(match[0])
+    if (!url) return null
+    return new SlackEntityUrlOccurrence(url, rangeFromDocumentMatch(document, match))
+  }
+
+  // Scanning methods
+
+  /**
+   * Find all Slack channel and user links on a line.
+   */
+  static scanLine(line: vscode.TextLine): SlackEntityUrlOccurrence[] {
+    return [...line.text.matchAll(SLACK_ENTITY_URL_REGEX_GLOBAL)]
+      .map(match => SlackEntityUrlOccurrence.fromLineMatch(line, match))
+      .filter((occ): occ is SlackEntityUrlOccurrence => occ !== null)
+  }
+
+  /**
+   * Find all Slack channel and user links in a document.
+   */
+  static scanDocument(document: vscode.TextDocument): SlackEntityUrlOccurrence[] {
+    return [...document.getText().matchAll(SLACK_ENTITY_URL_REGEX_GLOBAL)]
+      .map(match => SlackEntityUrlOccurrence.fromDocumentMatch(document, match))
+      .filter((occ): occ is SlackEntityUrlOccurrence => occ !== null)
+  }
+
+  /**
+   * Find the channel or user link at a specific position, if any.
+   * Unlike message URLs, this needs the position to be on the link itself.
+   */
+  static at(document: vscode.TextDocument, position: vscode.Position): SlackEntityUrlOccurrence | null {
+    const line = document.lineAt(position.line)
+    return SlackEntityUrlOccurrence.scanLine(line).find(occ => occ.range.contains(position)) ?? null
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * SlackFileUrlOccurrence - A Slack file permalink found in an editor document.
+ *
+ * The file counterpart of `SlackUrlOccurrence`: the parsed link plus where it sits.
+ */
+
+import * as vscode from "vscode"
+import {parseSlackFileUrl, SLACK_FILE_URL_REGEX_GLOBAL, type SlackFileUrl} from "../../slack"
+import {rangeFromLineMatch, rangeFromDocumentMatch} from "./ranges"
+
+export class SlackFileUrlOccurrence {
+  private constructor(
+    public readonly url: SlackFileUrl,
+    public readonly range: vscode.Range
+  ) {}
+
+  // Factory methods
+
+  static fromLineMatch(line: vscode.TextLine, match: RegExpMatchArray): SlackFileUrlOccurrence | null {
+    const url = parseSlackFileUrl(match[0])
+    if (!url) return null
+    return new SlackFileUrlOccurrence(url, rangeFromLineMatch(line, match))
+  }
+
+  static fromDocumentMatch(document: vscode.TextDocument, match: RegExpMatchArray): SlackFileUrlOccurrence | null {
+    const url = parseSlackFileUrl(match[0])
+    if (!url) return null
+    return new SlackFileUrlOccurrence(url, rangeFromDocumentMatch(document, match))
+  }
+
+  // Scanning methods
+
+  /**
+   * Find all Slack file URLs on a line.
+   */
+  static scanLine(line: vscode.TextLine): SlackFileUrlOccurrence[] {
+    return [...line.text.matchAll(SLACK_FILE_URL_REGEX_GLOBAL)]
+      .map(match => SlackFileUrlOccurrence.fromLineMatch(line, match))
+      .filter((occ): occ is SlackFileUrlOccurrence => occ !== null)
+  }
+
+  /**
+   * Find all Slack file URLs in a document.
+   */
+  static scanDocument(document: vscode.TextDocument): SlackFileUrlOccurrence[] {
+    return [...document.getText().matchAll(SLACK_FILE_URL_REGEX_GLOBAL)]
+      .map(match => SlackFileUrlOccurrence.fromDocumentMatch(document, match))
+      .filter((occ): occ is SlackFileUrlOccurrence => occ !== null)
+  }
+
+  /**
+   * Find the file URL at a specific position, if any.
+   * Unlike message URLs, this needs the position to be on the link itself.
+   */
+  static at(document: vscode.TextDocument, position: vscode.Position): SlackFileUrlOccurrence | null {
+    const line = document.lineAt(position.line)
+    return SlackFileUrlOccurrence.scanLine(line).find(occ => occ.range.contains(position)) ?? null
+  }
+
+  // Instance methods
+
+  /**
+   * Get a range suitable for inline decorations.
+   * Extends past any trailing quote character so decoration appears outside string literals.
+   */
+  inlineDecorationRange(document: vscode.TextDocument): vscode.Range {
+    const line = document.lineAt(this.range.end.line)
+    const charAfter = line.text[this.range.end.character]
+
+    if (charAfter === '"' || charAfter === "'") {
+      return new vscode.Range(this.range.start, this.range.end.translate(0, 1))
+    }
+    return this.range
+  }
+}
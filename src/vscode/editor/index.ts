@@ -1,6 +1,9 @@
 /**
- * Editor utilities - document scanning, ranges, URL occurrences.
+ * Editor utilities - document scanning, ranges, URL and Linear issue occurrences.
  */
 
 export {SlackUrlOccurrence} from "./urlOccurrence"
-export {rangeFromLineMatch, rangeFromDocumentMatch, rangeWithin} from "./ranges"
+export {SlackFileUrlOccurrence} from "./fileUrlOccurrence"
+export {SlackEntityUrlOccurrence} from "./entityUrlOccurrence"
+export {LinearIssueOccurrence} from "./linearIssueOccurrence"
+export {rangeFromLineMatch, rangeFromDocumentMatch, rangeFromTextLineMatch, rangeWithin} from "./ranges"
@@ -0,0 +1,59 @@
+/**
+ * LinearIssueOccurrence - A Linear issue referenced in an editor document,
+ * by link or by bare identifier (`// TODO(ABC-123)`).
+ *
+ * The Linear counterpart of `SlackUrlOccurrence`: the identifier plus where it sits.
+ */
+
+import * as vscode from "vscode"
+import {findLinearReferences, type LinearReference} from "../../linear"
+
+export class LinearIssueOccurrence {
+  private constructor(
+    public readonly identifier: string,
+    /** Whether this is a link to the issue rather than its bare identifier */
+    public readonly isUrl: boolean,
+    public readonly range: vscode.Range
+  ) {}
+
+  // Factory methods
+
+  static fromReference({identifier, isUrl}: LinearReference, range: vscode.Range): LinearIssueOccurrence {
+    return new LinearIssueOccurrence(identifier, isUrl, range)
+  }
+
+  // Scanning methods
+
+  /**
+   * Find all Linear issue references on a line.
+   */
+  static scanLine(line: vscode.TextLine): LinearIssueOccurrence[] {
+    return findLinearReferences(line.text).map(reference => {
+      const start = line.range.start.translate(0, reference.index)
+      return LinearIssueOccurrence.fromReference(
+        reference,
+        new vscode.Range(start, start.translate(0, reference.length))
+      )
+    })
+  }
+
+  /**
+   * Find all Linear issue references in a document.
+   */
+  static scanDocument(document: vscode.TextDocument): LinearIssueOccurrence[] {
+    return findLinearReferences(document.getText()).map(reference => {
+      const start = document.positionAt(reference.index)
+      const end = document.positionAt(reference.index + reference.length)
+      return LinearIssueOccurrence.fromReference(reference, new vscode.Range(start, end))
+    })
+  }
+
+  /**
+   * Find the reference at a specific position, if any.
+   * Like channel and file links, this needs the position to be on the reference itself.
+   */
+  static at(document: vscode.TextDocument, position: vscode.Position): LinearIssueOccurrence | null {
+    const line = document.lineAt(position.line)
+    return LinearIssueOccurrence.scanLine(line).find(occ => occ.range.contains(position)) ?? null
+  }
+}
@@ -22,6 +22,14 @@ export function rangeFromDocumentMatch(document: vscode.TextDocument, match: Reg
   return new vscode.Range(startPos, endPos)
 }
 
+/**
+ * Create a Range from a regex match on one line of plain text, such as a file read from disk.
+ */
+export function rangeFromTextLineMatch(lineNumber: number, match: RegExpMatchArray): vscode.Range {
+  const start = match.index ?? 0
+  return new vscode.Range(lineNumber, start, lineNumber, start + match[0].length)
+}
+
 /**
  * Create a sub-range within a parent range.
  * Useful for highlighting parts of a matched string.
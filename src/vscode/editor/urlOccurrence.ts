@@ -7,7 +7,7 @@
 
 import * as vscode from "vscode"
 import {parseSlackUrl, SLACK_URL_REGEX_GLOBAL, type SlackUrl} from "../../slack"
-import {rangeFromLineMatch, rangeFromDocumentMatch, rangeWithin} from "./ranges"
+import {rangeFromLineMatch, rangeFromDocumentMatch, rangeFromTextLineMatch, rangeWithin} from "./ranges"
 
 export class SlackUrlOccurrence {
   private constructor(
@@ -49,6 +49,18 @@ export class SlackUrlOccurrence {
       .filter((occ): occ is SlackUrlOccurrence => occ !== null)
   }
 
+  /**
+   * Find all Slack URLs in text that isn't open in an editor, such as a file read from disk.
+   */
+  static scanText(text: string): SlackUrlOccurrence[] {
+    return text.split(/\r?\n/).flatMap((line, lineNumber) =>
+      [...line.matchAll(SLACK_URL_REGEX_GLOBAL)].flatMap(match => {
+        const url = parseSlackUrl(match[0])
+        return url ? [new SlackUrlOccurrence(url, rangeFromTextLineMatch(lineNumber, match))] : []
+      })
+    )
+  }
+
   /**
    * Find the URL at a specific position, if any.
    * If position is on a line with a single URL, returns that URL even if not directly on it.
@@ -86,15 +98,29 @@ export class SlackUrlOccurrence {
   }
 
   /**
-   * Get the range of just the timestamp within the URL (the "p123..." segment).
+   * Get the range of just the timestamp within the URL: the "p123..." segment of an
+   * archive link, the trailing ts of a client link, or the `message=` value of a deep link.
    */
   timestampRange(): vscode.Range | null {
-    const pIndex = this.url.raw.lastIndexOf("/p")
+    const {raw, kind} = this.url
+
+    if (kind === "client") {
+      const start = raw.lastIndexOf("-") + 1
+      return rangeWithin(this.range, start, raw.length - start)
+    }
+
+    if (kind === "deepLink") {
+      const match = /[?&]message=([^&]+)/.exec(raw)
+      if (!match) return null
+      return rangeWithin(this.range, match.index + match[0].length - match[1].length, match[1].length)
+    }
+
+    const pIndex = raw.lastIndexOf("/p")
     if (pIndex === -1) return null
 
     const start = pIndex + 1 // skip the "/"
-    const queryStart = this.url.raw.indexOf("?", start)
-    const end = queryStart === -1 ? this.url.raw.length : queryStart
+    const queryStart = raw.indexOf("?", start)
+    const end = queryStart === -1 ? raw.length : queryStart
 
     return rangeWithin(this.range, start, end - start)
   }
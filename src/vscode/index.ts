@@ -3,20 +3,37 @@
  */
 
 // Config
-export {Settings, type InlineSettings, type HoverSettings, type HighlightingSettings} from "./config"
+export {Settings, type InlineSettings, type HoverSettings, type HighlightingSettings, type LinkSettings, type CacheSettings} from "./config"
 export type {LoaderDependencies} from "./dependencies"
 
 // Editor
-export {SlackUrlOccurrence} from "./editor"
+export {SlackUrlOccurrence, SlackFileUrlOccurrence, SlackEntityUrlOccurrence} from "./editor"
 
 // Renderers
-export {HoverContentBuilder, formatRelativeTime, formatAbsoluteTime} from "./renderers"
+export {
+  HoverContentBuilder,
+  renderBlocks,
+  renderAttachment,
+  colorBar,
+  formatRelativeTime,
+  formatAbsoluteTime
+} from "./renderers"
 
 // Providers
-export {HoverProvider, CodeActionProvider} from "./providers"
+export {
+  HoverProvider,
+  CodeActionProvider,
+  CodeLensProvider,
+  ThreadDocumentProvider,
+  DocumentLinkProvider,
+  ReferencesTreeProvider
+} from "./providers"
 
 // Controllers
-export {DecorationController} from "./controllers"
+export {DecorationController, ThreadPanelController, ReferenceIndex, type SlackReference} from "./controllers"
+
+// Storage
+export {PersistentCache, cacheAccount} from "./storage"
 
 // Commands
 export {registerCommands, type CommandDependencies} from "./commands"
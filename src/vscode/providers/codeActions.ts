@@ -1,10 +1,15 @@
 /**
- * CodeActionProvider - Quick actions (Cmd+.) for Slack URLs.
+ * CodeActionProvider - Quick actions (Cmd+.) for Slack URLs and Linear issue references.
+ *
+ * Links flagged in the Problems panel also get quick fixes: remove the reference,
+ * open the resolved Linear ticket, or look the message up again.
  */
 
 import * as vscode from "vscode"
+import type {LinearIssue} from "../../linear"
 import type {LoaderDependencies} from "../dependencies"
-import {SlackUrlOccurrence} from "../editor"
+import {SlackUrlOccurrence, LinearIssueOccurrence} from "../editor"
+import {diagnosticCode, formatIdentifiers, linearIssueTarget} from "../renderers"
 
 /** Code action definition */
 interface ActionDef {
@@ -20,17 +25,47 @@ const toCodeAction = ({title, command, args}: ActionDef): vscode.CodeAction => {
   return action
 }
 
+/**
+ * Post, assign, set status and claim actions for the issues, posting from `fromLine`.
+ * With several issues, each command asks which one it's for.
+ */
+const linearActions = (issues: LinearIssue[], fromLine: number, hasSelection: boolean): ActionDef[] => {
+  if (issues.length === 0) return []
+  const target = linearIssueTarget(issues)
+  const identifier = formatIdentifiers(issues)
+  const postLabel = hasSelection ? `Post selection as comment on ${identifier} (Linear)` : `Post as comment on ${identifier} (Linear)`
+  const claimLabel = hasSelection
+    ? `Post selection, assign & close ${identifier} (Linear)`
+    : `Post snippet, assign & close ${identifier} (Linear)`
+  return [
+    {title: postLabel, command: "slackoscope.postToLinear", args: {...target, fromLine}},
+    {title: `Assign ${identifier} to me (Linear)`, command: "slackoscope.assignToMe", args: {...target}},
+    {title: `Set ${identifier} status (Linear)`, command: "slackoscope.setStatus", args: {...target}},
+    {title: claimLabel, command: "slackoscope.claimAndClose", args: {...target, fromLine}},
+  ]
+}
+
 export class CodeActionProvider implements vscode.CodeActionProvider {
-  static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorInline]
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorInline]
 
   constructor(private readonly deps: LoaderDependencies) {}
 
   async provideCodeActions(
     document: vscode.TextDocument,
-    range: vscode.Range | vscode.Selection
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
   ): Promise<vscode.CodeAction[]> {
+    const quickFixes = context.diagnostics.flatMap(diagnostic => this.quickFixes(document, diagnostic))
+
+    // An issue referenced right here wins over the line's Slack link
+    const issueOccurrence = LinearIssueOccurrence.at(document, range.start)
+    const issue = issueOccurrence && (await this.deps.linearLoader.getIssue(issueOccurrence.identifier))
+    if (issueOccurrence && issue) {
+      return [...quickFixes, ...linearActions([issue], issueOccurrence.range.start.line, !range.isEmpty).map(toCodeAction)]
+    }
+
     const occurrence = SlackUrlOccurrence.at(document, range.start)
-    if (!occurrence) return []
+    if (!occurrence) return quickFixes
 
     const {url} = occurrence
     const actions: ActionDef[] = [
@@ -40,30 +75,51 @@ export class CodeActionProvider implements vscode.CodeActionProvider {
     // Check for Linear issue
     try {
       const {all} = await this.deps.slackLoader.getMessagesForUrl(url)
-      const metadata = await this.deps.linearLoader.getMetadataForUrl(url, all)
-
-      if (metadata) {
-        const issue = await this.deps.linearLoader.getIssue(metadata.identifier)
-        if (issue) {
-          const {id: issueId, identifier} = issue
-          const fromLine = occurrence.range.start.line
-          const hasSelection = !range.isEmpty
-          const postLabel = hasSelection ? `Post selection as comment on ${identifier} (Linear)` : `Post as comment on ${identifier} (Linear)`
-          const claimLabel = hasSelection
-            ? `Post selection, assign & close ${identifier} (Linear)`
-            : `Post snippet, assign & close ${identifier} (Linear)`
-          actions.push(
-            {title: postLabel, command: "slackoscope.postToLinear", args: {issueId, identifier, fromLine}},
-            {title: `Assign ${identifier} to me (Linear)`, command: "slackoscope.assignToMe", args: {issueId, identifier}},
-            {title: `Set ${identifier} status (Linear)`, command: "slackoscope.setStatus", args: {issueId, identifier}},
-            {title: claimLabel, command: "slackoscope.claimAndClose", args: {issueId, identifier, fromLine}}
-          )
-        }
-      }
+      const issues = await this.deps.linearLoader.getIssuesForUrl(url, all)
+      actions.push(...linearActions(issues, occurrence.range.start.line, !range.isEmpty))
     } catch {
       // Ignore errors - just don't show Linear actions
     }
 
-    return actions.map(toCodeAction)
+    return [...quickFixes, ...actions.map(toCodeAction)]
   }
+
+  private quickFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+    const code = diagnosticCode(diagnostic)
+    const occurrence = code && SlackUrlOccurrence.at(document, diagnostic.range.start)
+    if (!occurrence) return []
+
+    const fix = (title: string) => {
+      const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix)
+      action.diagnostics = [diagnostic]
+      return action
+    }
+
+    const remove = fix("Remove reference")
+    remove.edit = new vscode.WorkspaceEdit()
+    remove.edit.delete(document.uri, removalRange(document, occurrence.range))
+
+    const refresh = fix("Refresh")
+    refresh.command = {title: "Refresh", command: "slackoscope.refreshMessage", arguments: [{url: occurrence.url.raw}]}
+
+    if (code === "issue-resolved" && typeof diagnostic.code === "object") {
+      const open = fix("Open ticket")
+      open.command = {title: "Open ticket", command: "vscode.open", arguments: [diagnostic.code.target]}
+      open.isPreferred = true
+      return [open, remove, refresh]
+    }
+
+    // Nothing left to see at a dead link
+    remove.isPreferred = code === "message-deleted" || code === "message-not-found"
+    return [remove, refresh]
+  }
+}
+
+/** What removing a link takes out: the whole line when nothing but comment markers would be left */
+function removalRange(document: vscode.TextDocument, range: vscode.Range): vscode.Range {
+  const line = document.lineAt(range.start.line)
+  const rest = line.text.slice(0, range.start.character) + line.text.slice(range.end.character)
+  if (!/^[\s/#*;<!>-]*$/.test(rest)) return range
+
+  return line.rangeIncludingLineBreak
 }
@@ -0,0 +1,90 @@
+/**
+ * CodeLensProvider - A summary line above each line with a Slack link.
+ *
+ * An alternative to the inline preview, which gets crowded at the end of long lines:
+ * "#channel · @author · 12 replies · last activity 3d ago", then the thread's Linear
+ * issue and a refresh action. Each part is its own lens, so each is clickable: the
+ * summary opens the thread, the issue offers the Linear actions.
+ */
+
+import * as vscode from "vscode"
+import {MessageDeletedError, type SlackMessage} from "../../slack"
+import type {CodeLensSettings, Settings} from "../config"
+import type {LoaderDependencies} from "../dependencies"
+import {SlackUrlOccurrence} from "../editor"
+import {formatRelativeTime, slackTsToDate} from "../renderers"
+
+export class CodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+  private readonly changes = new vscode.EventEmitter<void>()
+  readonly onDidChangeCodeLenses = this.changes.event
+
+  constructor(
+    private readonly deps: LoaderDependencies,
+    private readonly settings: Settings
+  ) {}
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    const settings = this.settings.codeLens
+    if (!settings.enabled) return []
+
+    const occurrences = SlackUrlOccurrence.scanDocument(document)
+    const lenses = await Promise.all(occurrences.map(occurrence => this.lensesFor(occurrence, settings)))
+    return lenses.flat()
+  }
+
+  /** Ask VS Code for fresh lenses, e.g. after a background refresh or a settings change */
+  refresh(): void {
+    this.changes.fire()
+  }
+
+  private async lensesFor({url, range}: SlackUrlOccurrence, settings: CodeLensSettings): Promise<vscode.CodeLens[]> {
+    const lens = (title: string, command: string, args: unknown) =>
+      new vscode.CodeLens(range, {title, command, arguments: [args]})
+    const refresh = lens("↻ Refresh", "slackoscope.refreshMessage", {url: url.raw})
+
+    try {
+      const {slackLoader, linearLoader} = this.deps
+      const {target, all, replyCount} = await slackLoader.getMessagesForUrl(url)
+
+      const channel = await slackLoader.getChannel(url.channelId).catch(() => undefined)
+      const parts = [channel ? `#${channel.name}` : url.channelId]
+      if (settings.showAuthor) parts.push(`@${(await slackLoader.getAuthor(target)).name}`)
+      if (settings.showReplies && replyCount) parts.push(replyCount === 1 ? "1 reply" : `${replyCount} replies`)
+      if (settings.showLastActivity) parts.push(`last activity ${formatRelativeTime(lastActivity(all))}`)
+
+      const lenses = [lens(parts.join(" · "), "slackoscope.openThread", {url: url.raw})]
+
+      if (settings.showLinear) {
+        // One lens per issue the thread references, best match first
+        for (const issue of await linearLoader.getIssuesForUrl(url, all)) {
+          const {id: issueId, identifier} = issue
+          lenses.push(
+            lens(`${identifier} ${issue.state.name}`, "slackoscope.linearActions", {
+              issueId,
+              identifier,
+              url: issue.url,
+              fromLine: range.start.line
+            })
+          )
+        }
+      }
+
+      return [...lenses, refresh]
+    } catch (error) {
+      // The thread view explains what went wrong
+      const title = error instanceof MessageDeletedError ? "Message deleted" : "⚠️ Slack message unavailable"
+      return [lens(title, "slackoscope.openThread", {url: url.raw}), refresh]
+    }
+  }
+
+  dispose(): void {
+    this.changes.dispose()
+  }
+}
+
+/** When the newest message of the thread was posted, whether or not it was loaded */
+function lastActivity(messages: SlackMessage[]): Date {
+  // Long threads are loaded a page at a time; the parent knows when its newest reply came in
+  const times = messages.flatMap(({ts, latestReply}) => (latestReply ? [ts, latestReply] : [ts]))
+  return slackTsToDate(times.reduce((latest, ts) => (parseFloat(ts) > parseFloat(latest) ? ts : latest), "0"))
+}
@@ -0,0 +1,27 @@
+/**
+ * DocumentLinkProvider - Ctrl+click a Slack message link to read its thread in the editor.
+ *
+ * The link opens the `slackoscope:` document for the thread instead of the browser.
+ * Turned off by `slackoscope.links.openThreadDocument`.
+ */
+
+import * as vscode from "vscode"
+import type {Settings} from "../config"
+import {SlackUrlOccurrence} from "../editor"
+import {ThreadDocumentProvider} from "./threadDocument"
+
+export class DocumentLinkProvider implements vscode.DocumentLinkProvider {
+  constructor(private readonly settings: Settings) {}
+
+  provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    if (!this.settings.links.openThreadDocument) return []
+    // A thread document's own "Open in Slack" link should still go to Slack
+    if (document.uri.scheme === ThreadDocumentProvider.scheme) return []
+
+    return SlackUrlOccurrence.scanDocument(document).map(({url, range}) => {
+      const link = new vscode.DocumentLink(range, ThreadDocumentProvider.uri(url))
+      link.tooltip = "Open the thread as a document"
+      return link
+    })
+  }
+}
@@ -1,13 +1,16 @@
 /**
- * HoverProvider - Shows message preview when hovering over Slack URLs.
+ * HoverProvider - Shows message preview when hovering over Slack URLs,
+ * file details over file permalinks, a channel or profile card over
+ * channel and user links, and an issue card over Linear issue references.
  */
 
 import * as vscode from "vscode"
+import {hasLayoutBlocks, mentionSource, MessageDeletedError, SlackError, type SlackUrl} from "../../slack"
 import type {LinearIssue} from "../../linear"
 import type {Settings} from "../config"
 import type {LoaderDependencies} from "../dependencies"
-import {SlackUrlOccurrence} from "../editor"
-import {HoverContentBuilder, type ActionDef} from "../renderers"
+import {SlackUrlOccurrence, SlackFileUrlOccurrence, SlackEntityUrlOccurrence, LinearIssueOccurrence} from "../editor"
+import {HoverContentBuilder, formatIdentifiers, linearIssueTarget, type ActionDef} from "../renderers"
 
 export class HoverProvider implements vscode.HoverProvider {
   constructor(
@@ -16,14 +19,31 @@ export class HoverProvider implements vscode.HoverProvider {
   ) {}
 
   async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | null> {
+    // File, channel and user links are checked first: `SlackUrlOccurrence.at` falls back to
+    // the only message URL on the line, which would shadow another link sitting next to it.
+    const fileOccurrence = SlackFileUrlOccurrence.at(document, position)
+    if (fileOccurrence) return this.fileHover(fileOccurrence)
+
+    const entityOccurrence = SlackEntityUrlOccurrence.at(document, position)
+    if (entityOccurrence) return this.entityHover(entityOccurrence)
+
+    // An identifier Linear doesn't know falls through to the line's Slack link
+    const issueOccurrence = LinearIssueOccurrence.at(document, position)
+    const issueHover = issueOccurrence && (await this.issueHover(issueOccurrence))
+    if (issueHover) return issueHover
+
     const occurrence = SlackUrlOccurrence.at(document, position)
     if (!occurrence) return null
 
+    return this.messageHover(occurrence)
+  }
+
+  private async messageHover(occurrence: SlackUrlOccurrence): Promise<vscode.Hover | null> {
     try {
       const {url} = occurrence
 
       // Fetch messages
-      const {target, all, replyCount} = await this.deps.slackLoader.getMessagesForUrl(url)
+      const {target, all, replyCount, moreReplies} = await this.deps.slackLoader.getMessagesForUrl(url)
 
       // Build hover content
       const builder = new HoverContentBuilder()
@@ -34,51 +54,175 @@ export class HoverProvider implements vscode.HoverProvider {
         builder.channel(channel, !!url.threadTs)
       }
 
-      // Author
-      const user = await this.deps.slackLoader.getUser(target.user)
+      // Author (bots name themselves, so no user lookup for them)
+      const author = await this.deps.slackLoader.getAuthor(target)
       const context = url.threadTs ? (target.ts === url.threadTs ? "Thread started" : "Thread reply") : undefined
-      builder.author(user, target, context)
-
-      // Message + reply count (tucked right below)
-      builder.message(target.text)
-      builder.replies(replyCount)
+      builder.author(author, target, context)
+
+      // Message (or its Block Kit layout) + attachments + reactions + reply count (tucked right below)
+      const mentions = await this.deps.slackLoader.getMentionNames(mentionSource(target))
+      if (hasLayoutBlocks(target)) {
+        builder.blocks(target.blocks ?? [], mentions)
+      } else {
+        builder.message(target.text, mentions)
+      }
+      builder.attachments(target.attachments ?? [], mentions)
+      builder.reactions(target.reactions)
+      builder.replies(replyCount, moreReplies)
 
       // Files
       if (this.settings.hover.showFiles && target.files?.length) {
         builder.files(target.files, this.settings.hover.showFileInfo)
       }
 
-      // Linear issue detection
-      const linearMetadata = await this.deps.linearLoader.getMetadataForUrl(url, all)
-      let linearIssue: LinearIssue | null = null
-      if (linearMetadata) {
-        linearIssue = await this.deps.linearLoader.getIssue(linearMetadata.identifier)
-      }
+      // Linear issue detection, best match first
+      const linearIssues = await this.deps.linearLoader.getIssuesForUrl(url, all)
 
-      // Linear info
-      builder.linearInfo(linearIssue ?? undefined)
+      // Linear info, each issue with the links already attached to it
+      const attachments = await Promise.all(linearIssues.map(({id}) => this.deps.linearLoader.getAttachments(id)))
+      linearIssues.forEach((issue, i) => builder.linearInfo(issue).linearAttachments(attachments[i]))
 
       // Actions — separated from content
       builder.separator()
 
       const slackActions: ActionDef[] = [
-        {label: "⨁ Inline as comment", command: "slackoscope.insertCommentedMessage", args: {url: url.raw, lineNumber: occurrence.range.start.line, linearIdentifier: linearIssue?.identifier}},
+        {label: "⨁ Inline as comment", command: "slackoscope.insertCommentedMessage", args: {url: url.raw, lineNumber: occurrence.range.start.line, linearIdentifier: linearIssues[0]?.identifier}},
         {label: "↻ Refresh", command: "slackoscope.refreshMessage", args: {url: url.raw}},
       ]
+      // Threads get read in full beside the editor
+      if (url.threadTs || replyCount > 0) {
+        slackActions.push({label: "☰ Open thread", command: "slackoscope.openThread", args: {url: url.raw}})
+      }
 
-      const linearActions: ActionDef[] = linearIssue
-        ? [
-            {label: `⏎ Post as comment on ${linearIssue.identifier}`, command: "slackoscope.postToLinear", args: {issueId: linearIssue.id, identifier: linearIssue.identifier, fromLine: occurrence.range.start.line}},
-            {label: `𖨆 Assign to me`, command: "slackoscope.assignToMe", args: {issueId: linearIssue.id, identifier: linearIssue.identifier}},
-            {label: `𜳨 Set status`, command: "slackoscope.setStatus", args: {issueId: linearIssue.id, identifier: linearIssue.identifier}},
-          ]
-        : []
-
+      const linearActions = linearIssues.length
+        ? this.linearActions(linearIssues, occurrence.range.start.line, url)
+        : this.createIssueActions(url)
       builder.actionRows(slackActions, linearActions)
 
       return new vscode.Hover(builder.build())
     } catch (error) {
+      if (error instanceof MessageDeletedError) return this.deletedHover(occurrence.url)
       console.error("Hover error:", error)
+      if (error instanceof SlackError) return this.failureHover(error, occurrence.url.channelId, occurrence.url)
+      if (error instanceof Error) {
+        const md = new vscode.MarkdownString(`⚠️ **Error**: ${error.message}`)
+        return new vscode.Hover(md)
+      }
+      return null
+    }
+  }
+
+  /** Offer to file an issue for a thread that has none, when Linear is set up */
+  private createIssueActions(url: SlackUrl): ActionDef[] {
+    if (!this.deps.linearLoader.isConfigured) return []
+    return [{label: "＋ Create Linear issue", command: "slackoscope.createLinearIssue", args: {url: url.raw}}]
+  }
+
+  /**
+   * With several issues, each command asks which one it's for.
+   * Under a Slack link, the thread can also be attached to the issue.
+   */
+  private linearActions(issues: LinearIssue[], fromLine: number, url?: SlackUrl): ActionDef[] {
+    if (issues.length === 0) return []
+    const target = linearIssueTarget(issues)
+    const actions: ActionDef[] = [
+      {label: `⏎ Post as comment on ${formatIdentifiers(issues)}`, command: "slackoscope.postToLinear", args: {...target, fromLine}},
+      {label: `𖨆 Assign to me`, command: "slackoscope.assignToMe", args: target},
+      {label: `𜳨 Set status`, command: "slackoscope.setStatus", args: target},
+    ]
+    if (url) actions.push({label: "⛓ Attach thread", command: "slackoscope.attachToLinear", args: {...target, url: url.raw, fromLine}})
+    return actions
+  }
+
+  /** The issue behind a Linear link or identifier, or null when Linear isn't set up or doesn't know it */
+  private async issueHover(occurrence: LinearIssueOccurrence): Promise<vscode.Hover | null> {
+    const issue = await this.deps.linearLoader.getIssue(occurrence.identifier)
+    if (!issue) return null
+
+    const builder = new HoverContentBuilder()
+    builder.linearIssue(issue)
+    builder.linearAttachments(await this.deps.linearLoader.getAttachments(issue.id))
+    builder.separator()
+    builder.actionRows(this.linearActions([issue], occurrence.range.start.line))
+
+    return new vscode.Hover(builder.build())
+  }
+
+  /** A deleted message gets a tombstone instead of an error - the link is stale, not broken */
+  private async deletedHover(url: SlackUrl): Promise<vscode.Hover> {
+    const builder = new HoverContentBuilder()
+
+    // The channel is still there even if the message isn't
+    if (this.settings.hover.showChannel) {
+      const channel = await this.deps.slackLoader.getChannel(url.channelId).catch(() => undefined)
+      if (channel) builder.channel(channel, !!url.threadTs)
+    }
+
+    builder.deleted(url.messageTs)
+    builder.separator()
+    builder.actionRows([{label: "↻ Refresh", command: "slackoscope.refreshMessage", args: {url: url.raw}}])
+
+    return new vscode.Hover(builder.build())
+  }
+
+  /**
+   * Say why Slack refused and what would fix it, rather than echoing the raw error code.
+   * Links into a channel name it when the token can still see it, else show its ID.
+   */
+  private async failureHover(error: SlackError, channelId?: string, url?: SlackUrl): Promise<vscode.Hover> {
+    const builder = new HoverContentBuilder()
+
+    const channel = channelId && (await this.deps.slackLoader.getChannel(channelId).catch(() => undefined))
+    builder.failure(error, channel || channelId)
+
+    if (url) {
+      builder.separator()
+      builder.actionRows([{label: "↻ Refresh", command: "slackoscope.refreshMessage", args: {url: url.raw}}])
+    }
+
+    return new vscode.Hover(builder.build())
+  }
+
+  private async fileHover(occurrence: SlackFileUrlOccurrence): Promise<vscode.Hover | null> {
+    try {
+      const file = await this.deps.slackLoader.getFile(occurrence.url.fileId)
+
+      const builder = new HoverContentBuilder()
+
+      // A missing uploader shouldn't cost us the rest of the hover
+      const uploaderId = file.user ?? occurrence.url.userId
+      const user = await this.deps.slackLoader.getUser(uploaderId).catch(() => undefined)
+      builder.uploader(user, file)
+
+      builder.files([file], true)
+      builder.snippet(file)
+
+      return new vscode.Hover(builder.build())
+    } catch (error) {
+      console.error("File hover error:", error)
+      if (error instanceof SlackError) return this.failureHover(error)
+      if (error instanceof Error) {
+        const md = new vscode.MarkdownString(`⚠️ **Error**: ${error.message}`)
+        return new vscode.Hover(md)
+      }
+      return null
+    }
+  }
+
+  private async entityHover({url}: SlackEntityUrlOccurrence): Promise<vscode.Hover | null> {
+    try {
+      const builder = new HoverContentBuilder()
+
+      if (url.kind === "channel") {
+        builder.channelDetails(await this.deps.slackLoader.getChannel(url.channelId))
+      } else {
+        builder.userProfile(await this.deps.slackLoader.getUser(url.userId))
+      }
+
+      return new vscode.Hover(builder.build())
+    } catch (error) {
+      console.error("Link hover error:", error)
+      if (error instanceof SlackError) return this.failureHover(error, url.kind === "channel" ? url.channelId : undefined)
       if (error instanceof Error) {
         const md = new vscode.MarkdownString(`⚠️ **Error**: ${error.message}`)
         return new vscode.Hover(md)
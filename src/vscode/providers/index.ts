@@ -1,6 +1,11 @@
 /**
- * VS Code Providers - Hover, CodeActions.
+ * VS Code Providers - Hover, CodeActions, CodeLens, thread documents and the links that
+ * open them, and the Slack References tree.
  */
 
 export {HoverProvider} from "./hover"
 export {CodeActionProvider} from "./codeActions"
+export {CodeLensProvider} from "./codeLens"
+export {ThreadDocumentProvider} from "./threadDocument"
+export {DocumentLinkProvider} from "./documentLinks"
+export {ReferencesTreeProvider, type ReferenceNode} from "./referencesTree"
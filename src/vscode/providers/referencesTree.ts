@@ -0,0 +1,133 @@
+/**
+ * ReferencesTreeProvider - The "Slack References" view: which Slack threads this repo links to.
+ *
+ * Groups the workspace's references by channel, then thread, then file, down to each
+ * line. Threads show a preview of the linked message and the state of its Linear
+ * issue; lines jump to the link.
+ */
+
+import * as vscode from "vscode"
+import {mentionSource, mrkdwnToPlainText, MessageDeletedError, SlackStore, type SlackUrl} from "../../slack"
+import type {ReferenceIndex, SlackReference} from "../controllers"
+import type {LoaderDependencies} from "../dependencies"
+import {collapseLine, truncate} from "../renderers"
+
+export type ReferenceNode =
+  | {kind: "channel"; channelId: string; references: SlackReference[]}
+  | {kind: "thread"; url: SlackUrl; references: SlackReference[]}
+  | {kind: "file"; uri: vscode.Uri; references: SlackReference[]}
+  | {kind: "reference"; reference: SlackReference}
+
+/** Longest thread preview shown in the tree */
+const PREVIEW_LENGTH = 80
+
+export class ReferencesTreeProvider implements vscode.TreeDataProvider<ReferenceNode> {
+  readonly onDidChangeTreeData: vscode.Event<void>
+
+  constructor(
+    private readonly index: ReferenceIndex,
+    private readonly deps: LoaderDependencies
+  ) {
+    this.onDidChangeTreeData = index.onDidChange
+  }
+
+  getChildren(node?: ReferenceNode): ReferenceNode[] {
+    if (!node) {
+      return groupBy(this.index.references, ({occurrence}) => occurrence.url.channelId).map(
+        ([channelId, references]) => ({kind: "channel", channelId, references})
+      )
+    }
+
+    switch (node.kind) {
+      case "channel":
+        return groupBy(node.references, ({occurrence: {url}}) =>
+          SlackStore.key(url.channelId, url.threadTs ?? url.messageTs)
+        ).map(([, references]) => ({kind: "thread", url: references[0].occurrence.url, references}))
+      case "thread":
+        return groupBy(node.references, ({uri}) => uri.toString()).map(([, references]) => ({
+          kind: "file",
+          uri: references[0].uri,
+          references
+        }))
+      case "file":
+        return [...node.references]
+          .sort((a, b) => a.occurrence.range.start.line - b.occurrence.range.start.line)
+          .map(reference => ({kind: "reference", reference}))
+      case "reference":
+        return []
+    }
+  }
+
+  async getTreeItem(node: ReferenceNode): Promise<vscode.TreeItem> {
+    switch (node.kind) {
+      case "channel":
+        return this.channelItem(node.channelId, node.references)
+      case "thread":
+        return this.threadItem(node.url, node.references)
+      case "file": {
+        const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Expanded)
+        item.description = count(node.references)
+        item.tooltip = vscode.workspace.asRelativePath(node.uri)
+        return item
+      }
+      case "reference":
+        return referenceItem(node.reference)
+    }
+  }
+
+  private async channelItem(channelId: string, references: SlackReference[]): Promise<vscode.TreeItem> {
+    const channel = await this.deps.slackLoader.getChannel(channelId).catch(() => undefined)
+    const item = new vscode.TreeItem(
+      channel ? `#${channel.name}` : channelId,
+      vscode.TreeItemCollapsibleState.Collapsed
+    )
+    item.iconPath = new vscode.ThemeIcon(channel?.isPrivate ? "lock" : "comment-discussion")
+    item.description = count(references)
+    return item
+  }
+
+  /** The linked message as the label, its Linear issue's state as the description */
+  private async threadItem(url: SlackUrl, references: SlackReference[]): Promise<vscode.TreeItem> {
+    const item = new vscode.TreeItem(url.raw, vscode.TreeItemCollapsibleState.Collapsed)
+    item.iconPath = new vscode.ThemeIcon(url.threadTs ? "comment-discussion" : "comment")
+    item.description = count(references)
+
+    try {
+      const {slackLoader, linearLoader} = this.deps
+      const {target, all} = await slackLoader.getMessagesForUrl(url)
+      const text = mrkdwnToPlainText(target.text, await slackLoader.getMentionNames(mentionSource(target)))
+      item.label = truncate(collapseLine(text), PREVIEW_LENGTH) || "(no text)"
+      item.tooltip = new vscode.MarkdownString().appendText(text).appendMarkdown(`\n\n[Open in Slack](${url.raw})`)
+
+      const [issue] = await linearLoader.getIssuesForUrl(url, all)
+      if (issue) item.description = `${issue.identifier} · ${issue.state.name} · ${count(references)}`
+    } catch (error) {
+      item.label = error instanceof MessageDeletedError ? "Message deleted" : "Message unavailable"
+      item.tooltip = url.raw
+    }
+    return item
+  }
+}
+
+function referenceItem({uri, occurrence, lineText}: SlackReference): vscode.TreeItem {
+  const {range} = occurrence
+  const item = new vscode.TreeItem(truncate(lineText, PREVIEW_LENGTH), vscode.TreeItemCollapsibleState.None)
+  item.description = `line ${range.start.line + 1}`
+  item.tooltip = occurrence.url.raw
+  item.command = {title: "Go to reference", command: "vscode.open", arguments: [uri, {selection: range}]}
+  return item
+}
+
+function count(references: SlackReference[]): string {
+  return references.length === 1 ? "1 reference" : `${references.length} references`
+}
+
+/** Group items by key, biggest group first */
+function groupBy<T>(items: T[], keyOf: (item: T) => string): [string, T[]][] {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const key = keyOf(item)
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  }
+  return [...groups].sort(([, a], [, b]) => b.length - a.length)
+}
@@ -0,0 +1,61 @@
+/**
+ * ThreadDocumentProvider - A Slack thread as a read-only Markdown document.
+ *
+ * Documents live under the `slackoscope:` scheme, one per link, with the Slack URL
+ * in the query. They can be searched, copied from, split beside code, and previewed
+ * like any Markdown file. Background refreshes of the thread update open documents.
+ */
+
+import * as vscode from "vscode"
+import {parseSlackUrl, SlackStore, type SlackStoreChange, type SlackUrl} from "../../slack"
+import type {LoaderDependencies} from "../dependencies"
+import {renderThreadMarkdown} from "../renderers"
+import {describeThreadFailure, loadThreadView} from "../controllers"
+
+export class ThreadDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  static readonly scheme = "slackoscope"
+
+  private readonly changes = new vscode.EventEmitter<vscode.Uri>()
+  readonly onDidChange = this.changes.event
+
+  constructor(private readonly deps: LoaderDependencies) {}
+
+  /** The document for a link. The `.md` path gives it the Markdown language. */
+  static uri(url: SlackUrl): vscode.Uri {
+    const threadTs = url.threadTs ?? url.messageTs
+    return vscode.Uri.from({
+      scheme: ThreadDocumentProvider.scheme,
+      path: `/${url.channelId}/thread-${threadTs}.md`,
+      query: url.raw
+    })
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const url = parseSlackUrl(uri.query)
+    if (!url) return "# Slack thread\n\nThis document's Slack link couldn't be read.\n"
+
+    try {
+      return renderThreadMarkdown(await loadThreadView(this.deps, url), url.raw)
+    } catch (error) {
+      console.error("Thread document error:", error)
+      return `# Slack thread\n\n⚠️ ${describeThreadFailure(error)}\n`
+    }
+  }
+
+  /** Re-render open documents whose thread a background refresh just changed */
+  refresh({resource, key}: SlackStoreChange): void {
+    if (resource !== "threads") return
+
+    for (const document of vscode.workspace.textDocuments) {
+      if (document.uri.scheme !== ThreadDocumentProvider.scheme) continue
+      const url = parseSlackUrl(document.uri.query)
+      if (url && SlackStore.isThreadKey(key, SlackStore.key(url.channelId, url.threadTs ?? url.messageTs))) {
+        this.changes.fire(document.uri)
+      }
+    }
+  }
+
+  dispose(): void {
+    this.changes.dispose()
+  }
+}
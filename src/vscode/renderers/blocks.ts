@@ -0,0 +1,269 @@
+/**
+ * BlockRenderer - Turns Block Kit layouts and legacy attachments into hover Markdown.
+ *
+ * Bot and workflow messages keep their real content here, with `text` as a
+ * notification fallback. Interactive parts (buttons without a URL, menus) are
+ * dropped: a hover can't act on them.
+ */
+
+import {
+  mrkdwnToMarkdown,
+  replaceEmoji,
+  type MentionNames,
+  type SlackAttachment,
+  type SlackAttachmentField,
+  type SlackBlock,
+  type SlackBlockElement,
+  type SlackRichTextElement,
+  type SlackRichTextInline,
+  type SlackRichTextStyle,
+  type SlackTextObject
+} from "../../slack"
+import {LINK_SCHEMES, link, linkTarget} from "../../lib/markdownLinks"
+import {formatRelativeTime} from "./formatting"
+
+/** Slack's named attachment colors */
+const NAMED_COLORS: Record<string, string> = {
+  good: "🟩",
+  warning: "🟨",
+  danger: "🟥"
+}
+
+/** Hue upper bounds (degrees) for the colored squares; reds wrap around past the last one */
+const HUE_SQUARES: Array<{max: number; square: string}> = [
+  {max: 15, square: "🟥"},
+  {max: 45, square: "🟧"},
+  {max: 70, square: "🟨"},
+  {max: 165, square: "🟩"},
+  {max: 255, square: "🟦"},
+  {max: 320, square: "🟪"},
+  {max: 360, square: "🟥"}
+]
+
+
+/**
+ * Render a Block Kit layout. Blocks are separated by blank lines.
+ */
+export function renderBlocks(blocks: SlackBlock[], mentions?: MentionNames): string {
+  return blocks
+    .map(block => renderBlock(block, mentions))
+    .filter(Boolean)
+    .join("\n\n")
+}
+
+/**
+ * Render a legacy attachment: pretext, then a color bar leading author, title
+ * (linked to `title_link`), text, fields as a table, blocks, image and footer.
+ * Returns "" for attachments with nothing to show, like a bare Linear Asks `from_url`.
+ */
+export function renderAttachment(attachment: SlackAttachment, mentions?: MentionNames): string {
+  const parts: string[] = []
+
+  if (attachment.author_name) {
+    const author = escapeText(attachment.author_name)
+    parts.push(`_${link(author, attachment.author_link)}_`)
+  }
+  if (attachment.title) {
+    const title = escapeText(attachment.title)
+    parts.push(`**${link(title, attachment.title_link)}**`)
+  }
+  if (attachment.text) parts.push(mrkdwnToMarkdown(attachment.text, mentions))
+  if (attachment.fields?.length) parts.push(fieldsTable(attachment.fields, mentions))
+  if (attachment.blocks?.length) parts.push(renderBlocks(attachment.blocks, mentions))
+  const image = attachment.image_url ? imageLink(escapeText(attachment.title ?? ""), attachment.image_url) : ""
+  if (image) parts.push(image)
+
+  const footer = [
+    attachment.footer && escapeText(attachment.footer),
+    attachment.ts && formatRelativeTime(new Date(Number(attachment.ts) * 1000))
+  ].filter(Boolean)
+  if (footer.length) parts.push(`_${footer.join(" · ")}_`)
+
+  if (!parts.length && attachment.fallback) parts.push(mrkdwnToMarkdown(attachment.fallback, mentions))
+  if (!parts.length) return ""
+
+  // The bar leads the first line, unless that line is a table, image or code block it would break
+  const bar = colorBar(attachment.color)
+  if (bar) {
+    if (/^(?:\||!\[|```)/.test(parts[0])) parts.unshift(bar)
+    else parts[0] = `${bar} ${parts[0]}`
+  }
+
+  const pretext = attachment.pretext ? [mrkdwnToMarkdown(attachment.pretext, mentions)] : []
+  return [...pretext, ...parts].join("\n\n")
+}
+
+/**
+ * The colored square standing in for an attachment's color bar.
+ * Accepts Slack's `good`/`warning`/`danger` or a hex color; returns "" for anything else.
+ */
+export function colorBar(color: string | undefined): string {
+  if (!color) return ""
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color]
+
+  const hex = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(color)?.[1]
+  if (!hex) return ""
+
+  const full = hex.length === 3 ? [...hex].map(c => c + c).join("") : hex
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const lightness = (max + min) / 2
+  const chroma = max - min
+
+  if (chroma < 0.15) return lightness > 0.5 ? "⬜" : "⬛"
+
+  const hue =
+    max === r
+      ? (60 * ((g - b) / chroma) + 360) % 360
+      : max === g
+        ? 60 * ((b - r) / chroma) + 120
+        : 60 * ((r - g) / chroma) + 240
+  const square = HUE_SQUARES.find(({max}) => hue < max)?.square ?? "🟥"
+
+  // Dark oranges read as brown
+  return square === "🟧" && lightness < 0.35 ? "🟫" : square
+}
+
+// Blocks
+
+function renderBlock(block: SlackBlock, mentions?: MentionNames): string {
+  switch (block.type) {
+    case "header":
+      return `### ${textObject(block.text, mentions)}`
+    case "section": {
+      const parts = [
+        block.text ? textObject(block.text, mentions) : "",
+        block.fields?.length ? sectionFieldsTable(block.fields, mentions) : "",
+        block.accessory ? elementLink(block.accessory) : ""
+      ]
+      return parts.filter(Boolean).join("\n\n")
+    }
+    case "context":
+      return block.elements
+        .map(element => ("text" in element ? textObject(element, mentions) : ""))
+        .filter(Boolean)
+        .join(" · ")
+    case "divider":
+      return "---"
+    case "image":
+      return imageLink(escapeText(block.alt_text), block.image_url) || escapeText(block.alt_text)
+    case "actions":
+      return block.elements.map(elementLink).filter(Boolean).join(" · ")
+    case "rich_text":
+      return block.elements.map(element => richTextElement(element, mentions)).join("\n\n")
+    default:
+      return ""
+  }
+}
+
+function textObject(text: SlackTextObject, mentions?: MentionNames): string {
+  return text.type === "mrkdwn" ? mrkdwnToMarkdown(text.text, mentions) : escapeText(replaceEmoji(text.text))
+}
+
+/** Buttons that open a URL are the only elements worth showing in a read-only hover */
+function elementLink(element: SlackBlockElement): string {
+  if (element.type !== "button" || !("url" in element) || !element.url) return ""
+  return link(escapeText(element.text.text), element.url)
+}
+
+// Fields
+
+/** Attachment fields: title and value per row */
+function fieldsTable(fields: SlackAttachmentField[], mentions?: MentionNames): string {
+  return table(fields.map(field => [`**${escapeText(field.title)}**`, mrkdwnToMarkdown(field.value, mentions)]))
+}
+
+/** Section fields are free mrkdwn, conventionally `*Title*\nValue` */
+function sectionFieldsTable(fields: SlackTextObject[], mentions?: MentionNames): string {
+  return table(
+    fields.map(field => {
+      const [title, ...rest] = field.text.split("\n")
+      const render = (text: string) => textObject({...field, text}, mentions)
+      return [render(title), render(rest.join("\n"))]
+    })
+  )
+}
+
+function table(rows: string[][]): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, "<br>")
+  return ["| | |", "|---|---|", ...rows.map(([key, value]) => `| ${cell(key)} | ${cell(value)} |`)].join("\n")
+}
+
+// Rich text
+
+function richTextElement(element: SlackRichTextElement, mentions?: MentionNames): string {
+  switch (element.type) {
+    case "rich_text_section":
+      return inlines(element.elements, mentions)
+    case "rich_text_list": {
+      const indent = "  ".repeat(element.indent ?? 0)
+      return element.elements
+        .map(
+          (item, i) => `${indent}${element.style === "ordered" ? `${i + 1}.` : "-"} ${inlines(item.elements, mentions)}`
+        )
+        .join("\n")
+    }
+    case "rich_text_preformatted": {
+      const code = element.elements.map(inline => ("text" in inline ? (inline.text ?? "") : "")).join("")
+      return "```\n" + code + "\n```"
+    }
+    case "rich_text_quote":
+      return inlines(element.elements, mentions)
+        .split("\n")
+        .map(line => `> ${line}`)
+        .join("\n")
+  }
+}
+
+function inlines(elements: SlackRichTextInline[], mentions?: MentionNames): string {
+  return elements.map(element => inline(element, mentions)).join("")
+}
+
+function inline(element: SlackRichTextInline, mentions?: MentionNames): string {
+  switch (element.type) {
+    case "text":
+      return styled(element.text, element.style)
+    case "link": {
+      return link(styled(element.text || element.url, element.style), element.url)
+    }
+    case "user":
+      return `@${escapeText(mentions?.users[element.user_id] ?? element.user_id)}`
+    case "channel":
+      return `#${escapeText(mentions?.channels[element.channel_id] ?? element.channel_id)}`
+    case "usergroup":
+      return escapeText(`@${element.usergroup_id}`)
+    case "broadcast":
+      return `@${element.range}`
+    case "emoji":
+      return element.unicode
+        ? String.fromCodePoint(...element.unicode.split("-").map(code => parseInt(code, 16)))
+        : replaceEmoji(`:${element.name}:`)
+    case "date":
+      return escapeText(element.fallback ?? new Date(element.timestamp * 1000).toLocaleString())
+  }
+}
+
+function styled(text: string, style: SlackRichTextStyle | undefined): string {
+  if (style?.code) return "`" + text.replace(/`/g, "'") + "`"
+
+  // Markers must hug the text, so keep surrounding whitespace outside them
+  const [, lead, core, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text) ?? ["", "", text, ""]
+  if (!core) return text
+
+  let result = escapeText(core)
+  if (style?.italic) result = `_${result}_`
+  if (style?.bold) result = `**${result}**`
+  if (style?.strike) result = `~~${result}~~`
+  return lead + result + trail
+}
+
+/** A Markdown image, or "" for the same URLs `link()` won't link */
+function imageLink(alt: string, url: string): string {
+  return LINK_SCHEMES.test(url) ? `![${alt}](${linkTarget(url)})` : ""
+}
+
+/** Escape text that should show literally, including `<` so it can't become HTML */
+export function escapeText(text: string): string {
+  return text.replace(/[\\`*_~[\]<>&]|^#/gm, "\\$&")
+}
@@ -6,10 +6,11 @@
 
 import * as vscode from "vscode"
 import type {InlineSettings} from "../config"
-import type {SlackMessage, SlackUser} from "../../slack"
-import {formatRelativeTime, formatAbsoluteTime, slackTsToDate, truncate, collapseLine} from "./formatting"
+import {mrkdwnToPlainText, type SlackMessage, type SlackAuthor, type SlackFile, type MentionNames} from "../../slack"
+import {formatRelativeTime, formatAbsoluteTime, formatReactions, slackTsToDate, truncate, collapseLine} from "./formatting"
 
 const MAX_INLINE_LENGTH = 80
+const MAX_INLINE_REACTIONS = 3
 
 export interface DecorationContent {
   text: string
@@ -31,26 +32,29 @@ export function createInlineDecorationType(settings: InlineSettings): vscode.Tex
 
 /**
  * Build the inline decoration content for a message.
- * Format: @Username: "message preview" • 1m ago
+ * Format: @Username: "message preview" (edited) • 1m ago • 👍 3  ✅ 1
+ * Bots show by name, without the @.
  *
  * NOTE: Channel name and absolute timestamp are shown via URL replacement decorations,
  * so we DON'T include them here to avoid duplication.
  */
 export function buildInlineContent(
   message: SlackMessage,
-  user: SlackUser | undefined,
-  settings: InlineSettings
+  author: SlackAuthor | undefined,
+  settings: InlineSettings,
+  mentions?: MentionNames
 ): DecorationContent {
   let text = ""
 
-  // User name with colon
-  if (settings.showUser && user) {
-    text += `@${user.displayName}: `
+  // Author name with colon
+  if (settings.showUser && author) {
+    text += author.isBot ? `${author.name}: ` : `@${author.name}: `
   }
 
   // Message preview (quoted)
-  const preview = truncate(collapseLine(message.text), MAX_INLINE_LENGTH)
+  const preview = truncate(collapseLine(mrkdwnToPlainText(message.text, mentions)), MAX_INLINE_LENGTH)
   text += `"${preview}"`
+  if (message.edited) text += " (edited)"
 
   // Relative timestamp (only if enabled)
   if (settings.showTime) {
@@ -59,9 +63,40 @@ export function buildInlineContent(
     text += ` • ${time}`
   }
 
+  // Most-used reactions
+  if (message.reactions?.length) {
+    const top = [...message.reactions].sort((a, b) => b.count - a.count).slice(0, MAX_INLINE_REACTIONS)
+    text += ` • ${formatReactions(top, "  ")}`
+  }
+
+  return {text}
+}
+
+/**
+ * Build the inline decoration content for a file permalink.
+ * Format: ☰ build.log (12 KB) • 1m ago
+ */
+export function buildFileInlineContent(file: SlackFile, settings: InlineSettings): DecorationContent {
+  const icon = file.mimetype.startsWith("image/") ? "▣" : "☰"
+  const sizeKb = Math.round(file.size / 1024)
+  let text = `${icon} ${truncate(file.title || file.name, MAX_INLINE_LENGTH)} (${sizeKb} KB)`
+
+  if (settings.showTime && file.created) {
+    const date = new Date(file.created * 1000)
+    const time = settings.useRelativeTime ? formatRelativeTime(date) : formatAbsoluteTime(date)
+    text += ` • ${time}`
+  }
+
   return {text}
 }
 
+/**
+ * Build the inline decoration content for a link whose message was deleted.
+ */
+export function buildDeletedInlineContent(): DecorationContent {
+  return {text: "🗑 message deleted"}
+}
+
 /**
  * Create decoration options for a range with content.
  */
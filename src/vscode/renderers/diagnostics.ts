@@ -0,0 +1,89 @@
+/**
+ * Diagnostics - Slack links worth a second look, as Problems panel entries.
+ *
+ * Three kinds, each with its own severity setting:
+ * - broken: the message was deleted, or Slack can't find it
+ * - inaccessible: the channel is private to the token, or gone
+ * - resolved: the thread's Linear issue is done, so the comment may be stale
+ */
+
+import * as vscode from "vscode"
+import type {SlackError} from "../../slack"
+import type {LinearIssue} from "../../linear"
+import type {DiagnosticLevel, DiagnosticSettings} from "../config"
+import type {SlackUrlOccurrence} from "../editor"
+
+export const DIAGNOSTIC_SOURCE = "Slackoscope"
+
+export type DiagnosticCode = "message-deleted" | "message-not-found" | "channel-not-found" | "issue-resolved"
+
+/** What a document's links turned up, as gathered for its decorations */
+export interface DiagnosticInput {
+  deleted: SlackUrlOccurrence[]
+  failed: {occurrence: SlackUrlOccurrence; error: SlackError}[]
+  issues: {occurrence: SlackUrlOccurrence; issue: LinearIssue}[]
+  doneStateTypes: string[]
+}
+
+const SEVERITIES: Record<Exclude<DiagnosticLevel, "off">, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint
+}
+
+export function buildDiagnostics(input: DiagnosticInput, settings: DiagnosticSettings): vscode.Diagnostic[] {
+  const diagnostics: vscode.Diagnostic[] = []
+  const add = (
+    level: DiagnosticLevel,
+    {range}: SlackUrlOccurrence,
+    message: string,
+    code: vscode.Diagnostic["code"]
+  ) => {
+    if (level === "off") return
+    const diagnostic = new vscode.Diagnostic(range, message, SEVERITIES[level])
+    diagnostic.source = DIAGNOSTIC_SOURCE
+    diagnostic.code = code
+    diagnostics.push(diagnostic)
+  }
+
+  for (const occurrence of input.deleted) {
+    add(settings.brokenLink, occurrence, "Linked Slack message was deleted", "message-deleted")
+  }
+
+  for (const {occurrence, error} of input.failed) {
+    if (error.code === "message_not_found") {
+      add(settings.brokenLink, occurrence, "Linked Slack message wasn't found", "message-not-found")
+    } else if (error.code === "channel_not_found") {
+      add(
+        settings.inaccessibleLink,
+        occurrence,
+        "Can't see the linked Slack channel — it's private and the token isn't a member, or it was deleted",
+        "channel-not-found"
+      )
+    }
+  }
+
+  for (const {occurrence, issue} of input.issues) {
+    if (!input.doneStateTypes.includes(issue.state.type)) continue
+    // The code links to the issue, so the Problems panel can open it
+    add(
+      settings.resolvedIssue,
+      occurrence,
+      `${issue.identifier} is ${issue.state.name} — this reference may be stale`,
+      {
+        value: "issue-resolved",
+        target: vscode.Uri.parse(issue.url)
+      }
+    )
+  }
+
+  return diagnostics
+}
+
+/** The code of one of Slackoscope's diagnostics, or undefined for anyone else's */
+export function diagnosticCode(diagnostic: vscode.Diagnostic): DiagnosticCode | undefined {
+  if (diagnostic.source !== DIAGNOSTIC_SOURCE) return undefined
+  const {code} = diagnostic
+  return (typeof code === "object" ? code.value : code) as DiagnosticCode
+}
@@ -0,0 +1,59 @@
+/**
+ * Failure explanations - why a Slack lookup failed and what to do about it, for any view.
+ */
+
+import {RETRY_FAILED_AFTER, RateLimitedError, SlackAuthError, type SlackError} from "../../slack"
+
+/**
+ * What went wrong, in the user's terms, and what they can do about it.
+ * `channel` is how to name the channel the link points into, when there is one.
+ */
+export function explainFailure(error: SlackError, channel = "the channel"): {problem: string; remedy: string} {
+  switch (error.code) {
+    case "channel_not_found":
+      return {
+        problem: `Can't see ${channel}`,
+        remedy:
+          "It's private and the token isn't a member, or it was deleted. Invite the bot to a private channel " +
+          "with `/invite @your-app`; a link into another workspace needs that workspace's token."
+      }
+    case "missing_scope": {
+      const scope = error instanceof SlackAuthError ? error.neededScope : undefined
+      return {
+        problem: scope ? `The token is missing the \`${scope}\` scope` : "The token is missing a scope",
+        remedy:
+          "Add it under OAuth & Permissions at api.slack.com/apps, reinstall the app, and update `slackoscope.token`."
+      }
+    }
+    case "not_authed":
+      return {problem: "No Slack token is configured", remedy: "Set `slackoscope.token` in your settings."}
+    case "file_not_found":
+    case "file_deleted":
+      return {problem: "File not found", remedy: "It was deleted, or isn't shared anywhere the token can see."}
+    case "user_not_found":
+      return {problem: "User not found", remedy: "The link may point into another workspace."}
+  }
+
+  switch (error.kind) {
+    case "auth":
+      return {
+        problem: `Slack rejected the token (\`${error.code}\`)`,
+        remedy: "It may have been revoked or mistyped — check `slackoscope.token`."
+      }
+    case "transient":
+      return {
+        problem:
+          error.code === "network_error" ? "Couldn't reach Slack" : `Slack had trouble answering (\`${error.code}\`)`,
+        remedy: `Slackoscope tries again after ${RETRY_FAILED_AFTER / 1000}s.`
+      }
+    case "rateLimited": {
+      const wait = error instanceof RateLimitedError ? error.retryAfter : 0
+      return {
+        problem: `Slack is rate limiting \`${error.method}\``,
+        remedy: wait ? `Try again in ${wait}s.` : "Try again in a moment."
+      }
+    }
+    default:
+      return {problem: `Slack answered \`${error.code}\``, remedy: "Refresh once it's been sorted out."}
+  }
+}
@@ -2,6 +2,9 @@
  * Formatting utilities for display.
  */
 
+import {replaceEmoji, type SlackReaction} from "../../slack"
+import type {LinearIssue, LinearIssueRef} from "../../linear"
+
 /** Time thresholds for relative formatting */
 const TIME_THRESHOLDS: Array<{max: number; divisor: number; format: (n: number) => string}> = [
   {max: 60, divisor: 1, format: () => "just now"},
@@ -45,3 +48,36 @@ export const truncate = (text: string, maxLength: number): string =>
  * Collapse multi-line text to a single line for inline display.
  */
 export const collapseLine = (text: string): string => text.replace(/\n/g, " ↵ ").trim()
+
+/**
+ * A fenced code block. The fence outlasts any backtick run in the code, or the code could close it.
+ */
+export const codeBlock = (code: string, language = ""): string => {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length))
+  const fence = "`".repeat(Math.max(3, longestRun + 1))
+  return `${fence}${language}\n${code}\n${fence}`
+}
+
+/**
+ * Format reactions as emoji and counts, e.g. "👍 3 · ✅ 1".
+ */
+export const formatReactions = (reactions: SlackReaction[], separator: string): string =>
+  reactions.map(({name, count}) => `${replaceEmoji(`:${name}:`)} ${count}`).join(separator)
+
+/**
+ * List issue identifiers for a label, e.g. "ENG-1, ENG-2 or ENG-3".
+ */
+export const formatIdentifiers = (issues: {identifier: string}[]): string => {
+  const identifiers = issues.map(({identifier}) => identifier)
+  const last = identifiers.pop() ?? ""
+  return identifiers.length ? `${identifiers.join(", ")} or ${last}` : last
+}
+
+/**
+ * Arguments for a Linear command acting on these issues: the issue itself,
+ * or every candidate when there are several, for the command to ask which.
+ */
+export const linearIssueTarget = (issues: LinearIssue[]): LinearIssueRef | {issues: LinearIssueRef[]} => {
+  const refs = issues.map(({id, identifier, title}) => ({issueId: id, identifier, title}))
+  return refs.length === 1 ? {issueId: refs[0].issueId, identifier: refs[0].identifier} : {issues: refs}
+}
@@ -6,9 +6,24 @@
  */
 
 import * as vscode from "vscode"
-import type {SlackChannel, SlackUser, SlackMessage, SlackFile} from "../../slack"
-import type {LinearIssue} from "../../linear"
-import {formatRelativeTime, slackTsToDate, truncate} from "./formatting"
+import {
+  mrkdwnToMarkdown,
+  type SlackError,
+  type SlackChannel,
+  type SlackUser,
+  type SlackMessage,
+  type SlackFile,
+  type SlackAuthor,
+  type SlackReaction,
+  type SlackBlock,
+  type SlackAttachment,
+  type MentionNames,
+} from "../../slack"
+import type {LinearAttachment, LinearIssue} from "../../linear"
+import {codeBlock, formatRelativeTime, formatReactions, slackTsToDate, truncate} from "./formatting"
+import {renderBlocks, renderAttachment, escapeText} from "./blocks"
+import {LINK_SCHEMES, link} from "../../lib/markdownLinks"
+import {explainFailure} from "./failures"
 
 /** Action link definition */
 export interface ActionDef {
@@ -51,6 +66,34 @@ const actionLink = ({label, command, args}: ActionDef): string => {
   return `[${label}](command:${command}?${encoded})`
 }
 
+/** ✓ for done, ✗ for canceled, ◉ for anything still open */
+const stateIcon = ({type}: LinearIssue["state"]): string => (type === "completed" ? "✓" : type === "canceled" ? "✗" : "◉")
+
+/** Only `https:` images are shown; bots choose their own icon URL */
+const isHttps = (url: string | undefined): url is string => !!url && /^https:/i.test(url)
+
+/** A square `<img>`, with the URL escaped so it can't leave the attribute */
+const image = (url: string, size: number): string => {
+  const src = url.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+  return `<img src="${src}" width="${size}" height="${size}"/>`
+}
+
+/** The time now in an IANA zone, or undefined for a zone this runtime doesn't know */
+const localTimeIn = (timeZone: string): string | undefined => {
+  try {
+    return new Date().toLocaleTimeString(undefined, {timeZone, hour: "numeric", minute: "2-digit"})
+  } catch {
+    return undefined
+  }
+}
+
+/** Prefix every line as a blockquote */
+const quote = (markdown: string): string =>
+  markdown
+    .split("\n")
+    .map(line => `> ${line}`)
+    .join("\n")
+
 export class HoverContentBuilder {
   private sections: string[] = []
 
@@ -64,36 +107,143 @@ export class HoverContentBuilder {
     return this
   }
 
+  /**
+   * Add a full channel card for channel links: name, privacy, size, topic and purpose.
+   */
+  channelDetails(channel: SlackChannel): this {
+    const icon = channel.isPrivate ? "🔒" : "𐀶"
+    const privacy = channel.isPrivate ? "private channel" : "public channel"
+    const members =
+      channel.memberCount !== undefined ? ` · ${channel.memberCount} ${channel.memberCount === 1 ? "member" : "members"}` : ""
+    this.sections.push(`${icon} **#${channel.name}** · _${privacy}_${members}`)
+
+    if (channel.topic) this.sections.push(`**Topic:** ${mrkdwnToMarkdown(channel.topic)}`)
+    if (channel.purpose) this.sections.push(`**Purpose:** ${mrkdwnToMarkdown(channel.purpose)}`)
+    return this
+  }
+
+  /**
+   * Add a profile card for user links: avatar, names, title and local time.
+   */
+  userProfile(user: SlackUser): this {
+    const avatar = isHttps(user.avatarUrl) ? `${image(user.avatarUrl, 48)}\u2003` : ""
+    const realName = user.realName && user.realName !== user.displayName ? ` (${escapeText(user.realName)})` : ""
+    this.sections.push(`${avatar}**${escapeText(`@${user.displayName}`)}**${realName}`)
+
+    if (user.title) this.sections.push(`_${escapeText(user.title)}_`)
+
+    if (user.timeZone) {
+      const localTime = localTimeIn(user.timeZone)
+      const label = escapeText(user.timeZoneLabel ?? user.timeZone)
+      this.sections.push(localTime ? `🕓 ${label} · ${localTime} local time` : `🕓 ${label}`)
+    }
+    return this
+  }
+
   /**
    * Add author line with timestamp.
    */
-  author(user: SlackUser, message: SlackMessage, context?: string): this {
+  author(author: SlackAuthor, message: SlackMessage, context?: string): this {
     const time = formatRelativeTime(slackTsToDate(message.ts))
-    const byline = context ? `${context} by @${user.displayName}` : `@${user.displayName}`
-    this.sections.push(`**${byline}** (${time}):`)
+    const handle = escapeText(author.isBot ? author.name : `@${author.name}`)
+    const byline = context ? `${context} by ${handle}` : handle
+    const icon = author.isBot && isHttps(author.iconUrl) ? `${image(author.iconUrl, 16)} ` : ""
+    const badge = author.isBot ? " `APP`" : ""
+    const edited = message.edited ? ` _(edited ${formatRelativeTime(slackTsToDate(message.edited.ts))})_` : ""
+    this.sections.push(`${icon}**${byline}**${badge} (${time})${edited}:`)
+    return this
+  }
+
+  /**
+   * Add the tombstone for a link whose message was deleted, in place of author and message.
+   */
+  deleted(messageTs: string): this {
+    const time = formatRelativeTime(slackTsToDate(messageTs))
+    this.sections.push(`🗑 **Message deleted** (${time})`)
+    this.sections.push(quote("_This message is no longer in Slack, so the link leads nowhere._"))
+    return this
+  }
+
+  /**
+   * Add why a lookup failed and what to do about it, in place of the content that couldn't load.
+   * `channel` is the channel the link points into: looked up if the token can still see it, else its ID.
+   */
+  failure(error: SlackError, channel?: SlackChannel | string): this {
+    if (error.code === "not_in_channel" && channel) return this.notInChannel(channel)
+
+    const name = typeof channel === "string" ? `\`${channel}\`` : channel && `#${channel.name}`
+    const {problem, remedy} = explainFailure(error, name)
+    this.sections.push(`⚠️ **${problem}**`)
+    this.sections.push(quote(`_${remedy}_`))
+    return this
+  }
+
+  /**
+   * Add the `not_in_channel` explanation: a public channel gets a link to join it and retry,
+   * a private one (or one the token can't even look up) says how to invite the app.
+   */
+  notInChannel(channel: SlackChannel | string): this {
+    const isPublic = typeof channel !== "string" && !channel.isPrivate
+    const name = typeof channel === "string" ? `\`${channel}\`` : `#${channel.name}`
+    this.sections.push(`⚠️ **The token's bot isn't in ${name}**`)
+
+    if (isPublic) {
+      this.sections.push(quote("_It's a public channel, so Slackoscope can join it for you._"))
+      const join = actionLink({label: `⇥ Join #${channel.name} and retry`, command: "slackoscope.joinChannel", args: {channelId: channel.id}})
+      this.sections.push(`${ACTION_INDENT}${join}`)
+    } else {
+      this.sections.push(quote(`_It's private, so someone in it has to invite the app: run \`/invite @your-app\` in ${name}._`))
+    }
+    return this
+  }
+
+  /**
+   * Add message text as blockquote, converted from Slack mrkdwn.
+   */
+  message(text: string, mentions?: MentionNames): this {
+    this.sections.push(quote(mrkdwnToMarkdown(text, mentions)))
+    return this
+  }
+
+  /**
+   * Add a Block Kit layout as blockquote, in place of the message's fallback text.
+   */
+  blocks(blocks: SlackBlock[], mentions?: MentionNames): this {
+    const markdown = renderBlocks(blocks, mentions)
+    if (markdown) this.sections.push(quote(markdown))
+    return this
+  }
+
+  /**
+   * Add legacy attachments (alerts, CI results, link unfurls), each as its own blockquote.
+   */
+  attachments(attachments: SlackAttachment[], mentions?: MentionNames): this {
+    for (const attachment of attachments) {
+      const markdown = renderAttachment(attachment, mentions)
+      if (markdown) this.sections.push(quote(markdown))
+    }
     return this
   }
 
   /**
-   * Add message text as blockquote.
+   * Add the reactions row: `👍 3 · ✅ 1`. Custom emoji stay as `:shortcode:`.
    */
-  message(text: string): this {
-    const quoted = text
-      .split("\n")
-      .map(line => `> ${line}`)
-      .join("\n")
-    this.sections.push(quoted)
+  reactions(reactions: SlackReaction[] | undefined): this {
+    if (!reactions?.length) return this
+    this.sections.push(formatReactions(reactions, " · "))
     return this
   }
 
   /**
    * Add reply count as a subtle continuation below the message.
+   * `notLoaded` counts the replies left unfetched in a long thread.
    */
-  replies(count: number | undefined): this {
+  replies(count: number | undefined, notLoaded = 0): this {
     if (!count || count <= 0) return this
     const f = flourish(this.sections)
     const word = count === 1 ? "reply" : "replies"
-    this.sections.push(`\u2003\u2003${f} _${count} ${word}_`)
+    const more = notLoaded > 0 ? ` · ${notLoaded} more not loaded` : ""
+    this.sections.push(`\u2003\u2003${f} _${count} ${word}${more}_`)
     return this
   }
 
@@ -104,8 +254,36 @@ export class HoverContentBuilder {
     if (!issue) return this
     const {identifier, url, title, state} = issue
     const shortTitle = truncate(title, 50)
-    const stateIcon = state.type === "completed" ? "✓" : state.type === "canceled" ? "✗" : "◉"
-    this.sections.push(`🜃 [${identifier}](${url}) — "${shortTitle}" · ${stateIcon} ${state.name}`)
+    this.sections.push(`🜃 [${identifier}](${url}) — "${shortTitle}" · ${stateIcon(state)} ${state.name}`)
+    return this
+  }
+
+  /**
+   * Add a full issue card for Linear references in code: title, state, assignee and priority.
+   */
+  linearIssue(issue: LinearIssue): this {
+    const {identifier, url, title, state, assignee, priority, priorityLabel} = issue
+    this.sections.push(`🜃 **[${identifier}](${url})** · ${stateIcon(state)} ${state.name}`)
+    this.sections.push(quote(`**${escapeText(title)}**`))
+
+    // Issues cached before assignee and priority were fetched have neither
+    const details: string[] = []
+    if (assignee !== undefined) details.push(assignee ? `𖨆 ${escapeText(`@${assignee.name}`)}` : "𖨆 _Unassigned_")
+    if (priority && priorityLabel) details.push(`⚑ ${priorityLabel}`)
+    details.push(`updated ${formatRelativeTime(new Date(issue.updatedAt))}`)
+    this.sections.push(details.join(" · "))
+    return this
+  }
+
+  /**
+   * Add a Linear issue's attachments as one line of links: Slack threads, pull requests, code.
+   */
+  linearAttachments(attachments: LinearAttachment[]): this {
+    // Any integration can attach a URL, and a `command:` one would run on click
+    const linkable = attachments.filter(({url}) => LINK_SCHEMES.test(url))
+    if (!linkable.length) return this
+    const links = linkable.map(({title, url}) => link(truncate(title.replace(/[[\]]/g, ""), 40), url))
+    this.sections.push(`⛓ ${links.join(" · ")}`)
     return this
   }
 
@@ -118,24 +296,48 @@ export class HoverContentBuilder {
     this.sections.push("𜱃 **Files**:")
 
     for (const file of files) {
+      // Uploaders pick the name, so it's escaped before it becomes a label
+      const name = escapeText(file.name)
       if (file.mimetype.startsWith("image/") && file.thumb) {
-        this.sections.push(`![${file.name}](${file.thumb})`)
+        this.sections.push(`![${name}](${file.thumb})`)
       }
 
       const icon = file.mimetype.startsWith("image/") ? "▣" : "☰"
       const url = file.url_private_download || file.url_private || file.permalink || file.url
+      const label = link(`**${name}**`, url)
 
       if (showInfo) {
         const sizeKb = Math.round(file.size / 1024)
-        this.sections.push(`${icon} [**${file.name}**](${url}) (${sizeKb} KB)`)
+        this.sections.push(`${icon} ${label} (${sizeKb} KB · ${file.pretty_type ?? file.mimetype})`)
       } else {
-        this.sections.push(`${icon} [**${file.name}**](${url})`)
+        this.sections.push(`${icon} ${label}`)
       }
     }
 
     return this
   }
 
+  /**
+   * Add uploader line for a file permalink, the file counterpart of `author()`.
+   */
+  uploader(user: SlackUser | undefined, file: SlackFile): this {
+    const byline = user ? `Uploaded by ${escapeText(`@${user.displayName}`)}` : "Uploaded file"
+    const time = file.created ? ` (${formatRelativeTime(new Date(file.created * 1000))})` : ""
+    this.sections.push(`**${byline}**${time}:`)
+    return this
+  }
+
+  /**
+   * Add the preview of a text snippet as a fenced code block.
+   * Binary uploads have no preview, so this is a no-op for them.
+   */
+  snippet(file: SlackFile): this {
+    if (!file.preview) return this
+    const more = file.preview_is_truncated ? "\n\n_…preview truncated_" : ""
+    this.sections.push(`${codeBlock(file.preview, file.filetype)}${more}`)
+    return this
+  }
+
   /**
    * Add a decorated horizontal rule separator.
    */
@@ -3,16 +3,32 @@
  */
 
 export {HoverContentBuilder, type ActionDef} from "./hoverContent"
+export {explainFailure} from "./failures"
 export {
   createInlineDecorationType,
   buildInlineContent,
+  buildFileInlineContent,
+  buildDeletedInlineContent,
   createDecorationOptions,
   type DecorationContent,
 } from "./decorations"
+export {buildDiagnostics, diagnosticCode, DIAGNOSTIC_SOURCE, type DiagnosticCode, type DiagnosticInput} from "./diagnostics"
+export {renderBlocks, renderAttachment, colorBar, escapeText} from "./blocks"
+export {
+  renderThreadHtml,
+  renderThreadError,
+  renderThreadMarkdown,
+  type ThreadViewModel,
+  type ThreadViewMessage,
+  type ThreadPage,
+} from "./thread"
 export {
   formatRelativeTime,
   formatAbsoluteTime,
   slackTsToDate,
   truncate,
   collapseLine,
+  codeBlock,
+  formatIdentifiers,
+  linearIssueTarget,
 } from "./formatting"
@@ -0,0 +1,211 @@
+/**
+ * Thread view - a whole Slack thread as HTML for the webview panel, or as Markdown
+ * for the read-only `slackoscope:` document.
+ *
+ * Pure string building: `loadThreadView` gathers authors and mention names, this
+ * turns them into a page styled with the editor's theme colors, or a text document.
+ */
+
+import {
+  mrkdwnToHtml,
+  mrkdwnToMarkdown,
+  type MentionNames,
+  type SlackAuthor,
+  type SlackChannel,
+  type SlackFile,
+  type SlackMessage
+} from "../../slack"
+import {formatAbsoluteTime, formatReactions, formatRelativeTime, slackTsToDate} from "./formatting"
+
+/** One message in the thread, with what it takes to render it */
+export interface ThreadViewMessage {
+  message: SlackMessage
+  author: SlackAuthor
+  mentions: MentionNames
+}
+
+export interface ThreadViewModel {
+  channel?: SlackChannel
+  /** Parent first, then replies oldest first */
+  messages: ThreadViewMessage[]
+  /** The message the link points to; it gets highlighted and scrolled into view */
+  targetTs: string
+  /** Replies the thread has beyond `messages` - past the reply cap, or before a late reply's window */
+  moreReplies?: number
+}
+
+/** What the page needs from its webview: where resources may come from, and the script nonce */
+export interface ThreadPage {
+  cspSource: string
+  nonce: string
+}
+
+/**
+ * The thread as a full HTML page. Every message is escaped; only the refresh script runs.
+ */
+export function renderThreadHtml(thread: ThreadViewModel, page: ThreadPage): string {
+  const [parent, ...replies] = thread.messages
+  const title = thread.channel ? `#${escapeHtml(thread.channel.name)}` : "Slack thread"
+  const moreReplies = thread.moreReplies ?? 0
+  const total = replies.length + moreReplies
+  const replyCount = total === 1 ? "1 reply" : `${total} replies`
+  const notLoaded = moreReplies
+    ? `<p class="meta more">${moreReplies} more ${moreReplies === 1 ? "reply" : "replies"} not loaded</p>`
+    : ""
+
+  const body = `
+    <header>
+      <h1>${thread.channel?.isPrivate ? "🔒 " : ""}${title}</h1>
+      <span class="meta">${replyCount}</span>
+      <button id="refresh" title="Fetch the thread again">↻ Refresh</button>
+    </header>
+    ${parent ? renderMessage(parent, thread.targetTs) : ""}
+    ${replies.length ? `<div class="replies">${replies.map(reply => renderMessage(reply, thread.targetTs)).join("")}</div>` : ""}
+    ${notLoaded}`
+
+  return renderPage(title, body, page)
+}
+
+/**
+ * A page saying why the thread couldn't be shown, with the refresh button to try again.
+ */
+export function renderThreadError(problem: string, page: ThreadPage): string {
+  const body = `
+    <header>
+      <h1>Slack thread</h1>
+      <button id="refresh" title="Try again">↻ Refresh</button>
+    </header>
+    <p class="error">⚠️ ${escapeHtml(problem)}</p>`
+
+  return renderPage("Slack thread", body, page)
+}
+
+/**
+ * The thread as a Markdown document: a heading per message, so the outline lists them,
+ * with times written out in full since the text doesn't age the way a hover does.
+ */
+export function renderThreadMarkdown(thread: ThreadViewModel, permalink: string): string {
+  const [parent, ...replies] = thread.messages
+  const channel = thread.channel ? `#${thread.channel.name}` : "Slack"
+  const moreReplies = thread.moreReplies ?? 0
+  const total = replies.length + moreReplies
+
+  const lines = [
+    `# ${channel} thread`,
+    "",
+    `${total === 1 ? "1 reply" : `${total} replies`} · [Open in Slack](${permalink})`,
+    ...(parent ? ["", renderMessageMarkdown(parent, thread.targetTs)] : []),
+    ...replies.map(reply => `\n---\n\n${renderMessageMarkdown(reply, thread.targetTs)}`),
+    ...(moreReplies ? ["", `_${moreReplies} more ${moreReplies === 1 ? "reply" : "replies"} not loaded_`] : [])
+  ]
+  return `${lines.join("\n")}\n`
+}
+
+// Internals
+
+function renderMessageMarkdown({message, author, mentions}: ThreadViewMessage, targetTs: string): string {
+  const date = slackTsToDate(message.ts)
+  const badge = author.isBot ? " `APP`" : ""
+  const edited = message.edited ? " (edited)" : ""
+  const linked = message.ts === targetTs ? " ← linked" : ""
+  const files = (message.files ?? []).map(file => {
+    const link = file.permalink ?? file.url_private
+    const name = file.title || file.name
+    return `- 📎 ${link ? `[${name}](${link})` : name} (${Math.round(file.size / 1024)} KB)`
+  })
+  const reactions = message.reactions?.length ? [formatReactions(message.reactions, " · ")] : []
+
+  return [
+    `## ${author.name}${badge} · ${formatAbsoluteTime(date)}${edited}${linked}`,
+    "",
+    mrkdwnToMarkdown(message.text, mentions),
+    ...(files.length ? ["", ...files] : []),
+    ...(reactions.length ? ["", ...reactions] : [])
+  ].join("\n")
+}
+
+function renderMessage({message, author, mentions}: ThreadViewMessage, targetTs: string): string {
+  const date = slackTsToDate(message.ts)
+  const avatar = author.iconUrl
+    ? `<img class="avatar" src="${escapeHtml(author.iconUrl)}" alt="">`
+    : `<div class="avatar initial">${escapeHtml(author.name.charAt(0).toUpperCase())}</div>`
+  const badge = author.isBot ? ` <span class="badge">APP</span>` : ""
+  const edited = message.edited ? ` <span class="meta">(edited)</span>` : ""
+  const reactions = message.reactions?.length
+    ? `<div class="reactions">${escapeHtml(formatReactions(message.reactions, " · "))}</div>`
+    : ""
+  const files = message.files?.length ? `<ul class="files">${message.files.map(renderFile).join("")}</ul>` : ""
+
+  return `
+    <article class="message${message.ts === targetTs ? " target" : ""}" id="ts-${escapeHtml(message.ts)}">
+      ${avatar}
+      <div class="content">
+        <div class="byline">
+          <strong>${escapeHtml(author.name)}</strong>${badge}
+          <time title="${escapeHtml(date.toLocaleString())}">${formatAbsoluteTime(date)} · ${formatRelativeTime(date)}</time>${edited}
+        </div>
+        <div class="text">${mrkdwnToHtml(message.text, mentions)}</div>
+        ${files}
+        ${reactions}
+      </div>
+    </article>`
+}
+
+function renderFile(file: SlackFile): string {
+  const sizeKb = Math.round(file.size / 1024)
+  const name = escapeHtml(file.title || file.name)
+  const link = file.permalink ?? file.url_private
+  const label = link ? `<a href="${escapeHtml(link)}">${name}</a>` : name
+  return `<li>📎 ${label} <span class="meta">(${sizeKb} KB · ${escapeHtml(file.pretty_type ?? file.mimetype)})</span></li>`
+}
+
+function renderPage(title: string, body: string, {cspSource, nonce}: ThreadPage): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: ${cspSource}; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style nonce="${nonce}">${STYLES}</style>
+</head>
+<body>${body}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi()
+    document.getElementById("refresh").addEventListener("click", () => vscode.postMessage({type: "refresh"}))
+    document.querySelector(".target")?.scrollIntoView({block: "center"})
+  </script>
+</body>
+</html>`
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+const STYLES = `
+  body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 16px 16px; }
+  header { display: flex; align-items: baseline; gap: 12px; position: sticky; top: 0; padding: 12px 0; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+  h1 { font-size: 1.2em; margin: 0; }
+  button { margin-left: auto; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  .meta, time { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+  .message { display: flex; gap: 10px; padding: 10px 8px; border-radius: 4px; }
+  .message.target { background: var(--vscode-editor-findMatchHighlightBackground); outline: 1px solid var(--vscode-focusBorder); }
+  .replies { margin-left: 24px; border-left: 2px solid var(--vscode-panel-border); padding-left: 8px; }
+  .avatar { width: 36px; height: 36px; border-radius: 4px; flex-shrink: 0; }
+  .avatar.initial { display: flex; align-items: center; justify-content: center; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); font-weight: bold; }
+  .content { min-width: 0; }
+  .byline { display: flex; align-items: baseline; gap: 8px; }
+  .badge { font-size: 0.75em; padding: 0 4px; border-radius: 3px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+  .text { white-space: pre-wrap; word-wrap: break-word; margin-top: 2px; }
+  .mention { color: var(--vscode-textLink-foreground); }
+  a { color: var(--vscode-textLink-foreground); }
+  code { font-family: var(--vscode-editor-font-family); background: var(--vscode-textCodeBlock-background); padding: 0 3px; }
+  pre { background: var(--vscode-textCodeBlock-background); padding: 8px; white-space: pre-wrap; }
+  pre code { padding: 0; }
+  .files { list-style: none; padding: 0; margin: 6px 0 0; }
+  .reactions { margin-top: 6px; }
+  .more { margin: 8px 0 0 32px; font-style: italic; }
+  .error { color: var(--vscode-errorForeground); }
+`
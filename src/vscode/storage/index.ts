@@ -0,0 +1,5 @@
+/**
+ * Storage - what outlives a VS Code session.
+ */
+
+export {PersistentCache, CACHE_SCHEMA_VERSION, cacheAccount} from "./persistentCache"
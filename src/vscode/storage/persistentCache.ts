@@ -0,0 +1,163 @@
+/**
+ * PersistentCache - Keeps the Slack and Linear caches on disk across restarts.
+ *
+ * Lives in the extension's global storage as one versioned JSON file. Loaded once at
+ * activation, saved every minute when something changed, and on shutdown.
+ * Entries keep their fetch times, so the stores' TTLs still decide what is fresh.
+ * The file belongs to the tokens that filled it: another token may see another
+ * workspace, so a file saved under different tokens is ignored.
+ */
+
+import * as vscode from "vscode"
+import {createHash} from "crypto"
+import {mkdir, readFile, rename, rm, writeFile} from "fs/promises"
+import {join} from "path"
+import type {SlackStore, SlackStoreSnapshot, SlackResource, PersistedEntry} from "../../slack"
+import type {LinearStore, LinearStoreSnapshot} from "../../linear"
+import type {Settings} from "../config"
+
+/** Bump when the file layout or cached types change; older files are ignored */
+export const CACHE_SCHEMA_VERSION = 2
+
+const FILE_NAME = "cache.json"
+const SAVE_INTERVAL = 60_000
+
+/** Entries nobody has looked at for this long aren't worth loading */
+const MAX_AGE = 7 * 24 * 60 * 60_000
+
+interface CacheFile {
+  version: number
+  /** `cacheAccount()` of the tokens the entries were fetched with */
+  account: string
+  savedAt: number
+  slack: SlackStoreSnapshot
+  linear: LinearStoreSnapshot
+}
+
+export class PersistentCache implements vscode.Disposable {
+  private readonly file: string
+  private readonly timer: NodeJS.Timeout
+  private savedRevision = -1
+
+  constructor(
+    private readonly storageUri: vscode.Uri,
+    private readonly slackStore: SlackStore,
+    private readonly linearStore: LinearStore,
+    private readonly settings: Settings,
+    /** `cacheAccount()` of the current tokens */
+    private readonly account: () => string
+  ) {
+    this.file = join(storageUri.fsPath, FILE_NAME)
+    this.timer = setInterval(() => this.save(), SAVE_INTERVAL)
+    // A pending save is no reason to keep the process alive
+    this.timer.unref()
+  }
+
+  /**
+   * Load the saved cache into the stores. A missing, unreadable or outdated file
+   * just means starting empty.
+   */
+  async load(): Promise<void> {
+    if (!this.settings.cache.persist) return
+
+    let cached: CacheFile
+    try {
+      cached = JSON.parse(await readFile(this.file, "utf8")) as CacheFile
+    } catch {
+      return
+    }
+    if (cached.version !== CACHE_SCHEMA_VERSION || cached.account !== this.account()) return
+
+    const cutoff = Date.now() - MAX_AGE
+    const recent = <T extends {usedAt: number}>(entries: T[] = []) => entries.filter(entry => entry.usedAt >= cutoff)
+
+    this.slackStore.restore(
+      Object.fromEntries(Object.entries(cached.slack ?? {}).map(([resource, entries]) => [resource, recent(entries)]))
+    )
+    this.linearStore.restore({issues: recent(cached.linear?.issues)})
+    this.savedRevision = this.revision()
+  }
+
+  /**
+   * Write the stores to disk if they changed since the last save, keeping only the
+   * `maxEntries` most recently used entries. With persistence off, removes the file instead.
+   * The stores are read before the first `await`, so they may be cleared as soon as this returns.
+   */
+  async save(): Promise<void> {
+    if (!this.settings.cache.persist) return this.clear()
+
+    const revision = this.revision()
+    if (revision === this.savedRevision) return
+
+    const {slack, linear} = capEntries(
+      this.slackStore.snapshot(),
+      this.linearStore.snapshot(),
+      this.settings.cache.maxEntries
+    )
+    const contents: CacheFile = {
+      version: CACHE_SCHEMA_VERSION,
+      account: this.account(),
+      savedAt: Date.now(),
+      slack,
+      linear
+    }
+
+    try {
+      await mkdir(this.storageUri.fsPath, {recursive: true})
+      // Write-then-rename, so a crash mid-write can't leave a truncated cache behind
+      await writeFile(`${this.file}.tmp`, JSON.stringify(contents))
+      await rename(`${this.file}.tmp`, this.file)
+      this.savedRevision = revision
+    } catch (error) {
+      console.error("Failed to save Slackoscope cache:", error)
+    }
+  }
+
+  /** Delete the saved cache */
+  async clear(): Promise<void> {
+    await rm(this.file, {force: true})
+    this.savedRevision = this.revision()
+  }
+
+  private revision(): number {
+    return this.slackStore.revision + this.linearStore.revision
+  }
+
+  /** Stop saving periodically and save one last time; the returned write can be awaited */
+  dispose(): Promise<void> {
+    clearInterval(this.timer)
+    return this.save()
+  }
+}
+
+/** Identify the tokens a cache was filled with by a hash, so the tokens never reach the disk */
+export function cacheAccount(...tokens: Array<string | undefined>): string {
+  return createHash("sha256")
+    .update(tokens.map(token => token ?? "").join("\n"))
+    .digest("hex")
+    .slice(0, 16)
+}
+
+/** Keep the `max` most recently used entries across both stores (LRU eviction) */
+function capEntries(
+  slack: SlackStoreSnapshot,
+  linear: LinearStoreSnapshot,
+  max: number
+): {slack: SlackStoreSnapshot; linear: LinearStoreSnapshot} {
+  const all = [
+    ...Object.entries(slack).flatMap(([resource, entries]) =>
+      entries.map(entry => ({store: resource as SlackResource, entry}))
+    ),
+    ...linear.issues.map(entry => ({store: "issues" as const, entry}))
+  ]
+  if (all.length <= max) return {slack, linear}
+
+  const kept = all.sort((a, b) => b.entry.usedAt - a.entry.usedAt).slice(0, max)
+  const keptSlack: SlackStoreSnapshot = {messages: [], threads: [], users: [], channels: [], files: []}
+  const keptLinear: LinearStoreSnapshot = {issues: []}
+  for (const {store, entry} of kept) {
+    if (store === "issues") keptLinear.issues.push(entry as LinearStoreSnapshot["issues"][number])
+    else keptSlack[store].push(entry as PersistedEntry)
+  }
+  return {slack: keptSlack, linear: keptLinear}
+}